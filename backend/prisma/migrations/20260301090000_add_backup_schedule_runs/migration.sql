@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ScheduleRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "backup_schedule_runs" (
+    "id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "router_id" TEXT,
+    "backup_id" TEXT,
+    "run_status" "ScheduleRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "error_message" TEXT,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "backup_schedule_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backup_schedule_runs_schedule_id_started_at_idx" ON "backup_schedule_runs"("schedule_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "backup_schedule_runs_router_id_idx" ON "backup_schedule_runs"("router_id");
+
+-- AddForeignKey
+ALTER TABLE "backup_schedule_runs" ADD CONSTRAINT "backup_schedule_runs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "backup_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backup_schedule_runs" ADD CONSTRAINT "backup_schedule_runs_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
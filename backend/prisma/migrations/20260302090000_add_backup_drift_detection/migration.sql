@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "router_backups" ADD COLUMN     "change_summary" JSONB,
+ADD COLUMN     "config_hash" TEXT,
+ADD COLUMN     "has_changes" BOOLEAN,
+ADD COLUMN     "previous_backup_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "router_backups_router_id_has_changes_idx" ON "router_backups"("router_id", "has_changes");
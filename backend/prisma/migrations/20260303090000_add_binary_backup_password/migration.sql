@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "router_backups" ADD COLUMN     "backup_password" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "router_backups" ADD COLUMN     "sections" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "backup_restores" ADD COLUMN     "sections" TEXT[] DEFAULT ARRAY[]::TEXT[];
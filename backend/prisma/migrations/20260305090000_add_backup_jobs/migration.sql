@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "BackupJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "BackupJobItemStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "backup_jobs" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT,
+    "router_type" "RouterType",
+    "backup_type" "BackupType" NOT NULL DEFAULT 'EXPORT',
+    "compact" BOOLEAN NOT NULL DEFAULT false,
+    "job_status" "BackupJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "total_routers" INTEGER NOT NULL DEFAULT 0,
+    "succeeded_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "triggered_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "backup_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backup_job_items" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "router_id" TEXT NOT NULL,
+    "backup_id" TEXT,
+    "item_status" "BackupJobItemStatus" NOT NULL DEFAULT 'QUEUED',
+    "error_message" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "backup_job_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backup_jobs_created_at_idx" ON "backup_jobs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "backup_job_items_job_id_idx" ON "backup_job_items"("job_id");
+
+-- CreateIndex
+CREATE INDEX "backup_job_items_router_id_idx" ON "backup_job_items"("router_id");
+
+-- AddForeignKey
+ALTER TABLE "backup_job_items" ADD CONSTRAINT "backup_job_items_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "backup_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backup_job_items" ADD CONSTRAINT "backup_job_items_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
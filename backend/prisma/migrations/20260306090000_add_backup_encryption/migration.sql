@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "router_backups" ADD COLUMN     "encryption_algorithm" TEXT,
+ADD COLUMN     "master_key_id" TEXT,
+ADD COLUMN     "wrapped_data_key" TEXT;
+
+-- CreateIndex
+CREATE INDEX "router_backups_master_key_id_idx" ON "router_backups"("master_key_id");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "routers" ADD COLUMN     "backup_show_sensitive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "router_backups" ADD COLUMN     "contains_sensitive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "backup_schedules" ADD COLUMN     "show_sensitive" BOOLEAN;
+
+-- Binary backups always carry every secret
+UPDATE "router_backups" SET "contains_sensitive" = true WHERE "backup_type" = 'BINARY';
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "RouterApiTransport" AS ENUM ('PLAIN', 'SSL', 'SSL_VERIFY');
+
+-- AlterTable
+ALTER TABLE "routers" ADD COLUMN     "api_transport" "RouterApiTransport" NOT NULL DEFAULT 'PLAIN',
+ADD COLUMN     "api_tls_ca" TEXT,
+ADD COLUMN     "api_tls_fingerprint" TEXT;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "SshAuthMethod" AS ENUM ('PASSWORD', 'PUBLIC_KEY');
+
+-- AlterTable
+ALTER TABLE "routers" ADD COLUMN     "ssh_auth_method" "SshAuthMethod" NOT NULL DEFAULT 'PASSWORD',
+ADD COLUMN     "ssh_key_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "ssh_keys" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT,
+    "name" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "public_key" TEXT NOT NULL,
+    "private_key" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ssh_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ssh_keys_company_id_is_active_idx" ON "ssh_keys"("company_id", "is_active");
+
+-- AddForeignKey
+ALTER TABLE "routers" ADD CONSTRAINT "routers_ssh_key_id_fkey" FOREIGN KEY ("ssh_key_id") REFERENCES "ssh_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ssh_keys" ADD CONSTRAINT "ssh_keys_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
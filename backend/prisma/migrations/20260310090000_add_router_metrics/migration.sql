@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "MetricResolution" AS ENUM ('RAW', 'FIVE_MINUTES', 'ONE_HOUR');
+
+-- AlterTable
+ALTER TABLE "routers" ADD COLUMN     "is_reachable" BOOLEAN,
+ADD COLUMN     "last_poll_error" TEXT,
+ADD COLUMN     "last_polled_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "router_metrics" (
+    "id" TEXT NOT NULL,
+    "router_id" TEXT NOT NULL,
+    "resolution" "MetricResolution" NOT NULL DEFAULT 'RAW',
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "sample_count" INTEGER NOT NULL DEFAULT 1,
+    "cpu_load" DOUBLE PRECISION,
+    "memory_used" BIGINT,
+    "memory_total" BIGINT,
+    "uptime" INTEGER,
+    "temperature" DOUBLE PRECISION,
+    "voltage" DOUBLE PRECISION,
+    "interfaces" JSONB,
+
+    CONSTRAINT "router_metrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "router_metrics_router_id_resolution_timestamp_idx" ON "router_metrics"("router_id", "resolution", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "router_metrics_resolution_timestamp_idx" ON "router_metrics"("resolution", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "router_metrics" ADD CONSTRAINT "router_metrics_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,120 @@
+-- CreateEnum
+CREATE TYPE "AlertRuleType" AS ENUM ('ROUTER_UNREACHABLE', 'BGP_SESSION_DOWN', 'BACKUP_FAILED', 'RESOURCE_THRESHOLD');
+
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('INFO', 'WARNING', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "IncidentStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('EMAIL', 'WEBHOOK', 'TELEGRAM');
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT,
+    "router_id" TEXT,
+    "name" TEXT NOT NULL,
+    "type" "AlertRuleType" NOT NULL,
+    "severity" "AlertSeverity" NOT NULL DEFAULT 'WARNING',
+    "metric" TEXT,
+    "operator" TEXT,
+    "threshold" DOUBLE PRECISION,
+    "is_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_incidents" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "router_id" TEXT NOT NULL,
+    "dedup_key" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "status" "IncidentStatus" NOT NULL DEFAULT 'OPEN',
+    "severity" "AlertSeverity" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+
+    CONSTRAINT "alert_incidents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_channels" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT,
+    "name" TEXT NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "settings" JSONB NOT NULL,
+    "secret" TEXT,
+    "is_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "last_delivery_at" TIMESTAMP(3),
+    "last_delivery_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_subscriptions" (
+    "id" TEXT NOT NULL,
+    "channel_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "min_severity" "AlertSeverity" NOT NULL DEFAULT 'WARNING',
+    "target" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_rules_is_enabled_idx" ON "alert_rules"("is_enabled");
+
+-- CreateIndex
+CREATE INDEX "alert_incidents_dedup_key_status_idx" ON "alert_incidents"("dedup_key", "status");
+
+-- CreateIndex
+CREATE INDEX "alert_incidents_status_opened_at_idx" ON "alert_incidents"("status", "opened_at");
+
+-- CreateIndex
+CREATE INDEX "alert_incidents_router_id_idx" ON "alert_incidents"("router_id");
+
+-- CreateIndex
+CREATE INDEX "notification_channels_company_id_idx" ON "notification_channels"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_subscriptions_channel_id_user_id_key" ON "notification_subscriptions"("channel_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_incidents" ADD CONSTRAINT "alert_incidents_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_incidents" ADD CONSTRAINT "alert_incidents_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_channels" ADD CONSTRAINT "notification_channels_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_subscriptions" ADD CONSTRAINT "notification_subscriptions_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_subscriptions" ADD CONSTRAINT "notification_subscriptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "bgp_peers" (
+    "id" TEXT NOT NULL,
+    "router_id" TEXT NOT NULL,
+    "peer_key" TEXT NOT NULL,
+    "remote_address" TEXT,
+    "remote_as" TEXT,
+    "state" TEXT NOT NULL,
+    "prefix_count" INTEGER,
+    "state_since" TIMESTAMP(3) NOT NULL,
+    "last_polled_at" TIMESTAMP(3) NOT NULL,
+    "is_flapping" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bgp_peers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bgp_peer_transitions" (
+    "id" TEXT NOT NULL,
+    "peer_id" TEXT NOT NULL,
+    "from_state" TEXT,
+    "to_state" TEXT NOT NULL,
+    "prefix_count" INTEGER,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bgp_peer_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bgp_peers_router_id_peer_key_key" ON "bgp_peers"("router_id", "peer_key");
+
+-- CreateIndex
+CREATE INDEX "bgp_peer_transitions_peer_id_timestamp_idx" ON "bgp_peer_transitions"("peer_id", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "bgp_peer_transitions_timestamp_idx" ON "bgp_peer_transitions"("timestamp");
+
+-- AddForeignKey
+ALTER TABLE "bgp_peers" ADD CONSTRAINT "bgp_peers_router_id_fkey" FOREIGN KEY ("router_id") REFERENCES "routers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bgp_peer_transitions" ADD CONSTRAINT "bgp_peer_transitions_peer_id_fkey" FOREIGN KEY ("peer_id") REFERENCES "bgp_peers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
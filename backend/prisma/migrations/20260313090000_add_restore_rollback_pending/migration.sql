@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "RestoreStatus" ADD VALUE 'ROLLBACK_PENDING';
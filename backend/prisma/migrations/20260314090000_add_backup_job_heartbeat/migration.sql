@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "backup_jobs" ADD COLUMN     "heartbeat_at" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "poller_leases" (
+    "name" TEXT NOT NULL,
+    "last_run_at" TIMESTAMP(3),
+    "next_run_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "poller_leases_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,16 @@
+-- Resolve duplicate unresolved incidents opened by concurrent evaluations, keeping the oldest
+UPDATE "alert_incidents" AS "duplicate"
+SET "status" = 'RESOLVED',
+    "resolved_at" = CURRENT_TIMESTAMP
+WHERE "duplicate"."status" <> 'RESOLVED'
+  AND EXISTS (
+    SELECT 1
+    FROM "alert_incidents" AS "kept"
+    WHERE "kept"."dedup_key" = "duplicate"."dedup_key"
+      AND "kept"."status" <> 'RESOLVED'
+      AND ("kept"."opened_at", "kept"."id") < ("duplicate"."opened_at", "duplicate"."id")
+  );
+
+-- CreateIndex
+-- Partial index, not expressible in schema.prisma
+CREATE UNIQUE INDEX "alert_incidents_dedup_key_unresolved_key" ON "alert_incidents"("dedup_key") WHERE "status" <> 'RESOLVED';
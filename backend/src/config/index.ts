@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import type { StorageDriverName } from '../lib/storage-driver';
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -24,6 +25,15 @@ export const config = {
   encryption: {
     key: process.env.ENCRYPTION_KEY || ''
   },
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || 'r2') as StorageDriverName,
+    // Signed download links served by the API itself (local files, encrypted backups)
+    publicUrl: process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || '5000'}`,
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key',
+    local: {
+      root: process.env.STORAGE_LOCAL_PATH || path.join(__dirname, '../../storage')
+    }
+  },
   r2: {
     accountId: process.env.R2_ACCOUNT_ID || '',
     accessKeyId: process.env.R2_ACCESS_KEY_ID || '',
@@ -36,8 +46,71 @@ export const config = {
     retention: {
       daily: parseInt(process.env.BACKUP_RETENTION_DAILY || '7', 10),
       weekly: parseInt(process.env.BACKUP_RETENTION_WEEKLY || '4', 10),
-      monthly: parseInt(process.env.BACKUP_RETENTION_MONTHLY || '12', 10)
+      monthly: parseInt(process.env.BACKUP_RETENTION_MONTHLY || '12', 10),
+      enabled: process.env.BACKUP_RETENTION_ENABLED === 'true'
+    },
+    scheduler: {
+      enabled: process.env.BACKUP_SCHEDULER_ENABLED !== 'false',
+      pollIntervalMs: parseInt(process.env.BACKUP_SCHEDULER_POLL_INTERVAL_MS || '60000', 10),
+      concurrency: parseInt(process.env.BACKUP_SCHEDULER_CONCURRENCY || '3', 10)
+    },
+    jobs: {
+      concurrency: parseInt(process.env.BACKUP_JOB_CONCURRENCY || '5', 10)
+    },
+    encryption: {
+      enabled: process.env.BACKUP_ENCRYPTION_ENABLED !== 'false',
+      masterKey: process.env.BACKUP_MASTER_KEY || process.env.ENCRYPTION_KEY || '',
+      // Old master keys, comma separated, still accepted for decryption during rotation
+      previousMasterKeys: (process.env.BACKUP_MASTER_KEY_PREVIOUS || '')
+        .split(',')
+        .map(key => key.trim())
+        .filter(Boolean)
+    },
+    restore: {
+      rollbackEnabled: process.env.RESTORE_ROLLBACK_ENABLED !== 'false',
+      rollbackGraceSeconds: parseInt(process.env.RESTORE_ROLLBACK_GRACE_SECONDS || '300', 10),
+      probeIntervalSeconds: parseInt(process.env.RESTORE_PROBE_INTERVAL_SECONDS || '15', 10)
+    }
+  },
+  routeros: {
+    pool: {
+      maxSessionsPerRouter: parseInt(process.env.ROUTEROS_POOL_MAX_SESSIONS || '3', 10),
+      idleTimeoutMs: parseInt(process.env.ROUTEROS_POOL_IDLE_TIMEOUT_MS || '60000', 10),
+      // Idle sessions older than this are probed before being reused
+      healthCheckAfterMs: parseInt(process.env.ROUTEROS_POOL_HEALTH_CHECK_AFTER_MS || '15000', 10),
+      acquireTimeoutMs: parseInt(process.env.ROUTEROS_POOL_ACQUIRE_TIMEOUT_MS || '30000', 10)
+    },
+    sshKeys: {
+      // Routers updated at the same time when deploying or rotating a key
+      concurrency: parseInt(process.env.ROUTEROS_SSH_KEY_CONCURRENCY || '5', 10)
+    },
+    monitoring: {
+      enabled: process.env.ROUTEROS_MONITORING_ENABLED !== 'false',
+      pollIntervalMs: parseInt(process.env.ROUTEROS_MONITORING_POLL_INTERVAL_MS || '60000', 10),
+      concurrency: parseInt(process.env.ROUTEROS_MONITORING_CONCURRENCY || '10', 10),
+      // How long each resolution is kept before it is pruned
+      retention: {
+        rawHours: parseInt(process.env.ROUTEROS_MONITORING_RETENTION_RAW_HOURS || '24', 10),
+        fiveMinuteDays: parseInt(process.env.ROUTEROS_MONITORING_RETENTION_5M_DAYS || '8', 10),
+        hourlyDays: parseInt(process.env.ROUTEROS_MONITORING_RETENTION_1H_DAYS || '90', 10)
+      }
+    },
+    bgpHistory: {
+      enabled: process.env.ROUTEROS_BGP_HISTORY_ENABLED !== 'false',
+      pollIntervalMs: parseInt(process.env.ROUTEROS_BGP_HISTORY_POLL_INTERVAL_MS || '60000', 10),
+      // A peer is flapping once it changed state this many times within the window
+      flapThreshold: parseInt(process.env.ROUTEROS_BGP_FLAP_THRESHOLD || '5', 10),
+      flapWindowMinutes: parseInt(process.env.ROUTEROS_BGP_FLAP_WINDOW_MINUTES || '60', 10),
+      retentionDays: parseInt(process.env.ROUTEROS_BGP_HISTORY_RETENTION_DAYS || '90', 10)
     }
+  },
+  alerting: {
+    // Rules are evaluated after every health poll, so this needs ROUTEROS_MONITORING_ENABLED too
+    enabled: process.env.ALERTING_ENABLED !== 'false',
+    // Link to the dashboard in notifications
+    dashboardUrl: process.env.ALERTING_DASHBOARD_URL || process.env.CORS_ORIGIN || 'http://localhost:5173',
+    deliveryTimeoutMs: parseInt(process.env.ALERTING_DELIVERY_TIMEOUT_MS || '10000', 10),
+    telegramApiUrl: process.env.TELEGRAM_API_URL || 'https://api.telegram.org'
   }
 };
 
@@ -45,13 +118,18 @@ export const config = {
 const requiredEnvVars = [
   'DATABASE_URL',
   'JWT_SECRET',
-  'ENCRYPTION_KEY',
-  'R2_ACCOUNT_ID',
-  'R2_ACCESS_KEY_ID',
-  'R2_SECRET_ACCESS_KEY',
-  'R2_BUCKET_NAME'
+  'ENCRYPTION_KEY'
 ];
 
+// R2 credentials are only needed when backups are stored in R2
+if (config.storage.driver === 'r2') {
+  requiredEnvVars.push('R2_ACCOUNT_ID', 'R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_BUCKET_NAME');
+}
+
+if (!['r2', 'local'].includes(config.storage.driver)) {
+  throw new Error(`STORAGE_DRIVER must be "r2" or "local", got: ${config.storage.driver}`);
+}
+
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
     throw new Error(`Missing required environment variable: ${envVar}`);
@@ -62,3 +140,15 @@ for (const envVar of requiredEnvVars) {
 if (process.env.ENCRYPTION_KEY && process.env.ENCRYPTION_KEY.length !== 32) {
   throw new Error('ENCRYPTION_KEY must be exactly 32 characters for AES-256-GCM');
 }
+
+// Validate backup master keys (same AES-256-GCM requirement)
+for (const key of [process.env.BACKUP_MASTER_KEY, ...config.backup.encryption.previousMasterKeys]) {
+  if (key && key.length !== 32) {
+    throw new Error('BACKUP_MASTER_KEY and BACKUP_MASTER_KEY_PREVIOUS must be exactly 32 characters for AES-256-GCM');
+  }
+}
+
+// The rollback scheduler fires after the grace period, probing needs at least one interval before it
+if (config.backup.restore.rollbackGraceSeconds <= config.backup.restore.probeIntervalSeconds) {
+  throw new Error('RESTORE_ROLLBACK_GRACE_SECONDS must be greater than RESTORE_PROBE_INTERVAL_SECONDS');
+}
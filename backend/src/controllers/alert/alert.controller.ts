@@ -0,0 +1,214 @@
+import { Request, Response, NextFunction } from 'express';
+import { alertRuleService } from '../../services/alert/alert.rule.service';
+import { alertIncidentService } from '../../services/alert/alert.incident.service';
+import {
+  alertRuleIdParamSchema,
+  incidentIdParamSchema,
+  listAlertRulesSchema,
+  createAlertRuleSchema,
+  updateAlertRuleSchema,
+  listIncidentsSchema
+} from '../../validators/alert/alert.validator';
+
+/**
+ * Alert Controller
+ * Handles HTTP requests for alert rules and incidents
+ */
+
+export class AlertController {
+  /**
+   * GET /api/alerts/rules
+   * List alert rules
+   */
+  async listRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const filter = listAlertRulesSchema.parse(req.query);
+
+      const rules = await alertRuleService.listRules(filter);
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/alerts/rules
+   * Create an alert rule
+   */
+  async createRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = createAlertRuleSchema.parse(req.body);
+
+      const rule = await alertRuleService.createRule(validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Alert rule created',
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/rules/:ruleId
+   * Get alert rule details
+   */
+  async getRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { ruleId } = alertRuleIdParamSchema.parse(req.params);
+
+      const rule = await alertRuleService.getRule(ruleId);
+
+      res.json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/alerts/rules/:ruleId
+   * Update an alert rule
+   */
+  async updateRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { ruleId } = alertRuleIdParamSchema.parse(req.params);
+      const validatedData = updateAlertRuleSchema.parse(req.body);
+
+      const rule = await alertRuleService.updateRule(ruleId, validatedData);
+
+      res.json({
+        success: true,
+        message: 'Alert rule updated',
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/alerts/rules/:ruleId
+   * Delete an alert rule and its incidents
+   */
+  async deleteRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { ruleId } = alertRuleIdParamSchema.parse(req.params);
+
+      await alertRuleService.deleteRule(ruleId);
+
+      res.json({
+        success: true,
+        message: 'Alert rule deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/incidents
+   * List incidents with filters and pagination
+   */
+  async listIncidents(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = listIncidentsSchema.parse(req.query);
+
+      const result = await alertIncidentService.listIncidents(query);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/incidents/summary
+   * Unresolved incident counts
+   */
+  async getSummary(_req: Request, res: Response, next: NextFunction) {
+    try {
+      const summary = await alertIncidentService.getSummary();
+
+      res.json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/incidents/:incidentId
+   * Get incident details
+   */
+  async getIncident(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { incidentId } = incidentIdParamSchema.parse(req.params);
+
+      const incident = await alertIncidentService.getIncident(incidentId);
+
+      res.json({
+        success: true,
+        data: incident
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/alerts/incidents/:incidentId/acknowledge
+   * Acknowledge an open incident
+   */
+  async acknowledgeIncident(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { incidentId } = incidentIdParamSchema.parse(req.params);
+
+      const incident = await alertIncidentService.acknowledgeIncident(incidentId, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Incident acknowledged',
+        data: incident
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/alerts/incidents/:incidentId/resolve
+   * Resolve an incident by hand
+   */
+  async resolveIncident(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { incidentId } = incidentIdParamSchema.parse(req.params);
+
+      const incident = await alertIncidentService.resolveIncident(incidentId, req.user!.userId);
+
+      res.json({
+        success: true,
+        message: 'Incident resolved',
+        data: incident
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const alertController = new AlertController();
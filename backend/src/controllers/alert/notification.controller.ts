@@ -0,0 +1,205 @@
+import { Request, Response, NextFunction } from 'express';
+import { notificationChannelService } from '../../services/alert/notification.channel.service';
+import {
+  channelIdParamSchema,
+  listChannelsSchema,
+  createChannelSchema,
+  updateChannelSchema,
+  channelSettingsSchemas,
+  subscribeSchema
+} from '../../validators/alert/notification.validator';
+
+/**
+ * Notification Controller
+ * Handles HTTP requests for notification channels and user subscriptions
+ */
+
+export class NotificationController {
+  /**
+   * GET /api/alerts/channels
+   * List notification channels (secrets are never returned)
+   */
+  async listChannels(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { companyId } = listChannelsSchema.parse(req.query);
+
+      const channels = await notificationChannelService.listChannels(companyId);
+
+      res.json({
+        success: true,
+        data: channels
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/alerts/channels
+   * Create a notification channel
+   */
+  async createChannel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = createChannelSchema.parse(req.body);
+
+      const channel = await notificationChannelService.createChannel(validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Notification channel created',
+        data: channel
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/channels/:channelId
+   * Get notification channel details
+   */
+  async getChannel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+
+      const channel = await notificationChannelService.getChannel(channelId);
+
+      res.json({
+        success: true,
+        data: channel
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/alerts/channels/:channelId
+   * Update a notification channel
+   */
+  async updateChannel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+      const validatedData = updateChannelSchema.parse(req.body);
+
+      // Settings are checked against the type of the stored channel
+      let settings: Record<string, unknown> | undefined;
+      if (validatedData.settings) {
+        const existing = await notificationChannelService.getChannel(channelId);
+        settings = channelSettingsSchemas[existing.type].parse(validatedData.settings);
+      }
+
+      const channel = await notificationChannelService.updateChannel(channelId, {
+        ...validatedData,
+        settings
+      });
+
+      res.json({
+        success: true,
+        message: 'Notification channel updated',
+        data: channel
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/alerts/channels/:channelId
+   * Delete a notification channel and its subscriptions
+   */
+  async deleteChannel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+
+      await notificationChannelService.deleteChannel(channelId);
+
+      res.json({
+        success: true,
+        message: 'Notification channel deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/alerts/channels/:channelId/test
+   * Send a test message to the channel's subscribers
+   */
+  async testChannel(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+
+      const result = await notificationChannelService.testChannel(channelId);
+
+      res.json({
+        success: true,
+        message: result.success ? 'Test notification sent' : 'Test notification failed',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/alerts/subscriptions
+   * Channels the current user can subscribe to, with their subscription
+   */
+  async listSubscriptions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const channels = await notificationChannelService.listSubscriptions(req.user!.userId);
+
+      res.json({
+        success: true,
+        data: channels
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/alerts/subscriptions/:channelId
+   * Subscribe the current user to a channel, or update the subscription
+   */
+  async subscribe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+      const validatedData = subscribeSchema.parse(req.body);
+
+      const subscription = await notificationChannelService.subscribe(req.user!.userId, channelId, validatedData);
+
+      res.json({
+        success: true,
+        message: 'Subscribed to notification channel',
+        data: subscription
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/alerts/subscriptions/:channelId
+   * Unsubscribe the current user from a channel
+   */
+  async unsubscribe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { channelId } = channelIdParamSchema.parse(req.params);
+
+      await notificationChannelService.unsubscribe(req.user!.userId, channelId);
+
+      res.json({
+        success: true,
+        message: 'Unsubscribed from notification channel'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationController = new NotificationController();
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { RouterService } from '../services/router/router.service';
 import { routerOSTestService } from '../services/router/router.test.service';
+import { routerOSPool } from '../lib/routeros/pool';
 import { createRouterSchema, updateRouterSchema, routerIdParamSchema } from '../validators/router/router.validator';
 import { z } from 'zod';
 
@@ -44,6 +45,20 @@ export class RouterController {
     }
   };
 
+  /**
+   * Get RouterOS API connection pool usage (sessions per router, reuse counters)
+   */
+  getPoolMetrics = async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json({
+        status: 'success',
+        data: routerOSPool.getMetrics()
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
@@ -5,9 +5,11 @@ import {
   restoreBackupSchema,
   pinBackupSchema,
   listBackupsSchema,
-  downloadUrlSchema
+  downloadUrlSchema,
+  compareBackupsSchema,
+  changeTimelineSchema
 } from '../../validators/routeros/routeros.backup.validator';
-import { TriggerType } from '@prisma/client';
+import { TriggerType, RestoreType } from '@prisma/client';
 
 /**
  * RouterOS Backup Controller
@@ -25,12 +27,43 @@ export class RouterOSBackupController {
       const validatedData = triggerBackupSchema.parse(req.body);
       const userId = (req as any).user?.userId; // From auth middleware
 
+      // Multiple types run one after another, each produces its own backup record
+      if (validatedData.backupTypes) {
+        const backups = [];
+        for (const backupType of validatedData.backupTypes) {
+          const backup = await routerOSBackupService.createBackup({
+            routerId: routerId,
+            triggeredBy: userId,
+            triggerType: TriggerType.MANUAL,
+            backupType,
+            compact: validatedData.compact,
+            binaryPassword: validatedData.binaryPassword,
+            showSensitive: validatedData.showSensitive
+          });
+
+          backups.push({
+            ...backup,
+            fileSize: backup.fileSize.toString()
+          });
+        }
+
+        res.status(201).json({
+          success: true,
+          message: `${backups.length} backups created successfully`,
+          data: backups
+        });
+        return;
+      }
+
       const backup = await routerOSBackupService.createBackup({
         routerId: routerId,
         triggeredBy: userId,
         triggerType: TriggerType.MANUAL,
         backupType: validatedData.backupType,
-        compact: validatedData.compact
+        compact: validatedData.compact,
+        binaryPassword: validatedData.binaryPassword,
+        sections: validatedData.sections,
+        showSensitive: validatedData.showSensitive
       });
 
       // Convert BigInt fields to strings for JSON serialization
@@ -62,6 +95,7 @@ export class RouterOSBackupController {
         companyId: validatedQuery.companyId,
         status: validatedQuery.status,
         isPinned: validatedQuery.isPinned,
+        changedOnly: validatedQuery.changedOnly,
         limit: validatedQuery.limit,
         offset: validatedQuery.offset
       });
@@ -87,6 +121,62 @@ export class RouterOSBackupController {
     }
   }
 
+  /**
+   * GET /api/routeros/backup/:routerId/changes
+   * Configuration change timeline of a router
+   */
+  async getChangeTimeline(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { routerId } = req.params;
+      const validatedQuery = changeTimelineSchema.parse(req.query);
+
+      const result = await routerOSBackupService.getChangeTimeline(
+        routerId,
+        validatedQuery.limit,
+        validatedQuery.offset
+      );
+
+      res.json({
+        success: true,
+        data: {
+          router: result.router,
+          changes: result.changes,
+          unchangedCount: result.unchangedCount
+        },
+        pagination: {
+          total: result.total,
+          limit: result.limit,
+          offset: result.offset,
+          hasMore: result.offset + result.limit < result.total
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/backups/compare
+   * Section-aware diff between two backups
+   */
+  async compareBackups(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedQuery = compareBackupsSchema.parse(req.query);
+
+      const diff = await routerOSBackupService.compareBackups(
+        validatedQuery.baseId,
+        validatedQuery.targetId
+      );
+
+      res.json({
+        success: true,
+        data: diff
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/backups/:id
    * Get backup details by ID
@@ -148,11 +238,30 @@ export class RouterOSBackupController {
       const validatedData = restoreBackupSchema.parse(req.body);
       const userId = (req as any).user?.userId;
 
+      // Dry-run: report what the import would change without touching the router
+      if (validatedData.restoreType === RestoreType.PREVIEW) {
+        const preview = await routerOSBackupService.previewRestore({
+          backupId: id,
+          routerId: validatedData.routerId,
+          restoredBy: userId,
+          sections: validatedData.sections
+        });
+
+        res.json({
+          success: true,
+          message: 'Restore preview generated',
+          data: preview
+        });
+        return;
+      }
+
       const restore = await routerOSBackupService.restoreBackup({
         backupId: id,
         routerId: validatedData.routerId,
         restoredBy: userId,
-        createSafetyBackup: validatedData.createSafetyBackup
+        createSafetyBackup: validatedData.createSafetyBackup,
+        method: validatedData.method,
+        sections: validatedData.restoreType === RestoreType.PARTIAL ? validatedData.sections : undefined
       });
 
       // Convert BigInt fields to strings for JSON serialization
@@ -166,7 +275,11 @@ export class RouterOSBackupController {
 
       res.json({
         success: true,
-        message: 'Backup restored successfully',
+        message: restore.restoreStatus === 'ROLLED_BACK'
+          ? 'Router became unreachable, restore was rolled back'
+          : restore.restoreStatus === 'ROLLBACK_PENDING'
+            ? 'Restore could not be confirmed, router is rolling back to the safety backup'
+            : 'Backup restored successfully',
         data: serializedRestore
       });
     } catch (error) {
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { routerOSBackupJobService } from '../../services/routeros/routeros.backup.job.service';
+import {
+  createBackupJobSchema,
+  listBackupJobsSchema
+} from '../../validators/routeros/routeros.backup.validator';
+
+/**
+ * RouterOS Backup Job Controller
+ * Handles HTTP requests for fleet-wide backup jobs
+ */
+
+export class RouterOSBackupJobController {
+  /**
+   * POST /api/routeros/backup/jobs
+   * Start a backup job for all ACTIVE routers, a company or a router type
+   */
+  async createJob(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = createBackupJobSchema.parse(req.body);
+      const userId = (req as any).user?.userId;
+
+      const job = await routerOSBackupJobService.createJob({
+        ...validatedData,
+        triggeredBy: userId
+      });
+
+      res.status(202).json({
+        success: true,
+        message: `Backup job started for ${job.totalRouters} router(s)`,
+        data: job
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/backup/jobs
+   * List backup jobs, newest first
+   */
+  async listJobs(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedQuery = listBackupJobsSchema.parse(req.query);
+
+      const result = await routerOSBackupJobService.listJobs(validatedQuery);
+
+      res.json({
+        success: true,
+        data: result.jobs,
+        pagination: {
+          total: result.total,
+          limit: result.limit,
+          offset: result.offset,
+          hasMore: result.offset + result.limit < result.total
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/backup/jobs/:jobId
+   * Get job status with per-router progress (poll while running)
+   */
+  async getJob(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { jobId } = req.params;
+
+      const job = await routerOSBackupJobService.getJob(jobId);
+
+      res.json({
+        success: true,
+        data: job
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupJobController = new RouterOSBackupJobController();
@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import { routerOSBackupRetentionService } from '../../services/routeros/routeros.backup.retention.service';
+import { retentionTargetSchema } from '../../validators/routeros/routeros.backup.validator';
+
+/**
+ * RouterOS Backup Retention Controller
+ * Handles HTTP requests for backup retention preview and enforcement
+ */
+
+export class RouterOSBackupRetentionController {
+  /**
+   * GET /api/routeros/backup/retention/preview
+   * Show which backups retention would expire, without changing anything
+   */
+  async previewRetention(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedQuery = retentionTargetSchema.parse(req.query);
+
+      const result = await routerOSBackupRetentionService.previewRetention(validatedQuery);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/backup/retention/enforce
+   * Expire surplus backups and delete their files
+   */
+  async enforceRetention(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = retentionTargetSchema.parse(req.body);
+
+      const result = await routerOSBackupRetentionService.enforceRetention(validatedData);
+
+      res.json({
+        success: true,
+        message: `Retention applied, ${result.expiredCount} backup(s) expired`,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupRetentionController = new RouterOSBackupRetentionController();
@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from 'express';
+import { routerOSBackupScheduleService } from '../../services/routeros/routeros.backup.schedule.service';
+import { routerOSBackupScheduler } from '../../services/routeros/routeros.backup.scheduler.service';
+import {
+  createScheduleSchema,
+  updateScheduleSchema,
+  listSchedulesSchema,
+  listScheduleRunsSchema
+} from '../../validators/routeros/routeros.backup.validator';
+
+/**
+ * RouterOS Backup Schedule Controller
+ * Handles HTTP requests for backup schedule management
+ */
+
+export class RouterOSBackupScheduleController {
+  /**
+   * GET /api/routeros/backup/schedules
+   * List all schedules with filters
+   */
+  async listSchedules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedQuery = listSchedulesSchema.parse(req.query);
+
+      const schedules = await routerOSBackupScheduleService.getSchedules(validatedQuery);
+
+      res.json({
+        success: true,
+        data: schedules
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/backup/schedules/:scheduleId
+   * Get schedule details with recent runs
+   */
+  async getScheduleById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scheduleId } = req.params;
+
+      const schedule = await routerOSBackupScheduleService.getScheduleById(scheduleId);
+
+      res.json({
+        success: true,
+        data: schedule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/backup/schedules
+   * Create a new schedule
+   */
+  async createSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = createScheduleSchema.parse(req.body);
+
+      const schedule = await routerOSBackupScheduleService.createSchedule(validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Backup schedule created successfully',
+        data: schedule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/routeros/backup/schedules/:scheduleId
+   * Update a schedule
+   */
+  async updateSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scheduleId } = req.params;
+      const validatedData = updateScheduleSchema.parse(req.body);
+
+      const schedule = await routerOSBackupScheduleService.updateSchedule(scheduleId, validatedData);
+
+      res.json({
+        success: true,
+        message: 'Backup schedule updated successfully',
+        data: schedule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/routeros/backup/schedules/:scheduleId
+   * Delete a schedule
+   */
+  async deleteSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scheduleId } = req.params;
+
+      await routerOSBackupScheduleService.deleteSchedule(scheduleId);
+
+      res.json({
+        success: true,
+        message: 'Backup schedule deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/backup/schedules/:scheduleId/runs
+   * Get run history for a schedule
+   */
+  async getScheduleRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scheduleId } = req.params;
+      const validatedQuery = listScheduleRunsSchema.parse(req.query);
+
+      const result = await routerOSBackupScheduleService.getScheduleRuns(
+        scheduleId,
+        validatedQuery.limit,
+        validatedQuery.offset
+      );
+
+      res.json({
+        success: true,
+        data: result.runs,
+        pagination: {
+          total: result.total,
+          limit: result.limit,
+          offset: result.offset,
+          hasMore: result.offset + result.limit < result.total
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/backup/schedules/:scheduleId/run
+   * Start a schedule immediately, its runs can be followed on /runs
+   */
+  async runScheduleNow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scheduleId } = req.params;
+
+      const batch = await routerOSBackupScheduler.runNow(scheduleId);
+
+      res.status(202).json({
+        success: true,
+        message: 'Backup schedule started',
+        data: {
+          scheduleId: batch.scheduleId,
+          scheduledFor: batch.scheduledFor,
+          runIds: batch.runs.map(run => run.id)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupScheduleController = new RouterOSBackupScheduleController();
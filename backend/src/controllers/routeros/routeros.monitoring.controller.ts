@@ -0,0 +1,75 @@
+import { Request, Response, NextFunction } from 'express';
+import { routerOSMonitoringService } from '../../services/routeros/routeros.monitoring.service';
+import {
+  monitoringRouterIdParamSchema,
+  metricHistoryQuerySchema
+} from '../../validators/routeros/routeros.monitoring.validator';
+
+/**
+ * RouterOS Monitoring Controller
+ * Handles HTTP requests for router health and metric history
+ */
+
+export class RouterOSMonitoringController {
+  /**
+   * GET /api/routeros/monitoring/:routerId
+   * Reachability and latest health sample of a router
+   */
+  async getLatest(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { routerId } = monitoringRouterIdParamSchema.parse(req.params);
+
+      const latest = await routerOSMonitoringService.getLatest(routerId);
+
+      res.json({
+        success: true,
+        data: latest
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/monitoring/:routerId/history
+   * Metric history for the last hour, day or week
+   */
+  async getHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { routerId } = monitoringRouterIdParamSchema.parse(req.params);
+      const { range } = metricHistoryQuerySchema.parse(req.query);
+
+      const history = await routerOSMonitoringService.getHistory(routerId, range);
+
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/monitoring/:routerId/poll
+   * Poll a router now instead of waiting for the next interval
+   */
+  async pollRouter(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { routerId } = monitoringRouterIdParamSchema.parse(req.params);
+
+      const result = await routerOSMonitoringService.pollRouter(routerId);
+
+      res.json({
+        success: true,
+        message: result.reachable ? 'Router polled' : `Router unreachable: ${result.error}`,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSMonitoringController = new RouterOSMonitoringController();
@@ -5,6 +5,26 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { routerOSRoutingService } from '../../services/routeros/routeros.routing.service';
+import { routerOSBgpHistoryService } from '../../services/routeros/routeros.bgp.history.service';
+import { routerOSRoutingFilterService } from '../../services/routeros/routeros.routing.filter.service';
+import { routerOSRoutingTableService } from '../../services/routeros/routeros.routing.table.service';
+import { bgpPeerHistoryQuerySchema } from '../../validators/routeros/routeros.routing.validator';
+import {
+  createBGPConnectionSchema,
+  updateBGPConnectionSchema,
+  deleteBGPConnectionSchema,
+} from '../../validators/routeros/routeros.bgp.connection.validator';
+import {
+  routingFilterRulesQuerySchema,
+  createRoutingFilterRuleSchema,
+  updateRoutingFilterRuleSchema,
+  moveRoutingFilterRuleSchema,
+  testRoutingFilterChainSchema,
+} from '../../validators/routeros/routeros.routing.filter.validator';
+import {
+  routeTableQuerySchema,
+  routeLookupSchema,
+} from '../../validators/routeros/routeros.routing.table.validator';
 
 /**
  * Get all BGP connections from a router
@@ -53,6 +73,75 @@ export async function getBGPConnectionById(req: Request, res: Response, next: Ne
   }
 }
 
+/**
+ * Create a BGP connection
+ * POST /api/routeros/:routerId/bgp/connections
+ */
+export async function createBGPConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const connectionData = createBGPConnectionSchema.parse(req.body);
+
+    const connection = await routerOSRoutingService.createBGPConnection(routerId, connectionData);
+
+    res.status(201).json({
+      status: 'success',
+      data: connection,
+      message: `BGP connection '${connection.name}' created successfully`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update a BGP connection
+ * PUT /api/routeros/:routerId/bgp/connections/:connectionId
+ */
+export async function updateBGPConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, connectionId } = req.params;
+    const { confirm, ...connectionData } = updateBGPConnectionSchema.parse(req.body);
+
+    const result = await routerOSRoutingService.updateBGPConnection(routerId, connectionId, connectionData, {
+      confirm,
+      triggeredBy: req.user!.userId,
+    });
+
+    res.json({
+      status: 'success',
+      data: result,
+      message: 'BGP connection updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Delete a BGP connection
+ * DELETE /api/routeros/:routerId/bgp/connections/:connectionId
+ */
+export async function deleteBGPConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, connectionId } = req.params;
+    const { confirm } = deleteBGPConnectionSchema.parse(req.body ?? {});
+
+    const result = await routerOSRoutingService.deleteBGPConnection(routerId, connectionId, {
+      confirm,
+      triggeredBy: req.user!.userId,
+    });
+
+    res.json({
+      status: 'success',
+      data: result,
+      message: 'BGP connection deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Enable a BGP connection
  * POST /api/routeros/:routerId/bgp/connections/:connectionId/enable
@@ -240,3 +329,296 @@ export async function getBGPSessionStats(req: Request, res: Response, next: Next
     next(error);
   }
 }
+
+/**
+ * Get the recorded BGP peers of a router with their flap and uptime statistics
+ * GET /api/routeros/:routerId/bgp/history?range=day|week|month
+ */
+export async function getBGPPeerHistories(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const { range } = bgpPeerHistoryQuerySchema.parse(req.query);
+
+    const peers = await routerOSBgpHistoryService.listPeers(routerId, range);
+
+    res.json({
+      status: 'success',
+      data: peers,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the state timeline of one BGP peer
+ * GET /api/routeros/:routerId/bgp/history/:peerKey?range=day|week|month
+ */
+export async function getBGPPeerHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, peerKey } = req.params;
+    const { range } = bgpPeerHistoryQuerySchema.parse(req.query);
+
+    const history = await routerOSBgpHistoryService.getPeerHistory(routerId, peerKey, range);
+
+    res.json({
+      status: 'success',
+      data: history,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Record the current BGP session states of a router without waiting for the poller
+ * POST /api/routeros/:routerId/bgp/history/poll
+ */
+export async function pollBGPPeerHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+
+    const result = await routerOSBgpHistoryService.pollRouter(routerId);
+
+    if (!result.success) {
+      res.status(502).json({
+        status: 'error',
+        message: `Failed to poll BGP sessions: ${result.error}`,
+      });
+      return;
+    }
+
+    res.json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the routing filter rules of a router, optionally of one chain
+ * GET /api/routeros/:routerId/routing/filters/rules?chain=
+ */
+export async function getRoutingFilterRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const { chain } = routingFilterRulesQuerySchema.parse(req.query);
+
+    const rules = await routerOSRoutingFilterService.getFilterRules(routerId, chain);
+
+    res.json({
+      status: 'success',
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the routing filter chains of a router and the BGP connections using them
+ * GET /api/routeros/:routerId/routing/filters/chains
+ */
+export async function getRoutingFilterChains(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+
+    const chains = await routerOSRoutingFilterService.getFilterChains(routerId);
+
+    res.json({
+      status: 'success',
+      data: chains,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add a routing filter rule
+ * POST /api/routeros/:routerId/routing/filters/rules
+ */
+export async function createRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const ruleData = createRoutingFilterRuleSchema.parse(req.body);
+
+    const rule = await routerOSRoutingFilterService.addFilterRule(routerId, ruleData, {
+      triggeredBy: req.user!.userId,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: rule,
+      message: `Rule added to chain '${rule.chain}'`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update the text or comment of a routing filter rule
+ * PUT /api/routeros/:routerId/routing/filters/rules/:ruleId
+ */
+export async function updateRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, ruleId } = req.params;
+    const ruleData = updateRoutingFilterRuleSchema.parse(req.body);
+
+    const rule = await routerOSRoutingFilterService.updateFilterRule(routerId, ruleId, ruleData, {
+      triggeredBy: req.user!.userId,
+    });
+
+    res.json({
+      status: 'success',
+      data: rule,
+      message: 'Routing filter rule updated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Move a routing filter rule within its chain
+ * POST /api/routeros/:routerId/routing/filters/rules/:ruleId/move
+ */
+export async function moveRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, ruleId } = req.params;
+    const { destination } = moveRoutingFilterRuleSchema.parse(req.body ?? {});
+
+    const rules = await routerOSRoutingFilterService.moveFilterRule(routerId, ruleId, destination, {
+      triggeredBy: req.user!.userId,
+    });
+
+    res.json({
+      status: 'success',
+      data: rules,
+      message: 'Routing filter rule moved successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Enable a routing filter rule
+ * POST /api/routeros/:routerId/routing/filters/rules/:ruleId/enable
+ */
+export async function enableRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, ruleId } = req.params;
+
+    await routerOSRoutingFilterService.enableFilterRule(routerId, ruleId);
+
+    res.json({
+      status: 'success',
+      message: 'Routing filter rule enabled successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Disable a routing filter rule
+ * POST /api/routeros/:routerId/routing/filters/rules/:ruleId/disable
+ */
+export async function disableRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, ruleId } = req.params;
+
+    await routerOSRoutingFilterService.disableFilterRule(routerId, ruleId);
+
+    res.json({
+      status: 'success',
+      message: 'Routing filter rule disabled successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove a routing filter rule
+ * DELETE /api/routeros/:routerId/routing/filters/rules/:ruleId
+ */
+export async function deleteRoutingFilterRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId, ruleId } = req.params;
+
+    await routerOSRoutingFilterService.removeFilterRule(routerId, ruleId, {
+      triggeredBy: req.user!.userId,
+    });
+
+    res.json({
+      status: 'success',
+      message: 'Routing filter rule removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Run a sample route through a routing filter chain
+ * POST /api/routeros/:routerId/routing/filters/test
+ */
+export async function testRoutingFilterChain(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const { chain, ...route } = testRoutingFilterChainSchema.parse(req.body);
+
+    const evaluation = await routerOSRoutingFilterService.testFilterChain(routerId, chain, route);
+
+    res.json({
+      status: 'success',
+      data: evaluation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get one page of a router's routing table
+ * GET /api/routeros/:routerId/routing/routes
+ */
+export async function getRoutes(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { routerId } = req.params;
+    const filters = routeTableQuerySchema.parse(req.query);
+
+    const page = await routerOSRoutingTableService.getRoutes(routerId, filters);
+
+    res.json({
+      status: 'success',
+      data: page,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Ask several routers which route they would use for an address
+ * POST /api/routeros/routing/lookup
+ */
+export async function lookupRoute(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { address, routerIds, routingTable } = routeLookupSchema.parse(req.body);
+
+    const results = await routerOSRoutingTableService.lookupRoute(routerIds, address, routingTable);
+
+    res.json({
+      status: 'success',
+      data: results,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { routerOSSshKeyService } from '../../services/routeros/routeros.sshkey.service';
+import {
+  sshKeyIdParamSchema,
+  listSshKeysSchema,
+  createSshKeySchema,
+  deploySshKeySchema
+} from '../../validators/routeros/routeros.sshkey.validator';
+
+/**
+ * RouterOS SSH Key Controller
+ * Handles HTTP requests for SSH key management, deployment and rotation
+ */
+
+export class RouterOSSshKeyController {
+  /**
+   * GET /api/routeros/ssh-keys
+   * List SSH keys (public part only)
+   */
+  async listKeys(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { companyId } = listSshKeysSchema.parse(req.query);
+
+      const keys = await routerOSSshKeyService.listKeys(companyId);
+
+      res.json({
+        success: true,
+        data: keys
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/ssh-keys
+   * Generate the SSH key of a company, or the global key
+   */
+  async createKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const validatedData = createSshKeySchema.parse(req.body);
+
+      const key = await routerOSSshKeyService.createKey(validatedData);
+
+      res.status(201).json({
+        success: true,
+        message: 'SSH key generated',
+        data: key
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/routeros/ssh-keys/:keyId
+   * Get SSH key details
+   */
+  async getKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { keyId } = sshKeyIdParamSchema.parse(req.params);
+
+      const key = await routerOSSshKeyService.getKey(keyId);
+
+      res.json({
+        success: true,
+        data: key
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/routeros/ssh-keys/:keyId
+   * Delete an SSH key no router uses anymore
+   */
+  async deleteKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { keyId } = sshKeyIdParamSchema.parse(req.params);
+
+      await routerOSSshKeyService.deleteKey(keyId);
+
+      res.json({
+        success: true,
+        message: 'SSH key deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/ssh-keys/:keyId/deploy
+   * Install the key on routers and switch them to key-based SSH
+   */
+  async deployKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { keyId } = sshKeyIdParamSchema.parse(req.params);
+      const { routerIds } = deploySshKeySchema.parse(req.body ?? {});
+
+      const report = await routerOSSshKeyService.deployKey(keyId, routerIds);
+
+      res.json({
+        success: report.failed === 0,
+        message: `SSH key installed on ${report.succeeded} of ${report.total} router(s)`,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/routeros/ssh-keys/:keyId/rotate
+   * Replace the key with a new one on every router that has it
+   */
+  async rotateKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { keyId } = sshKeyIdParamSchema.parse(req.params);
+
+      const result = await routerOSSshKeyService.rotateKey(keyId);
+
+      res.json({
+        success: result.report.failed === 0,
+        message: `SSH key rotated on ${result.report.succeeded} of ${result.report.total} router(s)`,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSSshKeyController = new RouterOSSshKeyController();
@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { config } from '../config';
+import { storage } from '../lib/storage-driver';
+import { verifySignedUrl } from '../lib/signed-url';
+import { AppError } from '../middleware/errorHandler';
+import { routerOSBackupService } from '../services/routeros/routeros.backup.service';
+import { signedDownloadSchema } from '../validators/storage.validator';
+
+/**
+ * Storage Controller
+ * Serves local storage files and encrypted backups through signed, expiring URLs
+ */
+
+export class StorageController {
+  /**
+   * GET /api/storage/local/*
+   * Download a file by signed URL (no auth header, the signature is the credential)
+   */
+  async serveLocalFile(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (config.storage.driver !== 'local') {
+        throw new AppError(404, 'Not found');
+      }
+
+      const key = req.params[0];
+      const { expires, signature } = signedDownloadSchema.parse(req.query);
+
+      if (!verifySignedUrl(key, expires, signature)) {
+        throw new AppError(403, 'Download link is invalid or has expired');
+      }
+
+      if (!(await storage.exists(key))) {
+        throw new AppError(404, 'File not found');
+      }
+
+      const metadata = await storage.getMetadata(key);
+      const stream = await storage.downloadStream(key);
+
+      res.setHeader('Content-Type', metadata.contentType);
+      res.setHeader('Content-Length', metadata.size.toString());
+      res.setHeader('Content-Disposition', `attachment; filename="${path.basename(key)}"`);
+
+      stream.on('error', next);
+      stream.pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/storage/backups/:id
+   * Download an encrypted backup by signed URL, decrypted on the fly
+   */
+  async serveBackupFile(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { expires, signature } = signedDownloadSchema.parse(req.query);
+
+      if (!verifySignedUrl(`backup:${id}`, expires, signature)) {
+        throw new AppError(403, 'Download link is invalid or has expired');
+      }
+
+      const file = await routerOSBackupService.getBackupFile(id);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Length', file.content.length.toString());
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const storageController = new StorageController();
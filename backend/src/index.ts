@@ -6,6 +6,11 @@ import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
 import routes from './routes';
 import { prisma } from './lib/prisma';
+import { routerOSPool } from './lib/routeros/pool';
+import { routerOSBackupScheduler } from './services/routeros/routeros.backup.scheduler.service';
+import { routerOSBackupJobService } from './services/routeros/routeros.backup.job.service';
+import { routerOSMonitoringPoller } from './services/routeros/routeros.monitoring.poller.service';
+import { routerOSBgpHistoryPoller } from './services/routeros/routeros.bgp.history.poller.service';
 import { Server } from 'http';
 
 // Global BigInt serialization fix for JSON.stringify
@@ -58,6 +63,24 @@ const server: Server = app.listen(PORT, () => {
   console.log(`📝 Environment: ${config.nodeEnv}`);
   console.log(`🔗 API: http://localhost:${PORT}/api`);
 
+  // Fail backup jobs left unfinished by a previous process, checked again while running
+  routerOSBackupJobService.startRecovery();
+
+  // Start background backup scheduler
+  if (config.backup.scheduler.enabled) {
+    routerOSBackupScheduler.start();
+  }
+
+  // Start router health polling
+  if (config.routeros.monitoring.enabled) {
+    routerOSMonitoringPoller.start();
+  }
+
+  // Start BGP session history polling
+  if (config.routeros.bgpHistory.enabled) {
+    routerOSBgpHistoryPoller.start();
+  }
+
   // Signal PM2 that app is ready
   if (process.send) {
     process.send('ready');
@@ -78,6 +101,17 @@ async function gracefulShutdown(signal: string) {
     console.log('HTTP server closed.');
 
     try {
+      // Stop schedulers and let running backups and health polls finish
+      await routerOSBackupScheduler.stop();
+      routerOSBackupJobService.stopRecovery();
+      await routerOSBackupJobService.waitForJobs();
+      await routerOSMonitoringPoller.stop();
+      await routerOSBgpHistoryPoller.stop();
+
+      // Log out of pooled RouterOS API sessions
+      await routerOSPool.drain();
+      console.log('RouterOS sessions closed.');
+
       // Close Prisma connection
       await prisma.$disconnect();
       console.log('Database connections closed.');
@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+/**
+ * Backup Encryption at Rest (envelope encryption)
+ *
+ * Every backup is encrypted with its own random data key (AES-256-GCM).
+ * The data key is wrapped with the master key and stored on RouterBackup,
+ * so rotating the master key only re-wraps data keys and never touches
+ * the stored files.
+ *
+ * Encrypted file layout: iv (12 bytes) | authTag (16 bytes) | ciphertext
+ * Wrapped data key format: iv:authTag:encryptedKey (all hex encoded)
+ */
+
+export const BACKUP_ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+const ALGORITHM = 'aes-256-gcm';
+const CONTENT_IV_LENGTH = 12;
+const KEY_IV_LENGTH = 16;
+const AUTH_TAG_LENGTH = 16;
+
+export interface BackupEncryptionInfo {
+  encryptionAlgorithm: string | null;
+  wrappedDataKey: string | null;
+  masterKeyId: string | null;
+}
+
+/**
+ * Get master key as a 32-byte buffer
+ */
+function toKeyBuffer(masterKey: string): Buffer {
+  const key = Buffer.from(masterKey, 'utf-8');
+
+  if (key.length !== 32) {
+    throw new Error('Backup master key must be exactly 32 characters');
+  }
+
+  return key;
+}
+
+/**
+ * Identify a master key without revealing it
+ *
+ * @param masterKey - Master key (32 characters)
+ * @returns First 16 hex characters of the key's SHA256
+ */
+export function getMasterKeyId(masterKey: string = config.backup.encryption.masterKey): string {
+  return crypto.createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Find the master key that wrapped a data key (current first, then previous keys)
+ */
+function findMasterKey(masterKeyId: string): string {
+  const { masterKey, previousMasterKeys } = config.backup.encryption;
+  const match = [masterKey, ...previousMasterKeys].find(key => getMasterKeyId(key) === masterKeyId);
+
+  if (!match) {
+    throw new Error(`Backup master key not available: ${masterKeyId}`);
+  }
+
+  return match;
+}
+
+/**
+ * Wrap a data key with a master key
+ */
+function wrapDataKey(dataKey: Buffer, masterKey: string): string {
+  const iv = crypto.randomBytes(KEY_IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, toKeyBuffer(masterKey), iv);
+
+  const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return `${iv.toString('hex')}:${authTag.toString('hex')}:${encrypted.toString('hex')}`;
+}
+
+/**
+ * Unwrap a data key with a master key
+ */
+function unwrapDataKey(wrappedDataKey: string, masterKey: string): Buffer {
+  const parts = wrappedDataKey.split(':');
+
+  if (parts.length !== 3) {
+    throw new Error('Invalid wrapped data key format');
+  }
+
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    toKeyBuffer(masterKey),
+    Buffer.from(parts[0], 'hex')
+  );
+  decipher.setAuthTag(Buffer.from(parts[1], 'hex'));
+
+  return Buffer.concat([decipher.update(Buffer.from(parts[2], 'hex')), decipher.final()]);
+}
+
+/**
+ * Encrypt backup content with a fresh data key
+ *
+ * @param content - Plain backup content
+ * @returns Encrypted content and the metadata to store on RouterBackup
+ */
+export function encryptBackupContent(content: Buffer | string): {
+  content: Buffer;
+  encryption: BackupEncryptionInfo;
+} {
+  const masterKey = config.backup.encryption.masterKey;
+  const dataKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(CONTENT_IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+  const plain = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+
+  return {
+    content: Buffer.concat([iv, cipher.getAuthTag(), encrypted]),
+    encryption: {
+      encryptionAlgorithm: BACKUP_ENCRYPTION_ALGORITHM,
+      wrappedDataKey: wrapDataKey(dataKey, masterKey),
+      masterKeyId: getMasterKeyId(masterKey)
+    }
+  };
+}
+
+/**
+ * Decrypt backup content
+ *
+ * @param content - Stored (encrypted) backup content
+ * @param encryption - Encryption metadata of the backup
+ * @returns Plain backup content
+ */
+export function decryptBackupContent(content: Buffer, encryption: BackupEncryptionInfo): Buffer {
+  if (!encryption.wrappedDataKey || !encryption.masterKeyId) {
+    throw new Error('Backup is not encrypted');
+  }
+
+  if (encryption.encryptionAlgorithm !== BACKUP_ENCRYPTION_ALGORITHM) {
+    throw new Error(`Unsupported backup encryption algorithm: ${encryption.encryptionAlgorithm}`);
+  }
+
+  const dataKey = unwrapDataKey(encryption.wrappedDataKey, findMasterKey(encryption.masterKeyId));
+
+  const iv = content.subarray(0, CONTENT_IV_LENGTH);
+  const authTag = content.subarray(CONTENT_IV_LENGTH, CONTENT_IV_LENGTH + AUTH_TAG_LENGTH);
+  const encrypted = content.subarray(CONTENT_IV_LENGTH + AUTH_TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
+
+/**
+ * Re-wrap a data key with the current master key
+ *
+ * @param encryption - Encryption metadata of the backup
+ * @returns New wrapped key and master key ID
+ */
+export function rewrapDataKey(encryption: BackupEncryptionInfo): {
+  wrappedDataKey: string;
+  masterKeyId: string;
+} {
+  if (!encryption.wrappedDataKey || !encryption.masterKeyId) {
+    throw new Error('Backup is not encrypted');
+  }
+
+  const masterKey = config.backup.encryption.masterKey;
+  const dataKey = unwrapDataKey(encryption.wrappedDataKey, findMasterKey(encryption.masterKeyId));
+
+  return {
+    wrappedDataKey: wrapDataKey(dataKey, masterKey),
+    masterKeyId: getMasterKeyId(masterKey)
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Backup Retention Utilities
+ *
+ * Grandfather-father-son (GFS) classification of router backups.
+ * Pure functions only - the retention service handles database and storage.
+ */
+
+export interface RetentionPolicy {
+  daily: number; // Keep newest backup of each of the last N days
+  weekly: number; // Keep newest backup of each of the last N weeks (Monday-based)
+  monthly: number; // Keep newest backup of each of the last N months
+  timezone: string; // Timezone used to decide calendar boundaries
+}
+
+export type RetentionBucket = 'latest' | 'daily' | 'weekly' | 'monthly';
+
+export interface RetentionCandidate {
+  id: string;
+  createdAt: Date;
+}
+
+export interface RetentionDecision<T extends RetentionCandidate = RetentionCandidate> {
+  keep: Array<{ backup: T; buckets: RetentionBucket[] }>;
+  expire: T[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get calendar day of a date in a timezone, as a UTC midnight timestamp
+ */
+function getLocalDay(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric'
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  return Date.UTC(get('year'), get('month') - 1, get('day'));
+}
+
+/**
+ * Get the Monday of the week containing a local day
+ */
+function getWeekStart(localDay: number): number {
+  const weekday = (new Date(localDay).getUTCDay() + 6) % 7; // Monday = 0
+  return localDay - weekday * DAY_MS;
+}
+
+/**
+ * Get month index (year * 12 + month) of a local day
+ */
+function getMonthIndex(localDay: number): number {
+  const date = new Date(localDay);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+/**
+ * Classify backups into kept (with the buckets that retain them) and expired
+ *
+ * Within each bucket the newest backup wins. The newest backup overall is
+ * always kept, so a router never ends up without any backup.
+ *
+ * @param backups - Candidate backups of one type (already excluding pinned/safety backups)
+ * @param policy - Retention policy
+ * @param now - Reference date (default: now)
+ * @returns Retention decision
+ */
+export function classifyBackups<T extends RetentionCandidate>(
+  backups: T[],
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): RetentionDecision<T> {
+  const sorted = [...backups].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const today = getLocalDay(now, policy.timezone);
+  const thisWeek = getWeekStart(today);
+  const thisMonth = getMonthIndex(today);
+
+  const buckets = new Map<string, RetentionBucket[]>();
+  const claimed = new Set<string>();
+
+  const retain = (backupId: string, bucket: RetentionBucket) => {
+    const list = buckets.get(backupId) || [];
+    list.push(bucket);
+    buckets.set(backupId, list);
+  };
+
+  if (sorted.length > 0) {
+    retain(sorted[0].id, 'latest');
+  }
+
+  for (const backup of sorted) {
+    const day = getLocalDay(backup.createdAt, policy.timezone);
+    const week = getWeekStart(day);
+    const month = getMonthIndex(day);
+
+    const dayAge = Math.round((today - day) / DAY_MS);
+    const weekAge = Math.round((thisWeek - week) / (7 * DAY_MS));
+    const monthAge = thisMonth - month;
+
+    // Sorted newest first, so the first backup seen in a bucket is the newest one
+    const dayKey = `d:${day}`;
+    if (dayAge >= 0 && dayAge < policy.daily && !claimed.has(dayKey)) {
+      claimed.add(dayKey);
+      retain(backup.id, 'daily');
+    }
+
+    const weekKey = `w:${week}`;
+    if (weekAge >= 0 && weekAge < policy.weekly && !claimed.has(weekKey)) {
+      claimed.add(weekKey);
+      retain(backup.id, 'weekly');
+    }
+
+    const monthKey = `m:${month}`;
+    if (monthAge >= 0 && monthAge < policy.monthly && !claimed.has(monthKey)) {
+      claimed.add(monthKey);
+      retain(backup.id, 'monthly');
+    }
+  }
+
+  const decision: RetentionDecision<T> = { keep: [], expire: [] };
+
+  for (const backup of sorted) {
+    const retainedBy = buckets.get(backup.id);
+    if (retainedBy) {
+      decision.keep.push({ backup, buckets: retainedBy });
+    } else {
+      decision.expire.push(backup);
+    }
+  }
+
+  return decision;
+}
@@ -1,10 +1,14 @@
 import { createHash } from 'crypto';
-import { r2Client } from './r2-client';
+import { config } from '../config';
+import { storage } from './storage-driver';
+import { findRscCommands, parseRsc } from './routeros/rsc-parser';
+import { decryptBackupContent, encryptBackupContent } from './backup-encryption';
+import type { BackupEncryptionInfo } from './backup-encryption';
 
 /**
  * Backup Storage Utilities
  *
- * Helper functions for managing router backups in R2 storage
+ * Helper functions for managing router backups in object storage (R2 or local disk)
  */
 
 /**
@@ -34,61 +38,86 @@ export function calculateChecksum(content: Buffer | string): string {
 }
 
 /**
- * Upload backup file to R2 storage
+ * Upload backup file to storage
+ * Checksum and size always describe the plain content, encryption is transparent
  *
  * @param storageKey - Storage key path
  * @param content - Backup file content
  * @param contentType - MIME type (default: text/plain for .rsc)
- * @returns Upload result with checksum
+ * @param encrypt - Encrypt with a per-backup data key (default: BACKUP_ENCRYPTION_ENABLED)
+ * @returns Upload result with checksum and encryption metadata
  */
 export async function uploadBackup(
   storageKey: string,
   content: Buffer | string,
-  contentType: string = 'text/plain'
+  contentType: string = 'text/plain',
+  encrypt: boolean = config.backup.encryption.enabled
 ): Promise<{
   storageKey: string;
   checksum: string;
   fileSize: number;
   etag: string;
+  encryption: BackupEncryptionInfo;
 }> {
   // Calculate checksum before upload
   const checksum = calculateChecksum(content);
   const fileSize = typeof content === 'string' ? Buffer.byteLength(content) : content.length;
 
-  // Upload to R2
-  const result = await r2Client.upload(storageKey, content, contentType);
+  let body: Buffer | string = content;
+  let encryption: BackupEncryptionInfo = {
+    encryptionAlgorithm: null,
+    wrappedDataKey: null,
+    masterKeyId: null
+  };
+
+  if (encrypt) {
+    ({ content: body, encryption } = encryptBackupContent(content));
+  }
+
+  // Upload to storage
+  const result = await storage.upload(
+    storageKey,
+    body,
+    encrypt ? 'application/octet-stream' : contentType
+  );
 
   return {
     storageKey,
     checksum,
     fileSize,
-    etag: result.etag
+    etag: result.etag,
+    encryption
   };
 }
 
 /**
- * Download backup file from R2 storage
+ * Download backup file from storage
  *
  * @param storageKey - Storage key path
  * @returns Backup file content as Buffer
  */
 export async function downloadBackup(storageKey: string): Promise<Buffer> {
-  return await r2Client.download(storageKey);
+  return await storage.download(storageKey);
 }
 
 /**
- * Download backup and verify checksum
+ * Download backup, decrypt it if needed and verify checksum
  *
  * @param storageKey - Storage key path
- * @param expectedChecksum - Expected SHA256 checksum
- * @returns Backup file content if checksum matches
+ * @param expectedChecksum - Expected SHA256 checksum of the plain content
+ * @param encryption - Encryption metadata of the backup (null for plaintext backups)
+ * @returns Plain backup file content if checksum matches
  * @throws Error if checksum mismatch
  */
 export async function downloadAndVerifyBackup(
   storageKey: string,
-  expectedChecksum: string
+  expectedChecksum: string,
+  encryption?: BackupEncryptionInfo | null
 ): Promise<Buffer> {
-  const content = await r2Client.download(storageKey);
+  const stored = await storage.download(storageKey);
+  const content = encryption?.wrappedDataKey
+    ? decryptBackupContent(stored, encryption)
+    : stored;
   const actualChecksum = calculateChecksum(content);
 
   if (actualChecksum !== expectedChecksum) {
@@ -101,21 +130,21 @@ export async function downloadAndVerifyBackup(
 }
 
 /**
- * Delete backup file from R2 storage
+ * Delete backup file from storage
  *
  * @param storageKey - Storage key path
  */
 export async function deleteBackup(storageKey: string): Promise<void> {
-  await r2Client.delete(storageKey);
+  await storage.delete(storageKey);
 }
 
 /**
- * Delete multiple backup files from R2 storage
+ * Delete multiple backup files from storage
  *
  * @param storageKeys - Array of storage key paths
  */
 export async function deleteBackups(storageKeys: string[]): Promise<void> {
-  await r2Client.deleteMany(storageKeys);
+  await storage.deleteMany(storageKeys);
 }
 
 /**
@@ -130,21 +159,21 @@ export async function generateBackupDownloadUrl(
   storageKey: string,
   expiresIn: number = 3600
 ): Promise<string> {
-  return await r2Client.getPresignedUrl(storageKey, expiresIn);
+  return await storage.getPresignedUrl(storageKey, expiresIn);
 }
 
 /**
- * Check if backup file exists in R2 storage
+ * Check if backup file exists in storage
  *
  * @param storageKey - Storage key path
  * @returns true if exists, false otherwise
  */
 export async function backupExists(storageKey: string): Promise<boolean> {
-  return await r2Client.exists(storageKey);
+  return await storage.exists(storageKey);
 }
 
 /**
- * Get backup file metadata from R2
+ * Get backup file metadata from storage
  *
  * @param storageKey - Storage key path
  * @returns File metadata
@@ -155,7 +184,7 @@ export async function getBackupMetadata(storageKey: string): Promise<{
   lastModified: Date;
   contentType: string;
 }> {
-  return await r2Client.getMetadata(storageKey);
+  return await storage.getMetadata(storageKey);
 }
 
 /**
@@ -166,7 +195,7 @@ export async function getBackupMetadata(storageKey: string): Promise<{
  */
 export async function listRouterBackups(routerId: string): Promise<string[]> {
   const prefix = `backups/${routerId}/`;
-  return await r2Client.listObjects(prefix);
+  return await storage.listObjects(prefix);
 }
 
 /**
@@ -181,7 +210,7 @@ export async function getRouterBackupStats(routerId: string): Promise<{
   totalSizeMB: number;
 }> {
   const prefix = `backups/${routerId}/`;
-  const stats = await r2Client.getStorageStats(prefix);
+  const stats = await storage.getStorageStats(prefix);
 
   return {
     ...stats,
@@ -189,38 +218,78 @@ export async function getRouterBackupStats(routerId: string): Promise<{
   };
 }
 
+// Summary keys and the menu paths whose "add" commands they count
+const SUMMARY_PATHS: Record<string, string[]> = {
+  ipAddresses: ['/ip address'],
+  firewallRules: ['/ip firewall filter'],
+  natRules: ['/ip firewall nat'],
+  routes: ['/ip route'],
+  dhcpServers: ['/ip dhcp-server'],
+  users: ['/user'],
+  scripts: ['/system script'],
+  scheduler: ['/system scheduler'],
+  queues: ['/queue simple', '/queue tree']
+};
+
 /**
  * Parse configuration summary from RouterOS export content
- * This extracts key statistics from .rsc file
+ * Counts configured items per menu using the .rsc parser, so section-context
+ * exports ("/ip firewall filter" followed by "add ..." lines) and wrapped
+ * lines are counted correctly
  *
  * @param content - RouterOS export content
  * @returns Configuration summary object
  */
 export function parseConfigSummary(content: string): Record<string, number> {
+  const document = parseRsc(content);
   const summary: Record<string, number> = {};
 
-  // Count various configuration sections
-  const patterns = {
-    interfaces: /\/interface /g,
-    ipAddresses: /\/ip address add/g,
-    firewallRules: /\/ip firewall filter add/g,
-    natRules: /\/ip firewall nat add/g,
-    routes: /\/ip route add/g,
-    dhcpServers: /\/ip dhcp-server add/g,
-    users: /\/user add/g,
-    scripts: /\/system script add/g,
-    scheduler: /\/system scheduler add/g,
-    queues: /\/queue /g
-  };
+  // Interfaces: items added to "/interface <type>" menus (bridge, vlan, wireguard, ...)
+  // plus physical ports configured with "set [ find default-name=... ]"
+  summary.interfaces = findRscCommands(document).filter(command => {
+    const [menu, type, ...subMenu] = command.path.split(' ');
+    if (menu !== '/interface' || !type || type === 'list' || subMenu.length > 0) {
+      return false;
+    }
+    return command.command === 'add' ||
+      (command.command === 'set' && command.target?.where['default-name'] !== undefined);
+  }).length;
 
-  for (const [key, pattern] of Object.entries(patterns)) {
-    const matches = content.match(pattern);
-    summary[key] = matches ? matches.length : 0;
+  for (const [key, paths] of Object.entries(SUMMARY_PATHS)) {
+    summary[key] = paths.reduce(
+      (count, path) => count + findRscCommands(document, path, 'add').length,
+      0
+    );
   }
 
   return summary;
 }
 
+/**
+ * Compute per-key deltas between two configuration summaries
+ * Keys that did not change are omitted
+ *
+ * @param previous - Summary of the older backup
+ * @param current - Summary of the newer backup
+ * @returns Deltas, e.g. { firewallRules: 3, users: -1 }
+ */
+export function diffConfigSummary(
+  previous: Record<string, number>,
+  current: Record<string, number>
+): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+
+  for (const key of keys) {
+    const delta = (current[key] || 0) - (previous[key] || 0);
+    if (delta !== 0) {
+      deltas[key] = delta;
+    }
+  }
+
+  return deltas;
+}
+
 /**
  * Extract RouterOS version from export content
  * RouterOS exports typically have a comment line with version info
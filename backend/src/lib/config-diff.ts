@@ -0,0 +1,353 @@
+import { createHash } from 'crypto';
+import { parseRsc, parseRscCommand, splitLogicalLines, tokenizeRscLine } from './routeros/rsc-parser';
+
+/**
+ * RouterOS Config Diff Utilities
+ *
+ * Section-aware comparison of two RouterOS .rsc exports.
+ * Exports are parsed with the .rsc parser and grouped by menu path (e.g. "/ip firewall filter") and each
+ * section is compared line by line, so moving unrelated sections around
+ * does not show up as a change.
+ */
+
+export interface ConfigLineChange {
+  before: string;
+  after: string;
+}
+
+export type SectionDiffStatus = 'added' | 'removed' | 'modified';
+
+export interface SectionDiff {
+  section: string;
+  status: SectionDiffStatus;
+  added: string[];
+  removed: string[];
+  changed: ConfigLineChange[];
+}
+
+export interface ConfigDiff {
+  sections: SectionDiff[];
+  summary: {
+    sectionsAdded: number;
+    sectionsRemoved: number;
+    sectionsModified: number;
+    linesAdded: number;
+    linesRemoved: number;
+    linesChanged: number;
+  };
+}
+
+// Lines before the first menu path (header comments) are kept under this name
+const HEADER_SECTION = '(header)';
+
+/**
+ * Check if a comment line is the export timestamp header
+ * Example: "# jan/19/2026 12:34:56 by RouterOS 7.16"
+ */
+function isTimestampHeader(line: string): boolean {
+  return /^#\s.*\bby RouterOS\b/.test(line);
+}
+
+/**
+ * Parse a RouterOS export into sections keyed by menu path
+ *
+ * @param content - RouterOS export content
+ * @returns Map of menu path to normalized command lines, in file order
+ */
+export function parseConfigSections(content: string): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+
+  for (const section of parseRsc(content).sections) {
+    const name = section.path || HEADER_SECTION;
+    const lines = section.entries
+      .filter(entry => !(entry.type === 'comment' && isTimestampHeader(entry.text)))
+      .map(entry => (entry.type === 'comment' ? entry.text.replace(/\s+/g, ' ') : entry.text));
+
+    // Menu paths printed without any command carry no configuration
+    if (lines.length > 0) {
+      sections.set(name, [...(sections.get(name) || []), ...lines]);
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Check if a menu path belongs to one of the selected sections
+ * "/ip firewall" matches "/ip firewall filter" but not "/ip firewall-something"
+ */
+export function isInSections(path: string, sections: string[]): boolean {
+  return sections.some(section => path === section || path.startsWith(`${section} `));
+}
+
+/**
+ * Keep only the selected sections of a RouterOS export
+ *
+ * @param content - RouterOS export content
+ * @param sections - Menu paths to keep, e.g. ["/ip firewall", "/queue"]
+ * @returns Importable script containing only the selected sections
+ */
+export function filterConfigSections(content: string, sections: string[]): string {
+  const blocks: string[] = [];
+
+  for (const [path, lines] of parseConfigSections(content)) {
+    if (path !== HEADER_SECTION && isInSections(path, sections)) {
+      blocks.push([path, ...lines].join('\n'));
+    }
+  }
+
+  return blocks.join('\n');
+}
+
+/**
+ * Normalize a RouterOS export for change detection
+ *
+ * Drops everything that changes without anyone touching the router:
+ * comment lines (export timestamp header, "# poe-out status" style notes),
+ * blank lines, line wrapping and extra whitespace.
+ *
+ * @param content - RouterOS export content
+ * @returns Normalized export, one command per line
+ */
+export function normalizeConfig(content: string): string {
+  return splitLogicalLines(content)
+    .map(({ text }) => text.trim().replace(/\s+/g, ' '))
+    .filter(line => line && !line.startsWith('#'))
+    .join('\n');
+}
+
+/**
+ * Calculate SHA256 hash of a normalized export
+ * Two exports with the same hash carry the same configuration
+ *
+ * @param content - RouterOS export content
+ * @returns SHA256 hash in hexadecimal
+ */
+export function calculateConfigHash(content: string): string {
+  return createHash('sha256').update(normalizeConfig(content)).digest('hex');
+}
+
+/**
+ * Get identity of a command line, used to pair removed and added lines as "changed"
+ * Returns null when the line has no stable identity
+ *
+ * Examples:
+ *   add name=bridge1 ...                -> "add name=bridge1"
+ *   set [ find default-name=ether1 ] .. -> "set [ find default-name=ether1 ]"
+ *   set allow-remote-requests=yes       -> "set"
+ */
+export function getLineIdentity(line: string): string | null {
+  const tokens = tokenizeRscLine(line);
+  const [command, target] = tokens;
+
+  if (command === 'add') {
+    for (const key of ['name', 'default-name', 'comment']) {
+      const token = tokens.find(t => t.startsWith(`${key}=`));
+      if (token) {
+        return `add ${token}`;
+      }
+    }
+    return null;
+  }
+
+  if (command === 'set') {
+    if (!target || target.includes('=')) {
+      return 'set';
+    }
+    return `set ${target}`;
+  }
+
+  return null;
+}
+
+/**
+ * Diff the lines of a single section (order-insensitive)
+ */
+function diffSectionLines(
+  before: string[],
+  after: string[]
+): { added: string[]; removed: string[]; changed: ConfigLineChange[] } {
+  const remaining = new Map<string, number>();
+  for (const line of before) {
+    remaining.set(line, (remaining.get(line) || 0) + 1);
+  }
+
+  const addedLines: string[] = [];
+  for (const line of after) {
+    const count = remaining.get(line) || 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      addedLines.push(line);
+    }
+  }
+
+  const removedLines: string[] = [];
+  for (const line of before) {
+    const count = remaining.get(line) || 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      removedLines.push(line);
+    }
+  }
+
+  // Pair removed/added lines sharing the same identity
+  const addedByIdentity = new Map<string, number[]>();
+  addedLines.forEach((line, index) => {
+    const identity = getLineIdentity(line);
+    if (identity) {
+      const indexes = addedByIdentity.get(identity) || [];
+      indexes.push(index);
+      addedByIdentity.set(identity, indexes);
+    }
+  });
+
+  const pairedAdded = new Set<number>();
+  const changed: ConfigLineChange[] = [];
+  const removed: string[] = [];
+
+  for (const line of removedLines) {
+    const identity = getLineIdentity(line);
+    const candidates = identity ? addedByIdentity.get(identity) : undefined;
+    const match = candidates?.shift();
+
+    if (match !== undefined) {
+      pairedAdded.add(match);
+      changed.push({ before: line, after: addedLines[match] });
+    } else {
+      removed.push(line);
+    }
+  }
+
+  const added = addedLines.filter((_, index) => !pairedAdded.has(index));
+
+  return { added, removed, changed };
+}
+
+/**
+ * Compare two RouterOS exports section by section
+ *
+ * @param beforeContent - Older export content
+ * @param afterContent - Newer export content
+ * @returns Structured diff, sections in order of first appearance
+ */
+export function diffConfigs(beforeContent: string, afterContent: string): ConfigDiff {
+  const before = parseConfigSections(beforeContent);
+  const after = parseConfigSections(afterContent);
+
+  const sectionNames = [...before.keys()];
+  for (const name of after.keys()) {
+    if (!before.has(name)) {
+      sectionNames.push(name);
+    }
+  }
+
+  const diff: ConfigDiff = {
+    sections: [],
+    summary: {
+      sectionsAdded: 0,
+      sectionsRemoved: 0,
+      sectionsModified: 0,
+      linesAdded: 0,
+      linesRemoved: 0,
+      linesChanged: 0
+    }
+  };
+
+  for (const name of sectionNames) {
+    const beforeLines = before.get(name);
+    const afterLines = after.get(name);
+    const { added, removed, changed } = diffSectionLines(beforeLines || [], afterLines || []);
+
+    if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+      continue;
+    }
+
+    let status: SectionDiffStatus = 'modified';
+    if (!beforeLines) {
+      status = 'added';
+      diff.summary.sectionsAdded++;
+    } else if (!afterLines) {
+      status = 'removed';
+      diff.summary.sectionsRemoved++;
+    } else {
+      diff.summary.sectionsModified++;
+    }
+
+    diff.summary.linesAdded += added.length;
+    diff.summary.linesRemoved += removed.length;
+    diff.summary.linesChanged += changed.length;
+
+    diff.sections.push({ section: name, status, added, removed, changed });
+  }
+
+  return diff;
+}
+
+export type RestoreWarningSeverity = 'warning' | 'danger';
+
+export interface RestoreWarning {
+  section: string;
+  severity: RestoreWarningSeverity;
+  message: string;
+}
+
+/**
+ * Flag diff sections that can lock us out of the router when applied
+ *
+ * @param diff - Diff from the current config (before) to the backup (after)
+ * @param managementAddress - Address used to reach the router
+ * @returns Warnings, most severe first
+ */
+export function detectRiskyChanges(diff: ConfigDiff, managementAddress: string): RestoreWarning[] {
+  const warnings: RestoreWarning[] = [];
+
+  const linesOf = (section: SectionDiff) => [
+    ...section.added,
+    ...section.removed,
+    ...section.changed.flatMap(change => [change.before, change.after])
+  ];
+
+  for (const section of diff.sections) {
+    const lines = linesOf(section);
+    const params = lines.map(line => parseRscCommand(line, section.section).params);
+
+    if (section.section === '/user' || section.section.startsWith('/user ')) {
+      warnings.push({
+        section: section.section,
+        severity: 'danger',
+        message: 'Router users or groups will change, the credentials stored for this router may stop working'
+      });
+    }
+
+    if (section.section === '/ip service') {
+      warnings.push({
+        section: section.section,
+        severity: 'danger',
+        message: 'Management services (api, ssh, winbox) will change'
+      });
+    }
+
+    if (section.section === '/ip firewall filter' && params.some(p => p.chain === 'input')) {
+      warnings.push({
+        section: section.section,
+        severity: 'warning',
+        message: 'Input chain firewall rules will change and may block management access'
+      });
+    }
+
+    if (section.section === '/ip address') {
+      const touchesManagement = params.some(p => p.address?.split('/')[0] === managementAddress);
+
+      warnings.push({
+        section: section.section,
+        severity: touchesManagement ? 'danger' : 'warning',
+        message: touchesManagement
+          ? `Management address ${managementAddress} will be changed or removed`
+          : 'IP addresses will change'
+      });
+    }
+  }
+
+  return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'danger' ? -1 : 1));
+}
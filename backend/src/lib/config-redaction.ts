@@ -0,0 +1,79 @@
+import { splitLogicalLines } from './routeros/rsc-parser';
+import type { ExportSensitiveFlag } from './routeros/ssh-client';
+
+/**
+ * RouterOS Secret Redaction
+ *
+ * Backups exported with show-sensitive carry passwords, pre-shared keys and
+ * private keys in plain text. The stored artifact keeps them (a restore needs
+ * them), but every export shown in the UI or diffed goes through
+ * redactSecrets first.
+ *
+ * RouterOS wraps long lines with a trailing backslash, often in the middle of
+ * a key, so secrets are matched on logical lines. A wrapped line that holds a
+ * secret comes back joined, every other line keeps its original wrapping.
+ */
+
+export const REDACTED_VALUE = '********';
+
+// Parameters RouterOS treats as sensitive, e.g. "/ppp secret add password=..."
+const SENSITIVE_PARAMETERS = [
+  'password',
+  'secret',
+  'passphrase',
+  'authentication-key',
+  'authentication-password',
+  'encryption-password',
+  'ipsec-secret',
+  'private-key',
+  'preshared-key',
+  'tcp-md5-key',
+  'wpa-pre-shared-key',
+  'wpa2-pre-shared-key',
+  'static-key-[0-3]'
+];
+
+// name=value on a logical line, where value is a quoted string or a bare word, both may hold \ escapes
+const SENSITIVE_VALUE_PATTERN = new RegExp(
+  `(^|\\s)(${SENSITIVE_PARAMETERS.join('|')})=("(?:[^"\\\\]|\\\\[\\s\\S])*"|(?:[^\\s"\\\\]|\\\\\\S)+)`,
+  'g'
+);
+
+/**
+ * Mask the values of sensitive parameters in a RouterOS export
+ *
+ * @param content - RouterOS export content
+ * @returns Export with every secret replaced by REDACTED_VALUE
+ */
+export function redactSecrets(content: string): string {
+  const physical = content.replace(/\r\n/g, '\n').split('\n');
+  const logical = splitLogicalLines(content);
+
+  return logical.flatMap((line, index) => {
+    const end = index + 1 < logical.length ? logical[index + 1].line - 1 : physical.length;
+    const redacted = line.text.replace(SENSITIVE_VALUE_PATTERN, `$1$2=${REDACTED_VALUE}`);
+
+    return redacted === line.text ? physical.slice(line.line - 1, end) : [redacted];
+  }).join('\n');
+}
+
+/**
+ * Pick the export flag that gives the wanted sensitive-data behaviour
+ * RouterOS 6 exports secrets by default, RouterOS 7 hides them by default
+ *
+ * @param routerVersion - RouterOS version, e.g. "7.16 (stable)"
+ * @param showSensitive - Whether the export should contain secrets
+ * @returns Flag to append to /export, if any
+ */
+export function getSensitiveExportFlag(
+  routerVersion: string | null,
+  showSensitive: boolean
+): ExportSensitiveFlag | undefined {
+  const major = parseInt(routerVersion || '', 10);
+
+  if (major === 6) {
+    return showSensitive ? undefined : 'hide-sensitive';
+  }
+
+  return showSensitive ? 'show-sensitive' : undefined;
+}
@@ -0,0 +1,59 @@
+import parser from 'cron-parser';
+
+/**
+ * Cron Utilities
+ *
+ * Thin wrapper around cron-parser used by the backup scheduler
+ */
+
+/**
+ * Check whether a string is a valid IANA timezone (e.g. "Asia/Jakarta")
+ *
+ * @param timezone - Timezone name
+ * @returns true if the runtime recognizes the timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a cron expression can be parsed
+ * Supports standard 5-field expressions (minute hour day month weekday)
+ *
+ * @param expression - Cron expression
+ * @returns true if valid
+ */
+export function isValidCronExpression(expression: string): boolean {
+  if (expression.trim().split(/\s+/).length !== 5) {
+    return false;
+  }
+
+  try {
+    parser.parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute the next run date of a cron expression
+ *
+ * @param expression - Cron expression
+ * @param timezone - IANA timezone the expression is evaluated in
+ * @param from - Reference date (default: now)
+ * @returns Next date strictly after `from`
+ */
+export function getNextRunDate(expression: string, timezone: string = 'UTC', from: Date = new Date()): Date {
+  const interval = parser.parseExpression(expression, {
+    currentDate: from,
+    tz: timezone
+  });
+
+  return interval.next().toDate();
+}
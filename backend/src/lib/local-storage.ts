@@ -0,0 +1,201 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { access, mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+import { createSignedUrl } from './signed-url';
+import type { StorageDriver, StorageObjectMetadata } from './storage-driver';
+
+/**
+ * Local Filesystem Storage Driver
+ *
+ * Stores objects as files under STORAGE_LOCAL_PATH, keyed the same way as R2
+ * (e.g. backups/{routerId}/{timestamp}-export.rsc). The content type of each
+ * object is kept in a "<file>.meta.json" sidecar.
+ *
+ * There is no bucket to presign against, so download links point at the API
+ * itself (GET /api/storage/local/<key>) and carry an HMAC signature with an
+ * expiry timestamp.
+ */
+
+const META_SUFFIX = '.meta.json';
+
+interface LocalObjectMeta {
+  contentType: string;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  private root: string;
+
+  constructor(root: string = config.storage.local.root) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Map an object key to a file path, refusing keys that escape the root
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep) || filePath.endsWith(META_SUFFIX)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Recursively list object keys under a directory
+   */
+  private async walk(dir: string, keys: string[]): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFound(error)) return;
+      throw error;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        await this.walk(fullPath, keys);
+      } else if (!entry.name.endsWith(META_SUFFIX)) {
+        keys.push(path.relative(this.root, fullPath).split(path.sep).join('/'));
+      }
+    }
+  }
+
+  async upload(
+    key: string,
+    body: Buffer | Readable | string,
+    contentType: string = 'application/octet-stream'
+  ): Promise<{ key: string; etag: string; size: number }> {
+    const filePath = this.resolvePath(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+
+    if (body instanceof Readable) {
+      await pipeline(body, createWriteStream(filePath));
+    } else {
+      await writeFile(filePath, body);
+    }
+
+    const meta: LocalObjectMeta = { contentType };
+    await writeFile(filePath + META_SUFFIX, JSON.stringify(meta));
+
+    const stats = await stat(filePath);
+
+    return {
+      key,
+      etag: `${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}`,
+      size: stats.size
+    };
+  }
+
+  async download(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async downloadStream(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new Error(`File not found: ${key}`);
+    }
+
+    return createReadStream(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await rm(filePath, { force: true });
+    await rm(filePath + META_SUFFIX, { force: true });
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => this.delete(key)));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.resolvePath(key));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getMetadata(key: string): Promise<StorageObjectMetadata> {
+    const filePath = this.resolvePath(key);
+
+    let stats;
+    try {
+      stats = await stat(filePath);
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${key}`);
+      }
+      throw error;
+    }
+
+    let contentType = 'application/octet-stream';
+    try {
+      const meta = JSON.parse(await readFile(filePath + META_SUFFIX, 'utf-8')) as LocalObjectMeta;
+      contentType = meta.contentType || contentType;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+
+    return {
+      size: stats.size,
+      etag: `${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}`,
+      lastModified: stats.mtime,
+      contentType
+    };
+  }
+
+  async getPresignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+    this.resolvePath(key);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return createSignedUrl(`/api/storage/local/${encodedKey}`, key, expiresIn);
+  }
+
+  async listObjects(prefix: string, maxKeys: number = 1000): Promise<string[]> {
+    // Only walk the deepest directory the prefix fully names
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const startDir = path.resolve(this.root, prefixDir);
+
+    if (startDir !== this.root && !startDir.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage prefix: ${prefix}`);
+    }
+
+    const keys: string[] = [];
+    await this.walk(startDir, keys);
+
+    return keys.filter(key => key.startsWith(prefix)).slice(0, maxKeys);
+  }
+
+  async getStorageStats(prefix: string): Promise<{ totalSize: number; fileCount: number }> {
+    const keys = await this.listObjects(prefix, Number.MAX_SAFE_INTEGER);
+    const sizes = await Promise.all(keys.map(async key => (await stat(this.resolvePath(key))).size));
+
+    return {
+      totalSize: sizes.reduce((sum, size) => sum + size, 0),
+      fileCount: keys.length
+    };
+  }
+}
@@ -14,6 +14,7 @@ import { Upload } from '@aws-sdk/lib-storage';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Readable } from 'stream';
 import { config } from '../config';
+import type { StorageDriver } from './storage-driver';
 
 /**
  * Cloudflare R2 Storage Client
@@ -21,7 +22,7 @@ import { config } from '../config';
  * R2 is S3-compatible, so we use AWS SDK v3 with R2 endpoint
  * Documentation: https://developers.cloudflare.com/r2/api/s3/api/
  */
-class R2Client {
+export class R2Client implements StorageDriver {
   private client: S3Client;
   private bucketName: string;
 
@@ -254,6 +255,3 @@ class R2Client {
     };
   }
 }
-
-// Export singleton instance
-export const r2Client = new R2Client();
@@ -3,19 +3,76 @@
  * Low-level wrapper for node-routeros library
  */
 
+import { checkServerIdentity } from 'tls';
+import { getSystemErrorName } from 'util';
+import type { ConnectionOptions, TLSSocket, TlsOptions } from 'tls';
 import { RouterOSAPI } from 'node-routeros';
-import type { RouterOSConfig, RouterOSCommandResult } from './types';
-import { DEFAULT_TIMEOUT, ROUTEROS_DEFAULT_PORT, RETRY_CONFIG } from './constants';
+import type { RouterOSConfig, RouterOSCommandResult, RouterOSStreamOptions, RouterOSTlsConfig } from './types';
+import { describeTransport } from './transport';
+import { RouterOSStream } from './stream';
+import { DEFAULT_TIMEOUT, ROUTEROS_DEFAULT_PORT, ROUTEROS_SSL_PORT, RETRY_CONFIG, BACKUP_COMMANDS } from './constants';
+
+// api-ssl without a certificate assigned only offers anonymous DH ciphers (TLS 1.2)
+const ANONYMOUS_DH_CIPHERS = 'DEFAULT:ADH-AES256-GCM-SHA384:ADH-AES128-GCM-SHA256:ADH-AES256-SHA256:ADH-AES128-SHA256:@SECLEVEL=0';
+
+/**
+ * Name of a socket error (e.g. ECONNREFUSED)
+ * node-routeros looks messages up by errno, which is numeric on current Node versions, and leaves them empty
+ */
+function getSocketErrorName(error: Error): string {
+  const { errno } = error as NodeJS.ErrnoException;
+  return typeof errno === 'number' ? getSystemErrorName(errno) : String(errno ?? 'Unknown error');
+}
+
+/**
+ * Whether the certificate is only pinned by fingerprint
+ * Router certificates are usually self-signed, node rejects those before
+ * checkServerIdentity runs, so the fingerprint is compared on the socket instead
+ */
+function isFingerprintOnly(tls: RouterOSTlsConfig | undefined): tls is RouterOSTlsConfig & { fingerprint: string } {
+  return !!tls?.verify && !!tls.fingerprint && !tls.ca;
+}
+
+/**
+ * Build node TLS options for API-SSL
+ */
+function buildTlsOptions(tls: RouterOSTlsConfig): ConnectionOptions {
+  if (!tls.verify) {
+    return { rejectUnauthorized: false, ciphers: ANONYMOUS_DH_CIPHERS };
+  }
+
+  // Checked in RouterOSClient.pinFingerprint() before the login is sent
+  if (isFingerprintOnly(tls)) {
+    return { rejectUnauthorized: false };
+  }
+
+  return {
+    rejectUnauthorized: true,
+    ...(tls.ca && { ca: tls.ca }),
+    checkServerIdentity: (hostname, cert) => {
+      if (tls.fingerprint) {
+        return cert.fingerprint256 === tls.fingerprint
+          ? undefined
+          : new Error(`Certificate fingerprint mismatch: expected ${tls.fingerprint}, got ${cert.fingerprint256}`);
+      }
+
+      // A pinned CA identifies the router, which is usually addressed by an IP its certificate doesn't name
+      return tls.ca ? undefined : checkServerIdentity(hostname, cert);
+    }
+  };
+}
 
 export class RouterOSClient {
   private api: RouterOSAPI;
   private config: RouterOSConfig;
   private connected: boolean = false;
+  private streams = new Set<RouterOSStream>(); // Streaming commands still running
+  private tlsError: Error | null = null; // Why the last handshake was refused by pinning
 
   constructor(config: RouterOSConfig) {
     this.config = {
       ...config,
-      port: config.port || ROUTEROS_DEFAULT_PORT,
+      port: config.port || (config.tls ? ROUTEROS_SSL_PORT : ROUTEROS_DEFAULT_PORT),
       timeout: config.timeout || DEFAULT_TIMEOUT,
     };
     this.api = new RouterOSAPI({
@@ -24,6 +81,19 @@ export class RouterOSClient {
       password: this.config.password,
       port: this.config.port,
       timeout: this.config.timeout,
+      // node-routeros types this as TlsOptions but hands it to tls.connect()
+      ...(this.config.tls && { tls: buildTlsOptions(this.config.tls) as TlsOptions }),
+    });
+
+    // Track sessions dropped by the router, pooled clients outlive a single call
+    this.api.on('close', () => {
+      this.connected = false;
+      this.abortStreams(new Error(`Connection to RouterOS at ${this.config.host} closed`));
+    });
+    this.api.on('error', (error) => {
+      this.connected = false;
+      console.error(`RouterOS connection to ${this.config.host} lost:`, error);
+      this.abortStreams(new Error(`Connection to RouterOS at ${this.config.host} lost`));
     });
   }
 
@@ -36,18 +106,51 @@ export class RouterOSClient {
     }
 
     try {
-      console.log(`Attempting to connect to RouterOS at ${this.config.host}:${this.config.port}`);
-      await this.api.connect();
+      console.log(`Attempting to connect to RouterOS at ${this.config.host}:${this.config.port} (${this.getTransportName()})`);
+      this.tlsError = null;
+      const connecting = this.api.connect();
+      this.pinFingerprint();
+      await connecting;
       this.connected = true;
       console.log(`Successfully connected to RouterOS at ${this.config.host}:${this.config.port}`);
     } catch (error) {
       this.connected = false;
       console.error('RouterOS connection error:', error);
-      const errorMsg = error instanceof Error ? error.message : JSON.stringify(error);
+      const errorMsg = this.tlsError?.message ??
+        (error instanceof Error ? error.message || getSocketErrorName(error) : JSON.stringify(error));
       throw new Error(`Failed to connect to RouterOS at ${this.config.host}:${this.config.port} - ${errorMsg}`);
     }
   }
 
+  /**
+   * Compare the certificate fingerprint once the handshake is done
+   * Runs ahead of node-routeros' own secureConnect listener, a mismatch
+   * destroys the socket so the login (and password) is never written
+   */
+  private pinFingerprint(): void {
+    const { tls } = this.config;
+
+    if (!isFingerprintOnly(tls)) {
+      return;
+    }
+
+    // node-routeros creates the socket synchronously in connect() and keeps it private
+    const socket = (this.api as unknown as { connector?: { socket?: TLSSocket } }).connector?.socket;
+
+    if (!socket) {
+      throw new Error('API-SSL socket not available for fingerprint pinning');
+    }
+
+    socket.prependOnceListener('secureConnect', () => {
+      const fingerprint = socket.getPeerCertificate().fingerprint256;
+
+      if (fingerprint !== tls.fingerprint) {
+        this.tlsError = new Error(`Certificate fingerprint mismatch: expected ${tls.fingerprint}, got ${fingerprint}`);
+        socket.destroy(this.tlsError);
+      }
+    });
+  }
+
   /**
    * Disconnect from RouterOS device
    */
@@ -57,6 +160,9 @@ export class RouterOSClient {
     }
 
     try {
+      // Cancel streaming commands first, node-routeros would cancel them without waiting
+      await this.cancelStreams();
+
       await this.api.close();
       this.connected = false;
     } catch (error) {
@@ -64,6 +170,13 @@ export class RouterOSClient {
     }
   }
 
+  /**
+   * Transport this client connects with, for logs and connection tests
+   */
+  getTransportName(): string {
+    return describeTransport(this.config.tls);
+  }
+
   /**
    * Check if client is connected
    */
@@ -82,29 +195,7 @@ export class RouterOSClient {
     }
 
     try {
-      // Convert object params to RouterOS API format
-      // node-routeros expects:
-      // - Regular params: '=key=value'
-      // - Query/filter: '?key=value'
-      // - Item ID: '=.id=value'
-      const formattedParams: string[] = [];
-
-      if (params) {
-        for (const [key, value] of Object.entries(params)) {
-          if (value !== undefined && value !== null) {
-            // Query parameters start with ?
-            if (key.startsWith('?')) {
-              formattedParams.push(`${key}=${value}`);
-            }
-            // Everything else (including .id) needs = prefix
-            else {
-              formattedParams.push(`=${key}=${value}`);
-            }
-          }
-        }
-      }
-
-      const data = await this.api.write(command, formattedParams);
+      const data = await this.api.write(command, this.formatParams(params));
       return {
         success: true,
         data: Array.isArray(data) ? data : [data],
@@ -117,6 +208,61 @@ export class RouterOSClient {
     }
   }
 
+  /**
+   * Run a command that keeps sending sentences until cancelled or done
+   *
+   * @example
+   * const stream = client.stream('/interface/monitor-traffic', { interface: 'ether1' });
+   * for await (const sample of stream) {
+   *   console.log(sample['rx-bits-per-second']);
+   * }
+   *
+   * @param command - RouterOS API command path (e.g., '/tool/torch')
+   * @param params - Command parameters
+   * @param options.signal - Cancels the command when aborted
+   * @returns Async iterator of !re sentences, leaving the loop early sends /cancel
+   */
+  stream(command: string, params?: Record<string, any>, options: RouterOSStreamOptions = {}): RouterOSStream {
+    if (!this.connected) {
+      throw new Error('Not connected to RouterOS. Call connect() first.');
+    }
+
+    const stream = new RouterOSStream(this.api.writeStream(command, this.formatParams(params)), command);
+    this.streams.add(stream);
+
+    const { signal } = options;
+    const onAbort = () => {
+      stream.cancel().catch(() => undefined);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    stream.onFinished(() => {
+      this.streams.delete(stream);
+      signal?.removeEventListener('abort', onAbort);
+    });
+
+    return stream;
+  }
+
+  /**
+   * Number of streaming commands still running
+   */
+  getActiveStreamCount(): number {
+    return this.streams.size;
+  }
+
+  /**
+   * Cancel every streaming command still running
+   */
+  async cancelStreams(): Promise<void> {
+    await Promise.all([...this.streams].map(stream => stream.cancel()));
+  }
+
   /**
    * Execute command with automatic retry logic
    */
@@ -207,6 +353,20 @@ export class RouterOSClient {
     );
   }
 
+  /**
+   * Save a binary system backup (.backup) on the router
+   * The file stays on the router until removed, download it via SFTP
+   *
+   * @param name - File name without the .backup extension
+   * @param password - Encryption password (file is saved unencrypted if omitted)
+   */
+  async saveBinaryBackup(name: string, password?: string): Promise<RouterOSCommandResult> {
+    return await this.execute(
+      BACKUP_COMMANDS.SAVE,
+      password ? { name, password } : { name, 'dont-encrypt': 'yes' }
+    );
+  }
+
   /**
    * Import configuration from .rsc file
    * @param config - Configuration content as string
@@ -289,6 +449,43 @@ export class RouterOSClient {
     }
   }
 
+  /**
+   * Convert object params to RouterOS API format
+   * node-routeros expects:
+   * - Regular params: '=key=value'
+   * - Query/filter: '?key=value'
+   * - Item ID: '=.id=value'
+   */
+  private formatParams(params?: Record<string, any>): string[] {
+    const formattedParams: string[] = [];
+
+    if (params) {
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          // Query parameters start with ?
+          if (key.startsWith('?')) {
+            formattedParams.push(`${key}=${value}`);
+          }
+          // Everything else (including .id) needs = prefix
+          else {
+            formattedParams.push(`=${key}=${value}`);
+          }
+        }
+      }
+    }
+
+    return formattedParams;
+  }
+
+  /**
+   * End every running stream, the connection they ran on is gone
+   */
+  private abortStreams(error: Error): void {
+    for (const stream of [...this.streams]) {
+      stream.abort(error);
+    }
+  }
+
   /**
    * Sleep utility for retry delays
    */
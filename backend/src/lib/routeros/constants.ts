@@ -84,6 +84,38 @@ export const BGP_COMMANDS = {
   },
 } as const;
 
+/**
+ * Routing Filter Commands (RouterOS v7)
+ */
+export const ROUTING_FILTER_COMMANDS = {
+  RULE: {
+    PRINT: '/routing/filter/rule/print',
+    ADD: '/routing/filter/rule/add',
+    SET: '/routing/filter/rule/set',
+    REMOVE: '/routing/filter/rule/remove',
+    ENABLE: '/routing/filter/rule/enable',
+    DISABLE: '/routing/filter/rule/disable',
+    MOVE: '/routing/filter/rule/move', // numbers=<id> destination=<id>, before destination or last without it
+  },
+} as const;
+
+/**
+ * Route Table Commands (RouterOS v7)
+ */
+export const ROUTE_COMMANDS = {
+  IPV4: {
+    PRINT: '/ip/route/print',
+  },
+  IPV6: {
+    PRINT: '/ipv6/route/print',
+  },
+} as const;
+
+/**
+ * Route protocol flags, a route prints the flag of its source as true (e.g. bgp=true)
+ */
+export const ROUTE_PROTOCOLS = ['connect', 'static', 'bgp', 'ospf', 'rip', 'dhcp', 'vpn', 'modem'] as const;
+
 /**
  * Default User Groups in RouterOS
  */
@@ -0,0 +1,418 @@
+/**
+ * RouterOS API Connection Pool
+ *
+ * Keeps logged-in API sessions per router and lends them to services, so a
+ * page that issues several calls does not open (and log) a new login each time.
+ *
+ * - At most maxSessionsPerRouter sessions per router, extra borrowers wait in line
+ * - Sessions idle longer than idleTimeoutMs are closed by a sweep
+ * - Sessions idle longer than healthCheckAfterMs are probed before being lent out
+ * - A credential or transport change (or invalidate()) retires every session of the router
+ */
+
+import { createHash } from 'crypto';
+import { config } from '../../config';
+import { RouterOSClient } from './client';
+import type { RouterOSConfig } from './types';
+
+interface PooledSession {
+  client: RouterOSClient;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface Waiter {
+  resolve: (client: RouterOSClient) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface RouterPool {
+  credentialsKey: string;
+  config: RouterOSConfig;
+  idle: PooledSession[];
+  active: Map<RouterOSClient, PooledSession>;
+  opening: number; // Sessions being connected right now
+  checking: number; // Idle sessions being health-checked right now
+  waiters: Waiter[];
+}
+
+export interface RouterPoolMetrics {
+  routerId: string;
+  host: string;
+  active: number;
+  idle: number;
+  waiting: number;
+}
+
+export interface PoolMetrics {
+  maxSessionsPerRouter: number;
+  totals: {
+    created: number;
+    reused: number;
+    destroyed: number;
+    healthCheckFailures: number;
+    acquireTimeouts: number;
+  };
+  routers: RouterPoolMetrics[];
+}
+
+// Cheap command used to check that an idle session still answers
+const HEALTH_CHECK_COMMAND = '/system/identity/print';
+
+export class RouterOSConnectionPool {
+  private pools = new Map<string, RouterPool>();
+  private owners = new Map<RouterOSClient, string>(); // Borrowed client -> router ID
+  private retired = new Set<RouterOSClient>(); // Borrowed clients to close on release
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  private totals = {
+    created: 0,
+    reused: 0,
+    destroyed: 0,
+    healthCheckFailures: 0,
+    acquireTimeouts: 0
+  };
+
+  constructor(private options = config.routeros.pool) {}
+
+  /**
+   * Identify a set of connection settings without keeping the password around
+   */
+  private getCredentialsKey(clientConfig: RouterOSConfig): string {
+    return createHash('sha256')
+      .update([
+        clientConfig.host,
+        clientConfig.port,
+        clientConfig.username,
+        clientConfig.password,
+        JSON.stringify(clientConfig.tls ?? null)
+      ].join('\0'))
+      .digest('hex');
+  }
+
+  private getPool(routerId: string, clientConfig: RouterOSConfig): RouterPool {
+    const credentialsKey = this.getCredentialsKey(clientConfig);
+    const existing = this.pools.get(routerId);
+
+    if (existing && existing.credentialsKey === credentialsKey) {
+      return existing;
+    }
+
+    // Address or credentials changed since the sessions were opened
+    if (existing) {
+      this.retirePool(routerId, existing, 'Router connection settings changed').catch(() => undefined);
+    }
+
+    const pool: RouterPool = {
+      credentialsKey,
+      config: clientConfig,
+      idle: [],
+      active: new Map(),
+      opening: 0,
+      checking: 0,
+      waiters: []
+    };
+
+    this.pools.set(routerId, pool);
+    this.startSweep();
+
+    return pool;
+  }
+
+  private sessionCount(pool: RouterPool): number {
+    return pool.idle.length + pool.active.size + pool.opening + pool.checking;
+  }
+
+  /**
+   * Borrow a connected client for a router
+   * Every acquire must be paired with release(), prefer withClient()
+   *
+   * @param routerId - Router UUID
+   * @param clientConfig - Connection settings (decrypted password)
+   * @param options.fresh - Log in anew instead of reusing an idle session (connection tests)
+   * @returns Connected client
+   */
+  async acquire(
+    routerId: string,
+    clientConfig: RouterOSConfig,
+    options: { fresh?: boolean } = {}
+  ): Promise<RouterOSClient> {
+    const pool = this.getPool(routerId, clientConfig);
+
+    // Make room for the new login by closing an idle session
+    if (options.fresh) {
+      const session = pool.idle.shift();
+      if (session) {
+        await this.destroy(session.client);
+      }
+    }
+
+    while (!options.fresh && pool.idle.length > 0) {
+      const session = pool.idle.pop()!;
+
+      // Still holds its slot while probed, or a concurrent acquire would open one more
+      pool.checking++;
+      let healthy: boolean;
+      try {
+        healthy = await this.isHealthy(session);
+      } finally {
+        pool.checking--;
+      }
+
+      if (healthy) {
+        this.totals.reused++;
+        return this.lend(routerId, pool, session);
+      }
+
+      this.totals.healthCheckFailures++;
+      await this.destroy(session.client);
+    }
+
+    if (this.sessionCount(pool) < this.options.maxSessionsPerRouter) {
+      return await this.open(routerId, pool);
+    }
+
+    return await new Promise<RouterOSClient>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          pool.waiters = pool.waiters.filter(w => w !== waiter);
+          this.totals.acquireTimeouts++;
+          reject(new Error(
+            `Timed out waiting for a RouterOS session to ${clientConfig.host} ` +
+            `(${this.options.maxSessionsPerRouter} sessions in use)`
+          ));
+        }, this.options.acquireTimeoutMs)
+      };
+
+      pool.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Return a borrowed client to the pool
+   *
+   * @param client - Client from acquire()
+   * @param options.destroy - Close the session instead of keeping it (e.g. after a protocol error)
+   */
+  async release(client: RouterOSClient, options: { destroy?: boolean } = {}): Promise<void> {
+    const routerId = this.owners.get(client);
+    this.owners.delete(client);
+
+    const pool = routerId ? this.pools.get(routerId) : undefined;
+    const session = pool?.active.get(client);
+
+    if (!routerId || !pool || !session) {
+      // Borrowed from a pool that has since been retired
+      this.retired.delete(client);
+      await this.destroy(client);
+      return;
+    }
+
+    pool.active.delete(client);
+
+    if (options.destroy || this.retired.has(client) || !client.isConnected()) {
+      this.retired.delete(client);
+      await this.destroy(client);
+      this.serveWaiter(routerId, pool);
+      return;
+    }
+
+    // The next borrower must not receive replies of a command it didn't start
+    if (client.getActiveStreamCount() > 0) {
+      await client.cancelStreams();
+    }
+
+    session.lastUsedAt = Date.now();
+
+    // Hand the session straight to the next borrower in line
+    const waiter = pool.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.totals.reused++;
+      waiter.resolve(this.lend(routerId, pool, session));
+      return;
+    }
+
+    pool.idle.push(session);
+  }
+
+  /**
+   * Borrow a client for the duration of a callback
+   *
+   * @param routerId - Router UUID
+   * @param clientConfig - Connection settings (decrypted password)
+   * @param fn - Work to do with the client
+   * @returns Result of fn
+   */
+  async withClient<T>(
+    routerId: string,
+    clientConfig: RouterOSConfig,
+    fn: (client: RouterOSClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.acquire(routerId, clientConfig);
+
+    try {
+      return await fn(client);
+    } finally {
+      await this.release(client);
+    }
+  }
+
+  /**
+   * Close every session of a router (e.g. after its password changed)
+   * Borrowed sessions are closed when they are released
+   */
+  async invalidate(routerId: string): Promise<void> {
+    const pool = this.pools.get(routerId);
+
+    if (pool) {
+      await this.retirePool(routerId, pool, 'Router sessions were invalidated');
+    }
+  }
+
+  /**
+   * Usage counters and per-router session counts
+   */
+  getMetrics(): PoolMetrics {
+    return {
+      maxSessionsPerRouter: this.options.maxSessionsPerRouter,
+      totals: { ...this.totals },
+      routers: [...this.pools.entries()].map(([routerId, pool]) => ({
+        routerId,
+        host: pool.config.host,
+        active: pool.active.size,
+        idle: pool.idle.length,
+        waiting: pool.waiters.length
+      }))
+    };
+  }
+
+  /**
+   * Close every session, used on shutdown
+   */
+  async drain(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    await Promise.all(
+      [...this.pools.entries()].map(([routerId, pool]) =>
+        this.retirePool(routerId, pool, 'Connection pool is shutting down')
+      )
+    );
+  }
+
+  private lend(routerId: string, pool: RouterPool, session: PooledSession): RouterOSClient {
+    session.lastUsedAt = Date.now();
+    pool.active.set(session.client, session);
+    this.owners.set(session.client, routerId);
+    return session.client;
+  }
+
+  private async open(routerId: string, pool: RouterPool): Promise<RouterOSClient> {
+    pool.opening++;
+
+    try {
+      const client = new RouterOSClient(pool.config);
+      await client.connect();
+      this.totals.created++;
+
+      const now = Date.now();
+      return this.lend(routerId, pool, { client, createdAt: now, lastUsedAt: now });
+    } finally {
+      pool.opening--;
+    }
+  }
+
+  /**
+   * Open a session for the next waiter after a slot was freed
+   */
+  private serveWaiter(routerId: string, pool: RouterPool): void {
+    const waiter = pool.waiters.shift();
+    if (!waiter) {
+      return;
+    }
+
+    clearTimeout(waiter.timer);
+    this.open(routerId, pool).then(waiter.resolve, waiter.reject);
+  }
+
+  private async isHealthy(session: PooledSession): Promise<boolean> {
+    if (!session.client.isConnected()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastUsedAt < this.options.healthCheckAfterMs) {
+      return true;
+    }
+
+    const result = await session.client.execute(HEALTH_CHECK_COMMAND);
+    return result.success;
+  }
+
+  private async destroy(client: RouterOSClient): Promise<void> {
+    this.totals.destroyed++;
+    await client.disconnect();
+  }
+
+  private async retirePool(routerId: string, pool: RouterPool, reason: string): Promise<void> {
+    if (this.pools.get(routerId) === pool) {
+      this.pools.delete(routerId);
+    }
+
+    for (const waiter of pool.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error(reason));
+    }
+    pool.waiters = [];
+
+    for (const client of pool.active.keys()) {
+      this.retired.add(client);
+    }
+
+    const idle = pool.idle;
+    pool.idle = [];
+    await Promise.all(idle.map(session => this.destroy(session.client)));
+  }
+
+  /**
+   * Periodically close sessions that sat idle for too long
+   */
+  private startSweep(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      const cutoff = Date.now() - this.options.idleTimeoutMs;
+
+      for (const [routerId, pool] of this.pools) {
+        const expired = pool.idle.filter(session => session.lastUsedAt < cutoff);
+        pool.idle = pool.idle.filter(session => session.lastUsedAt >= cutoff);
+
+        expired.forEach(session => {
+          this.destroy(session.client).catch(() => undefined);
+        });
+
+        if (this.sessionCount(pool) === 0 && pool.waiters.length === 0) {
+          this.pools.delete(routerId);
+        }
+      }
+
+      if (this.pools.size === 0 && this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+      }
+    }, Math.max(1000, Math.min(this.options.idleTimeoutMs, 30000)));
+
+    // Never keep the process alive just for the sweep
+    this.sweepTimer.unref();
+  }
+}
+
+// Export singleton instance
+export const routerOSPool = new RouterOSConnectionPool();
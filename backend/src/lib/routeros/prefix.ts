@@ -0,0 +1,121 @@
+/**
+ * IPv4/IPv6 Prefix Helpers
+ *
+ * Addresses are held as bigints so both families share one code path.
+ * formatPrefix() writes prefixes the way RouterOS prints dst-address
+ * (IPv6 compressed, lower case), so the result can be used in an exact
+ * API query such as ?dst-address=2001:db8::/32.
+ */
+
+export interface ParsedPrefix {
+  version: 4 | 6;
+  network: bigint;
+  length: number;
+}
+
+function parseIPv4(address: string): bigint | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => (value << 8n) | BigInt(part), 0n);
+}
+
+function parseIPv6(address: string): bigint | null {
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+
+  if (groups.some(group => !/^[\da-fA-F]{1,4}$/.test(group))) {
+    return null;
+  }
+
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+/**
+ * Parse an IPv4/IPv6 prefix, host bits are cleared
+ * A plain address is a host prefix (/32 or /128)
+ */
+export function parsePrefix(text: string): ParsedPrefix | null {
+  const [address, lengthText, ...rest] = text.trim().split('/');
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const version = address.includes(':') ? 6 : 4;
+  const bits = version === 4 ? 32 : 128;
+  const value = version === 4 ? parseIPv4(address) : parseIPv6(address);
+  const length = lengthText === undefined ? bits : /^\d{1,3}$/.test(lengthText) ? Number(lengthText) : NaN;
+
+  if (value === null || !Number.isInteger(length) || length < 0 || length > bits) {
+    return null;
+  }
+
+  return truncatePrefix({ version, network: value, length: bits }, length);
+}
+
+/**
+ * The covering prefix of the given length, e.g. 10.1.2.3/32 at 16 is 10.1.0.0/16
+ */
+export function truncatePrefix(prefix: ParsedPrefix, length: number): ParsedPrefix {
+  const shift = BigInt((prefix.version === 4 ? 32 : 128) - length);
+  return { version: prefix.version, network: (prefix.network >> shift) << shift, length };
+}
+
+/**
+ * Whether prefix lies within container (equal counts)
+ */
+export function prefixWithin(prefix: ParsedPrefix, container: ParsedPrefix): boolean {
+  if (prefix.version !== container.version || prefix.length < container.length) {
+    return false;
+  }
+
+  const shift = BigInt((prefix.version === 4 ? 32 : 128) - container.length);
+  return prefix.network >> shift === container.network >> shift;
+}
+
+/**
+ * Write a prefix as RouterOS prints it
+ */
+export function formatPrefix(prefix: ParsedPrefix): string {
+  if (prefix.version === 4) {
+    const octets = [24n, 16n, 8n, 0n].map(shift => (prefix.network >> shift) & 0xffn);
+    return `${octets.join('.')}/${prefix.length}`;
+  }
+
+  const groups = Array.from({ length: 8 }, (_, index) =>
+    ((prefix.network >> BigInt((7 - index) * 16)) & 0xffffn).toString(16)
+  );
+
+  // Longest run of two or more zero groups becomes "::", the first one on a tie
+  let runStart = -1;
+  let runLength = 0;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === '0') {
+      length++;
+    }
+    if (length > runLength) {
+      runStart = start;
+      runLength = length;
+    }
+  }
+
+  const address = runLength >= 2
+    ? `${groups.slice(0, runStart).join(':')}::${groups.slice(runStart + runLength).join(':')}`
+    : groups.join(':');
+
+  return `${address}/${prefix.length}`;
+}
@@ -0,0 +1,693 @@
+/**
+ * RouterOS v7 Routing Filter Evaluator
+ *
+ * Parses the rule text of /routing/filter/rule entries and runs a sample
+ * route through a chain locally, the way the router would:
+ * rules run in order, the first accept or reject decides, a jump runs
+ * another chain and comes back on return or at its end, and a route that
+ * reaches the end of the chain it started in is rejected.
+ *
+ * Handles:
+ * - if (...) { ... } else { ... } and else if, statements split by ";"
+ * - conditions joined with &&, || and !, grouped with parentheses
+ * - matchers: dst (in/==), dst-len (comparisons and "in 8-24"), afi,
+ *   protocol, bgp-as-path (regex), bgp-as-path-len, bgp-communities
+ *   (includes/any/equal), bgp-local-pref and bgp-med
+ * - actions: accept, reject, return, jump <chain>
+ * - set/append/delete, applied to bgp-local-pref, bgp-med and
+ *   bgp-communities, other properties are recorded as they are written
+ *
+ * Nothing here throws on malformed input. A rule that does not parse is
+ * skipped and reported as a warning. Conditions are three-valued: a matcher
+ * the tester does not understand is unknown, and stays unknown through !, &&
+ * and || unless the other side settles it. When an unknown condition picks
+ * the branch, evaluation stops there and the verdict is indeterminate.
+ */
+
+import { parsePrefix, prefixWithin } from './prefix';
+import type { ParsedPrefix } from './prefix';
+
+export interface FilterRuleSource {
+  id: string;
+  chain: string;
+  rule: string;
+  disabled: boolean;
+}
+
+export interface FilterTestRoute {
+  dst: string; // Prefix, e.g. "203.0.113.0/24", a bare address is a host route
+  asPath?: number[]; // Leftmost is the neighbour
+  communities?: string[]; // "65000:100" or well-known names like "no-export"
+  localPref?: number;
+  med?: number;
+  protocol?: string; // Defaults to bgp
+}
+
+export interface FilterRouteState {
+  dst: string;
+  asPath: number[];
+  communities: string[];
+  localPref: number | null;
+  med: number | null;
+  protocol: string;
+  other: Record<string, string>; // Properties set by rules that are not modelled here
+}
+
+export type FilterCondition =
+  | { kind: 'match'; property: string; operator: string | null; value: string | null }
+  | { kind: 'not'; condition: FilterCondition }
+  | { kind: 'and' | 'or'; left: FilterCondition; right: FilterCondition };
+
+export type FilterStatement =
+  | { kind: 'if'; condition: FilterCondition; then: FilterStatement[]; else: FilterStatement[] | null }
+  | { kind: 'accept' | 'reject' | 'return' }
+  | { kind: 'jump'; chain: string }
+  | { kind: 'modify'; verb: 'set' | 'append' | 'delete'; property: string; value: string }
+  | { kind: 'unknown'; text: string };
+
+export interface ParsedFilterRule {
+  statements: FilterStatement[];
+  error: string | null; // Why the rule could not be parsed, statements are empty then
+}
+
+export interface FilterModification {
+  chain: string;
+  ruleId: string;
+  verb: 'set' | 'append' | 'delete';
+  property: string;
+  value: string;
+}
+
+export interface FilterTraceStep {
+  chain: string;
+  ruleId: string;
+  rule: string;
+  depth: number; // 0 for the tested chain, +1 per jump
+  outcome: 'accept' | 'reject' | 'return' | 'indeterminate' | 'next'; // next: the rule did not decide
+}
+
+export interface FilterEvaluation {
+  chain: string;
+  action: 'accept' | 'reject' | 'indeterminate'; // indeterminate: an unsupported matcher picked the branch
+  decidedBy: { chain: string; ruleId: string } | null; // Rule that decided or could not be evaluated, null when the route fell off the end of the chain
+  route: FilterRouteState; // After the modifications
+  modifications: FilterModification[];
+  trace: FilterTraceStep[];
+  warnings: string[];
+}
+
+// Jumps deeper than this are treated as a loop
+export const MAX_JUMP_DEPTH = 16;
+
+type Token = { type: 'word' | 'string' | 'punct' | 'op'; value: string };
+
+type Outcome = 'accept' | 'reject' | 'return' | 'indeterminate' | null;
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '>', '<', '>=', '<=']);
+
+// Matcher operators written as words, e.g. "dst in 10.0.0.0/8"
+const WORD_OPERATORS = new Set(['in', 'includes', 'any', 'equal', 'includes-list', 'any-list', 'equal-list', 'subsumes']);
+
+const NUMERIC_PROPERTIES = new Set(['bgp-local-pref', 'bgp-med']);
+
+class FilterSyntaxError extends Error {}
+
+/**
+ * Split rule text into tokens
+ * Words stop at whitespace, quotes, (){}; and the comparison/logic operators
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = '';
+      i++;
+
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          i++;
+        }
+        value += text[i++];
+      }
+
+      if (i >= text.length) {
+        throw new FilterSyntaxError('Unterminated string');
+      }
+
+      i++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    if ('(){};'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+      continue;
+    }
+
+    const pair = text.slice(i, i + 2);
+
+    if (['&&', '||', '==', '!=', '>=', '<='].includes(pair)) {
+      tokens.push({ type: 'op', value: pair });
+      i += 2;
+      continue;
+    }
+
+    if ('!<>='.includes(char)) {
+      // A lone "=" reads as "=="
+      tokens.push({ type: 'op', value: char === '=' ? '==' : char });
+      i++;
+      continue;
+    }
+
+    let word = '';
+
+    while (
+      i < text.length &&
+      !/\s/.test(text[i]) &&
+      !'"(){};!<>='.includes(text[i]) &&
+      !['&&', '||'].includes(text.slice(i, i + 2))
+    ) {
+      word += text[i++];
+    }
+
+    tokens.push({ type: 'word', value: word });
+  }
+
+  return tokens;
+}
+
+class RuleParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterStatement[] {
+    return this.parseStatements(false);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new FilterSyntaxError('Unexpected end of rule');
+    }
+    return token;
+  }
+
+  private isToken(type: Token['type'], value?: string): boolean {
+    const token = this.peek();
+    return !!token && token.type === type && (value === undefined || token.value === value);
+  }
+
+  private expect(type: Token['type'], value: string): void {
+    const token = this.next();
+    if (token.type !== type || token.value !== value) {
+      throw new FilterSyntaxError(`Expected "${value}" but found "${token.value}"`);
+    }
+  }
+
+  private expectValue(what: string): string {
+    const token = this.next();
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new FilterSyntaxError(`Expected ${what} but found "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  private parseStatements(inBlock: boolean): FilterStatement[] {
+    const statements: FilterStatement[] = [];
+
+    for (;;) {
+      while (this.isToken('punct', ';')) {
+        this.position++;
+      }
+
+      if (!this.peek()) {
+        if (inBlock) {
+          throw new FilterSyntaxError('Missing "}"');
+        }
+        return statements;
+      }
+
+      if (this.isToken('punct', '}')) {
+        if (inBlock) {
+          return statements;
+        }
+        throw new FilterSyntaxError('Unexpected "}"');
+      }
+
+      statements.push(this.parseStatement());
+    }
+  }
+
+  private parseBlock(): FilterStatement[] {
+    this.expect('punct', '{');
+    const statements = this.parseStatements(true);
+    this.expect('punct', '}');
+    return statements;
+  }
+
+  private parseStatement(): FilterStatement {
+    const token = this.next();
+
+    if (token.type !== 'word') {
+      throw new FilterSyntaxError(`Unexpected "${token.value}"`);
+    }
+
+    switch (token.value) {
+      case 'if': {
+        this.expect('punct', '(');
+        const condition = this.parseOr();
+        this.expect('punct', ')');
+        const then = this.parseBlock();
+        let otherwise: FilterStatement[] | null = null;
+
+        if (this.isToken('word', 'else')) {
+          this.position++;
+          otherwise = this.isToken('word', 'if') ? [this.parseStatement()] : this.parseBlock();
+        }
+
+        return { kind: 'if', condition, then, else: otherwise };
+      }
+      case 'accept':
+      case 'reject':
+      case 'return':
+        return { kind: token.value };
+      case 'jump':
+        return { kind: 'jump', chain: this.expectValue('a chain name') };
+      case 'set':
+      case 'append':
+      case 'delete': {
+        const property = this.expectValue('a property');
+        const value = this.isToken('word') || this.isToken('string') ? this.next().value : '';
+        return { kind: 'modify', verb: token.value, property, value };
+      }
+      default: {
+        const words = [token.value];
+        while (this.peek() && !this.isToken('punct', ';') && !this.isToken('punct', '}')) {
+          words.push(this.next().value);
+        }
+        return { kind: 'unknown', text: words.join(' ') };
+      }
+    }
+  }
+
+  private parseOr(): FilterCondition {
+    let left = this.parseAnd();
+
+    while (this.isToken('op', '||')) {
+      this.position++;
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): FilterCondition {
+    let left = this.parseUnary();
+
+    while (this.isToken('op', '&&')) {
+      this.position++;
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): FilterCondition {
+    if (this.isToken('op', '!')) {
+      this.position++;
+      return { kind: 'not', condition: this.parseUnary() };
+    }
+
+    if (this.isToken('punct', '(')) {
+      this.position++;
+      const condition = this.parseOr();
+      this.expect('punct', ')');
+      return condition;
+    }
+
+    const property = this.next();
+
+    if (property.type !== 'word') {
+      throw new FilterSyntaxError(`Expected a property but found "${property.value}"`);
+    }
+
+    const token = this.peek();
+
+    if (token?.type === 'op' && COMPARISON_OPERATORS.has(token.value)) {
+      this.position++;
+      return { kind: 'match', property: property.value, operator: token.value, value: this.expectValue('a value') };
+    }
+
+    if (token?.type === 'word' && WORD_OPERATORS.has(token.value)) {
+      this.position++;
+      return { kind: 'match', property: property.value, operator: token.value, value: this.expectValue('a value') };
+    }
+
+    // "afi ipv4", "bgp-as-path 65001$", or a bare flag
+    if (token?.type === 'word' || token?.type === 'string') {
+      this.position++;
+      return { kind: 'match', property: property.value, operator: null, value: token.value };
+    }
+
+    return { kind: 'match', property: property.value, operator: null, value: null };
+  }
+}
+
+/**
+ * Parse the text of one /routing/filter/rule entry
+ */
+export function parseFilterRule(text: string): ParsedFilterRule {
+  try {
+    return { statements: new RuleParser(tokenize(text)).parse(), error: null };
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return { statements: [], error: error.message };
+    }
+    throw error;
+  }
+}
+
+function compareNumber(actual: number | null, operator: string | null, value: string): boolean | undefined {
+  if (actual === null) {
+    return false;
+  }
+
+  if (operator === 'in') {
+    const range = value.match(/^(\d+)-(\d+)$/);
+    return range ? actual >= Number(range[1]) && actual <= Number(range[2]) : undefined;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    return undefined;
+  }
+
+  const expected = Number(value);
+
+  switch (operator) {
+    case null:
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    default: return undefined;
+  }
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+interface EvaluationContext {
+  chains: Map<string, Array<{ source: FilterRuleSource; parsed: ParsedFilterRule }>>;
+  route: FilterRouteState;
+  prefix: ParsedPrefix | null;
+  modifications: FilterModification[];
+  trace: FilterTraceStep[];
+  warnings: Set<string>;
+  decidedBy: { chain: string; ruleId: string } | null;
+}
+
+/**
+ * Evaluate one matcher, undefined when it is not understood
+ */
+function evaluateMatch(
+  context: EvaluationContext,
+  condition: Extract<FilterCondition, { kind: 'match' }>
+): boolean | undefined {
+  const { route, prefix } = context;
+  const { property, operator, value } = condition;
+
+  if (value === null) {
+    return undefined;
+  }
+
+  switch (property) {
+    case 'dst': {
+      const target = parsePrefix(value);
+      if (!prefix || !target) {
+        return undefined;
+      }
+      if (operator === 'in') return prefixWithin(prefix, target);
+      if (operator === '==' || operator === null) return prefixWithin(prefix, target) && prefix.length === target.length;
+      if (operator === '!=') return !(prefixWithin(prefix, target) && prefix.length === target.length);
+      return undefined;
+    }
+    case 'dst-len':
+      return prefix ? compareNumber(prefix.length, operator, value) : undefined;
+    case 'afi': {
+      if (!prefix) {
+        return undefined;
+      }
+      const names = prefix.version === 4 ? ['ip', 'ipv4'] : ['ipv6'];
+      return splitList(value).some(afi => names.includes(afi));
+    }
+    case 'protocol':
+      return splitList(value).includes(route.protocol);
+    case 'bgp-as-path': {
+      if (operator !== null) {
+        return undefined;
+      }
+      try {
+        return new RegExp(value).test(route.asPath.join(' '));
+      } catch {
+        return undefined;
+      }
+    }
+    case 'bgp-as-path-len':
+    case 'bgp-path-len':
+      return compareNumber(route.asPath.length, operator, value);
+    case 'bgp-communities': {
+      const wanted = splitList(value);
+      if (operator === 'includes') return wanted.every(community => route.communities.includes(community));
+      if (operator === 'any') return wanted.some(community => route.communities.includes(community));
+      if (operator === 'equal') {
+        return wanted.length === route.communities.length && wanted.every(community => route.communities.includes(community));
+      }
+      return undefined;
+    }
+    case 'bgp-local-pref':
+      return compareNumber(route.localPref, operator, value);
+    case 'bgp-med':
+      return compareNumber(route.med, operator, value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Evaluate a condition, undefined when it is unknown (Kleene logic)
+ */
+function evaluateCondition(context: EvaluationContext, condition: FilterCondition, ruleId: string): boolean | undefined {
+  switch (condition.kind) {
+    case 'not': {
+      const result = evaluateCondition(context, condition.condition, ruleId);
+      return result === undefined ? undefined : !result;
+    }
+    case 'and': {
+      const left = evaluateCondition(context, condition.left, ruleId);
+      const right = evaluateCondition(context, condition.right, ruleId);
+      if (left === false || right === false) return false;
+      return left === undefined || right === undefined ? undefined : true;
+    }
+    case 'or': {
+      const left = evaluateCondition(context, condition.left, ruleId);
+      const right = evaluateCondition(context, condition.right, ruleId);
+      if (left === true || right === true) return true;
+      return left === undefined || right === undefined ? undefined : false;
+    }
+    case 'match': {
+      const result = evaluateMatch(context, condition);
+
+      if (result === undefined) {
+        const written = [condition.property, condition.operator, condition.value].filter(part => part !== null).join(' ');
+        context.warnings.add(`Rule ${ruleId}: "${written}" is not supported by the tester`);
+      }
+
+      return result;
+    }
+  }
+}
+
+function applyModification(context: EvaluationContext, statement: Extract<FilterStatement, { kind: 'modify' }>): void {
+  const { route } = context;
+  const { verb, property, value } = statement;
+
+  if (property === 'bgp-communities') {
+    const communities = splitList(value);
+    if (verb === 'set') route.communities = communities;
+    if (verb === 'append') route.communities.push(...communities.filter(community => !route.communities.includes(community)));
+    if (verb === 'delete') route.communities = route.communities.filter(community => !communities.includes(community));
+    return;
+  }
+
+  if (NUMERIC_PROPERTIES.has(property) && verb === 'set' && /^\d+$/.test(value)) {
+    if (property === 'bgp-local-pref') route.localPref = Number(value);
+    if (property === 'bgp-med') route.med = Number(value);
+    return;
+  }
+
+  if (verb === 'delete') {
+    delete route.other[property];
+  } else {
+    route.other[property] = verb === 'append' && route.other[property] ? `${route.other[property]},${value}` : value;
+  }
+}
+
+function runStatements(
+  context: EvaluationContext,
+  statements: FilterStatement[],
+  step: FilterTraceStep
+): Outcome {
+  for (const statement of statements) {
+    switch (statement.kind) {
+      case 'if': {
+        const matched = evaluateCondition(context, statement.condition, step.ruleId);
+
+        // The tester cannot tell which branch the router takes
+        if (matched === undefined) {
+          context.decidedBy = { chain: step.chain, ruleId: step.ruleId };
+          return 'indeterminate';
+        }
+
+        const branch = matched ? statement.then : statement.else;
+        const outcome = branch ? runStatements(context, branch, step) : null;
+        if (outcome) {
+          return outcome;
+        }
+        break;
+      }
+      case 'accept':
+      case 'reject':
+        context.decidedBy = { chain: step.chain, ruleId: step.ruleId };
+        return statement.kind;
+      case 'return':
+        return 'return';
+      case 'jump': {
+        if (step.depth + 1 > MAX_JUMP_DEPTH) {
+          context.warnings.add(`Rule ${step.ruleId}: jumps nested deeper than ${MAX_JUMP_DEPTH}, "jump ${statement.chain}" ignored`);
+          break;
+        }
+        const outcome = runChain(context, statement.chain, step.depth + 1);
+        if (outcome === 'accept' || outcome === 'reject' || outcome === 'indeterminate') {
+          return outcome;
+        }
+        break;
+      }
+      case 'modify':
+        applyModification(context, statement);
+        context.modifications.push({
+          chain: step.chain,
+          ruleId: step.ruleId,
+          verb: statement.verb,
+          property: statement.property,
+          value: statement.value
+        });
+        break;
+      case 'unknown':
+        context.warnings.add(`Rule ${step.ruleId}: "${statement.text}" is not supported by the tester and was skipped`);
+        break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run the rules of a chain, null when none of them decided
+ */
+function runChain(context: EvaluationContext, chain: string, depth: number): Outcome {
+  const rules = context.chains.get(chain);
+
+  if (!rules) {
+    context.warnings.add(`Chain "${chain}" has no enabled rules`);
+    return null;
+  }
+
+  for (const { source, parsed } of rules) {
+    if (parsed.error) {
+      context.warnings.add(`Rule ${source.id}: ${parsed.error}, skipped`);
+      continue;
+    }
+
+    const step: FilterTraceStep = { chain, ruleId: source.id, rule: source.rule, depth, outcome: 'next' };
+    context.trace.push(step);
+
+    const outcome = runStatements(context, parsed.statements, step);
+
+    if (outcome) {
+      step.outcome = outcome;
+      // return leaves this chain, the caller goes on after its jump
+      return outcome === 'return' ? null : outcome;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a route through a chain
+ * `rules` are the rules of every chain in router order, so jumps can be followed
+ */
+export function evaluateFilterChain(rules: FilterRuleSource[], chain: string, route: FilterTestRoute): FilterEvaluation {
+  const chains: EvaluationContext['chains'] = new Map();
+
+  for (const source of rules) {
+    if (source.disabled) {
+      continue;
+    }
+    const entries = chains.get(source.chain) ?? [];
+    entries.push({ source, parsed: parseFilterRule(source.rule) });
+    chains.set(source.chain, entries);
+  }
+
+  const context: EvaluationContext = {
+    chains,
+    route: {
+      dst: route.dst,
+      asPath: [...(route.asPath ?? [])],
+      communities: [...(route.communities ?? [])],
+      localPref: route.localPref ?? null,
+      med: route.med ?? null,
+      protocol: route.protocol ?? 'bgp',
+      other: {}
+    },
+    prefix: parsePrefix(route.dst),
+    modifications: [],
+    trace: [],
+    warnings: new Set(),
+    decidedBy: null
+  };
+
+  if (!context.prefix) {
+    context.warnings.add(`"${route.dst}" is not an IPv4/IPv6 prefix, dst matchers cannot be evaluated`);
+  }
+
+  const outcome = runChain(context, chain, 0);
+
+  return {
+    chain,
+    action: outcome === 'accept' || outcome === 'indeterminate' ? outcome : 'reject',
+    decidedBy: outcome ? context.decidedBy : null,
+    route: context.route,
+    modifications: context.modifications,
+    trace: context.trace,
+    warnings: [...context.warnings]
+  };
+}
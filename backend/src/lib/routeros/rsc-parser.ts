@@ -0,0 +1,419 @@
+/**
+ * RouterOS .rsc Script Parser
+ *
+ * Parses /export output (and hand-written .rsc scripts) into a typed tree:
+ * sections keyed by menu path, each holding its commands and comments.
+ *
+ * Handles:
+ * - section headers ("/ip firewall filter") and inline paths ("/ip address add ...")
+ * - v7 slash paths ("/ip/firewall/filter" becomes "/ip firewall filter")
+ * - add/set/remove/... commands with key=value parameters
+ * - quoted strings with RouterOS escapes (\", \\, \n, \t, \_, \XX hex, ...)
+ * - lines continued with a trailing backslash
+ * - [ find ... ] selectors and bare item targets ("set ether1 mtu=1500")
+ *
+ * The parser never throws on malformed input, problems are reported as
+ * diagnostics with their line number and parsing goes on with the next line.
+ */
+
+export interface RscTarget {
+  kind: 'find' | 'item' | 'expression';
+  raw: string; // As written, e.g. "[ find default-name=ether1 ]"
+  where: Record<string, string>; // Conditions of a find selector, unquoted
+}
+
+export interface RscCommand {
+  type: 'command';
+  path: string; // Menu path, e.g. "/ip firewall filter" ("" before the first path)
+  command: string; // add, set, remove, enable, disable, move, unset, ...
+  target: RscTarget | null;
+  params: Record<string, string>; // key=value parameters, unquoted
+  args: string[]; // Bare words, e.g. the property names of "unset"
+  text: string; // Command without the path, whitespace normalized
+  line: number; // 1-based line the command starts on
+}
+
+export interface RscComment {
+  type: 'comment';
+  text: string; // Including the leading "#"
+  line: number;
+}
+
+export type RscEntry = RscCommand | RscComment;
+
+export interface RscSection {
+  path: string;
+  line: number;
+  entries: RscEntry[];
+}
+
+export interface RscDiagnostic {
+  line: number;
+  message: string;
+}
+
+export interface RscDocument {
+  sections: RscSection[]; // In file order, a path may appear more than once
+  diagnostics: RscDiagnostic[];
+}
+
+export interface RscLogicalLine {
+  text: string;
+  line: number; // 1-based line the logical line starts on
+}
+
+// Words that start a command inside a menu path
+const COMMAND_WORDS = new Set([
+  'add', 'set', 'remove', 'enable', 'disable', 'move', 'unset', 'comment', 'print', 'export', 'reset'
+]);
+
+// Commands whose first bare word is the item they act on ("set ether1 ...")
+const TARGETED_COMMANDS = new Set(['set', 'remove', 'enable', 'disable', 'move', 'unset', 'comment', 'reset']);
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  $: '$',
+  '?': '?',
+  _: ' ',
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  v: '\v'
+};
+
+/**
+ * Join lines continued with a trailing backslash into logical lines
+ * An even number of trailing backslashes is an escaped backslash, not a continuation
+ */
+export function splitLogicalLines(content: string): RscLogicalLine[] {
+  const physical = content.replace(/\r\n/g, '\n').split('\n');
+  const lines: RscLogicalLine[] = [];
+  let buffer: string | null = null;
+  let startLine = 0;
+
+  physical.forEach((raw, index) => {
+    const part = buffer !== null ? raw.trimStart() : raw;
+
+    if (buffer === null) {
+      buffer = '';
+      startLine = index + 1;
+    }
+
+    const trailingBackslashes = part.length - part.replace(/\\+$/, '').length;
+    const continued = trailingBackslashes % 2 === 1;
+
+    buffer += continued ? part.slice(0, -1) : part;
+
+    if (!continued) {
+      lines.push({ text: buffer, line: startLine });
+      buffer = null;
+    }
+  });
+
+  if (buffer !== null) {
+    lines.push({ text: buffer, line: startLine });
+  }
+
+  return lines;
+}
+
+/**
+ * Split a line into tokens, keeping quoted strings and [ ... ] together
+ */
+function tokenize(line: string): { tokens: string[]; error?: string } {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let bracketDepth = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '\\' && inQuotes && i + 1 < line.length) {
+      current += char + line[i + 1];
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '[') {
+      bracketDepth++;
+    } else if (!inQuotes && char === ']') {
+      bracketDepth = Math.max(0, bracketDepth - 1);
+    }
+
+    if (/\s/.test(char) && !inQuotes && bracketDepth === 0) {
+      if (current) {
+        tokens.push(current);
+        current = '';
+      }
+      continue;
+    }
+
+    current += char;
+  }
+
+  if (current) {
+    tokens.push(current);
+  }
+
+  if (inQuotes) {
+    return { tokens, error: 'Unterminated quoted string' };
+  }
+
+  if (bracketDepth > 0) {
+    return { tokens, error: 'Unterminated [ ... ] expression' };
+  }
+
+  return { tokens };
+}
+
+/**
+ * Split a command line into tokens, keeping quoted strings and [ ... ] together
+ */
+export function tokenizeRscLine(line: string): string[] {
+  return tokenize(line).tokens;
+}
+
+/**
+ * Decode a RouterOS value: strip quotes and resolve escape sequences
+ *
+ * @param value - Raw value, e.g. "\"office \\\"A\\\"\"" or ether1
+ * @returns Plain value
+ */
+export function unquoteRscValue(value: string): string {
+  if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) {
+    return value;
+  }
+
+  const inner = value.slice(1, -1);
+  let result = '';
+  let bytes: number[] = []; // Pending \XX escapes, decoded together as UTF-8
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      result += Buffer.from(bytes).toString('utf-8');
+      bytes = [];
+    }
+  };
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    const hex = inner.slice(i + 1, i + 3);
+
+    if (char === '\\' && /^[0-9A-F]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+      continue;
+    }
+
+    flushBytes();
+
+    if (char !== '\\' || i + 1 >= inner.length) {
+      result += char;
+      continue;
+    }
+
+    const next = inner[i + 1];
+    result += SIMPLE_ESCAPES[next] ?? next;
+    i++;
+  }
+
+  flushBytes();
+
+  return result;
+}
+
+/**
+ * Parse key=value tokens into a record, unquoting values
+ */
+function parseParams(tokens: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const token of tokens) {
+    const separator = token.indexOf('=');
+    if (separator > 0) {
+      params[token.slice(0, separator)] = unquoteRscValue(token.slice(separator + 1));
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Parse a "[ find ... ]" selector or a bare item target
+ */
+function parseTarget(token: string): RscTarget {
+  if (!token.startsWith('[')) {
+    return { kind: 'item', raw: token, where: {} };
+  }
+
+  const inner = tokenizeRscLine(token.replace(/^\[/, '').replace(/\]$/, ''));
+
+  if (inner[0] !== 'find') {
+    return { kind: 'expression', raw: token, where: {} };
+  }
+
+  const conditions = inner.slice(1);
+  if (conditions[0] === 'where') {
+    conditions.shift();
+  }
+
+  return { kind: 'find', raw: token, where: parseParams(conditions) };
+}
+
+function isParamToken(token: string): boolean {
+  return !token.startsWith('"') && !token.startsWith('[') && token.indexOf('=') > 0;
+}
+
+/**
+ * Parse a single command (without its menu path)
+ *
+ * @param text - Command text, e.g. "add chain=input action=accept"
+ * @param path - Menu path the command runs in
+ * @param line - Line number, for reporting
+ * @returns Parsed command
+ */
+export function parseRscCommand(text: string, path: string = '', line: number = 0): RscCommand {
+  const tokens = tokenizeRscLine(text);
+  return buildCommand(tokens, path, line);
+}
+
+function buildCommand(tokens: string[], path: string, line: number): RscCommand {
+  const [command = '', ...rest] = tokens;
+  const params: Record<string, string> = {};
+  const args: string[] = [];
+  let target: RscTarget | null = null;
+
+  for (const token of rest) {
+    if (isParamToken(token)) {
+      Object.assign(params, parseParams([token]));
+    } else if (!target && (token.startsWith('[') || (TARGETED_COMMANDS.has(command) && args.length === 0))) {
+      target = parseTarget(token);
+    } else {
+      args.push(token);
+    }
+  }
+
+  return {
+    type: 'command',
+    path,
+    command,
+    target,
+    params,
+    args,
+    text: tokens.join(' '),
+    line
+  };
+}
+
+/**
+ * Normalize a menu path: "/ip/firewall/filter" and "/ip firewall filter" are the same menu
+ */
+function normalizePath(tokens: string[]): string {
+  return tokens
+    .flatMap(token => token.split('/'))
+    .filter(Boolean)
+    .reduce((path, part) => `${path}${path === '/' ? '' : ' '}${part}`, '/');
+}
+
+/**
+ * Split a "/menu path command ..." line into its path and command tokens
+ */
+function splitPathTokens(tokens: string[]): { path: string; commandTokens: string[] } {
+  let index = 1;
+
+  for (; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (COMMAND_WORDS.has(token) || token.includes('=') || token.startsWith('[') || token.startsWith('"')) {
+      break;
+    }
+  }
+
+  return {
+    path: normalizePath(tokens.slice(0, index)),
+    commandTokens: tokens.slice(index)
+  };
+}
+
+/**
+ * Parse a RouterOS script into sections, commands and comments
+ *
+ * @param content - .rsc content, e.g. /export output
+ * @returns Parsed document with diagnostics for malformed lines
+ */
+export function parseRsc(content: string): RscDocument {
+  const sections: RscSection[] = [];
+  const diagnostics: RscDiagnostic[] = [];
+
+  // Consecutive lines of the same menu path share a section
+  const currentPath = () => (sections.length > 0 ? sections[sections.length - 1].path : '');
+
+  const sectionFor = (path: string, line: number): RscSection => {
+    const last = sections[sections.length - 1];
+    if (last && last.path === path) {
+      return last;
+    }
+
+    const section: RscSection = { path, line, entries: [] };
+    sections.push(section);
+    return section;
+  };
+
+  for (const { text: rawText, line } of splitLogicalLines(content)) {
+    const text = rawText.trim();
+
+    if (!text) {
+      continue;
+    }
+
+    if (text.startsWith('#')) {
+      sectionFor(currentPath(), line).entries.push({ type: 'comment', text, line });
+      continue;
+    }
+
+    const { tokens, error } = tokenize(text);
+
+    if (error) {
+      diagnostics.push({ line, message: error });
+      continue;
+    }
+
+    if (text.startsWith('/')) {
+      const { path, commandTokens } = splitPathTokens(tokens);
+      const section = sectionFor(path, line);
+
+      if (commandTokens.length > 0) {
+        section.entries.push(buildCommand(commandTokens, path, line));
+      }
+      continue;
+    }
+
+    const path = currentPath();
+    sectionFor(path, line).entries.push(buildCommand(tokens, path, line));
+  }
+
+  return { sections, diagnostics };
+}
+
+/**
+ * List commands of a document, optionally limited to one menu path and command
+ *
+ * @param document - Parsed document
+ * @param path - Exact menu path, e.g. "/ip firewall filter"
+ * @param command - Command name, e.g. "add"
+ * @returns Matching commands in file order
+ */
+export function findRscCommands(document: RscDocument, path?: string, command?: string): RscCommand[] {
+  return document.sections
+    .filter(section => path === undefined || section.path === path)
+    .flatMap(section => section.entries)
+    .filter((entry): entry is RscCommand =>
+      entry.type === 'command' && (command === undefined || entry.command === command)
+    );
+}
@@ -9,10 +9,20 @@ export interface SSHConfig {
   host: string;
   port?: number;
   username: string;
-  password: string;
+  password?: string;
+  privateKey?: string; // OpenSSH private key, used instead of the password
   timeout?: number;
 }
 
+// RouterOS 7 hides secrets unless show-sensitive is given, RouterOS 6 shows them unless hide-sensitive is given
+export type ExportSensitiveFlag = 'show-sensitive' | 'hide-sensitive';
+
+export interface SSHImportResult {
+  success: boolean;
+  output: string; // Full /import output
+  error?: string;
+}
+
 export class RouterOSSSHClient {
   private config: SSHConfig;
   private client: Client | null = null;
@@ -45,7 +55,9 @@ export class RouterOSSSHClient {
           host: this.config.host,
           port: this.config.port,
           username: this.config.username,
-          password: this.config.password,
+          ...(this.config.privateKey
+            ? { privateKey: this.config.privateKey }
+            : { password: this.config.password }),
           readyTimeout: this.config.timeout,
         });
     });
@@ -97,16 +109,27 @@ export class RouterOSSSHClient {
     });
   }
 
+  /**
+   * Get the RouterOS version, e.g. "7.16 (stable)"
+   */
+  async getVersion(): Promise<string> {
+    const output = await this.executeCommand(':put [/system resource get version]');
+    return output.trim();
+  }
+
   /**
    * Export configuration via SSH
    * This is the most reliable way to get export output from RouterOS
+   *
+   * @param compact - Use compact export format
+   * @param sensitiveFlag - Include or hide passwords and keys
    */
-  async exportConfig(compact: boolean = false): Promise<string> {
+  async exportConfig(compact: boolean = false, sensitiveFlag?: ExportSensitiveFlag): Promise<string> {
     if (!this.client) {
       throw new Error('Not connected. Call connect() first.');
     }
 
-    const command = compact ? '/export compact' : '/export';
+    const command = ['/export', compact && 'compact', sensitiveFlag].filter(Boolean).join(' ');
     console.log(`[SSH Export] Executing: ${command}`);
 
     try {
@@ -123,6 +146,249 @@ export class RouterOSSSHClient {
       throw new Error(`SSH export failed: ${errorMsg}`);
     }
   }
+
+  /**
+   * Export only selected menu paths, e.g. "/ip firewall export"
+   *
+   * @param sections - Menu paths such as "/ip firewall" or "/routing bgp"
+   * @param compact - Use compact export format
+   * @param sensitiveFlag - Include or hide passwords and keys
+   */
+  async exportSections(
+    sections: string[],
+    compact: boolean = false,
+    sensitiveFlag?: ExportSensitiveFlag
+  ): Promise<string> {
+    if (!this.client) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    const outputs: string[] = [];
+
+    for (const section of sections) {
+      // Menu paths end up in a shell command, only allow plain path words
+      if (!/^(\/[a-z0-9-]+)( [a-z0-9-]+)*$/.test(section)) {
+        throw new Error(`Invalid section: ${section}`);
+      }
+
+      const command = [`${section} export`, compact && 'compact', sensitiveFlag].filter(Boolean).join(' ');
+      console.log(`[SSH Export] Executing: ${command}`);
+
+      try {
+        outputs.push(await this.executeCommand(command));
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`SSH export of ${section} failed: ${errorMsg}`);
+      }
+    }
+
+    return outputs.join('\n');
+  }
+
+  /**
+   * Upload a file to router storage via SFTP
+   */
+  async uploadFile(remotePath: string, content: Buffer | string): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.sftp((err, sftp) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        sftp.writeFile(remotePath, content, (writeErr) => {
+          sftp.end();
+
+          if (writeErr) {
+            reject(writeErr);
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Download a file from router storage via SFTP
+   */
+  async downloadFile(remotePath: string): Promise<Buffer> {
+    if (!this.client) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.sftp((err, sftp) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        sftp.readFile(remotePath, (readErr, data) => {
+          sftp.end();
+
+          if (readErr) {
+            reject(readErr);
+          } else {
+            resolve(data);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Remove a file from router storage
+   */
+  async removeFile(fileName: string): Promise<void> {
+    await this.executeCommand(`/file remove [find name="${fileName}"]`);
+  }
+
+  /**
+   * Load a binary system backup (.backup)
+   * Uploads the file and runs /system backup load. RouterOS reboots right away,
+   * so a dropped session after the command is the expected outcome.
+   */
+  async loadBinaryBackup(fileName: string, content: Buffer, password?: string): Promise<string> {
+    if (!this.client) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    console.log(`[SSH Backup Load] Uploading ${fileName}`);
+    await this.uploadFile(fileName, content);
+
+    const command = `/system backup load name=${fileName} password="${(password || '').replace(/"/g, '\\"')}"`;
+
+    let output = '';
+    try {
+      output = await this.executeCommand(command);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      // Connection reset while the router reboots into the loaded backup
+      if (!/ECONNRESET|closed|ended|code 255/i.test(errorMsg)) {
+        await this.removeFile(fileName).catch(() => undefined);
+        throw error;
+      }
+    }
+
+    if (/failure|invalid|wrong password|error/i.test(output)) {
+      await this.removeFile(fileName).catch(() => undefined);
+      throw new Error(output.trim());
+    }
+
+    return output.trim() || 'Backup loaded, router is rebooting';
+  }
+
+  /**
+   * Arm a one-shot rollback on the router
+   * Saves a binary system backup of the current configuration and adds a
+   * scheduler entry that loads it when the grace period runs out. An export
+   * cannot be used here: it never carries /user passwords, SSH keys or
+   * certificates, so replaying one after a reset leaves the router open and
+   * locks the app out. Call disarmRollback() once the router is confirmed reachable.
+   */
+  async armRollback(name: string, graceSeconds: number): Promise<void> {
+    // Stays on the router's own storage and is removed on disarm
+    const output = await this.executeCommand(`/system backup save name=${name} dont-encrypt=yes`);
+
+    if (/failure|error|not enough/i.test(output)) {
+      throw new Error(`Rollback backup failed: ${output.trim()}`);
+    }
+
+    // Without start-time the first run is one interval after the entry is added
+    await this.executeCommand(
+      `/system scheduler add name=${name} interval=${graceSeconds}s ` +
+      `on-event="/system backup load name=${name}.backup"`
+    );
+  }
+
+  /**
+   * Cancel a rollback armed with armRollback()
+   */
+  async disarmRollback(name: string): Promise<void> {
+    await this.executeCommand(`/system scheduler remove [find name="${name}"]`);
+    await this.removeFile(`${name}.backup`);
+  }
+
+  /**
+   * Authorize a public key for a RouterOS user
+   * Uploads the key and runs /user ssh-keys import, which consumes the file
+   *
+   * @param user - RouterOS user the key logs in as
+   * @param publicKey - authorized_keys line, its comment becomes key-owner
+   */
+  async importSshKey(user: string, publicKey: string): Promise<void> {
+    const fileName = `ssh-key-${Date.now()}.pub`;
+
+    await this.uploadFile(fileName, `${publicKey.trim()}\n`);
+
+    try {
+      const output = await this.executeCommand(
+        `/user ssh-keys import public-key-file=${fileName} user="${user.replace(/"/g, '\\"')}"`
+      );
+
+      if (/failure|error|invalid|no such/i.test(output)) {
+        throw new Error(output.trim());
+      }
+    } finally {
+      // Older RouterOS versions leave the file behind
+      await this.removeFile(fileName).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Remove the public keys of a user that carry the given key-owner (key comment)
+   */
+  async removeSshKeys(user: string, keyOwner: string): Promise<void> {
+    await this.executeCommand(
+      `/user ssh-keys remove [find user="${user.replace(/"/g, '\\"')}" key-owner="${keyOwner.replace(/"/g, '\\"')}"]`
+    );
+  }
+
+  /**
+   * Import a configuration script via SSH
+   * Uploads the script, runs /import and always removes the file afterwards
+   */
+  async importConfig(
+    content: Buffer | string,
+    fileName: string = `restore-${Date.now()}.rsc`
+  ): Promise<SSHImportResult> {
+    if (!this.client) {
+      throw new Error('Not connected. Call connect() first.');
+    }
+
+    console.log(`[SSH Import] Uploading ${fileName}`);
+    await this.uploadFile(fileName, content);
+
+    let output: string;
+    try {
+      output = await this.executeCommand(`/import file-name=${fileName} verbose=yes`);
+    } finally {
+      try {
+        await this.removeFile(fileName);
+      } catch (error) {
+        console.error(`[SSH Import] Failed to remove ${fileName}:`, error);
+      }
+    }
+
+    // RouterOS stops at the first failing line and never prints the success message
+    if (/executed successfully/i.test(output)) {
+      return { success: true, output };
+    }
+
+    const lines = output.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const errorLine = lines.find(line => /failure|error|expected|bad command|no such item|invalid/i.test(line));
+
+    return {
+      success: false,
+      output,
+      error: errorLine || lines[lines.length - 1] || 'Import did not report success'
+    };
+  }
 }
 
 /**
@@ -0,0 +1,78 @@
+/**
+ * SSH Key Pairs for RouterOS
+ * Generates OpenSSH key pairs that RouterOS accepts in /user ssh-keys import
+ *
+ * RSA works on every RouterOS version, ed25519 needs RouterOS 7.
+ */
+
+import { createHash } from 'crypto';
+import { utils } from 'ssh2';
+
+export type SshKeyAlgorithm = 'rsa' | 'ed25519';
+
+const RSA_KEY_BITS = 4096;
+
+// ssh2 drops a leading zero byte of an ed25519 public key (about 1 in 256 keys), such a key is generated again
+const MAX_GENERATE_ATTEMPTS = 5;
+
+export interface GeneratedSshKeyPair {
+  publicKey: string; // authorized_keys line: "<type> <base64> <comment>"
+  privateKey: string; // OpenSSH private key, unencrypted
+  fingerprint: string; // SHA256:<base64>, as ssh-keygen -l prints it
+}
+
+/**
+ * Generate a key pair
+ *
+ * @param algorithm - rsa (4096 bits) or ed25519
+ * @param comment - Key comment, RouterOS shows it as key-owner
+ * @returns Key pair in OpenSSH format
+ */
+export async function generateSshKeyPair(
+  algorithm: SshKeyAlgorithm,
+  comment: string
+): Promise<GeneratedSshKeyPair> {
+  for (let attempt = 1; attempt <= MAX_GENERATE_ATTEMPTS; attempt++) {
+    const keyPair = await new Promise<{ public: string; private: string }>((resolve, reject) => {
+      const callback = (err: Error | null, result: { public: string; private: string }) =>
+        err ? reject(err) : resolve(result);
+
+      if (algorithm === 'rsa') {
+        utils.generateKeyPair('rsa', { bits: RSA_KEY_BITS, comment }, callback);
+      } else {
+        utils.generateKeyPair('ed25519', { comment }, callback);
+      }
+    });
+
+    const publicKey = keyPair.public.trim();
+
+    if (utils.parseKey(publicKey) instanceof Error || utils.parseKey(keyPair.private) instanceof Error) {
+      continue;
+    }
+
+    return {
+      publicKey,
+      privateKey: keyPair.private,
+      fingerprint: getSshKeyFingerprint(publicKey)
+    };
+  }
+
+  throw new Error(`Could not generate a valid ${algorithm} key pair`);
+}
+
+/**
+ * Fingerprint of a public key
+ *
+ * @param publicKey - authorized_keys line
+ * @returns SHA256:<base64 without padding>
+ */
+export function getSshKeyFingerprint(publicKey: string): string {
+  const [, blob] = publicKey.trim().split(/\s+/);
+
+  if (!blob) {
+    throw new Error('Invalid SSH public key');
+  }
+
+  const digest = createHash('sha256').update(Buffer.from(blob, 'base64')).digest('base64');
+  return `SHA256:${digest.replace(/=+$/, '')}`;
+}
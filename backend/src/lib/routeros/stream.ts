@@ -0,0 +1,178 @@
+/**
+ * RouterOS Streaming Command
+ *
+ * Wraps a node-routeros RStream as an async iterator of !re sentences, for
+ * commands that keep answering: /interface/monitor-traffic, /tool/torch,
+ * /log/print follow, /ping without count, ...
+ *
+ * - Iteration ends when the router sends !done (the command finished)
+ * - A !trap, or losing the connection, rejects the pending read
+ * - cancel(), an aborted signal or leaving a for await loop sends /cancel
+ *
+ * Sentences are buffered until read, so read steadily or cancel.
+ */
+
+import type { RStream } from 'node-routeros';
+import type { RouterOSSentence } from './types';
+
+type StreamState = 'streaming' | 'cancelling' | 'finished';
+
+export class RouterOSStream implements AsyncIterableIterator<RouterOSSentence> {
+  private state: StreamState = 'streaming';
+  private buffer: RouterOSSentence[] = [];
+  private error: Error | null = null;
+  private pending: {
+    resolve: (result: IteratorResult<RouterOSSentence>) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private finishedListeners: Array<() => void> = [];
+
+  constructor(
+    private stream: RStream,
+    readonly command: string
+  ) {
+    stream.on('data', (sentence: RouterOSSentence) => this.push(sentence));
+
+    // Without a data callback node-routeros reports !trap as 'error', an unhandled 'error' would crash
+    stream.on('error', (trap: { message?: string }) => {
+      this.finish(new Error(trap?.message || `${command} failed`));
+    });
+
+    stream.on('done', () => this.finish());
+  }
+
+  /**
+   * Whether the command stopped (finished, trapped, cancelled or lost its connection)
+   */
+  isFinished(): boolean {
+    return this.state === 'finished';
+  }
+
+  /**
+   * Stop the command on the router with /cancel
+   * Buffered sentences are dropped, a pending read resolves as done
+   */
+  async cancel(): Promise<void> {
+    if (this.state !== 'streaming') {
+      return;
+    }
+
+    this.state = 'cancelling';
+    this.buffer = [];
+
+    try {
+      await this.stream.stop();
+    } catch (error) {
+      console.error(`Failed to cancel ${this.command}:`, error);
+    }
+
+    this.finish();
+  }
+
+  /**
+   * End the stream with an error without talking to the router (connection is gone)
+   */
+  abort(error: Error): void {
+    this.finish(error);
+  }
+
+  /**
+   * Register a callback for when the stream stops, for whatever reason
+   */
+  onFinished(listener: () => void): void {
+    if (this.state === 'finished') {
+      listener();
+      return;
+    }
+
+    this.finishedListeners.push(listener);
+  }
+
+  async next(): Promise<IteratorResult<RouterOSSentence>> {
+    const sentence = this.buffer.shift();
+    if (sentence) {
+      return { value: sentence, done: false };
+    }
+
+    if (this.error) {
+      const error = this.error;
+      this.error = null; // Reported once, later reads just end
+      throw error;
+    }
+
+    if (this.state !== 'streaming') {
+      return { value: undefined, done: true };
+    }
+
+    if (this.pending) {
+      throw new Error(`Concurrent reads of ${this.command} are not supported`);
+    }
+
+    return await new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  /**
+   * Called when a for await loop is left early (break, return or throw)
+   */
+  async return(): Promise<IteratorResult<RouterOSSentence>> {
+    await this.cancel();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<RouterOSSentence> {
+    return this;
+  }
+
+  private push(sentence: RouterOSSentence): void {
+    if (this.state !== 'streaming') {
+      return;
+    }
+
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = null;
+      resolve({ value: sentence, done: false });
+      return;
+    }
+
+    this.buffer.push(sentence);
+  }
+
+  private finish(error?: Error): void {
+    if (this.state === 'finished') {
+      return;
+    }
+
+    const wasStreaming = this.state === 'streaming';
+    this.state = 'finished';
+
+    // A cancelled command ends quietly, even though the router answers it with a trap
+    if (error && wasStreaming) {
+      this.error = error;
+    }
+
+    // node-routeros only releases the channel of streams it stopped itself
+    if (wasStreaming) {
+      this.stream.emit('stopped');
+    }
+    this.stream.removeAllListeners();
+
+    if (this.pending) {
+      const { resolve, reject } = this.pending;
+      this.pending = null;
+
+      if (this.error) {
+        reject(this.error);
+        this.error = null;
+      } else {
+        resolve({ value: undefined, done: true });
+      }
+    }
+
+    const listeners = this.finishedListeners;
+    this.finishedListeners = [];
+    listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * RouterOS API Transport
+ * Maps the transport settings stored on a Router to client connection options
+ */
+
+import type { RouterApiTransport } from '@prisma/client';
+import { ROUTEROS_DEFAULT_PORT, ROUTEROS_SSL_PORT } from './constants';
+import type { RouterOSConfig, RouterOSTlsConfig } from './types';
+
+/**
+ * Router columns that decide how the API is reached
+ */
+export interface RouterTransportSettings {
+  apiPort: number | null;
+  apiTransport: RouterApiTransport;
+  apiTlsCa: string | null;
+  apiTlsFingerprint: string | null;
+}
+
+// Prisma select for getRouterApiConnection()
+export const ROUTER_TRANSPORT_SELECT = {
+  apiPort: true,
+  apiTransport: true,
+  apiTlsCa: true,
+  apiTlsFingerprint: true,
+} as const;
+
+/**
+ * Get the default API port of a transport
+ */
+export function getDefaultApiPort(transport: RouterApiTransport): number {
+  return transport === 'PLAIN' ? ROUTEROS_DEFAULT_PORT : ROUTEROS_SSL_PORT;
+}
+
+/**
+ * Get port and TLS options for a router's API connection
+ *
+ * @param router - Router transport settings
+ * @returns Connection options to spread into a RouterOSConfig
+ */
+export function getRouterApiConnection(router: RouterTransportSettings): Pick<RouterOSConfig, 'port' | 'tls'> {
+  const port = router.apiPort || getDefaultApiPort(router.apiTransport);
+
+  if (router.apiTransport === 'PLAIN') {
+    return { port };
+  }
+
+  return {
+    port,
+    tls: {
+      verify: router.apiTransport === 'SSL_VERIFY',
+      ...(router.apiTlsCa && { ca: router.apiTlsCa }),
+      ...(router.apiTlsFingerprint && { fingerprint: router.apiTlsFingerprint }),
+    },
+  };
+}
+
+/**
+ * Human-readable transport name, for logs and connection tests
+ */
+export function describeTransport(tls?: RouterOSTlsConfig): string {
+  if (!tls) {
+    return 'API';
+  }
+
+  return tls.verify ? 'API-SSL (verified)' : 'API-SSL';
+}
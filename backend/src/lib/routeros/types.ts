@@ -12,6 +12,16 @@ export interface RouterOSConfig {
   username: string;
   password: string;
   timeout?: number;
+  tls?: RouterOSTlsConfig; // API-SSL, plain API when omitted
+}
+
+/**
+ * API-SSL settings
+ */
+export interface RouterOSTlsConfig {
+  verify: boolean; // Reject certificates that don't verify
+  ca?: string; // PEM CA to trust instead of the system CAs
+  fingerprint?: string; // SHA-256 fingerprint (AB:CD:...) the certificate must match
 }
 
 /**
@@ -81,6 +91,18 @@ export interface RouterOSCommandResult {
   error?: string;
 }
 
+/**
+ * A !re sentence of a streaming command, e.g. one /interface/monitor-traffic sample
+ */
+export type RouterOSSentence = Record<string, string>;
+
+/**
+ * Streaming command options
+ */
+export interface RouterOSStreamOptions {
+  signal?: AbortSignal; // Cancels the command when aborted
+}
+
 /**
  * Connection Pool Entry
  */
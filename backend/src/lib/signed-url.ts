@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+
+/**
+ * Signed API URLs
+ *
+ * Download links served by the API itself can't rely on the Authorization
+ * header (the browser follows them directly), so they carry an HMAC
+ * signature over the resource name and an expiry timestamp instead.
+ */
+
+/**
+ * Sign a resource name and expiry timestamp
+ */
+function signResource(resource: string, expires: number): string {
+  return createHmac('sha256', config.storage.signingSecret)
+    .update(`${resource}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Build a signed, expiring URL to an API path
+ *
+ * @param apiPath - Path under the API host, e.g. /api/storage/local/backups/x.rsc
+ * @param resource - Resource name the signature is bound to
+ * @param expiresIn - URL expiration in seconds
+ * @returns Absolute URL
+ */
+export function createSignedUrl(apiPath: string, resource: string, expiresIn: number = 3600): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const signature = signResource(resource, expires);
+
+  return `${config.storage.publicUrl}${apiPath}?expires=${expires}&signature=${signature}`;
+}
+
+/**
+ * Verify the signature of a signed URL
+ *
+ * @returns true if the signature matches and the URL has not expired
+ */
+export function verifySignedUrl(resource: string, expires: number, signature: string): boolean {
+  if (expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signResource(resource, expires), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,56 @@
+import { Readable } from 'stream';
+import { config } from '../config';
+import { R2Client } from './r2-client';
+import { LocalStorageDriver } from './local-storage';
+
+/**
+ * Object Storage Driver
+ *
+ * Backups and kanban attachments go through this interface, so the backend
+ * can run against Cloudflare R2 (or any S3-compatible service) in production
+ * and against the local filesystem for small deployments and offline testing.
+ * The driver is picked with STORAGE_DRIVER ("r2" or "local").
+ */
+
+export type StorageDriverName = 'r2' | 'local';
+
+export interface StorageObjectMetadata {
+  size: number;
+  etag: string;
+  lastModified: Date;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  upload(
+    key: string,
+    body: Buffer | Readable | string,
+    contentType?: string
+  ): Promise<{ key: string; etag: string; size: number }>;
+  download(key: string): Promise<Buffer>;
+  downloadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  deleteMany(keys: string[]): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  getMetadata(key: string): Promise<StorageObjectMetadata>;
+  getPresignedUrl(key: string, expiresIn?: number): Promise<string>;
+  listObjects(prefix: string, maxKeys?: number): Promise<string[]>;
+  getStorageStats(prefix: string): Promise<{ totalSize: number; fileCount: number }>;
+}
+
+/**
+ * Create the storage driver selected in configuration
+ */
+export function createStorageDriver(driver: StorageDriverName = config.storage.driver): StorageDriver {
+  switch (driver) {
+    case 'r2':
+      return new R2Client();
+    case 'local':
+      return new LocalStorageDriver();
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+// Export singleton instance
+export const storage = createStorageDriver();
@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import { alertController } from '../../controllers/alert/alert.controller';
+import { notificationController } from '../../controllers/alert/notification.controller';
+import { authenticate, requireAdmin } from '../../middleware/auth';
+
+const router = Router();
+
+/**
+ * Alert Routes
+ * Base path: /api/alerts
+ */
+
+// Apply authentication to all alert routes
+router.use(authenticate);
+
+// ==================== SUBSCRIPTIONS (any user) ====================
+
+// Channels the current user can subscribe to
+router.get('/subscriptions', (req, res, next) =>
+  notificationController.listSubscriptions(req, res, next)
+);
+
+// Subscribe to a channel or update the subscription (body: minSeverity, target)
+router.put('/subscriptions/:channelId', (req, res, next) =>
+  notificationController.subscribe(req, res, next)
+);
+
+// Unsubscribe from a channel
+router.delete('/subscriptions/:channelId', (req, res, next) =>
+  notificationController.unsubscribe(req, res, next)
+);
+
+// Everything below manages alerting for all users
+router.use(requireAdmin);
+
+// ==================== INCIDENTS ====================
+
+// List incidents (query: status, severity, routerId, companyId, limit, offset)
+router.get('/incidents', (req, res, next) =>
+  alertController.listIncidents(req, res, next)
+);
+
+// Unresolved incident counts
+router.get('/incidents/summary', (req, res, next) =>
+  alertController.getSummary(req, res, next)
+);
+
+// Get incident details
+router.get('/incidents/:incidentId', (req, res, next) =>
+  alertController.getIncident(req, res, next)
+);
+
+// Acknowledge an open incident
+router.post('/incidents/:incidentId/acknowledge', (req, res, next) =>
+  alertController.acknowledgeIncident(req, res, next)
+);
+
+// Resolve an incident by hand
+router.post('/incidents/:incidentId/resolve', (req, res, next) =>
+  alertController.resolveIncident(req, res, next)
+);
+
+// ==================== RULES ====================
+
+// List rules (query: companyId, routerId)
+router.get('/rules', (req, res, next) =>
+  alertController.listRules(req, res, next)
+);
+
+// Create a rule
+router.post('/rules', (req, res, next) =>
+  alertController.createRule(req, res, next)
+);
+
+// Get rule details
+router.get('/rules/:ruleId', (req, res, next) =>
+  alertController.getRule(req, res, next)
+);
+
+// Update a rule
+router.put('/rules/:ruleId', (req, res, next) =>
+  alertController.updateRule(req, res, next)
+);
+
+// Delete a rule and its incidents
+router.delete('/rules/:ruleId', (req, res, next) =>
+  alertController.deleteRule(req, res, next)
+);
+
+// ==================== CHANNELS ====================
+
+// List channels (query: companyId)
+router.get('/channels', (req, res, next) =>
+  notificationController.listChannels(req, res, next)
+);
+
+// Create a channel
+router.post('/channels', (req, res, next) =>
+  notificationController.createChannel(req, res, next)
+);
+
+// Get channel details
+router.get('/channels/:channelId', (req, res, next) =>
+  notificationController.getChannel(req, res, next)
+);
+
+// Update a channel
+router.put('/channels/:channelId', (req, res, next) =>
+  notificationController.updateChannel(req, res, next)
+);
+
+// Delete a channel and its subscriptions
+router.delete('/channels/:channelId', (req, res, next) =>
+  notificationController.deleteChannel(req, res, next)
+);
+
+// Send a test message to the channel's subscribers
+router.post('/channels/:channelId/test', (req, res, next) =>
+  notificationController.testChannel(req, res, next)
+);
+
+export default router;
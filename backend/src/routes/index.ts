@@ -8,8 +8,12 @@ import routerosUserRoutes from './routeros/routeros.user.routes';
 import routerosBackupRoutes from './routeros/routeros.backup.routes';
 import routerosRoutingRoutes from './routeros/routeros.routing.routes';
 import routerosTroubleshootRoutes from './routeros/routeros.troubleshoot.routes';
+import routerosSshKeyRoutes from './routeros/routeros.sshkey.routes';
+import routerosMonitoringRoutes from './routeros/routeros.monitoring.routes';
+import alertRoutes from './alert/alert.routes';
 import kanbanRoutes from './kanban/kanban.routes';
 import ipinfoRoutes from './ipinfo.routes';
+import storageRoutes from './storage.routes';
 
 const router = Router();
 
@@ -21,9 +25,13 @@ router.use('/companies', companyRoutes);
 router.use('/router/topology', topologyRoutes);
 router.use('/routeros/users', routerosUserRoutes);
 router.use('/routeros/backup', routerosBackupRoutes);
+router.use('/routeros/ssh-keys', routerosSshKeyRoutes);
+router.use('/routeros/monitoring', routerosMonitoringRoutes);
 router.use('/routeros', routerosRoutingRoutes);
 router.use('/routeros/troubleshoot', routerosTroubleshootRoutes);
+router.use('/alerts', alertRoutes);
 router.use('/kanban', kanbanRoutes);
 router.use('/ipinfo', ipinfoRoutes);
+router.use('/storage', storageRoutes);
 
 export default router;
@@ -15,6 +15,9 @@ router.get('/', routerController.getAll);
 // GET /api/routers/bgp - Get routers that support BGP (MikroTik + Upstream + Active)
 router.get('/bgp', routerController.getBgpRouters);
 
+// GET /api/routers/pool/metrics - RouterOS API connection pool usage
+router.get('/pool/metrics', routerController.getPoolMetrics);
+
 // GET /api/routers/:id - Get router by ID
 router.get('/:id', routerController.getById);
 
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import { routerOSBackupController } from '../../controllers/routeros/routeros.backup.controller';
+import { routerOSBackupScheduleController } from '../../controllers/routeros/routeros.backup.schedule.controller';
+import { routerOSBackupRetentionController } from '../../controllers/routeros/routeros.backup.retention.controller';
+import { routerOSBackupJobController } from '../../controllers/routeros/routeros.backup.job.controller';
 import { authenticate, requireAdmin } from '../../middleware/auth';
 
 const router = Router();
@@ -13,16 +16,95 @@ const router = Router();
 router.use(authenticate);
 router.use(requireAdmin);
 
+// ==================== BACKUP SCHEDULES ====================
+// Must be defined before /:id routes to avoid "schedules" being treated as a backup ID
+
+// List backup schedules
+router.get('/schedules', (req, res, next) =>
+  routerOSBackupScheduleController.listSchedules(req, res, next)
+);
+
+// Create backup schedule
+router.post('/schedules', (req, res, next) =>
+  routerOSBackupScheduleController.createSchedule(req, res, next)
+);
+
+// Get schedule details
+router.get('/schedules/:scheduleId', (req, res, next) =>
+  routerOSBackupScheduleController.getScheduleById(req, res, next)
+);
+
+// Update schedule
+router.patch('/schedules/:scheduleId', (req, res, next) =>
+  routerOSBackupScheduleController.updateSchedule(req, res, next)
+);
+
+// Delete schedule
+router.delete('/schedules/:scheduleId', (req, res, next) =>
+  routerOSBackupScheduleController.deleteSchedule(req, res, next)
+);
+
+// Get schedule run history
+router.get('/schedules/:scheduleId/runs', (req, res, next) =>
+  routerOSBackupScheduleController.getScheduleRuns(req, res, next)
+);
+
+// Run schedule immediately
+router.post('/schedules/:scheduleId/run', (req, res, next) =>
+  routerOSBackupScheduleController.runScheduleNow(req, res, next)
+);
+
+// ==================== RETENTION ====================
+
+// Preview which backups retention would expire (dry-run)
+router.get('/retention/preview', (req, res, next) =>
+  routerOSBackupRetentionController.previewRetention(req, res, next)
+);
+
+// Apply retention now
+router.post('/retention/enforce', (req, res, next) =>
+  routerOSBackupRetentionController.enforceRetention(req, res, next)
+);
+
+// ==================== BACKUP JOBS ====================
+
+// Start a fleet-wide backup job
+router.post('/jobs', (req, res, next) =>
+  routerOSBackupJobController.createJob(req, res, next)
+);
+
+// List backup jobs
+router.get('/jobs', (req, res, next) =>
+  routerOSBackupJobController.listJobs(req, res, next)
+);
+
+// Get backup job progress
+router.get('/jobs/:jobId', (req, res, next) =>
+  routerOSBackupJobController.getJob(req, res, next)
+);
+
+// ==================== BACKUPS ====================
+
 // Trigger manual backup for a specific router
 router.post('/:routerId/trigger', (req, res, next) =>
   routerOSBackupController.triggerBackup(req, res, next)
 );
 
+// Configuration change timeline for a specific router
+router.get('/:routerId/changes', (req, res, next) =>
+  routerOSBackupController.getChangeTimeline(req, res, next)
+);
+
 // List all backups with filters
 router.get('/', (req, res, next) =>
   routerOSBackupController.listBackups(req, res, next)
 );
 
+// Compare two backups (must be before /:id)
+router.get('/compare', (req, res, next) =>
+  routerOSBackupController.compareBackups(req, res, next)
+);
+
 // Get backup details by ID
 router.get('/:id', (req, res, next) =>
   routerOSBackupController.getBackupById(req, res, next)
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { routerOSMonitoringController } from '../../controllers/routeros/routeros.monitoring.controller';
+import { authenticate, requireAdmin } from '../../middleware/auth';
+
+const router = Router();
+
+/**
+ * RouterOS Monitoring Routes
+ * Base path: /api/routeros/monitoring
+ */
+
+// Apply authentication and admin authorization to all monitoring routes
+router.use(authenticate);
+router.use(requireAdmin);
+
+// Reachability and latest health sample
+router.get('/:routerId', (req, res, next) =>
+  routerOSMonitoringController.getLatest(req, res, next)
+);
+
+// Metric history (query: range = hour | day | week)
+router.get('/:routerId/history', (req, res, next) =>
+  routerOSMonitoringController.getHistory(req, res, next)
+);
+
+// Poll the router now
+router.post('/:routerId/poll', (req, res, next) =>
+  routerOSMonitoringController.pollRouter(req, res, next)
+);
+
+export default router;
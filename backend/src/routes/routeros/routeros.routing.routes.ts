@@ -31,6 +31,29 @@ router.get('/:routerId/bgp/connections', routingController.getBGPConnections);
  */
 router.get('/:routerId/bgp/connections/:connectionId', routingController.getBGPConnectionById);
 
+/**
+ * @route   POST /api/routeros/:routerId/bgp/connections
+ * @desc    Create a BGP connection
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/bgp/connections', routingController.createBGPConnection);
+
+/**
+ * @route   PUT /api/routeros/:routerId/bgp/connections/:connectionId
+ * @desc    Update a BGP connection
+ * @access  Private (Admin)
+ * @note    Changes that drop the session need { confirm: true } and back up /routing bgp first
+ */
+router.put('/:routerId/bgp/connections/:connectionId', routingController.updateBGPConnection);
+
+/**
+ * @route   DELETE /api/routeros/:routerId/bgp/connections/:connectionId
+ * @desc    Delete a BGP connection
+ * @access  Private (Admin)
+ * @note    Needs { confirm: true } and backs up /routing bgp first
+ */
+router.delete('/:routerId/bgp/connections/:connectionId', routingController.deleteBGPConnection);
+
 /**
  * @route   POST /api/routeros/:routerId/bgp/connections/:connectionId/enable
  * @desc    Enable a BGP connection
@@ -99,6 +122,125 @@ router.get('/:routerId/bgp/sessions', routingController.getBGPSessions);
  */
 router.get('/:routerId/bgp/sessions/:sessionId', routingController.getBGPSessionById);
 
+// ============================================================================
+// BGP SESSION HISTORY
+// ============================================================================
+
+/**
+ * @route   GET /api/routeros/:routerId/bgp/history
+ * @desc    Get the recorded BGP peers with flap count, time in state and uptime
+ * @access  Private (Admin)
+ */
+router.get('/:routerId/bgp/history', routingController.getBGPPeerHistories);
+
+/**
+ * @route   POST /api/routeros/:routerId/bgp/history/poll
+ * @desc    Record the current BGP session states now
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/bgp/history/poll', routingController.pollBGPPeerHistory);
+
+/**
+ * @route   GET /api/routeros/:routerId/bgp/history/:peerKey
+ * @desc    Get the state timeline of a BGP peer (session name or remote address)
+ * @access  Private (Admin)
+ */
+router.get('/:routerId/bgp/history/:peerKey', routingController.getBGPPeerHistory);
+
+// ============================================================================
+// ROUTING FILTERS
+// ============================================================================
+
+/**
+ * @route   GET /api/routeros/:routerId/routing/filters/chains
+ * @desc    Get the routing filter chains with rule counts and the BGP connections using them
+ * @access  Private (Admin)
+ */
+router.get('/:routerId/routing/filters/chains', routingController.getRoutingFilterChains);
+
+/**
+ * @route   POST /api/routeros/:routerId/routing/filters/test
+ * @desc    Run a sample prefix/AS path through a chain
+ * @access  Private (Admin)
+ * @note    Evaluated locally from the rules on the router, nothing is changed
+ */
+router.post('/:routerId/routing/filters/test', routingController.testRoutingFilterChain);
+
+/**
+ * @route   GET /api/routeros/:routerId/routing/filters/rules
+ * @desc    Get the routing filter rules of a router
+ * @access  Private (Admin)
+ * @query   chain - Only the rules of this chain
+ */
+router.get('/:routerId/routing/filters/rules', routingController.getRoutingFilterRules);
+
+/**
+ * @route   POST /api/routeros/:routerId/routing/filters/rules
+ * @desc    Add a routing filter rule
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/routing/filters/rules', routingController.createRoutingFilterRule);
+
+/**
+ * @route   PUT /api/routeros/:routerId/routing/filters/rules/:ruleId
+ * @desc    Update the text or comment of a routing filter rule
+ * @access  Private (Admin)
+ */
+router.put('/:routerId/routing/filters/rules/:ruleId', routingController.updateRoutingFilterRule);
+
+/**
+ * @route   DELETE /api/routeros/:routerId/routing/filters/rules/:ruleId
+ * @desc    Remove a routing filter rule
+ * @access  Private (Admin)
+ */
+router.delete('/:routerId/routing/filters/rules/:ruleId', routingController.deleteRoutingFilterRule);
+
+/**
+ * @route   POST /api/routeros/:routerId/routing/filters/rules/:ruleId/move
+ * @desc    Move a rule in front of another rule of its chain, or to the end
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/routing/filters/rules/:ruleId/move', routingController.moveRoutingFilterRule);
+
+/**
+ * @route   POST /api/routeros/:routerId/routing/filters/rules/:ruleId/enable
+ * @desc    Enable a routing filter rule
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/routing/filters/rules/:ruleId/enable', routingController.enableRoutingFilterRule);
+
+/**
+ * @route   POST /api/routeros/:routerId/routing/filters/rules/:ruleId/disable
+ * @desc    Disable a routing filter rule
+ * @access  Private (Admin)
+ */
+router.post('/:routerId/routing/filters/rules/:ruleId/disable', routingController.disableRoutingFilterRule);
+
+// ============================================================================
+// ROUTING TABLE
+// ============================================================================
+
+/**
+ * @route   POST /api/routeros/routing/lookup
+ * @desc    Ask several routers which route they would use for an IP address (longest prefix match)
+ * @access  Private (Admin)
+ * @note    Each router is answered on its own, an unreachable router shows up as an error result
+ */
+router.post('/routing/lookup', routingController.lookupRoute);
+
+/**
+ * @route   GET /api/routeros/:routerId/routing/routes
+ * @desc    Get one page of the routing table of a router
+ * @access  Private (Admin)
+ * @query   family - ipv4 (default) or ipv6
+ * @query   dst - Destination prefix, dstMatch=within (default) includes more specific prefixes, exact does not
+ * @query   gateway, routingTable, protocol - Exact matches
+ * @query   state - active or inactive
+ * @query   offset, limit - Page, limit up to 500 (default 100)
+ * @note    Read from the router as a stream and cancelled once the page is full
+ */
+router.get('/:routerId/routing/routes', routingController.getRoutes);
+
 // ============================================================================
 // ALL BGP DATA
 // ============================================================================
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { routerOSSshKeyController } from '../../controllers/routeros/routeros.sshkey.controller';
+import { authenticate, requireAdmin } from '../../middleware/auth';
+
+const router = Router();
+
+/**
+ * RouterOS SSH Key Routes
+ * Base path: /api/routeros/ssh-keys
+ */
+
+// Apply authentication and admin authorization to all SSH key routes
+router.use(authenticate);
+router.use(requireAdmin);
+
+// List SSH keys (query: companyId)
+router.get('/', (req, res, next) =>
+  routerOSSshKeyController.listKeys(req, res, next)
+);
+
+// Generate a company or global SSH key
+router.post('/', (req, res, next) =>
+  routerOSSshKeyController.createKey(req, res, next)
+);
+
+// Get SSH key details
+router.get('/:keyId', (req, res, next) =>
+  routerOSSshKeyController.getKey(req, res, next)
+);
+
+// Delete an SSH key no router uses anymore
+router.delete('/:keyId', (req, res, next) =>
+  routerOSSshKeyController.deleteKey(req, res, next)
+);
+
+// Install the key on routers (body: routerIds, defaults to every router the key applies to)
+router.post('/:keyId/deploy', (req, res, next) =>
+  routerOSSshKeyController.deployKey(req, res, next)
+);
+
+// Rotate the key on every router that has it, returns a per-router report
+router.post('/:keyId/rotate', (req, res, next) =>
+  routerOSSshKeyController.rotateKey(req, res, next)
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { storageController } from '../controllers/storage.controller';
+
+const router = Router();
+
+/**
+ * Storage Routes
+ * Base path: /api/storage
+ */
+
+// Download a file of the local storage driver by signed URL
+router.get('/local/*', (req, res, next) =>
+  storageController.serveLocalFile(req, res, next)
+);
+
+// Download an encrypted backup by signed URL (decrypted by the API)
+router.get('/backups/:id', (req, res, next) =>
+  storageController.serveBackupFile(req, res, next)
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import { prisma } from '../lib/prisma';
+import { routerOSBackupService } from '../services/routeros/routeros.backup.service';
+
+/**
+ * Backup Master Key Rotation
+ *
+ * Re-wraps the data key of every encrypted backup with the current
+ * BACKUP_MASTER_KEY. The old key must still be listed in
+ * BACKUP_MASTER_KEY_PREVIOUS while this runs.
+ *
+ * Usage: npm run backup:rotate-keys
+ */
+
+async function main() {
+  console.log('🔑 Rotating backup encryption keys...');
+
+  const result = await routerOSBackupService.rotateEncryptionKeys();
+
+  console.log(`✅ Re-wrapped ${result.rotated}/${result.total} backup data keys with master key ${result.masterKeyId}`);
+
+  if (result.failed.length > 0) {
+    for (const failure of result.failed) {
+      console.error(`❌ Backup ${failure.backupId}: ${failure.error}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error during key rotation:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
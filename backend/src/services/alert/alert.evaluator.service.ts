@@ -0,0 +1,396 @@
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { routerOSRoutingService } from '../routeros/routeros.routing.service';
+import type { ParsedBGPSession } from '../routeros/routeros.routing.service';
+import { notificationService } from './notification.service';
+import { UNRESOLVED_STATUSES } from './alert.incident.service';
+import type { ThresholdMetric, ThresholdOperator } from './alert.rule.service';
+import {
+  AlertRuleType,
+  BackupStatus,
+  IncidentStatus,
+  MetricResolution,
+  Prisma,
+  RouterBrand,
+  RouterStatus,
+  RouterType
+} from '@prisma/client';
+import type { AlertRule } from '@prisma/client';
+
+/**
+ * Alert Evaluator Service
+ * Checks every enabled rule against the routers it covers and keeps
+ * incidents in line with what it finds
+ *
+ * Runs after each monitoring pass, so reachability and resource rules read
+ * the state the poller just stored. BGP rules query the router directly.
+ * A finding opens an incident, or bumps the unresolved one with the same
+ * dedup key; an unresolved incident whose condition is gone is resolved.
+ * When a check cannot tell (router never polled, BGP query failed) its
+ * incidents are left as they are. Opening and resolving are conditional on
+ * the database (unique unresolved dedup key, status-guarded resolve), so two
+ * overlapping evaluations never notify the same change twice.
+ */
+
+export interface EvaluationResult {
+  rules: number;
+  checks: number;
+  opened: number;
+  resolved: number;
+}
+
+interface Finding {
+  subject: string;
+  title: string;
+  message: string;
+}
+
+const evaluationRouterSelect = {
+  id: true,
+  name: true,
+  companyId: true,
+  routerType: true,
+  isReachable: true,
+  lastPolledAt: true,
+  lastPollError: true
+} as const;
+
+type EvaluationRouter = Prisma.RouterGetPayload<{ select: typeof evaluationRouterSelect }>;
+
+const METRIC_LABELS: Record<ThresholdMetric, { label: string; unit: string }> = {
+  cpu: { label: 'CPU load', unit: '%' },
+  memory: { label: 'Memory usage', unit: '%' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  voltage: { label: 'Voltage', unit: 'V' }
+};
+
+export class AlertEvaluatorService {
+  /**
+   * Evaluate all enabled rules once
+   */
+  async evaluate(now: Date = new Date()): Promise<EvaluationResult> {
+    const result: EvaluationResult = { rules: 0, checks: 0, opened: 0, resolved: 0 };
+
+    const [rules, routers] = await Promise.all([
+      prisma.alertRule.findMany({ where: { isEnabled: true } }),
+      prisma.router.findMany({
+        where: { routerBrand: RouterBrand.MIKROTIK, status: RouterStatus.ACTIVE },
+        select: evaluationRouterSelect
+      })
+    ]);
+
+    result.rules = rules.length;
+
+    if (rules.length === 0) {
+      return result;
+    }
+
+    // BGP sessions are fetched once per router per pass, however many rules need them
+    const bgpSessions = new Map<string, Promise<ParsedBGPSession[] | null>>();
+
+    const pairs = rules.flatMap(rule =>
+      routers.filter(router => this.covers(rule, router)).map(router => ({ rule, router }))
+    );
+
+    const concurrency = config.routeros.monitoring.concurrency;
+
+    for (let i = 0; i < pairs.length; i += concurrency) {
+      const chunk = pairs.slice(i, i + concurrency);
+
+      await Promise.all(chunk.map(async ({ rule, router }) => {
+        try {
+          const findings = await this.check(rule, router, bgpSessions);
+
+          if (findings === null) {
+            return;
+          }
+
+          result.checks++;
+          const changes = await this.reconcile(rule, router, findings, now);
+          result.opened += changes.opened;
+          result.resolved += changes.resolved;
+        } catch (error) {
+          console.error(`[Alerting] Rule ${rule.id} on router ${router.id} failed:`, error);
+        }
+      }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether a rule applies to a router
+   */
+  private covers(rule: AlertRule, router: EvaluationRouter): boolean {
+    if (rule.routerId) {
+      return rule.routerId === router.id;
+    }
+
+    if (rule.companyId && rule.companyId !== router.companyId) {
+      return false;
+    }
+
+    // Unscoped BGP rules only cover the routers that peer with upstreams
+    if (rule.type === AlertRuleType.BGP_SESSION_DOWN) {
+      return router.routerType === RouterType.UPSTREAM;
+    }
+
+    return true;
+  }
+
+  /**
+   * Findings for a rule on a router, null if the state is unknown
+   */
+  private async check(
+    rule: AlertRule,
+    router: EvaluationRouter,
+    bgpSessions: Map<string, Promise<ParsedBGPSession[] | null>>
+  ): Promise<Finding[] | null> {
+    switch (rule.type) {
+      case AlertRuleType.ROUTER_UNREACHABLE:
+        return this.checkReachability(router);
+      case AlertRuleType.BGP_SESSION_DOWN:
+        return await this.checkBgpSessions(router, bgpSessions);
+      case AlertRuleType.BACKUP_FAILED:
+        return await this.checkBackup(router);
+      case AlertRuleType.RESOURCE_THRESHOLD:
+        return await this.checkThreshold(rule, router);
+    }
+  }
+
+  private checkReachability(router: EvaluationRouter): Finding[] | null {
+    if (router.isReachable === null) {
+      return null;
+    }
+
+    if (router.isReachable) {
+      return [];
+    }
+
+    return [{
+      subject: 'reachability',
+      title: 'Router unreachable',
+      message: `${router.name} did not answer the health poll: ${router.lastPollError || 'unknown error'}`
+    }];
+  }
+
+  private async checkBgpSessions(
+    router: EvaluationRouter,
+    bgpSessions: Map<string, Promise<ParsedBGPSession[] | null>>
+  ): Promise<Finding[] | null> {
+    // A router that is already down would only add a timeout per rule
+    if (router.isReachable === false) {
+      return null;
+    }
+
+    let sessions = bgpSessions.get(router.id);
+
+    if (!sessions) {
+      sessions = routerOSRoutingService.getBGPSessions(router.id).catch((error: unknown) => {
+        console.error(`[Alerting] Failed to read BGP sessions of router ${router.id}:`, error instanceof Error ? error.message : error);
+        return null;
+      });
+      bgpSessions.set(router.id, sessions);
+    }
+
+    const current = await sessions;
+
+    if (current === null) {
+      return null;
+    }
+
+    return current
+      .filter(session => !session.disabled && session.state?.toLowerCase() !== 'established')
+      .map(session => {
+        const name = session.name || session.remoteAddress || session.id;
+        const peer = [session.remoteAddress, session.remoteAs ? `AS${session.remoteAs}` : null]
+          .filter(Boolean)
+          .join(' ');
+
+        return {
+          subject: `bgp:${name}`,
+          title: `BGP session ${name} down`,
+          message: `BGP session ${name}${peer ? ` (${peer})` : ''} on ${router.name} is ${session.state || 'not established'}`
+        };
+      });
+  }
+
+  private async checkBackup(router: EvaluationRouter): Promise<Finding[] | null> {
+    const latest = await prisma.routerBackup.findFirst({
+      where: {
+        routerId: router.id,
+        isSafetyBackup: false,
+        backupStatus: { in: [BackupStatus.COMPLETED, BackupStatus.FAILED] }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true, backupStatus: true, triggerType: true }
+    });
+
+    if (!latest) {
+      return null;
+    }
+
+    if (latest.backupStatus !== BackupStatus.FAILED) {
+      return [];
+    }
+
+    return [{
+      subject: 'backup',
+      title: 'Backup failed',
+      message: `The latest ${latest.triggerType.toLowerCase()} backup of ${router.name} (${latest.createdAt.toISOString()}) failed`
+    }];
+  }
+
+  private async checkThreshold(rule: AlertRule, router: EvaluationRouter): Promise<Finding[] | null> {
+    if (!router.isReachable || !router.lastPolledAt || !rule.metric || !rule.operator || rule.threshold === null) {
+      return null;
+    }
+
+    const metric = await prisma.routerMetric.findFirst({
+      where: { routerId: router.id, resolution: MetricResolution.RAW },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    // The sample must come from the latest poll, not an older one
+    if (!metric || metric.timestamp < router.lastPolledAt) {
+      return null;
+    }
+
+    const name = rule.metric as ThresholdMetric;
+    let value: number | null = null;
+
+    switch (name) {
+      case 'cpu':
+        value = metric.cpuLoad;
+        break;
+      case 'memory':
+        value = metric.memoryUsed !== null && metric.memoryTotal
+          ? Math.round(Number(metric.memoryUsed) / Number(metric.memoryTotal) * 1000) / 10
+          : null;
+        break;
+      case 'temperature':
+        value = metric.temperature;
+        break;
+      case 'voltage':
+        value = metric.voltage;
+        break;
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    const operator = rule.operator as ThresholdOperator;
+    const crossed = operator === 'gt' ? value > rule.threshold : value < rule.threshold;
+
+    if (!crossed) {
+      return [];
+    }
+
+    const { label, unit } = METRIC_LABELS[name];
+
+    return [{
+      subject: name,
+      title: `${label} ${operator === 'gt' ? 'above' : 'below'} ${rule.threshold}${unit}`,
+      message: `${label} on ${router.name} is ${value}${unit} (${operator === 'gt' ? 'above' : 'below'} ${rule.threshold}${unit})`
+    }];
+  }
+
+  /**
+   * Open, bump and resolve the incidents of a rule on a router
+   */
+  private async reconcile(
+    rule: AlertRule,
+    router: EvaluationRouter,
+    findings: Finding[],
+    now: Date
+  ): Promise<{ opened: number; resolved: number }> {
+    const changes = { opened: 0, resolved: 0 };
+    const prefix = `${rule.id}:${router.id}:`;
+
+    const unresolved = await prisma.alertIncident.findMany({
+      where: { ruleId: rule.id, routerId: router.id, status: { in: UNRESOLVED_STATUSES } }
+    });
+    const byKey = new Map(unresolved.map(incident => [incident.dedupKey, incident]));
+    const seen = new Set<string>();
+
+    for (const finding of findings) {
+      const dedupKey = `${prefix}${finding.subject}`;
+
+      if (seen.has(dedupKey)) {
+        continue;
+      }
+      seen.add(dedupKey);
+
+      const existing = byKey.get(dedupKey);
+
+      if (existing) {
+        await prisma.alertIncident.update({
+          where: { id: existing.id },
+          data: {
+            lastSeenAt: now,
+            occurrences: { increment: 1 },
+            message: finding.message
+          }
+        });
+        continue;
+      }
+
+      let incident;
+      try {
+        incident = await prisma.alertIncident.create({
+          data: {
+            ruleId: rule.id,
+            routerId: router.id,
+            dedupKey,
+            subject: finding.subject,
+            severity: rule.severity,
+            title: finding.title,
+            message: finding.message,
+            openedAt: now,
+            lastSeenAt: now
+          }
+        });
+      } catch (error) {
+        // Another evaluation opened it in the meantime and notified
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+
+      changes.opened++;
+      console.log(`[Alerting] Opened ${rule.severity} incident on ${router.name}: ${finding.title}`);
+      await notificationService.notifyIncident(incident.id, 'opened');
+    }
+
+    for (const incident of unresolved) {
+      if (seen.has(incident.dedupKey)) {
+        continue;
+      }
+
+      const { count } = await prisma.alertIncident.updateMany({
+        where: { id: incident.id, status: { in: UNRESOLVED_STATUSES } },
+        data: {
+          status: IncidentStatus.RESOLVED,
+          resolvedAt: now,
+          resolvedBy: null
+        }
+      });
+
+      // Resolved by another evaluation or by hand in the meantime
+      if (count === 0) {
+        continue;
+      }
+
+      changes.resolved++;
+      console.log(`[Alerting] Resolved incident on ${router.name}: ${incident.title}`);
+      await notificationService.notifyIncident(incident.id, 'resolved');
+    }
+
+    return changes;
+  }
+}
+
+// Export singleton instance
+export const alertEvaluatorService = new AlertEvaluatorService();
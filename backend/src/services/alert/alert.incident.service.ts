@@ -0,0 +1,183 @@
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/errorHandler';
+import { notificationService } from './notification.service';
+import { AlertSeverity, IncidentStatus } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Alert Incident Service
+ * Incident list and the manual side of the lifecycle
+ *
+ * OPEN incidents can be acknowledged, OPEN and ACKNOWLEDGED ones resolved.
+ * An acknowledged incident stays deduplicated (no new notification) until it
+ * resolves; the evaluator also resolves incidents whose condition cleared.
+ */
+
+export interface ListIncidentsOptions {
+  status?: IncidentStatus;
+  severity?: AlertSeverity;
+  routerId?: string;
+  companyId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const UNRESOLVED_STATUSES = [IncidentStatus.OPEN, IncidentStatus.ACKNOWLEDGED];
+
+const incidentInclude = {
+  rule: {
+    select: {
+      id: true,
+      name: true,
+      type: true
+    }
+  },
+  router: {
+    select: {
+      id: true,
+      name: true,
+      ipAddress: true,
+      company: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  }
+};
+
+export class AlertIncidentService {
+  /**
+   * List incidents, newest first
+   */
+  async listIncidents(options: ListIncidentsOptions = {}) {
+    const { status, severity, routerId, companyId, limit = 50, offset = 0 } = options;
+
+    const where: Prisma.AlertIncidentWhereInput = {
+      status,
+      severity,
+      routerId
+    };
+
+    if (companyId) {
+      where.router = { companyId };
+    }
+
+    const [incidents, total] = await Promise.all([
+      prisma.alertIncident.findMany({
+        where,
+        include: incidentInclude,
+        orderBy: { openedAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.alertIncident.count({ where })
+    ]);
+
+    return {
+      incidents,
+      total,
+      limit,
+      offset
+    };
+  }
+
+  /**
+   * Get an incident
+   */
+  async getIncident(incidentId: string) {
+    const incident = await prisma.alertIncident.findUnique({
+      where: { id: incidentId },
+      include: incidentInclude
+    });
+
+    if (!incident) {
+      throw new AppError(404, `Incident not found: ${incidentId}`);
+    }
+
+    return incident;
+  }
+
+  /**
+   * Unresolved incident counts by severity, for the dashboard badge
+   */
+  async getSummary() {
+    const groups = await prisma.alertIncident.groupBy({
+      by: ['status', 'severity'],
+      where: { status: { in: UNRESOLVED_STATUSES } },
+      _count: { _all: true }
+    });
+
+    const summary = {
+      open: 0,
+      acknowledged: 0,
+      bySeverity: {
+        [AlertSeverity.INFO]: 0,
+        [AlertSeverity.WARNING]: 0,
+        [AlertSeverity.CRITICAL]: 0
+      } as Record<AlertSeverity, number>
+    };
+
+    for (const group of groups) {
+      if (group.status === IncidentStatus.OPEN) {
+        summary.open += group._count._all;
+      } else {
+        summary.acknowledged += group._count._all;
+      }
+      summary.bySeverity[group.severity] += group._count._all;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Acknowledge an open incident
+   */
+  async acknowledgeIncident(incidentId: string, userId: string) {
+    const incident = await this.getIncident(incidentId);
+
+    if (incident.status !== IncidentStatus.OPEN) {
+      throw new AppError(409, `Incident is already ${incident.status.toLowerCase()}`);
+    }
+
+    return await prisma.alertIncident.update({
+      where: { id: incidentId },
+      data: {
+        status: IncidentStatus.ACKNOWLEDGED,
+        acknowledgedAt: new Date(),
+        acknowledgedBy: userId
+      },
+      include: incidentInclude
+    });
+  }
+
+  /**
+   * Resolve an incident by hand
+   * If the condition is still there the next evaluation opens a new incident
+   */
+  async resolveIncident(incidentId: string, userId: string) {
+    const incident = await this.getIncident(incidentId);
+
+    if (incident.status === IncidentStatus.RESOLVED) {
+      throw new AppError(409, 'Incident is already resolved');
+    }
+
+    const resolved = await prisma.alertIncident.update({
+      where: { id: incidentId },
+      data: {
+        status: IncidentStatus.RESOLVED,
+        resolvedAt: new Date(),
+        resolvedBy: userId
+      },
+      include: incidentInclude
+    });
+
+    await notificationService.notifyIncident(incidentId, 'resolved');
+
+    return resolved;
+  }
+}
+
+// Export singleton instance
+export const alertIncidentService = new AlertIncidentService();
@@ -0,0 +1,195 @@
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/errorHandler';
+import { AlertRuleType, AlertSeverity } from '@prisma/client';
+
+/**
+ * Alert Rule Service
+ * Conditions the evaluator checks on every monitoring pass
+ *
+ * A rule applies to one router, to every router of a company, or to every
+ * router when it has neither. RESOURCE_THRESHOLD rules also carry a metric,
+ * an operator and a threshold.
+ */
+
+export type ThresholdMetric = 'cpu' | 'memory' | 'temperature' | 'voltage';
+export type ThresholdOperator = 'gt' | 'lt';
+
+export interface CreateAlertRuleOptions {
+  companyId?: string | null;
+  routerId?: string | null;
+  name: string;
+  type: AlertRuleType;
+  severity?: AlertSeverity;
+  metric?: ThresholdMetric | null;
+  operator?: ThresholdOperator | null;
+  threshold?: number | null;
+  isEnabled?: boolean;
+}
+
+export type UpdateAlertRuleOptions = Partial<Omit<CreateAlertRuleOptions, 'type'>>;
+
+const ruleInclude = {
+  company: {
+    select: {
+      id: true,
+      name: true,
+      code: true
+    }
+  },
+  router: {
+    select: {
+      id: true,
+      name: true,
+      ipAddress: true
+    }
+  },
+  _count: {
+    select: { incidents: true }
+  }
+};
+
+export class AlertRuleService {
+  /**
+   * List rules, optionally for one company or router
+   */
+  async listRules(filter: { companyId?: string; routerId?: string } = {}) {
+    return await prisma.alertRule.findMany({
+      where: {
+        companyId: filter.companyId,
+        routerId: filter.routerId
+      },
+      include: ruleInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get a rule
+   */
+  async getRule(ruleId: string) {
+    const rule = await prisma.alertRule.findUnique({
+      where: { id: ruleId },
+      include: ruleInclude
+    });
+
+    if (!rule) {
+      throw new AppError(404, `Alert rule not found: ${ruleId}`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Create a rule
+   */
+  async createRule(options: CreateAlertRuleOptions) {
+    await this.assertScope(options.companyId, options.routerId);
+    this.assertThreshold(options.type, options);
+
+    return await prisma.alertRule.create({
+      data: {
+        companyId: options.companyId ?? null,
+        routerId: options.routerId ?? null,
+        name: options.name,
+        type: options.type,
+        severity: options.severity ?? AlertSeverity.WARNING,
+        ...this.thresholdFields(options.type, options),
+        isEnabled: options.isEnabled ?? true
+      },
+      include: ruleInclude
+    });
+  }
+
+  /**
+   * Update a rule (the type cannot change)
+   */
+  async updateRule(ruleId: string, options: UpdateAlertRuleOptions) {
+    const existing = await this.getRule(ruleId);
+
+    const companyId = options.companyId !== undefined ? options.companyId : existing.companyId;
+    const routerId = options.routerId !== undefined ? options.routerId : existing.routerId;
+    await this.assertScope(companyId, routerId);
+
+    const threshold = {
+      metric: options.metric !== undefined ? options.metric : existing.metric as ThresholdMetric | null,
+      operator: options.operator !== undefined ? options.operator : existing.operator as ThresholdOperator | null,
+      threshold: options.threshold !== undefined ? options.threshold : existing.threshold
+    };
+    this.assertThreshold(existing.type, threshold);
+
+    return await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: {
+        companyId,
+        routerId,
+        name: options.name,
+        severity: options.severity,
+        ...this.thresholdFields(existing.type, threshold),
+        isEnabled: options.isEnabled
+      },
+      include: ruleInclude
+    });
+  }
+
+  /**
+   * Delete a rule and its incidents
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    await this.getRule(ruleId);
+    await prisma.alertRule.delete({ where: { id: ruleId } });
+  }
+
+  private async assertScope(companyId?: string | null, routerId?: string | null): Promise<void> {
+    if (companyId) {
+      const company = await prisma.company.findUnique({ where: { id: companyId } });
+      if (!company) {
+        throw new AppError(404, `Company not found: ${companyId}`);
+      }
+    }
+
+    if (routerId) {
+      const router = await prisma.router.findUnique({ where: { id: routerId } });
+      if (!router) {
+        throw new AppError(404, `Router not found: ${routerId}`);
+      }
+
+      if (companyId && router.companyId !== companyId) {
+        throw new AppError(400, 'Router does not belong to the selected company');
+      }
+    }
+  }
+
+  private assertThreshold(
+    type: AlertRuleType,
+    options: Pick<CreateAlertRuleOptions, 'metric' | 'operator' | 'threshold'>
+  ): void {
+    if (type !== AlertRuleType.RESOURCE_THRESHOLD) {
+      return;
+    }
+
+    if (!options.metric || !options.operator || options.threshold === undefined || options.threshold === null) {
+      throw new AppError(400, 'Resource threshold rules need a metric, an operator and a threshold');
+    }
+  }
+
+  /**
+   * Threshold columns only mean something on RESOURCE_THRESHOLD rules
+   */
+  private thresholdFields(
+    type: AlertRuleType,
+    options: Pick<CreateAlertRuleOptions, 'metric' | 'operator' | 'threshold'>
+  ) {
+    if (type !== AlertRuleType.RESOURCE_THRESHOLD) {
+      return { metric: null, operator: null, threshold: null };
+    }
+
+    return {
+      metric: options.metric,
+      operator: options.operator,
+      threshold: options.threshold
+    };
+  }
+}
+
+// Export singleton instance
+export const alertRuleService = new AlertRuleService();
@@ -0,0 +1,256 @@
+import { prisma } from '../../lib/prisma';
+import { encrypt } from '../../lib/encryption';
+import { AppError } from '../../middleware/errorHandler';
+import { notificationService } from './notification.service';
+import type { DeliveryResult } from './notification.service';
+import { AlertSeverity, NotificationChannelType, Prisma } from '@prisma/client';
+import type { NotificationChannel } from '@prisma/client';
+
+/**
+ * Notification Channel Service
+ * Company (or global) notification channels and the users subscribed to them
+ *
+ * The channel secret is the SMTP password, the webhook signing secret or the
+ * Telegram bot token. It is stored encrypted and never returned, responses
+ * only say whether one is set.
+ */
+
+export interface CreateChannelOptions {
+  companyId?: string | null; // Null for a channel covering every router
+  name: string;
+  type: NotificationChannelType;
+  settings: Record<string, unknown>;
+  secret?: string | null;
+  isEnabled?: boolean;
+}
+
+export interface UpdateChannelOptions {
+  name?: string;
+  settings?: Record<string, unknown>;
+  secret?: string | null; // Undefined keeps, null clears
+  isEnabled?: boolean;
+}
+
+export interface SubscribeOptions {
+  minSeverity?: AlertSeverity;
+  target?: string | null; // Email address or Telegram chat ID, defaults to the account email or channel chat
+}
+
+const channelInclude = {
+  company: {
+    select: {
+      id: true,
+      name: true,
+      code: true
+    }
+  },
+  _count: {
+    select: { subscriptions: true }
+  }
+};
+
+type ChannelWithCompany = Prisma.NotificationChannelGetPayload<{ include: typeof channelInclude }>;
+
+/**
+ * Drop the secret from a channel before it leaves the service
+ */
+function toPublicChannel<T extends NotificationChannel>(channel: T) {
+  const { secret, ...rest } = channel;
+  return { ...rest, hasSecret: Boolean(secret) };
+}
+
+export class NotificationChannelService {
+  /**
+   * List channels, optionally for one company
+   */
+  async listChannels(companyId?: string) {
+    const channels = await prisma.notificationChannel.findMany({
+      where: companyId ? { companyId } : undefined,
+      include: channelInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return channels.map(channel => toPublicChannel(channel));
+  }
+
+  /**
+   * Get a channel
+   */
+  async getChannel(channelId: string) {
+    return toPublicChannel(await this.findChannel(channelId));
+  }
+
+  /**
+   * Create a channel
+   */
+  async createChannel(options: CreateChannelOptions) {
+    const companyId = options.companyId ?? null;
+
+    if (companyId) {
+      const company = await prisma.company.findUnique({ where: { id: companyId } });
+      if (!company) {
+        throw new AppError(404, `Company not found: ${companyId}`);
+      }
+    }
+
+    this.assertSecret(options.type, options.secret);
+
+    const channel = await prisma.notificationChannel.create({
+      data: {
+        companyId,
+        name: options.name,
+        type: options.type,
+        settings: options.settings as Prisma.InputJsonObject,
+        secret: options.secret ? encrypt(options.secret) : null,
+        isEnabled: options.isEnabled ?? true
+      },
+      include: channelInclude
+    });
+
+    return toPublicChannel(channel);
+  }
+
+  /**
+   * Update a channel (the type and company cannot change)
+   */
+  async updateChannel(channelId: string, options: UpdateChannelOptions) {
+    const existing = await this.findChannel(channelId);
+
+    if (options.secret !== undefined) {
+      this.assertSecret(existing.type, options.secret);
+    }
+
+    const channel = await prisma.notificationChannel.update({
+      where: { id: channelId },
+      data: {
+        name: options.name,
+        settings: options.settings as Prisma.InputJsonObject | undefined,
+        secret: options.secret === undefined
+          ? undefined
+          : options.secret ? encrypt(options.secret) : null,
+        isEnabled: options.isEnabled
+      },
+      include: channelInclude
+    });
+
+    return toPublicChannel(channel);
+  }
+
+  /**
+   * Delete a channel and its subscriptions
+   */
+  async deleteChannel(channelId: string): Promise<void> {
+    await this.findChannel(channelId);
+    await prisma.notificationChannel.delete({ where: { id: channelId } });
+  }
+
+  /**
+   * Send a test message to the channel's subscribers
+   */
+  async testChannel(channelId: string): Promise<DeliveryResult> {
+    await this.findChannel(channelId);
+
+    const channel = await prisma.notificationChannel.findUniqueOrThrow({
+      where: { id: channelId },
+      include: {
+        subscriptions: {
+          include: { user: { select: { email: true } } }
+        }
+      }
+    });
+
+    return await notificationService.sendTest(channel);
+  }
+
+  /**
+   * Enabled channels a user can subscribe to, with the user's subscription
+   */
+  async listSubscriptions(userId: string) {
+    const channels = await prisma.notificationChannel.findMany({
+      where: { isEnabled: true },
+      include: {
+        company: {
+          select: {
+            id: true,
+            name: true,
+            code: true
+          }
+        },
+        subscriptions: {
+          where: { userId }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return channels.map(({ subscriptions, secret: _secret, settings: _settings, lastDeliveryError: _error, ...channel }) => ({
+      ...channel,
+      subscription: subscriptions[0] ?? null
+    }));
+  }
+
+  /**
+   * Subscribe a user to a channel, or update the subscription
+   */
+  async subscribe(userId: string, channelId: string, options: SubscribeOptions) {
+    const channel = await this.findChannel(channelId);
+
+    if (!channel.isEnabled) {
+      throw new AppError(409, 'Notification channel is disabled');
+    }
+
+    return await prisma.notificationSubscription.upsert({
+      where: { channelId_userId: { channelId, userId } },
+      create: {
+        channelId,
+        userId,
+        minSeverity: options.minSeverity ?? AlertSeverity.WARNING,
+        target: options.target || null
+      },
+      update: {
+        minSeverity: options.minSeverity,
+        target: options.target === undefined ? undefined : options.target || null
+      }
+    });
+  }
+
+  /**
+   * Remove a user's subscription to a channel
+   */
+  async unsubscribe(userId: string, channelId: string): Promise<void> {
+    const subscription = await prisma.notificationSubscription.findUnique({
+      where: { channelId_userId: { channelId, userId } }
+    });
+
+    if (!subscription) {
+      throw new AppError(404, `Subscription not found: ${channelId}`);
+    }
+
+    await prisma.notificationSubscription.delete({ where: { id: subscription.id } });
+  }
+
+  private async findChannel(channelId: string): Promise<ChannelWithCompany> {
+    const channel = await prisma.notificationChannel.findUnique({
+      where: { id: channelId },
+      include: channelInclude
+    });
+
+    if (!channel) {
+      throw new AppError(404, `Notification channel not found: ${channelId}`);
+    }
+
+    return channel;
+  }
+
+  /**
+   * Telegram cannot send without its bot token
+   */
+  private assertSecret(type: NotificationChannelType, secret: string | null | undefined): void {
+    if (type === NotificationChannelType.TELEGRAM && !secret) {
+      throw new AppError(400, 'Telegram channels need a bot token');
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationChannelService = new NotificationChannelService();
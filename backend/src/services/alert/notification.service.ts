@@ -0,0 +1,351 @@
+import { createHmac } from 'crypto';
+import nodemailer from 'nodemailer';
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { decrypt } from '../../lib/encryption';
+import { AlertSeverity, NotificationChannelType } from '@prisma/client';
+import type { AlertIncident, NotificationChannel, Prisma } from '@prisma/client';
+
+/**
+ * Notification Service
+ * Delivers incident notifications to the channels users subscribed to
+ *
+ * A channel covers the routers of its company (or every router when it has
+ * no company) and only sends to its subscribers, each with a minimum
+ * severity. EMAIL mails every subscriber address in one message, TELEGRAM
+ * sends to each subscriber chat (or the channel's chat), WEBHOOK posts once.
+ * Delivery failures are stored on the channel and never fail the caller.
+ */
+
+export type NotificationEvent = 'opened' | 'resolved' | 'test';
+
+export interface EmailChannelSettings {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (465), otherwise STARTTLS when offered
+  username?: string;
+  from: string;
+}
+
+export interface WebhookChannelSettings {
+  url: string;
+}
+
+export interface TelegramChannelSettings {
+  chatId?: string; // Group or channel chat, subscribers may use their own chat instead
+}
+
+export interface NotificationMessage {
+  event: NotificationEvent;
+  severity: AlertSeverity;
+  subject: string; // One line, email subject
+  text: string;
+  payload: Record<string, unknown>; // Webhook body
+}
+
+export interface DeliveryResult {
+  channelId: string;
+  success: boolean;
+  recipients: number;
+  error?: string;
+}
+
+type SubscriptionWithUser = Prisma.NotificationSubscriptionGetPayload<{
+  include: { user: { select: { email: true } } };
+}>;
+
+type IncidentWithContext = AlertIncident & {
+  rule: { id: string; name: string; type: string };
+  router: { id: string; name: string; ipAddress: string; companyId: string | null };
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  [AlertSeverity.INFO]: 0,
+  [AlertSeverity.WARNING]: 1,
+  [AlertSeverity.CRITICAL]: 2
+};
+
+/**
+ * Whether an incident of this severity reaches a subscriber
+ */
+export function meetsSeverity(severity: AlertSeverity, minSeverity: AlertSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+export class NotificationService {
+  /**
+   * Notify subscribers that an incident opened or resolved
+   */
+  async notifyIncident(incidentId: string, event: Exclude<NotificationEvent, 'test'>): Promise<DeliveryResult[]> {
+    try {
+      const incident = await prisma.alertIncident.findUnique({
+        where: { id: incidentId },
+        include: {
+          rule: { select: { id: true, name: true, type: true } },
+          router: { select: { id: true, name: true, ipAddress: true, companyId: true } }
+        }
+      });
+
+      if (!incident) {
+        return [];
+      }
+
+      const channels = await prisma.notificationChannel.findMany({
+        where: {
+          isEnabled: true,
+          OR: [
+            { companyId: null },
+            ...(incident.router.companyId ? [{ companyId: incident.router.companyId }] : [])
+          ]
+        },
+        include: {
+          subscriptions: {
+            include: { user: { select: { email: true } } }
+          }
+        }
+      });
+
+      const message = this.buildIncidentMessage(incident, event);
+      const results: DeliveryResult[] = [];
+
+      for (const channel of channels) {
+        const subscriptions = channel.subscriptions.filter(subscription =>
+          meetsSeverity(incident.severity, subscription.minSeverity)
+        );
+
+        if (subscriptions.length === 0) {
+          continue;
+        }
+
+        results.push(await this.deliver(channel, subscriptions, message));
+      }
+
+      return results;
+    } catch (error) {
+      console.error(`[Alerting] Failed to notify incident ${incidentId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Send a test message through a channel to all of its subscribers
+   */
+  async sendTest(channel: NotificationChannel & { subscriptions: SubscriptionWithUser[] }): Promise<DeliveryResult> {
+    return await this.deliver(channel, channel.subscriptions, {
+      event: 'test',
+      severity: AlertSeverity.INFO,
+      subject: `[TEST] ${channel.name}`,
+      text: `Test notification from Router Management for channel "${channel.name}".\n${config.alerting.dashboardUrl}/alerts`,
+      payload: {
+        event: 'test',
+        channel: { id: channel.id, name: channel.name },
+        sentAt: new Date().toISOString()
+      }
+    });
+  }
+
+  /**
+   * Send one message through a channel and record the outcome on it
+   */
+  private async deliver(
+    channel: NotificationChannel,
+    subscriptions: SubscriptionWithUser[],
+    message: NotificationMessage
+  ): Promise<DeliveryResult> {
+    let recipients = 0;
+
+    try {
+      switch (channel.type) {
+        case NotificationChannelType.EMAIL:
+          recipients = await this.sendEmail(channel, subscriptions, message);
+          break;
+        case NotificationChannelType.WEBHOOK:
+          recipients = await this.sendWebhook(channel, message);
+          break;
+        case NotificationChannelType.TELEGRAM:
+          recipients = await this.sendTelegram(channel, subscriptions, message);
+          break;
+      }
+
+      await prisma.notificationChannel.update({
+        where: { id: channel.id },
+        data: { lastDeliveryAt: new Date(), lastDeliveryError: null }
+      });
+
+      return { channelId: channel.id, success: true, recipients };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Alerting] Delivery through channel ${channel.id} (${channel.type}) failed: ${errorMsg}`);
+
+      await prisma.notificationChannel.update({
+        where: { id: channel.id },
+        data: { lastDeliveryError: errorMsg }
+      }).catch(() => undefined);
+
+      return { channelId: channel.id, success: false, recipients, error: errorMsg };
+    }
+  }
+
+  private async sendEmail(
+    channel: NotificationChannel,
+    subscriptions: SubscriptionWithUser[],
+    message: NotificationMessage
+  ): Promise<number> {
+    const settings = channel.settings as unknown as EmailChannelSettings;
+    const recipients = [...new Set(
+      subscriptions
+        .map(subscription => subscription.target || subscription.user.email)
+        .filter((address): address is string => Boolean(address))
+    )];
+
+    if (recipients.length === 0) {
+      throw new Error('No subscriber has an email address');
+    }
+
+    const transport = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.username
+        ? { user: settings.username, pass: channel.secret ? decrypt(channel.secret) : '' }
+        : undefined,
+      connectionTimeout: config.alerting.deliveryTimeoutMs,
+      greetingTimeout: config.alerting.deliveryTimeoutMs,
+      socketTimeout: config.alerting.deliveryTimeoutMs
+    });
+
+    try {
+      await transport.sendMail({
+        from: settings.from,
+        to: recipients.join(', '),
+        subject: message.subject,
+        text: message.text
+      });
+    } finally {
+      transport.close();
+    }
+
+    return recipients.length;
+  }
+
+  private async sendWebhook(channel: NotificationChannel, message: NotificationMessage): Promise<number> {
+    const settings = channel.settings as unknown as WebhookChannelSettings;
+    const body = JSON.stringify(message.payload);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'router-management-alerting'
+    };
+
+    // Receivers verify the body with the shared secret, same scheme as GitHub webhooks
+    if (channel.secret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', decrypt(channel.secret)).update(body).digest('hex')}`;
+    }
+
+    const response = await fetch(settings.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(config.alerting.deliveryTimeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+
+    return 1;
+  }
+
+  private async sendTelegram(
+    channel: NotificationChannel,
+    subscriptions: SubscriptionWithUser[],
+    message: NotificationMessage
+  ): Promise<number> {
+    const settings = channel.settings as unknown as TelegramChannelSettings;
+
+    if (!channel.secret) {
+      throw new Error('Telegram bot token is not set');
+    }
+
+    const chatIds = [...new Set(
+      [
+        ...subscriptions.map(subscription => subscription.target || settings.chatId),
+        // A test with no subscribers still reaches the channel's own chat
+        ...(message.event === 'test' ? [settings.chatId] : [])
+      ].filter((chatId): chatId is string => Boolean(chatId))
+    )];
+
+    if (chatIds.length === 0) {
+      throw new Error('No chat ID on the channel or its subscribers');
+    }
+
+    const token = decrypt(channel.secret);
+
+    for (const chatId of chatIds) {
+      const response = await fetch(`${config.alerting.telegramApiUrl}/bot${token}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text: `${message.subject}\n\n${message.text}`,
+          disable_web_page_preview: true
+        }),
+        signal: AbortSignal.timeout(config.alerting.deliveryTimeoutMs)
+      });
+
+      const result = await response.json().catch(() => null) as { ok?: boolean; description?: string } | null;
+
+      if (!response.ok || !result?.ok) {
+        throw new Error(`Telegram rejected chat ${chatId}: ${result?.description || `HTTP ${response.status}`}`);
+      }
+    }
+
+    return chatIds.length;
+  }
+
+  private buildIncidentMessage(incident: IncidentWithContext, event: Exclude<NotificationEvent, 'test'>): NotificationMessage {
+    const { router, rule } = incident;
+    const label = event === 'resolved' ? 'RESOLVED' : incident.severity;
+
+    const lines = [
+      incident.message,
+      '',
+      `Router: ${router.name} (${router.ipAddress})`,
+      `Rule: ${rule.name}`,
+      `Opened: ${incident.openedAt.toISOString()}`
+    ];
+
+    if (incident.resolvedAt) {
+      lines.push(`Resolved: ${incident.resolvedAt.toISOString()}`);
+    }
+
+    lines.push('', `${config.alerting.dashboardUrl}/alerts`);
+
+    return {
+      event,
+      severity: incident.severity,
+      subject: `[${label}] ${router.name}: ${incident.title}`,
+      text: lines.join('\n'),
+      payload: {
+        event,
+        incident: {
+          id: incident.id,
+          status: incident.status,
+          severity: incident.severity,
+          subject: incident.subject,
+          title: incident.title,
+          message: incident.message,
+          occurrences: incident.occurrences,
+          openedAt: incident.openedAt,
+          acknowledgedAt: incident.acknowledgedAt,
+          resolvedAt: incident.resolvedAt
+        },
+        rule,
+        router: { id: router.id, name: router.name, ipAddress: router.ipAddress }
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
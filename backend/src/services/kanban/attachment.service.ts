@@ -1,5 +1,5 @@
 import { prisma } from '../../lib/prisma';
-import { r2Client } from '../../lib/r2-client';
+import { storage } from '../../lib/storage-driver';
 import { TaskActivityAction } from '@prisma/client';
 import crypto from 'crypto';
 
@@ -64,7 +64,7 @@ export class AttachmentService {
     // Generate fresh presigned URLs for all attachments (valid for 7 days)
     const attachmentsWithFreshUrls = await Promise.all(
       attachments.map(async (attachment) => {
-        const freshUrl = await r2Client.getPresignedUrl(attachment.storageKey, 7 * 24 * 3600);
+        const freshUrl = await storage.getPresignedUrl(attachment.storageKey, 7 * 24 * 3600);
         return {
           ...attachment,
           storageUrl: freshUrl,
@@ -76,7 +76,7 @@ export class AttachmentService {
   }
 
   /**
-   * Upload attachment to R2 and save metadata
+   * Upload attachment to storage and save metadata
    */
   async uploadAttachment(
     taskId: string,
@@ -97,8 +97,8 @@ export class AttachmentService {
     const checksum = this.calculateChecksum(file.buffer);
 
     try {
-      // Upload to R2
-      await r2Client.upload(storageKey, file.buffer, file.mimetype);
+      // Upload to storage
+      await storage.upload(storageKey, file.buffer, file.mimetype);
 
       // Save metadata to database (storageKey only, no storageUrl)
       const attachment = await prisma.taskAttachment.create({
@@ -137,7 +137,7 @@ export class AttachmentService {
       });
 
       // Generate fresh presigned URL for response (valid for 7 days)
-      const storageUrl = await r2Client.getPresignedUrl(storageKey, 7 * 24 * 3600);
+      const storageUrl = await storage.getPresignedUrl(storageKey, 7 * 24 * 3600);
 
       return {
         ...attachment,
@@ -172,7 +172,7 @@ export class AttachmentService {
     }
 
     // Generate fresh presigned URL (valid for 1 hour)
-    const freshUrl = await r2Client.getPresignedUrl(attachment.storageKey, 3600);
+    const freshUrl = await storage.getPresignedUrl(attachment.storageKey, 3600);
 
     return {
       ...attachment,
@@ -181,7 +181,7 @@ export class AttachmentService {
   }
 
   /**
-   * Download attachment from R2
+   * Download attachment from storage
    */
   async downloadAttachment(attachmentId: string, taskId: string, userId: string) {
     await this.verifyTaskAccess(taskId, userId);
@@ -195,8 +195,8 @@ export class AttachmentService {
     }
 
     try {
-      // Download from R2
-      const buffer = await r2Client.download(attachment.storageKey);
+      // Download from storage
+      const buffer = await storage.download(attachment.storageKey);
 
       // Verify checksum
       const downloadChecksum = this.calculateChecksum(buffer);
@@ -233,8 +233,8 @@ export class AttachmentService {
     }
 
     try {
-      // Delete from R2
-      await r2Client.delete(attachment.storageKey);
+      // Delete from storage
+      await storage.delete(attachment.storageKey);
 
       // Delete from database
       await prisma.taskAttachment.delete({
@@ -281,7 +281,7 @@ export class AttachmentService {
   }
 
   /**
-   * Cleanup orphaned files in R2 (for maintenance)
+   * Cleanup orphaned files in storage (for maintenance)
    * This should be run periodically via cron job
    */
   async cleanupOrphanedFiles() {
@@ -292,14 +292,14 @@ export class AttachmentService {
 
     const dbKeys = new Set(attachments.map((a) => a.storageKey));
 
-    // List all files in kanban/ prefix in R2
-    const r2Keys = await r2Client.listObjects('kanban/');
+    // List all files in kanban/ prefix in storage
+    const storedKeys = await storage.listObjects('kanban/');
 
-    // Find orphaned files (in R2 but not in DB)
-    const orphanedKeys = r2Keys.filter((key) => !dbKeys.has(key));
+    // Find orphaned files (in storage but not in DB)
+    const orphanedKeys = storedKeys.filter((key) => !dbKeys.has(key));
 
     if (orphanedKeys.length > 0) {
-      await r2Client.deleteMany(orphanedKeys);
+      await storage.deleteMany(orphanedKeys);
     }
 
     return {
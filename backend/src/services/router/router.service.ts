@@ -1,6 +1,9 @@
 import { prisma } from '../../lib/prisma';
-import { RouterStatus, RouterType, RouterBrand } from '@prisma/client';
+import { RouterStatus, RouterType, RouterBrand, RouterApiTransport, SshAuthMethod } from '@prisma/client';
 import { encrypt } from '../../lib/encryption';
+import { AppError } from '../../middleware/errorHandler';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getDefaultApiPort } from '../../lib/routeros/transport';
 
 interface CreateRouterData {
   name: string;
@@ -16,6 +19,10 @@ interface CreateRouterData {
   password: string;
   apiPort?: number;
   sshPort?: number;
+  apiTransport?: RouterApiTransport;
+  apiTlsCa?: string | null;
+  apiTlsFingerprint?: string | null;
+  backupShowSensitive?: boolean;
 }
 
 interface UpdateRouterData {
@@ -33,6 +40,11 @@ interface UpdateRouterData {
   password?: string;
   apiPort?: number;
   sshPort?: number;
+  apiTransport?: RouterApiTransport;
+  apiTlsCa?: string | null;
+  apiTlsFingerprint?: string | null;
+  sshAuthMethod?: SshAuthMethod;
+  backupShowSensitive?: boolean;
 }
 
 export class RouterService {
@@ -101,6 +113,8 @@ export class RouterService {
     return await prisma.router.create({
       data: {
         ...data,
+        // API-SSL listens on its own port unless one was given
+        apiPort: data.apiPort ?? getDefaultApiPort(data.apiTransport ?? RouterApiTransport.PLAIN),
         password: encryptedPassword
       },
       include: {
@@ -116,6 +130,15 @@ export class RouterService {
   }
 
   async updateRouter(id: string, data: UpdateRouterData) {
+    // Key-based SSH only works once a key was deployed to the router
+    if (data.sshAuthMethod === SshAuthMethod.PUBLIC_KEY) {
+      const current = await prisma.router.findUnique({ where: { id }, select: { sshKeyId: true } });
+
+      if (current && !current.sshKeyId) {
+        throw new AppError(400, 'Deploy an SSH key to this router before switching it to key-based SSH');
+      }
+    }
+
     // If password is being updated, encrypt it
     // If password is undefined or empty, don't include it in the update
     const updateData: any = { ...data };
@@ -127,7 +150,16 @@ export class RouterService {
       delete updateData.password;
     }
 
-    return await prisma.router.update({
+    // A port stored for the old transport would dial the wrong service, use the new default
+    if (data.apiTransport !== undefined && data.apiPort === undefined) {
+      const current = await prisma.router.findUnique({ where: { id }, select: { apiTransport: true } });
+
+      if (current && current.apiTransport !== data.apiTransport) {
+        updateData.apiPort = getDefaultApiPort(data.apiTransport);
+      }
+    }
+
+    const router = await prisma.router.update({
       where: { id },
       data: updateData,
       include: {
@@ -140,12 +172,27 @@ export class RouterService {
         }
       }
     });
+
+    // Pooled API sessions were opened with the old address/credentials
+    const connectionChanged = [
+      'password', 'ipAddress', 'username', 'apiPort', 'status', 'apiTransport', 'apiTlsCa', 'apiTlsFingerprint'
+    ].some(field => updateData[field] !== undefined);
+
+    if (connectionChanged) {
+      await routerOSPool.invalidate(id);
+    }
+
+    return router;
   }
 
   async deleteRouter(id: string) {
-    return await prisma.router.delete({
+    const router = await prisma.router.delete({
       where: { id }
     });
+
+    await routerOSPool.invalidate(id);
+
+    return router;
   }
 
   async getRouterByIp(ipAddress: string) {
@@ -5,8 +5,12 @@
 
 import { prisma } from '../../lib/prisma';
 import { decrypt } from '../../lib/encryption';
-import { RouterOSClient } from '../../lib/routeros/client';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { describeTransport, getRouterApiConnection } from '../../lib/routeros/transport';
+import type { RouterOSClient } from '../../lib/routeros/client';
 import { RouterOSSSHClient } from '../../lib/routeros/ssh-client';
+import { routerOSSshKeyService } from '../routeros/routeros.sshkey.service';
+import type { SshAuthMethod } from '@prisma/client';
 
 /**
  * Test result types
@@ -25,6 +29,8 @@ export interface TestDetails {
   host: string;
   apiPort?: number;
   sshPort?: number;
+  transport?: string; // API, API-SSL or API-SSL (verified)
+  sshAuthMethod?: SshAuthMethod;
   username?: string;
   latency?: number;
   version?: string;
@@ -92,8 +98,11 @@ export class RouterOSTestService {
     try {
       const { router, password } = await this.getRouterCredentials(routerId);
 
+      const connection = getRouterApiConnection(router);
+
       details.host = router.ipAddress;
-      details.apiPort = router.apiPort || 8728;
+      details.apiPort = connection.port;
+      details.transport = describeTransport(connection.tls);
       details.username = router.username;
 
       // For non-MikroTik routers, we can't test API connection
@@ -109,16 +118,17 @@ export class RouterOSTestService {
 
       const config = {
         host: router.ipAddress,
-        port: router.apiPort || 8728,
         username: router.username,
         password: password,
         timeout: 15000, // 15 seconds timeout for testing
+        ...connection,
       };
 
-      const client = new RouterOSClient(config);
+      let client: RouterOSClient | null = null;
 
       try {
-        await client.connect();
+        // Always log in anew so the test proves the current credentials work
+        client = await routerOSPool.acquire(routerId, config, { fresh: true });
         details.latency = Date.now() - startTime;
 
         // Try to get system resource info to verify full functionality
@@ -143,12 +153,10 @@ export class RouterOSTestService {
           };
         }
 
-        await client.disconnect();
-
         return {
           success: true,
           type: 'API',
-          message: `API connection successful. RouterOS version: ${details.version || 'Unknown'}`,
+          message: `${details.transport} connection successful. RouterOS version: ${details.version || 'Unknown'}`,
           details,
           timestamp: new Date(),
         };
@@ -173,7 +181,7 @@ export class RouterOSTestService {
             details,
             timestamp: new Date(),
           };
-        } else if (errorMsg.includes('authentication') || errorMsg.includes('login')) {
+        } else if (errorMsg.includes('authentication') || errorMsg.includes('login') || errorMsg.includes('password is invalid')) {
           return {
             success: false,
             type: 'API',
@@ -181,15 +189,27 @@ export class RouterOSTestService {
             details,
             timestamp: new Date(),
           };
+        } else if (connection.tls && /certificate|fingerprint|ssl|tls|handshake/.test(errorMsg)) {
+          return {
+            success: false,
+            type: 'API',
+            message: `${details.transport} handshake failed. Check the router certificate or the pinned CA/fingerprint: ${details.error}`,
+            details,
+            timestamp: new Date(),
+          };
         }
 
         return {
           success: false,
           type: 'API',
-          message: `API connection failed: ${details.error}`,
+          message: `${details.transport} connection failed: ${details.error}`,
           details,
           timestamp: new Date(),
         };
+      } finally {
+        if (client) {
+          await routerOSPool.release(client);
+        }
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -213,18 +233,19 @@ export class RouterOSTestService {
     const details: TestDetails = {} as TestDetails;
 
     try {
-      const { router, password } = await this.getRouterCredentials(routerId);
+      const { router } = await this.getRouterCredentials(routerId);
 
       details.host = router.ipAddress;
       details.sshPort = router.sshPort || 22;
+      details.sshAuthMethod = router.sshAuthMethod;
       details.username = router.username;
 
       const config = {
         host: router.ipAddress,
         port: router.sshPort || 22,
         username: router.username,
-        password: password,
         timeout: 15000, // 15 seconds timeout for testing
+        ...await routerOSSshKeyService.getSSHCredentials(router),
       };
 
       const client = new RouterOSSSHClient(config);
@@ -258,7 +279,7 @@ export class RouterOSTestService {
         return {
           success: true,
           type: 'SSH',
-          message: `SSH connection successful. RouterOS version: ${details.version || 'Unknown'}`,
+          message: `SSH connection successful (${details.sshAuthMethod === 'PUBLIC_KEY' ? 'public key' : 'password'}). RouterOS version: ${details.version || 'Unknown'}`,
           details,
           timestamp: new Date(),
         };
@@ -287,7 +308,9 @@ export class RouterOSTestService {
           return {
             success: false,
             type: 'SSH',
-            message: 'Authentication failed. Please check username and password.',
+            message: details.sshAuthMethod === 'PUBLIC_KEY'
+              ? 'Authentication failed. The SSH key may have been removed from the router, deploy it again.'
+              : 'Authentication failed. Please check username and password.',
             details,
             timestamp: new Date(),
           };
@@ -509,9 +532,16 @@ export class RouterOSTestService {
     }
 
     if (connectionType === 'API' || connectionType === 'BOTH') {
-      suggestions.push('Check if API service is enabled on the router: /ip service enable api');
-      suggestions.push(`Verify API port (${router.apiPort || 8728}) is correct and not blocked by firewall.`);
-      suggestions.push('Ensure the API IP is allowed in /ip service api settings.');
+      const service = router.apiTransport === 'PLAIN' ? 'api' : 'api-ssl';
+      const apiPort = getRouterApiConnection(router).port;
+
+      suggestions.push(`Check if API service is enabled on the router: /ip service enable ${service}`);
+      suggestions.push(`Verify API port (${apiPort}) is correct and not blocked by firewall.`);
+      suggestions.push(`Ensure the API IP is allowed in /ip service ${service} settings.`);
+
+      if (router.apiTransport === 'SSL_VERIFY') {
+        suggestions.push('Assign a certificate to api-ssl (/ip service set api-ssl certificate=...) that the pinned CA or fingerprint matches.');
+      }
     }
 
     if (connectionType === 'SSH' || connectionType === 'BOTH') {
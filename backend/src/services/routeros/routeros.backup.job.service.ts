@@ -0,0 +1,404 @@
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { routerOSBackupService } from './routeros.backup.service';
+import {
+  BackupJobStatus,
+  BackupJobItemStatus,
+  BackupType,
+  RouterStatus,
+  RouterType,
+  TriggerType
+} from '@prisma/client';
+
+/**
+ * RouterOS Backup Job Service
+ * Fleet-wide backup runs with per-router progress tracking
+ *
+ * A job snapshots its target routers when created, then backs them up in the
+ * background in chunks. Progress is written to the database after every
+ * router, so the job endpoint can be polled while it runs and reviewed later.
+ *
+ * The running process refreshes the job's heartbeat. A QUEUED/RUNNING job with
+ * a stale heartbeat lost its process (restart or crash). Every instance looks
+ * for those periodically, a PM2 restart is over long before the heartbeat goes
+ * stale, so a single pass at startup would miss the job it interrupted.
+ */
+
+export interface CreateBackupJobOptions {
+  companyId?: string;
+  routerType?: RouterType;
+  backupType?: BackupType;
+  compact?: boolean;
+  triggeredBy?: string; // User ID
+}
+
+export interface ListBackupJobsOptions {
+  limit?: number;
+  offset?: number;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HEARTBEAT_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+const jobItemInclude = {
+  items: {
+    orderBy: { router: { name: 'asc' as const } },
+    include: {
+      router: {
+        select: {
+          id: true,
+          name: true,
+          ipAddress: true
+        }
+      }
+    }
+  }
+};
+
+export class RouterOSBackupJobService {
+  private inFlight = new Map<string, Promise<void>>();
+  private recoveryTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a backup job for all matching ACTIVE routers and start it
+   */
+  async createJob(options: CreateBackupJobOptions) {
+    const {
+      companyId,
+      routerType,
+      backupType = BackupType.EXPORT,
+      compact = false,
+      triggeredBy
+    } = options;
+
+    if (backupType === BackupType.PARTIAL) {
+      throw new Error('Partial backups are not supported in backup jobs');
+    }
+
+    if (companyId) {
+      const company = await prisma.company.findUnique({ where: { id: companyId } });
+      if (!company) {
+        throw new Error(`Company not found: ${companyId}`);
+      }
+    }
+
+    const routers = await prisma.router.findMany({
+      where: {
+        status: RouterStatus.ACTIVE,
+        ...(companyId && { companyId }),
+        ...(routerType && { routerType })
+      },
+      select: { id: true },
+      orderBy: { name: 'asc' }
+    });
+
+    if (routers.length === 0) {
+      throw new Error('No active routers match the job target');
+    }
+
+    const job = await prisma.backupJob.create({
+      data: {
+        companyId,
+        routerType,
+        backupType,
+        compact,
+        triggeredBy,
+        totalRouters: routers.length,
+        heartbeatAt: new Date(),
+        items: {
+          create: routers.map(router => ({ routerId: router.id }))
+        }
+      },
+      include: jobItemInclude
+    });
+
+    const run = this.runJob(job.id)
+      .catch(async error => {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[Backup Job] Job ${job.id} crashed:`, error);
+
+        await prisma.backupJob.update({
+          where: { id: job.id },
+          data: {
+            jobStatus: BackupJobStatus.FAILED,
+            errorMessage: errorMsg,
+            completedAt: new Date()
+          }
+        }).catch(() => undefined);
+      })
+      .finally(() => {
+        this.inFlight.delete(job.id);
+      });
+
+    this.inFlight.set(job.id, run);
+
+    return job;
+  }
+
+  /**
+   * Get a job with per-router status and overall progress
+   */
+  async getJob(jobId: string) {
+    const job = await prisma.backupJob.findUnique({
+      where: { id: jobId },
+      include: jobItemInclude
+    });
+
+    if (!job) {
+      throw new Error(`Backup job not found: ${jobId}`);
+    }
+
+    const finished = job.succeededCount + job.failedCount;
+
+    return {
+      ...job,
+      progress: job.totalRouters > 0 ? Math.round((finished / job.totalRouters) * 100) : 100
+    };
+  }
+
+  /**
+   * List past and running jobs, newest first
+   */
+  async listJobs(options: ListBackupJobsOptions = {}) {
+    const { limit = 20, offset = 0 } = options;
+
+    const [jobs, total] = await Promise.all([
+      prisma.backupJob.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.backupJob.count()
+    ]);
+
+    return {
+      jobs,
+      total,
+      limit,
+      offset
+    };
+  }
+
+  /**
+   * Wait for running jobs to finish (used on shutdown)
+   */
+  async waitForJobs(): Promise<void> {
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Start failing orphaned jobs periodically (no-op if already started)
+   */
+  startRecovery(intervalMs: number = HEARTBEAT_INTERVAL_MS): void {
+    if (this.recoveryTimer) {
+      return;
+    }
+
+    const recover = () => {
+      this.recoverOrphanedJobs().catch(error => {
+        console.error('[Backup Job] Failed to recover orphaned jobs:', error);
+      });
+    };
+
+    this.recoveryTimer = setInterval(recover, intervalMs);
+    recover();
+  }
+
+  /**
+   * Stop the periodic orphan recovery
+   */
+  stopRecovery(): void {
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+  }
+
+  /**
+   * Fail jobs whose process died before finishing them
+   * Jobs of live instances (this one included) keep a fresh heartbeat and are left alone
+   */
+  async recoverOrphanedJobs(now: Date = new Date()): Promise<number> {
+    const unfinished = [BackupJobStatus.QUEUED, BackupJobStatus.RUNNING];
+    const staleBefore = new Date(now.getTime() - HEARTBEAT_STALE_MS);
+
+    const orphans = await prisma.backupJob.findMany({
+      where: {
+        jobStatus: { in: unfinished },
+        OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }]
+      },
+      select: { id: true, heartbeatAt: true }
+    });
+
+    let recovered = 0;
+
+    for (const orphan of orphans) {
+      // Claim the job only if its heartbeat did not move since it was read
+      const { count } = await prisma.backupJob.updateMany({
+        where: { id: orphan.id, jobStatus: { in: unfinished }, heartbeatAt: orphan.heartbeatAt },
+        data: {
+          jobStatus: BackupJobStatus.FAILED,
+          errorMessage: 'Job interrupted by a server restart',
+          completedAt: now
+        }
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await prisma.backupJobItem.updateMany({
+        where: {
+          jobId: orphan.id,
+          itemStatus: { in: [BackupJobItemStatus.QUEUED, BackupJobItemStatus.RUNNING] }
+        },
+        data: {
+          itemStatus: BackupJobItemStatus.FAILED,
+          errorMessage: 'Job interrupted by a server restart',
+          completedAt: now
+        }
+      });
+
+      const failedCount = await prisma.backupJobItem.count({
+        where: { jobId: orphan.id, itemStatus: BackupJobItemStatus.FAILED }
+      });
+
+      await prisma.backupJob.update({
+        where: { id: orphan.id },
+        data: { failedCount }
+      });
+
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.warn(`[Backup Job] Failed ${recovered} job(s) interrupted by a restart`);
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Back up every router of a job, chunked to bound concurrent SSH/API sessions
+   */
+  private async runJob(jobId: string): Promise<void> {
+    const job = await prisma.backupJob.update({
+      where: { id: jobId },
+      data: {
+        jobStatus: BackupJobStatus.RUNNING,
+        startedAt: new Date(),
+        heartbeatAt: new Date()
+      },
+      include: { items: true }
+    });
+
+    const heartbeat = setInterval(() => {
+      prisma.backupJob.update({
+        where: { id: jobId },
+        data: { heartbeatAt: new Date() }
+      }).catch(error => {
+        console.error(`[Backup Job] Failed to refresh heartbeat of job ${jobId}:`, error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const chunkSize = Math.max(1, config.backup.jobs.concurrency);
+    const chunks: typeof job.items[] = [];
+
+    for (let i = 0; i < job.items.length; i += chunkSize) {
+      chunks.push(job.items.slice(i, i + chunkSize));
+    }
+
+    try {
+      for (const chunk of chunks) {
+        await Promise.all(
+          chunk.map(item => this.runItem(job, item.id, item.routerId))
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    const finished = await prisma.backupJob.findUniqueOrThrow({ where: { id: jobId } });
+
+    await prisma.backupJob.update({
+      where: { id: jobId },
+      data: {
+        jobStatus: finished.succeededCount === 0 && finished.failedCount > 0
+          ? BackupJobStatus.FAILED
+          : BackupJobStatus.COMPLETED,
+        completedAt: new Date()
+      }
+    });
+
+    console.log(
+      `[Backup Job] Job ${jobId} finished: ` +
+      `${finished.succeededCount} succeeded, ${finished.failedCount} failed`
+    );
+  }
+
+  /**
+   * Back up a single router of a job and record the outcome
+   * Never throws, a failing router must not stop the batch
+   */
+  private async runItem(
+    job: { id: string; backupType: BackupType; compact: boolean; triggeredBy: string | null },
+    itemId: string,
+    routerId: string
+  ): Promise<void> {
+    await prisma.backupJobItem.update({
+      where: { id: itemId },
+      data: {
+        itemStatus: BackupJobItemStatus.RUNNING,
+        startedAt: new Date()
+      }
+    });
+
+    try {
+      const backup = await routerOSBackupService.createBackup({
+        routerId,
+        triggeredBy: job.triggeredBy || undefined,
+        triggerType: TriggerType.MANUAL,
+        backupType: job.backupType,
+        compact: job.compact
+      });
+
+      await prisma.$transaction([
+        prisma.backupJobItem.update({
+          where: { id: itemId },
+          data: {
+            itemStatus: BackupJobItemStatus.SUCCEEDED,
+            backupId: backup.id,
+            completedAt: new Date()
+          }
+        }),
+        prisma.backupJob.update({
+          where: { id: job.id },
+          data: { succeededCount: { increment: 1 } }
+        })
+      ]);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Backup Job] Backup failed for router ${routerId} in job ${job.id}:`, errorMsg);
+
+      await prisma.$transaction([
+        prisma.backupJobItem.update({
+          where: { id: itemId },
+          data: {
+            itemStatus: BackupJobItemStatus.FAILED,
+            errorMessage: errorMsg,
+            completedAt: new Date()
+          }
+        }),
+        prisma.backupJob.update({
+          where: { id: job.id },
+          data: { failedCount: { increment: 1 } }
+        })
+      ]).catch(updateError => {
+        console.error(`[Backup Job] Failed to record outcome for router ${routerId}:`, updateError);
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupJobService = new RouterOSBackupJobService();
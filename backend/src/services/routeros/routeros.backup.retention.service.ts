@@ -0,0 +1,283 @@
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { deleteBackups } from '../../lib/backup-storage';
+import { classifyBackups, RetentionBucket, RetentionPolicy } from '../../lib/backup-retention';
+import { BackupStatus, BackupType } from '@prisma/client';
+
+/**
+ * RouterOS Backup Retention Service
+ * Enforces grandfather-father-son retention on router backups
+ */
+
+export interface RetentionTarget {
+  routerId?: string;
+  companyId?: string;
+}
+
+export type RetentionPolicySource = 'ROUTER_SCHEDULE' | 'COMPANY_SCHEDULE' | 'DEFAULT';
+
+export interface RouterRetentionReport {
+  routerId: string;
+  routerName: string;
+  policy: RetentionPolicy & { source: RetentionPolicySource; scheduleId?: string };
+  protectedCount: number; // Pinned and safety backups, never touched
+  keep: Array<{ id: string; backupType: BackupType; createdAt: Date; buckets: RetentionBucket[] }>;
+  expire: Array<{ id: string; backupType: BackupType; createdAt: Date; storageKey: string; fileSize: number }>;
+}
+
+export interface RetentionRunResult {
+  dryRun: boolean;
+  routers: RouterRetentionReport[];
+  expiredCount: number;
+  freedBytes: number;
+}
+
+export class RouterOSBackupRetentionService {
+  /**
+   * Resolve retention policy for a router
+   * Router-level schedule wins over company-level schedule, then config defaults
+   * Disabled schedules are skipped
+   */
+  async resolvePolicy(router: { id: string; companyId: string | null }): Promise<RouterRetentionReport['policy']> {
+    const routerSchedule = await prisma.backupSchedule.findFirst({
+      where: { routerId: router.id, isEnabled: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    if (routerSchedule) {
+      return {
+        daily: routerSchedule.retentionDays,
+        weekly: routerSchedule.retentionWeeks,
+        monthly: routerSchedule.retentionMonths,
+        timezone: routerSchedule.timezone,
+        source: 'ROUTER_SCHEDULE',
+        scheduleId: routerSchedule.id
+      };
+    }
+
+    if (router.companyId) {
+      const companySchedule = await prisma.backupSchedule.findFirst({
+        where: { companyId: router.companyId, routerId: null, isEnabled: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      if (companySchedule) {
+        return {
+          daily: companySchedule.retentionDays,
+          weekly: companySchedule.retentionWeeks,
+          monthly: companySchedule.retentionMonths,
+          timezone: companySchedule.timezone,
+          source: 'COMPANY_SCHEDULE',
+          scheduleId: companySchedule.id
+        };
+      }
+    }
+
+    return {
+      daily: config.backup.retention.daily,
+      weekly: config.backup.retention.weekly,
+      monthly: config.backup.retention.monthly,
+      timezone: 'UTC',
+      source: 'DEFAULT'
+    };
+  }
+
+  /**
+   * Build retention report for a single router
+   * Each backup type gets its own GFS buckets, so a partial or binary backup
+   * never takes the slot of the day's full export. Partial backups are also
+   * split by section set, a /ip firewall backup never replaces a /routing bgp one
+   */
+  async buildRouterReport(
+    router: { id: string; name: string; companyId: string | null },
+    now: Date = new Date()
+  ): Promise<RouterRetentionReport> {
+    const policy = await this.resolvePolicy(router);
+
+    const [candidates, protectedCount] = await Promise.all([
+      prisma.routerBackup.findMany({
+        where: {
+          routerId: router.id,
+          backupStatus: BackupStatus.COMPLETED,
+          isPinned: false,
+          isSafetyBackup: false
+        },
+        select: {
+          id: true,
+          backupType: true,
+          sections: true,
+          createdAt: true,
+          storageKey: true,
+          fileSize: true
+        }
+      }),
+      prisma.routerBackup.count({
+        where: {
+          routerId: router.id,
+          backupStatus: BackupStatus.COMPLETED,
+          OR: [{ isPinned: true }, { isSafetyBackup: true }]
+        }
+      })
+    ]);
+
+    const report: RouterRetentionReport = {
+      routerId: router.id,
+      routerName: router.name,
+      policy,
+      protectedCount,
+      keep: [],
+      expire: []
+    };
+
+    const series = new Map<string, typeof candidates>();
+
+    for (const backup of candidates) {
+      const key = backup.backupType === BackupType.PARTIAL
+        ? `${backup.backupType}:${[...backup.sections].sort().join(',')}`
+        : backup.backupType;
+
+      series.set(key, [...(series.get(key) ?? []), backup]);
+    }
+
+    for (const backups of series.values()) {
+      const decision = classifyBackups(backups, policy, now);
+
+      report.keep.push(...decision.keep.map(({ backup, buckets }) => ({
+        id: backup.id,
+        backupType: backup.backupType,
+        createdAt: backup.createdAt,
+        buckets
+      })));
+      report.expire.push(...decision.expire.map(backup => ({
+        id: backup.id,
+        backupType: backup.backupType,
+        createdAt: backup.createdAt,
+        storageKey: backup.storageKey,
+        fileSize: Number(backup.fileSize)
+      })));
+    }
+
+    const newestFirst = (a: { createdAt: Date }, b: { createdAt: Date }) => b.createdAt.getTime() - a.createdAt.getTime();
+    report.keep.sort(newestFirst);
+    report.expire.sort(newestFirst);
+
+    return report;
+  }
+
+  /**
+   * Preview what retention would remove (dry-run)
+   */
+  async previewRetention(target: RetentionTarget = {}): Promise<RetentionRunResult> {
+    return await this.run(target, true);
+  }
+
+  /**
+   * Enforce retention: mark surplus backups EXPIRED and delete their files
+   */
+  async enforceRetention(target: RetentionTarget = {}): Promise<RetentionRunResult> {
+    return await this.run(target, false);
+  }
+
+  /**
+   * Run retention over all routers matching the target
+   */
+  private async run(target: RetentionTarget, dryRun: boolean): Promise<RetentionRunResult> {
+    const routers = await this.resolveRouters(target);
+    const now = new Date();
+
+    const result: RetentionRunResult = {
+      dryRun,
+      routers: [],
+      expiredCount: 0,
+      freedBytes: 0
+    };
+
+    for (const router of routers) {
+      const report = await this.buildRouterReport(router, now);
+
+      if (!dryRun && report.expire.length > 0) {
+        report.expire = await this.expireBackups(report.expire, now);
+      }
+
+      result.routers.push(report);
+      result.expiredCount += report.expire.length;
+      result.freedBytes += report.expire.reduce((sum, b) => sum + b.fileSize, 0);
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark backups EXPIRED, then remove their objects from storage
+   * Returns the backups that were actually expired
+   */
+  private async expireBackups(
+    backups: RouterRetentionReport['expire'],
+    now: Date
+  ): Promise<RouterRetentionReport['expire']> {
+    const ids = backups.map(b => b.id);
+
+    // Re-check pin state in the same statement so a backup pinned in the
+    // meantime is never expired
+    await prisma.routerBackup.updateMany({
+      where: {
+        id: { in: ids },
+        backupStatus: BackupStatus.COMPLETED,
+        isPinned: false,
+        isSafetyBackup: false
+      },
+      data: {
+        backupStatus: BackupStatus.EXPIRED,
+        expiresAt: now
+      }
+    });
+
+    const expired = await prisma.routerBackup.findMany({
+      where: {
+        id: { in: ids },
+        backupStatus: BackupStatus.EXPIRED
+      },
+      select: { id: true }
+    });
+
+    const expiredIds = new Set(expired.map(b => b.id));
+    const expiredBackups = backups.filter(b => expiredIds.has(b.id));
+
+    try {
+      await deleteBackups(expiredBackups.map(b => b.storageKey));
+    } catch (error) {
+      console.error('[Retention] Failed to delete expired backups from R2:', error);
+      // Rows stay EXPIRED so they are never offered for restore
+    }
+
+    return expiredBackups;
+  }
+
+  /**
+   * Resolve routers for a retention target
+   */
+  private async resolveRouters(target: RetentionTarget) {
+    const where: any = {};
+
+    if (target.routerId) {
+      where.id = target.routerId;
+    }
+
+    if (target.companyId) {
+      where.companyId = target.companyId;
+    }
+
+    return await prisma.router.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        companyId: true
+      },
+      orderBy: { name: 'asc' }
+    });
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupRetentionService = new RouterOSBackupRetentionService();
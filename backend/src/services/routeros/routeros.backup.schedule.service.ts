@@ -0,0 +1,539 @@
+import { prisma } from '../../lib/prisma';
+import { getNextRunDate } from '../../lib/cron';
+import { routerOSBackupService } from './routeros.backup.service';
+import { BackupSchedule, RouterStatus, ScheduleRunStatus, TriggerType } from '@prisma/client';
+
+/**
+ * RouterOS Backup Schedule Service
+ * Handles schedule CRUD and execution of scheduled backups
+ */
+
+export interface CreateScheduleOptions {
+  routerId?: string;
+  companyId?: string;
+  isEnabled?: boolean;
+  cronExpression: string;
+  timezone?: string;
+  showSensitive?: boolean | null; // Null = use the router's backupShowSensitive setting
+  retentionDays?: number;
+  retentionWeeks?: number;
+  retentionMonths?: number;
+}
+
+export type UpdateScheduleOptions = Partial<CreateScheduleOptions>;
+
+// Run rows of one schedule execution, created before any router is backed up
+export interface ScheduleRunBatch {
+  scheduleId: string;
+  scheduledFor: Date;
+  runs: Array<{ id: string; router: { id: string; name: string; status: RouterStatus } }>;
+}
+
+export interface ScheduleExecutionResult {
+  scheduleId: string;
+  scheduledFor: Date;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+const scheduleInclude = {
+  router: {
+    select: {
+      id: true,
+      name: true,
+      ipAddress: true
+    }
+  },
+  company: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+};
+
+export class RouterOSBackupScheduleService {
+  /**
+   * Get all schedules with filters
+   */
+  async getSchedules(filters: {
+    routerId?: string;
+    companyId?: string;
+    isEnabled?: boolean;
+  }) {
+    const { routerId, companyId, isEnabled } = filters;
+
+    const where: any = {};
+
+    if (routerId) {
+      where.routerId = routerId;
+    }
+
+    if (companyId) {
+      where.companyId = companyId;
+    }
+
+    if (isEnabled !== undefined) {
+      where.isEnabled = isEnabled;
+    }
+
+    return await prisma.backupSchedule.findMany({
+      where,
+      include: scheduleInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Get single schedule by ID
+   */
+  async getScheduleById(scheduleId: string) {
+    const schedule = await prisma.backupSchedule.findUnique({
+      where: { id: scheduleId },
+      include: {
+        ...scheduleInclude,
+        runs: {
+          orderBy: { startedAt: 'desc' },
+          take: 20
+        }
+      }
+    });
+
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Create a new backup schedule
+   */
+  async createSchedule(options: CreateScheduleOptions) {
+    await this.assertTargetExists(options.routerId, options.companyId);
+
+    const timezone = options.timezone || 'UTC';
+    const isEnabled = options.isEnabled ?? true;
+
+    return await prisma.backupSchedule.create({
+      data: {
+        routerId: options.routerId || null,
+        companyId: options.companyId || null,
+        isEnabled,
+        cronExpression: options.cronExpression,
+        timezone,
+        showSensitive: options.showSensitive ?? null,
+        retentionDays: options.retentionDays,
+        retentionWeeks: options.retentionWeeks,
+        retentionMonths: options.retentionMonths,
+        nextRunAt: isEnabled ? getNextRunDate(options.cronExpression, timezone) : null
+      },
+      include: scheduleInclude
+    });
+  }
+
+  /**
+   * Update an existing schedule
+   * nextRunAt is recomputed whenever timing or the enabled flag changes
+   */
+  async updateSchedule(scheduleId: string, options: UpdateScheduleOptions) {
+    const schedule = await prisma.backupSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+
+    if (options.routerId && options.companyId) {
+      throw new Error('Schedule must target either a router or a company, not both');
+    }
+
+    // Router and company targets are exclusive, setting one clears the other
+    let routerId = schedule.routerId;
+    let companyId = schedule.companyId;
+
+    if (options.routerId) {
+      routerId = options.routerId;
+      companyId = null;
+    } else if (options.companyId) {
+      companyId = options.companyId;
+      routerId = null;
+    }
+
+    if (options.routerId !== undefined || options.companyId !== undefined) {
+      await this.assertTargetExists(routerId || undefined, companyId || undefined);
+    }
+
+    const cronExpression = options.cronExpression ?? schedule.cronExpression;
+    const timezone = options.timezone ?? schedule.timezone;
+    const isEnabled = options.isEnabled ?? schedule.isEnabled;
+
+    const timingChanged =
+      cronExpression !== schedule.cronExpression ||
+      timezone !== schedule.timezone ||
+      isEnabled !== schedule.isEnabled;
+
+    return await prisma.backupSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        routerId: routerId || null,
+        companyId: companyId || null,
+        isEnabled,
+        cronExpression,
+        timezone,
+        showSensitive: options.showSensitive,
+        retentionDays: options.retentionDays,
+        retentionWeeks: options.retentionWeeks,
+        retentionMonths: options.retentionMonths,
+        ...(timingChanged && {
+          nextRunAt: isEnabled ? getNextRunDate(cronExpression, timezone) : null
+        })
+      },
+      include: scheduleInclude
+    });
+  }
+
+  /**
+   * Delete a schedule (run history is cascaded)
+   */
+  async deleteSchedule(scheduleId: string) {
+    const schedule = await prisma.backupSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!schedule) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+
+    await prisma.backupSchedule.delete({
+      where: { id: scheduleId }
+    });
+  }
+
+  /**
+   * Get run history for a schedule
+   */
+  async getScheduleRuns(scheduleId: string, limit: number = 50, offset: number = 0) {
+    const [runs, total] = await Promise.all([
+      prisma.backupScheduleRun.findMany({
+        where: { scheduleId },
+        include: {
+          router: {
+            select: {
+              id: true,
+              name: true,
+              ipAddress: true
+            }
+          }
+        },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.backupScheduleRun.count({ where: { scheduleId } })
+    ]);
+
+    return {
+      runs,
+      total,
+      limit,
+      offset
+    };
+  }
+
+  /**
+   * Get enabled schedules whose nextRunAt has passed
+   */
+  async getDueSchedules(now: Date = new Date()) {
+    return await prisma.backupSchedule.findMany({
+      where: {
+        isEnabled: true,
+        nextRunAt: { lte: now }
+      },
+      orderBy: { nextRunAt: 'asc' }
+    });
+  }
+
+  /**
+   * Fill in nextRunAt for enabled schedules that never had it computed
+   * (e.g. rows inserted directly into the database)
+   */
+  async initializeMissingNextRuns(now: Date = new Date()): Promise<number> {
+    const schedules = await prisma.backupSchedule.findMany({
+      where: {
+        isEnabled: true,
+        nextRunAt: null
+      }
+    });
+
+    let initialized = 0;
+
+    for (const schedule of schedules) {
+      try {
+        const result = await prisma.backupSchedule.updateMany({
+          where: { id: schedule.id, nextRunAt: null },
+          data: { nextRunAt: getNextRunDate(schedule.cronExpression, schedule.timezone, now) }
+        });
+        initialized += result.count;
+      } catch (error) {
+        console.error(`[Scheduler] Invalid cron expression on schedule ${schedule.id}:`, error);
+      }
+    }
+
+    return initialized;
+  }
+
+  /**
+   * Atomically claim a due schedule slot
+   *
+   * Uses nextRunAt as an optimistic lock: only the process whose update still
+   * sees the old nextRunAt wins, so multiple instances (PM2 cluster) never
+   * fire the same slot twice. Missed slots (e.g. after downtime) collapse into
+   * a single catch-up run because the next slot is computed from `now`.
+   *
+   * @returns true if this process owns the run
+   */
+  async claimSchedule(schedule: BackupSchedule, now: Date = new Date()): Promise<boolean> {
+    let nextRunAt: Date | null;
+
+    try {
+      nextRunAt = getNextRunDate(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      console.error(`[Scheduler] Invalid cron expression on schedule ${schedule.id}, disabling:`, error);
+      nextRunAt = null;
+    }
+
+    const result = await prisma.backupSchedule.updateMany({
+      where: {
+        id: schedule.id,
+        isEnabled: true,
+        nextRunAt: schedule.nextRunAt
+      },
+      data: {
+        lastRunAt: now,
+        nextRunAt,
+        ...(nextRunAt === null && { isEnabled: false })
+      }
+    });
+
+    return result.count === 1 && nextRunAt !== null;
+  }
+
+  /**
+   * Claim a manual run of a schedule
+   * Uses the same optimistic lock as claimSchedule, with lastRunAt added so two
+   * manual runs also exclude each other. A due slot is folded into the manual
+   * run, an upcoming one is kept.
+   *
+   * @returns true if this process owns the run
+   */
+  async claimManualRun(schedule: BackupSchedule, now: Date = new Date()): Promise<boolean> {
+    let nextRunAt = schedule.nextRunAt;
+
+    if (schedule.isEnabled) {
+      try {
+        nextRunAt = getNextRunDate(schedule.cronExpression, schedule.timezone, now);
+      } catch {
+        // Left for claimSchedule to disable
+      }
+    }
+
+    const result = await prisma.backupSchedule.updateMany({
+      where: {
+        id: schedule.id,
+        nextRunAt: schedule.nextRunAt,
+        lastRunAt: schedule.lastRunAt
+      },
+      data: {
+        lastRunAt: now,
+        nextRunAt
+      }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Resolve the routers a schedule applies to
+   * Company-level schedules expand to every ACTIVE router in the company
+   */
+  async resolveTargetRouters(schedule: Pick<BackupSchedule, 'routerId' | 'companyId'>) {
+    if (schedule.routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: schedule.routerId },
+        select: { id: true, name: true, status: true }
+      });
+
+      return router ? [router] : [];
+    }
+
+    if (schedule.companyId) {
+      return await prisma.router.findMany({
+        where: {
+          companyId: schedule.companyId,
+          status: RouterStatus.ACTIVE
+        },
+        select: { id: true, name: true, status: true },
+        orderBy: { name: 'asc' }
+      });
+    }
+
+    return [];
+  }
+
+  /**
+   * Record a RUNNING run for every target router of a schedule execution
+   */
+  async createRuns(schedule: BackupSchedule, scheduledFor: Date): Promise<ScheduleRunBatch> {
+    const routers = await this.resolveTargetRouters(schedule);
+    const runs: ScheduleRunBatch['runs'] = [];
+
+    for (const router of routers) {
+      const run = await prisma.backupScheduleRun.create({
+        data: {
+          scheduleId: schedule.id,
+          routerId: router.id,
+          scheduledFor
+        }
+      });
+
+      runs.push({ id: run.id, router });
+    }
+
+    return { scheduleId: schedule.id, scheduledFor, runs };
+  }
+
+  /**
+   * Execute a schedule: back up every target router and record per-router runs
+   * Failures on one router never stop the remaining routers
+   *
+   * @param batch - Runs created up front with createRuns(), created here when omitted
+   */
+  async executeSchedule(
+    schedule: BackupSchedule,
+    scheduledFor: Date,
+    concurrency: number = 3,
+    batch?: ScheduleRunBatch
+  ): Promise<ScheduleExecutionResult> {
+    const { runs } = batch ?? await this.createRuns(schedule, scheduledFor);
+
+    const result: ScheduleExecutionResult = {
+      scheduleId: schedule.id,
+      scheduledFor,
+      total: runs.length,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0
+    };
+
+    // Process routers in chunks to bound concurrent SSH/API sessions
+    const chunkSize = Math.max(1, concurrency);
+    const chunks: typeof runs[] = [];
+
+    for (let i = 0; i < runs.length; i += chunkSize) {
+      chunks.push(runs.slice(i, i + chunkSize));
+    }
+
+    for (const chunk of chunks) {
+      const statuses = await Promise.all(
+        chunk.map(run => this.runForRouter(schedule, run.router, run.id))
+      );
+
+      for (const status of statuses) {
+        if (status === ScheduleRunStatus.SUCCESS) result.succeeded++;
+        else if (status === ScheduleRunStatus.SKIPPED) result.skipped++;
+        else result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Back up a single router for a schedule run and record the outcome
+   */
+  private async runForRouter(
+    schedule: Pick<BackupSchedule, 'id' | 'showSensitive'>,
+    router: { id: string; name: string; status: RouterStatus },
+    runId: string
+  ): Promise<ScheduleRunStatus> {
+    if (router.status !== RouterStatus.ACTIVE) {
+      await prisma.backupScheduleRun.update({
+        where: { id: runId },
+        data: {
+          runStatus: ScheduleRunStatus.SKIPPED,
+          errorMessage: `Router is not active: ${router.status}`,
+          completedAt: new Date()
+        }
+      });
+
+      return ScheduleRunStatus.SKIPPED;
+    }
+
+    try {
+      const backup = await routerOSBackupService.createBackup({
+        routerId: router.id,
+        triggerType: TriggerType.SCHEDULED,
+        showSensitive: schedule.showSensitive ?? undefined
+      });
+
+      await prisma.backupScheduleRun.update({
+        where: { id: runId },
+        data: {
+          runStatus: ScheduleRunStatus.SUCCESS,
+          backupId: backup.id,
+          completedAt: new Date()
+        }
+      });
+
+      return ScheduleRunStatus.SUCCESS;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Scheduler] Backup failed for router ${router.name} (${router.id}):`, errorMsg);
+
+      await prisma.backupScheduleRun.update({
+        where: { id: runId },
+        data: {
+          runStatus: ScheduleRunStatus.FAILED,
+          errorMessage: errorMsg,
+          completedAt: new Date()
+        }
+      });
+
+      return ScheduleRunStatus.FAILED;
+    }
+  }
+
+  /**
+   * Ensure the referenced router/company exist
+   */
+  private async assertTargetExists(routerId?: string, companyId?: string) {
+    if (!routerId && !companyId) {
+      throw new Error('Schedule must target a router or a company');
+    }
+
+    if (routerId && companyId) {
+      throw new Error('Schedule must target either a router or a company, not both');
+    }
+
+    if (routerId) {
+      const router = await prisma.router.findUnique({ where: { id: routerId } });
+      if (!router) {
+        throw new Error(`Router not found: ${routerId}`);
+      }
+    }
+
+    if (companyId) {
+      const company = await prisma.company.findUnique({ where: { id: companyId } });
+      if (!company) {
+        throw new Error(`Company not found: ${companyId}`);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupScheduleService = new RouterOSBackupScheduleService();
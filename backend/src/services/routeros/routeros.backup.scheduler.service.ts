@@ -0,0 +1,187 @@
+import { BackupSchedule } from '@prisma/client';
+import { config } from '../../config';
+import { prisma } from '../../lib/prisma';
+import { AppError } from '../../middleware/errorHandler';
+import { routerOSBackupScheduleService } from './routeros.backup.schedule.service';
+import type { ScheduleRunBatch } from './routeros.backup.schedule.service';
+import { routerOSBackupRetentionService } from './routeros.backup.retention.service';
+
+/**
+ * RouterOS Backup Scheduler
+ * In-process poller that fires due BackupSchedule rows
+ *
+ * Every tick loads schedules whose nextRunAt has passed, claims each one
+ * atomically in the database and runs the backups in the background.
+ * State lives in the database, so restarts resume where they left off and
+ * several instances can poll side by side without double-firing.
+ *
+ * Manual runs go through the same in-flight guard and claim, and apply
+ * retention the same way, so they never overlap a cron run of the schedule.
+ */
+export class RouterOSBackupScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * Start polling (no-op if already started)
+   */
+  start(pollIntervalMs: number = config.backup.scheduler.pollIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`[Scheduler] Backup scheduler started (poll interval: ${pollIntervalMs}ms)`);
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, pollIntervalMs);
+
+    // Run once immediately to catch up on slots missed while offline
+    void this.tick();
+  }
+
+  /**
+   * Stop polling and wait for running schedules to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[Scheduler] Backup scheduler stopped');
+    }
+
+    await Promise.allSettled(this.inFlight.values());
+  }
+
+  /**
+   * Check if scheduler is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Single scheduler pass
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous tick is still querying the database
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+
+      await routerOSBackupScheduleService.initializeMissingNextRuns(now);
+
+      const dueSchedules = await routerOSBackupScheduleService.getDueSchedules(now);
+
+      for (const schedule of dueSchedules) {
+        // A long backup run of the same schedule is still going
+        if (this.inFlight.has(schedule.id)) {
+          continue;
+        }
+
+        const claimed = await routerOSBackupScheduleService.claimSchedule(schedule, now);
+        if (!claimed) {
+          continue;
+        }
+
+        this.launch(schedule, schedule.nextRunAt || now);
+      }
+    } catch (error) {
+      console.error('[Scheduler] Tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a schedule now, outside its cron slot
+   * Returns once the runs are recorded, the backups continue in the background
+   */
+  async runNow(scheduleId: string): Promise<ScheduleRunBatch> {
+    const schedule = await prisma.backupSchedule.findUnique({ where: { id: scheduleId } });
+
+    if (!schedule) {
+      throw new AppError(404, `Schedule not found: ${scheduleId}`);
+    }
+
+    if (this.inFlight.has(schedule.id)) {
+      throw new AppError(409, 'Schedule is already running');
+    }
+
+    // Held until the run is launched, so a tick or second request in between sees it
+    let release!: () => void;
+    this.inFlight.set(schedule.id, new Promise<void>(resolve => { release = resolve; }));
+
+    try {
+      const now = new Date();
+
+      // Lost to a cron tick or a manual run on another instance
+      if (!await routerOSBackupScheduleService.claimManualRun(schedule, now)) {
+        throw new AppError(409, 'Schedule is already running');
+      }
+
+      const batch = await routerOSBackupScheduleService.createRuns(schedule, now);
+      this.launch(schedule, now, batch);
+      return batch;
+    } catch (error) {
+      this.inFlight.delete(schedule.id);
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Back up a schedule's routers in the background, then apply retention
+   */
+  private launch(schedule: BackupSchedule, scheduledFor: Date, batch?: ScheduleRunBatch): void {
+    const run = routerOSBackupScheduleService
+      .executeSchedule(schedule, scheduledFor, config.backup.scheduler.concurrency, batch)
+      .then(async result => {
+        console.log(
+          `[Scheduler] Schedule ${schedule.id} finished: ` +
+          `${result.succeeded} succeeded, ${result.failed} failed, ${result.skipped} skipped`
+        );
+
+        if (config.backup.retention.enabled) {
+          await this.applyRetention(schedule);
+        }
+      })
+      .catch(error => {
+        console.error(`[Scheduler] Schedule ${schedule.id} crashed:`, error);
+      })
+      .finally(() => {
+        this.inFlight.delete(schedule.id);
+      });
+
+    this.inFlight.set(schedule.id, run);
+  }
+
+  /**
+   * Prune old backups of the routers covered by a schedule
+   */
+  private async applyRetention(schedule: { id: string; routerId: string | null; companyId: string | null }): Promise<void> {
+    try {
+      const result = await routerOSBackupRetentionService.enforceRetention(
+        schedule.routerId
+          ? { routerId: schedule.routerId }
+          : { companyId: schedule.companyId || undefined }
+      );
+
+      if (result.expiredCount > 0) {
+        console.log(`[Scheduler] Retention for schedule ${schedule.id} expired ${result.expiredCount} backup(s)`);
+      }
+    } catch (error) {
+      console.error(`[Scheduler] Retention for schedule ${schedule.id} failed:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBackupScheduler = new RouterOSBackupScheduler();
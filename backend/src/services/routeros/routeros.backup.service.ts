@@ -1,7 +1,8 @@
 import { prisma } from '../../lib/prisma';
-import { createRouterOSClient } from '../../lib/routeros/client';
-import { createSSHClient } from '../../lib/routeros/ssh-client';
-import { decrypt } from '../../lib/encryption';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection } from '../../lib/routeros/transport';
+import { createSSHClient, SSHImportResult } from '../../lib/routeros/ssh-client';
+import { decrypt, encrypt } from '../../lib/encryption';
 import {
   uploadBackup,
   generateBackupStorageKey,
@@ -9,9 +10,17 @@ import {
   extractRouterOSVersion,
   generateBackupDownloadUrl,
   downloadAndVerifyBackup,
-  deleteBackup
+  deleteBackup,
+  diffConfigSummary
 } from '../../lib/backup-storage';
-import { BackupType, BackupStatus, TriggerType, RouterStatus } from '@prisma/client';
+import { getMasterKeyId, rewrapDataKey } from '../../lib/backup-encryption';
+import { createSignedUrl } from '../../lib/signed-url';
+import { getSensitiveExportFlag, redactSecrets } from '../../lib/config-redaction';
+import { diffConfigs, calculateConfigHash, detectRiskyChanges, filterConfigSections } from '../../lib/config-diff';
+import { routerOSTestService } from '../router/router.test.service';
+import { routerOSSshKeyService } from './routeros.sshkey.service';
+import { config } from '../../config';
+import { BackupType, BackupStatus, TriggerType, RouterStatus, RestoreType, RestoreStatus, Prisma } from '@prisma/client';
 
 /**
  * RouterOS Backup Service
@@ -24,13 +33,30 @@ export interface CreateBackupOptions {
   triggerType?: TriggerType;
   backupType?: BackupType;
   compact?: boolean; // Compact export format
+  binaryPassword?: string; // Encryption password for BINARY backups
+  sections?: string[]; // Menu paths exported by PARTIAL backups, e.g. ["/ip firewall"]
+  showSensitive?: boolean; // Export passwords and keys (default: router's backupShowSensitive)
 }
 
+export type RestoreMethod = 'SSH' | 'API';
+
 export interface RestoreBackupOptions {
   backupId: string;
   routerId: string;
   restoredBy: string; // User ID
   createSafetyBackup?: boolean;
+  method?: RestoreMethod; // SSH upload + /import (default), API line-by-line as fallback
+  sections?: string[]; // Only apply these menu paths (PARTIAL restore)
+}
+
+/**
+ * Import failure that still carries the router's output for the restore log
+ */
+class RestoreImportError extends Error {
+  constructor(message: string, public restoreLog: string) {
+    super(message);
+    this.name = 'RestoreImportError';
+  }
 }
 
 export class RouterOSBackupService {
@@ -43,9 +69,15 @@ export class RouterOSBackupService {
       triggeredBy,
       triggerType = TriggerType.MANUAL,
       backupType = BackupType.EXPORT,
-      compact = false
+      compact = false,
+      binaryPassword,
+      sections = []
     } = options;
 
+    if (backupType === BackupType.PARTIAL && sections.length === 0) {
+      throw new Error('Partial backups need at least one section');
+    }
+
     // 1. Get router from database
     const router = await prisma.router.findUnique({
       where: { id: routerId }
@@ -59,6 +91,8 @@ export class RouterOSBackupService {
       throw new Error(`Router is not active: ${router.status}`);
     }
 
+    const showSensitive = options.showSensitive ?? router.backupShowSensitive;
+
     // 2. Generate storage key
     const storageKey = generateBackupStorageKey(routerId, backupType);
 
@@ -73,69 +107,110 @@ export class RouterOSBackupService {
         backupStatus: BackupStatus.PENDING,
         triggerType,
         triggeredBy,
+        sections: backupType === BackupType.PARTIAL ? sections : [],
         isSafetyBackup: false
       }
     });
 
     try {
-      // 4. Connect to RouterOS via SSH for export and API for version
+      // 4. Connect to RouterOS via API for version and SSH for file content
       const decryptedPassword = decrypt(router.password);
+      const isBinary = backupType === BackupType.BINARY;
+      const binaryFileName = `backup-${backup.id}.backup`;
 
-      let configContent: string;
+      let configContent = '';
+      let binaryContent: Buffer | null = null;
       let routerVersion: string;
 
-      // Use SSH for export (RouterOS API doesn't support export)
-      const sshClient = await createSSHClient({
+      // Use API to get RouterOS version (and save binary backups on the router)
+      const apiClient = await routerOSPool.acquire(router.id, {
         host: router.ipAddress,
-        port: router.sshPort || 22,
         username: router.username,
         password: decryptedPassword,
-        timeout: 30000
+        ...getRouterApiConnection(router)
       });
 
       try {
-        configContent = await sshClient.exportConfig(compact);
+        routerVersion = await apiClient.getVersion();
+
+        if (isBinary) {
+          const saveResult = await apiClient.saveBinaryBackup(
+            binaryFileName.replace(/\.backup$/, ''),
+            binaryPassword
+          );
+
+          if (!saveResult.success) {
+            throw new Error(`System backup save failed: ${saveResult.error}`);
+          }
+        }
       } finally {
-        sshClient.disconnect();
+        await routerOSPool.release(apiClient);
       }
 
-      // Use API to get RouterOS version
-      const apiClient = await createRouterOSClient({
+      // Use SSH for export (RouterOS API doesn't support export) and SFTP for .backup files
+      const sshClient = await createSSHClient({
         host: router.ipAddress,
+        port: router.sshPort || 22,
         username: router.username,
-        password: decryptedPassword,
-        port: router.apiPort || 8728
+        ...await routerOSSshKeyService.getSSHCredentials(router),
+        timeout: 30000
       });
 
       try {
-        routerVersion = await apiClient.getVersion();
+        if (isBinary) {
+          try {
+            binaryContent = await sshClient.downloadFile(binaryFileName);
+          } finally {
+            // Never leave backup files behind on the router
+            await sshClient.removeFile(binaryFileName).catch(error => {
+              console.error(`Failed to remove ${binaryFileName} from router:`, error);
+            });
+          }
+        } else {
+          const sensitiveFlag = getSensitiveExportFlag(routerVersion, showSensitive);
+
+          configContent = backupType === BackupType.PARTIAL
+            ? await sshClient.exportSections(sections, compact, sensitiveFlag)
+            : await sshClient.exportConfig(compact, sensitiveFlag);
+        }
       } finally {
-        await apiClient.disconnect();
+        sshClient.disconnect();
       }
 
-      // 5. Parse config summary
-      const configSummary = parseConfigSummary(configContent);
+      // 5. Parse config summary and compare with previous backup (full text exports only)
+      let exportMetadata: Record<string, unknown> = {};
+
+      if (!isBinary) {
+        const configSummary = parseConfigSummary(configContent);
+        const drift = backupType === BackupType.EXPORT
+          ? await this.detectDrift(routerId, configContent, configSummary, showSensitive)
+          : {};
 
-      // 6. Extract version from export if not already obtained
-      if (!routerVersion) {
-        routerVersion = extractRouterOSVersion(configContent) || 'Unknown';
+        exportMetadata = { configSummary, ...drift };
+
+        // Extract version from export if not already obtained
+        if (!routerVersion) {
+          routerVersion = extractRouterOSVersion(configContent) || 'Unknown';
+        }
       }
 
-      // 7. Upload to R2
-      const uploadResult = await uploadBackup(
-        storageKey,
-        configContent,
-        'text/plain; charset=utf-8'
-      );
+      // 6. Upload to R2
+      const uploadResult = binaryContent
+        ? await uploadBackup(storageKey, binaryContent, 'application/octet-stream')
+        : await uploadBackup(storageKey, configContent, 'text/plain; charset=utf-8');
 
-      // 8. Update backup record with success
+      // 7. Update backup record with success
       const updatedBackup = await prisma.routerBackup.update({
         where: { id: backup.id },
         data: {
           fileSize: uploadResult.fileSize,
           checksum: uploadResult.checksum,
-          routerVersion,
-          configSummary,
+          ...uploadResult.encryption,
+          // Binary backups always carry every secret
+          containsSensitive: isBinary || showSensitive,
+          routerVersion: routerVersion || 'Unknown',
+          ...exportMetadata,
+          backupPassword: isBinary && binaryPassword ? encrypt(binaryPassword) : null,
           backupStatus: BackupStatus.COMPLETED,
           completedAt: new Date()
         },
@@ -150,7 +225,7 @@ export class RouterOSBackupService {
         }
       });
 
-      // 9. Update router lastSeen
+      // 8. Update router lastSeen
       await prisma.router.update({
         where: { id: routerId },
         data: { lastSeen: new Date() }
@@ -172,15 +247,123 @@ export class RouterOSBackupService {
     }
   }
 
+  /**
+   * Compare a fresh export with the router's previous completed backup
+   * Only backups exported the same way count: secrets are hashed redacted, and
+   * safety backups or exports with a different sensitive setting are skipped
+   * because RouterOS leaves hidden secrets out of the export entirely
+   */
+  private async detectDrift(
+    routerId: string,
+    configContent: string,
+    configSummary: Record<string, number>,
+    containsSensitive: boolean
+  ) {
+    const configHash = calculateConfigHash(redactSecrets(configContent));
+
+    const previous = await prisma.routerBackup.findFirst({
+      where: {
+        routerId,
+        backupStatus: BackupStatus.COMPLETED,
+        configHash: { not: null },
+        isSafetyBackup: false,
+        containsSensitive
+      },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        configHash: true,
+        configSummary: true
+      }
+    });
+
+    if (!previous) {
+      return {
+        configHash,
+        previousBackupId: null,
+        hasChanges: null,
+        changeSummary: Prisma.DbNull
+      };
+    }
+
+    const hasChanges = previous.configHash !== configHash;
+    const previousSummary = (previous.configSummary || {}) as Record<string, number>;
+
+    return {
+      configHash,
+      previousBackupId: previous.id,
+      hasChanges,
+      changeSummary: hasChanges ? diffConfigSummary(previousSummary, configSummary) : Prisma.DbNull
+    };
+  }
+
+  /**
+   * Probe the router after a safe-mode restore and cancel the armed rollback
+   * Keeps probing until the rollback scheduler fires at armedAt + grace
+   * Returns 'disarm-failed' if the router answered but the rollback could not be cancelled
+   */
+  private async confirmRestore(
+    routerId: string,
+    rollbackName: string,
+    armedAt: number
+  ): Promise<'confirmed' | 'unreachable' | 'disarm-failed'> {
+    const { rollbackGraceSeconds, probeIntervalSeconds } = config.backup.restore;
+    const deadline = armedAt + rollbackGraceSeconds * 1000;
+    let reachable = false;
+
+    while (Date.now() < deadline) {
+      const results = await routerOSTestService.testBothConnections(routerId);
+
+      if (results.ssh.success) {
+        reachable = true;
+
+        try {
+          const router = await prisma.router.findUniqueOrThrow({ where: { id: routerId } });
+          const sshClient = await createSSHClient({
+            host: router.ipAddress,
+            port: router.sshPort || 22,
+            username: router.username,
+            ...await routerOSSshKeyService.getSSHCredentials(router),
+            timeout: 15000
+          });
+
+          try {
+            await sshClient.disarmRollback(rollbackName);
+          } finally {
+            sshClient.disconnect();
+          }
+
+          return 'confirmed';
+        } catch (error) {
+          console.error(`[Restore] Failed to disarm rollback ${rollbackName}, retrying:`, error);
+        }
+      } else if (results.api.success) {
+        reachable = true;
+        console.warn(`[Restore] Router ${routerId} answers on API but not SSH, cannot disarm rollback yet`);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining > 0) {
+        await new Promise(resolve => setTimeout(resolve, Math.min(probeIntervalSeconds * 1000, remaining)));
+      }
+    }
+
+    return reachable ? 'disarm-failed' : 'unreachable';
+  }
+
   /**
    * Create safety backup before restore operation
+   * With sections it only exports those menus (e.g. before a BGP change)
    */
-  async createSafetyBackup(routerId: string, restoredBy: string) {
+  async createSafetyBackup(routerId: string, restoredBy: string, sections: string[] = []) {
     return await this.createBackup({
       routerId,
       triggeredBy: restoredBy,
       triggerType: TriggerType.MANUAL,
-      compact: true // Safety backups are compact
+      backupType: sections.length > 0 ? BackupType.PARTIAL : BackupType.EXPORT,
+      sections,
+      compact: true, // Safety backups are compact
+      showSensitive: true // A rollback must bring secrets back too
     }).then(async (backup) => {
       // Mark as safety backup
       return await prisma.routerBackup.update({
@@ -190,6 +373,119 @@ export class RouterOSBackupService {
     });
   }
 
+  /**
+   * Preview what restoring a backup would change (dry-run)
+   * Compares the router's current export with the backup and records a PREVIEW restore
+   */
+  async previewRestore(options: Omit<RestoreBackupOptions, 'createSafetyBackup' | 'method'>) {
+    const { backupId, routerId, restoredBy } = options;
+
+    const backup = await this.getComparableBackup(backupId);
+
+    // Partial backups only cover their own sections, compare those alone
+    const sections = options.sections?.length ? options.sections : backup.sections;
+
+    const router = await prisma.router.findUnique({
+      where: { id: routerId }
+    });
+
+    if (!router) {
+      throw new Error(`Router not found: ${routerId}`);
+    }
+
+    if (router.status !== RouterStatus.ACTIVE) {
+      throw new Error(`Router is not active: ${router.status}`);
+    }
+
+    const restore = await prisma.backupRestore.create({
+      data: {
+        backupId,
+        routerId,
+        restoredBy,
+        restoreType: RestoreType.PREVIEW,
+        restoreStatus: 'IN_PROGRESS',
+        sections
+      }
+    });
+
+    try {
+      const backupContent = await downloadAndVerifyBackup(
+        backup.storageKey,
+        backup.checksum,
+        backup
+      );
+
+      const sshClient = await createSSHClient({
+        host: router.ipAddress,
+        port: router.sshPort || 22,
+        username: router.username,
+        ...await routerOSSshKeyService.getSSHCredentials(router),
+        timeout: 30000
+      });
+
+      // Export the live config the same way the backup was exported, so secrets line up
+      let currentContent: string;
+      try {
+        const currentVersion = await sshClient.getVersion();
+        currentContent = await sshClient.exportConfig(
+          false,
+          getSensitiveExportFlag(currentVersion, backup.containsSensitive)
+        );
+      } finally {
+        sshClient.disconnect();
+      }
+
+      // Secrets never leave the backend, both sides are diffed redacted
+      currentContent = redactSecrets(currentContent);
+      let afterContent = redactSecrets(backupContent.toString('utf-8'));
+
+      if (sections.length > 0) {
+        currentContent = filterConfigSections(currentContent, sections);
+        afterContent = filterConfigSections(afterContent, sections);
+      }
+
+      // Current config is the "before" side, the backup is what it would become
+      const diff = diffConfigs(currentContent, afterContent);
+      const warnings = detectRiskyChanges(diff, router.ipAddress);
+
+      if (!backup.containsSensitive) {
+        warnings.push({
+          section: '/export',
+          severity: 'warning',
+          message: 'Backup was exported without show-sensitive, passwords and keys it left out will not be restored'
+        });
+      }
+
+      const updatedRestore = await prisma.backupRestore.update({
+        where: { id: restore.id },
+        data: {
+          restoreStatus: 'COMPLETED',
+          restoreLog: JSON.stringify({ summary: diff.summary, warnings, sections: diff.sections }),
+          completedAt: new Date()
+        }
+      });
+
+      return {
+        restore: updatedRestore,
+        ...diff,
+        warnings
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+
+      await prisma.backupRestore.update({
+        where: { id: restore.id },
+        data: {
+          restoreStatus: 'FAILED',
+          errorMessage: errorMsg,
+          completedAt: new Date()
+        }
+      });
+
+      throw new Error(`Restore preview failed: ${errorMsg}`);
+    }
+  }
+
   /**
    * Restore a backup to a router
    */
@@ -198,7 +494,9 @@ export class RouterOSBackupService {
       backupId,
       routerId,
       restoredBy,
-      createSafetyBackup: shouldCreateSafetyBackup = true
+      createSafetyBackup: shouldCreateSafetyBackup = true,
+      method = 'SSH',
+      sections = []
     } = options;
 
     // 1. Get backup record
@@ -228,6 +526,15 @@ export class RouterOSBackupService {
       throw new Error(`Router is not active: ${router.status}`);
     }
 
+    // Binary backups carry MAC addresses and hardware settings of the source router
+    if (backup.backupType === BackupType.BINARY && backup.routerId !== routerId) {
+      throw new Error('Binary backups can only be restored to the router they were taken from');
+    }
+
+    if (backup.backupType === BackupType.BINARY && sections.length > 0) {
+      throw new Error('Binary backups can only be restored in full');
+    }
+
     // 3. Create safety backup if requested
     let safetyBackup = null;
     if (shouldCreateSafetyBackup) {
@@ -249,39 +556,174 @@ export class RouterOSBackupService {
         backupId,
         routerId,
         restoredBy,
+        restoreType: sections.length > 0 ? RestoreType.PARTIAL : RestoreType.FULL,
+        sections,
         safetyBackupId: safetyBackup?.id || null
       }
     });
 
     try {
       // 5. Download backup from R2 and verify
-      const configContent = await downloadAndVerifyBackup(
+      let configContent = await downloadAndVerifyBackup(
         backup.storageKey,
-        backup.checksum
+        backup.checksum,
+        backup
       );
 
-      // 6. Connect to RouterOS
-      const decryptedPassword = decrypt(router.password);
-      const client = await createRouterOSClient({
-        host: router.ipAddress,
-        username: router.username,
-        password: decryptedPassword,
-        port: router.apiPort || 8728
-      });
+      // Partial restore: apply only the selected sections
+      if (sections.length > 0) {
+        const partialContent = filterConfigSections(configContent.toString('utf-8'), sections);
+
+        if (!partialContent) {
+          throw new Error(`Backup contains none of the selected sections: ${sections.join(', ')}`);
+        }
 
+        configContent = Buffer.from(partialContent, 'utf-8');
+      }
+
+      // 6. Import configuration on the router
+      const decryptedPassword = decrypt(router.password);
       let restoreLog: string;
 
-      try {
-        // 7. Import configuration
-        const result = await client.importConfig(configContent.toString(), true);
+      if (backup.backupType === BackupType.BINARY) {
+        // Upload the .backup via SFTP and load it, the router reboots afterwards
+        const sshClient = await createSSHClient({
+          host: router.ipAddress,
+          port: router.sshPort || 22,
+          username: router.username,
+          ...await routerOSSshKeyService.getSSHCredentials(router),
+          timeout: 30000
+        });
+
+        try {
+          restoreLog = await sshClient.loadBinaryBackup(
+            `restore-${restore.id}.backup`,
+            configContent,
+            backup.backupPassword ? decrypt(backup.backupPassword) : undefined
+          );
+        } finally {
+          sshClient.disconnect();
+        }
+      } else if (method === 'SSH') {
+        // Upload the .rsc via SFTP and let RouterOS parse it with /import
+        const sshClient = await createSSHClient({
+          host: router.ipAddress,
+          port: router.sshPort || 22,
+          username: router.username,
+          ...await routerOSSshKeyService.getSSHCredentials(router),
+          timeout: 30000
+        });
+
+        const rollbackName = `restore-rollback-${restore.id}`;
+        let rollbackArmed = false;
+        let armedAt = 0;
+        let importResult: SSHImportResult | null = null;
+        let importError: unknown = null;
+
+        try {
+          // 7a. Arm rollback to a binary backup taken on the router (safe mode)
+          if (safetyBackup && config.backup.restore.rollbackEnabled) {
+            await sshClient.armRollback(rollbackName, config.backup.restore.rollbackGraceSeconds);
+            rollbackArmed = true;
+            armedAt = Date.now();
+
+            await prisma.backupRestore.update({
+              where: { id: restore.id },
+              data: { restoreStatus: 'IN_PROGRESS' }
+            });
+          }
+
+          // 7b. Import configuration
+          importResult = await sshClient.importConfig(configContent, `restore-${restore.id}.rsc`);
+        } catch (error) {
+          // The session may drop mid-import when the new config changes addressing
+          importError = error;
+        } finally {
+          sshClient.disconnect();
+        }
+
+        // 7c. Confirm the router is still reachable, otherwise let it roll back
+        if (rollbackArmed) {
+          const graceSeconds = config.backup.restore.rollbackGraceSeconds;
+          const importLog = importResult?.output || (importError instanceof Error ? importError.message : null);
+          let restoreStatus: RestoreStatus | null = null;
+          let reason = '';
+
+          if (importError || !importResult?.success) {
+            // A half-applied import must not be confirmed, the armed rollback reverts it
+            const importMessage = importResult?.error ||
+              (importError instanceof Error ? importError.message : 'Import failed');
+            restoreStatus = 'ROLLBACK_PENDING';
+            reason = `Import failed (${importMessage}), rollback to the configuration saved before the restore ` +
+              `fires within ${graceSeconds}s`;
+          } else {
+            const confirmation = await this.confirmRestore(routerId, rollbackName, armedAt);
+
+            if (confirmation === 'unreachable') {
+              restoreStatus = 'ROLLED_BACK';
+              reason = `Router unreachable for ${graceSeconds}s after restore, ` +
+                `rolled back to the configuration saved before the restore`;
+            } else if (confirmation === 'disarm-failed') {
+              restoreStatus = 'ROLLBACK_PENDING';
+              reason = `Confirm failed, could not cancel the rollback within ${graceSeconds}s, ` +
+                `router reverts to the configuration saved before the restore`;
+            }
+          }
 
-        restoreLog = result.error || 'Configuration restored successfully';
+          if (restoreStatus) {
+            return await prisma.backupRestore.update({
+              where: { id: restore.id },
+              data: {
+                restoreStatus,
+                errorMessage: reason,
+                restoreLog: importLog,
+                completedAt: new Date()
+              },
+              include: {
+                backup: true,
+                router: {
+                  select: {
+                    id: true,
+                    name: true,
+                    ipAddress: true
+                  }
+                }
+              }
+            });
+          }
+        }
 
-        if (!result.success) {
-          throw new Error(restoreLog);
+        if (importError || !importResult) {
+          throw importError;
+        }
+
+        restoreLog = importResult.output || 'Configuration restored successfully';
+
+        if (!importResult.success) {
+          throw new RestoreImportError(importResult.error || 'Import failed', restoreLog);
+        }
+      } else {
+        // Line-by-line API writes, only for routers without SSH access
+        const client = await routerOSPool.acquire(router.id, {
+          host: router.ipAddress,
+          username: router.username,
+          password: decryptedPassword,
+          ...getRouterApiConnection(router)
+        });
+
+        try {
+          // 7. Import configuration
+          const result = await client.importConfig(configContent.toString(), true);
+
+          restoreLog = result.error || 'Configuration restored successfully';
+
+          if (!result.success) {
+            throw new Error(restoreLog);
+          }
+        } finally {
+          // The imported config may change users or the API service, don't reuse the session
+          await routerOSPool.release(client, { destroy: true });
         }
-      } finally {
-        await client.disconnect();
       }
 
       // 8. Update restore record with success
@@ -314,6 +756,7 @@ export class RouterOSBackupService {
         data: {
           restoreStatus: 'FAILED',
           errorMessage: errorMsg,
+          restoreLog: error instanceof RestoreImportError ? error.restoreLog : undefined,
           completedAt: new Date()
         }
       });
@@ -330,10 +773,11 @@ export class RouterOSBackupService {
     companyId?: string;
     status?: BackupStatus;
     isPinned?: boolean;
+    changedOnly?: boolean;
     limit?: number;
     offset?: number;
   }) {
-    const { routerId, companyId, status, isPinned, limit = 50, offset = 0 } = filters;
+    const { routerId, companyId, status, isPinned, changedOnly, limit = 50, offset = 0 } = filters;
 
     const where: any = {};
 
@@ -355,6 +799,10 @@ export class RouterOSBackupService {
       where.isPinned = isPinned;
     }
 
+    if (changedOnly) {
+      where.hasChanges = true;
+    }
+
     const [backups, total] = await Promise.all([
       prisma.routerBackup.findMany({
         where,
@@ -388,6 +836,64 @@ export class RouterOSBackupService {
     };
   }
 
+  /**
+   * Get configuration change timeline of a router
+   * Lists backups that captured a change, plus the first tracked backup as baseline
+   */
+  async getChangeTimeline(routerId: string, limit: number = 50, offset: number = 0) {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: { id: true, name: true }
+    });
+
+    if (!router) {
+      throw new Error(`Router not found: ${routerId}`);
+    }
+
+    const where = {
+      routerId,
+      backupStatus: BackupStatus.COMPLETED,
+      configHash: { not: null },
+      OR: [{ hasChanges: true }, { hasChanges: null }]
+    };
+
+    const [changes, total, unchangedCount] = await Promise.all([
+      prisma.routerBackup.findMany({
+        where,
+        select: {
+          id: true,
+          createdAt: true,
+          triggerType: true,
+          triggeredBy: true,
+          routerVersion: true,
+          hasChanges: true,
+          changeSummary: true,
+          previousBackupId: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset
+      }),
+      prisma.routerBackup.count({ where }),
+      prisma.routerBackup.count({
+        where: {
+          routerId,
+          backupStatus: BackupStatus.COMPLETED,
+          hasChanges: false
+        }
+      })
+    ]);
+
+    return {
+      router,
+      changes,
+      unchangedCount,
+      total,
+      limit,
+      offset
+    };
+  }
+
   /**
    * Get single backup by ID
    */
@@ -438,7 +944,10 @@ export class RouterOSBackupService {
       throw new Error(`Backup is not available for download: ${backup.backupStatus}`);
     }
 
-    const url = await generateBackupDownloadUrl(backup.storageKey, expiresIn);
+    // Encrypted backups can't be served by the bucket as-is, the API decrypts them on the fly
+    const url = backup.wrappedDataKey
+      ? createSignedUrl(`/api/storage/backups/${backupId}`, `backup:${backupId}`, expiresIn)
+      : await generateBackupDownloadUrl(backup.storageKey, expiresIn);
 
     // Update storageUrl in database (optional, for caching)
     await prisma.routerBackup.update({
@@ -449,6 +958,81 @@ export class RouterOSBackupService {
     return url;
   }
 
+  /**
+   * Get the plain content of a backup for download (decrypted if needed)
+   */
+  async getBackupFile(backupId: string) {
+    const backup = await prisma.routerBackup.findUnique({
+      where: { id: backupId }
+    });
+
+    if (!backup) {
+      throw new Error(`Backup not found: ${backupId}`);
+    }
+
+    if (backup.backupStatus !== BackupStatus.COMPLETED) {
+      throw new Error(`Backup is not available for download: ${backup.backupStatus}`);
+    }
+
+    const content = await downloadAndVerifyBackup(backup.storageKey, backup.checksum, backup);
+
+    return {
+      content,
+      fileName: backup.storageKey.split('/').pop() || `${backup.id}.rsc`,
+      contentType: backup.backupType === BackupType.BINARY
+        ? 'application/octet-stream'
+        : 'text/plain; charset=utf-8'
+    };
+  }
+
+  /**
+   * Re-wrap the data keys of all backups encrypted with an older master key
+   * Only the wrapped keys change, stored backup files are left untouched
+   */
+  async rotateEncryptionKeys() {
+    const currentKeyId = getMasterKeyId();
+
+    const backups = await prisma.routerBackup.findMany({
+      where: {
+        wrappedDataKey: { not: null },
+        masterKeyId: { not: currentKeyId }
+      },
+      select: {
+        id: true,
+        encryptionAlgorithm: true,
+        wrappedDataKey: true,
+        masterKeyId: true
+      }
+    });
+
+    let rotated = 0;
+    const failed: { backupId: string; error: string }[] = [];
+
+    for (const backup of backups) {
+      try {
+        const rewrapped = rewrapDataKey(backup);
+
+        await prisma.routerBackup.update({
+          where: { id: backup.id },
+          data: rewrapped
+        });
+        rotated++;
+      } catch (error) {
+        failed.push({
+          backupId: backup.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return {
+      masterKeyId: currentKeyId,
+      total: backups.length,
+      rotated,
+      failed
+    };
+  }
+
   /**
    * Pin/unpin a backup
    */
@@ -505,6 +1089,73 @@ export class RouterOSBackupService {
     });
   }
 
+  /**
+   * Compare two backups section by section
+   * The base backup is treated as the "before" side of the diff
+   */
+  async compareBackups(baseBackupId: string, targetBackupId: string) {
+    const [base, target] = await Promise.all([
+      this.getComparableBackup(baseBackupId),
+      this.getComparableBackup(targetBackupId)
+    ]);
+
+    const [baseContent, targetContent] = await Promise.all([
+      downloadAndVerifyBackup(base.storageKey, base.checksum, base),
+      downloadAndVerifyBackup(target.storageKey, target.checksum, target)
+    ]);
+
+    const diff = diffConfigs(
+      redactSecrets(baseContent.toString('utf-8')),
+      redactSecrets(targetContent.toString('utf-8'))
+    );
+
+    const describe = (backup: typeof base) => ({
+      id: backup.id,
+      routerId: backup.routerId,
+      routerName: backup.router.name,
+      routerVersion: backup.routerVersion,
+      containsSensitive: backup.containsSensitive,
+      createdAt: backup.createdAt
+    });
+
+    return {
+      base: describe(base),
+      target: describe(target),
+      ...diff
+    };
+  }
+
+  /**
+   * Load a backup that can be diffed (completed text export)
+   */
+  private async getComparableBackup(backupId: string) {
+    const backup = await prisma.routerBackup.findUnique({
+      where: { id: backupId },
+      include: {
+        router: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      }
+    });
+
+    if (!backup) {
+      throw new Error(`Backup not found: ${backupId}`);
+    }
+
+    if (backup.backupStatus !== BackupStatus.COMPLETED) {
+      throw new Error(`Backup is not completed: ${backup.backupStatus}`);
+    }
+
+    if (backup.backupType === BackupType.BINARY) {
+      throw new Error('Binary backups cannot be compared');
+    }
+
+    return backup;
+  }
+
   /**
    * Get restore history for a backup
    */
@@ -0,0 +1,95 @@
+import { config } from '../../config';
+import { routerOSBgpHistoryService } from './routeros.bgp.history.service';
+import { routerOSPollerLeaseService } from './routeros.poller.lease.service';
+
+/**
+ * RouterOS BGP History Poller
+ * In-process poller that records BGP peer states on a fixed interval
+ *
+ * Every tick polls the sessions of all UPSTREAM routers, then prunes
+ * transitions past their retention. With several instances running, only
+ * the one that claims the cycle polls.
+ */
+export class RouterOSBgpHistoryPoller {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  private pollIntervalMs: number = config.routeros.bgpHistory.pollIntervalMs;
+
+  /**
+   * Start polling (no-op if already started)
+   */
+  start(pollIntervalMs: number = config.routeros.bgpHistory.pollIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.pollIntervalMs = pollIntervalMs;
+    console.log(`[BGP History] Session poller started (poll interval: ${pollIntervalMs}ms)`);
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, pollIntervalMs);
+
+    void this.tick();
+  }
+
+  /**
+   * Stop polling and wait for the running pass to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[BGP History] Session poller stopped');
+    }
+
+    if (this.current) {
+      await this.current;
+    }
+  }
+
+  /**
+   * Check if poller is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Single poller pass
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous pass is still waiting on slow routers
+    if (this.current) {
+      return;
+    }
+
+    this.current = this.run().finally(() => {
+      this.current = null;
+    });
+
+    await this.current;
+  }
+
+  private async run(): Promise<void> {
+    try {
+      // Another instance polls this cycle
+      if (!await routerOSPollerLeaseService.claimCycle('bgp-history', this.pollIntervalMs)) {
+        return;
+      }
+
+      const result = await routerOSBgpHistoryService.pollAll();
+
+      if (result.failed > 0) {
+        console.log(`[BGP History] ${result.failed} of ${result.total} router(s) could not be polled`);
+      }
+
+      await routerOSBgpHistoryService.prune();
+    } catch (error) {
+      console.error('[BGP History] Tick failed:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBgpHistoryPoller = new RouterOSBgpHistoryPoller();
@@ -0,0 +1,416 @@
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { AppError } from '../../middleware/errorHandler';
+import { RouterService } from '../router/router.service';
+import { routerOSRoutingService } from './routeros.routing.service';
+import type { ParsedBGPSession } from './routeros.routing.service';
+import type { BgpPeer, BgpPeerTransition, Prisma } from '@prisma/client';
+
+/**
+ * RouterOS BGP History Service
+ * State history of the BGP peers of UPSTREAM routers
+ *
+ * Every poll reads /routing/bgp/session/print and stores a transition when
+ * a peer's state differs from the previous poll. A peer that is no longer
+ * listed goes to "down". Flap counts, time in each state and uptime are
+ * computed from the transitions of the requested range. A peer is flagged
+ * as flapping while its transitions within the flap window reach the
+ * threshold.
+ */
+
+export type PeerHistoryRange = 'day' | 'week' | 'month';
+
+export const ESTABLISHED = 'established';
+export const DOWN = 'down'; // Also used for sessions the router no longer lists
+export const DISABLED = 'disabled';
+
+export interface PeerStateSegment {
+  state: string;
+  start: Date;
+  end: Date;
+}
+
+export interface PeerStats {
+  from: Date;
+  to: Date;
+  observedSeconds: number; // Part of the range the peer was known, from its first sighting
+  transitions: number;
+  flapCount: number; // Times an established session went to another state
+  timeInState: Record<string, number>; // Seconds
+  uptimePercent: number | null; // Established share of the observed time
+}
+
+export interface PeerSummary extends BgpPeer {
+  stats: PeerStats;
+}
+
+export interface PeerHistory extends PeerSummary {
+  range: PeerHistoryRange;
+  segments: PeerStateSegment[];
+  transitions: BgpPeerTransition[];
+}
+
+export interface BgpPollResult {
+  routerId: string;
+  success: boolean;
+  polledAt: Date;
+  error?: string;
+  peers: number;
+  transitions: number;
+  flapping: string[]; // Peer keys that started flapping at this poll
+}
+
+export interface BgpPollAllResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  transitions: number;
+  results: BgpPollResult[];
+}
+
+const RANGE_MS: Record<PeerHistoryRange, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Key a session is tracked by, stable across polls unlike the .id
+ */
+export function getPeerKey(session: ParsedBGPSession): string | null {
+  return session.name || session.remoteAddress || null;
+}
+
+/**
+ * Normalized state of a session
+ */
+export function getPeerState(session: ParsedBGPSession): string {
+  if (session.disabled) {
+    return DISABLED;
+  }
+
+  return session.state?.toLowerCase() || (session.established === 'true' ? ESTABLISHED : 'unknown');
+}
+
+/**
+ * State segments and statistics of a peer over [from, to]
+ * `initial` is the last transition before the range, if the peer was known then
+ */
+export function computePeerStats(
+  initial: Pick<BgpPeerTransition, 'toState'> | null,
+  transitions: Array<Pick<BgpPeerTransition, 'fromState' | 'toState' | 'timestamp'>>,
+  from: Date,
+  to: Date
+): { stats: PeerStats; segments: PeerStateSegment[] } {
+  const segments: PeerStateSegment[] = [];
+  let current: { state: string; start: Date } | null = initial ? { state: initial.toState, start: from } : null;
+  let flapCount = 0;
+  let changes = 0;
+
+  for (const transition of transitions) {
+    if (transition.timestamp < from || transition.timestamp > to) {
+      continue;
+    }
+
+    if (current) {
+      segments.push({ state: current.state, start: current.start, end: transition.timestamp });
+    }
+
+    if (transition.fromState !== null) {
+      changes++;
+
+      if (transition.fromState === ESTABLISHED && transition.toState !== ESTABLISHED) {
+        flapCount++;
+      }
+    }
+
+    current = { state: transition.toState, start: transition.timestamp };
+  }
+
+  if (current) {
+    segments.push({ state: current.state, start: current.start, end: to });
+  }
+
+  const timeInState: Record<string, number> = {};
+  let observedMs = 0;
+
+  for (const segment of segments) {
+    const duration = segment.end.getTime() - segment.start.getTime();
+    observedMs += duration;
+    timeInState[segment.state] = (timeInState[segment.state] ?? 0) + Math.round(duration / 1000);
+  }
+
+  const establishedMs = segments
+    .filter(segment => segment.state === ESTABLISHED)
+    .reduce((total, segment) => total + segment.end.getTime() - segment.start.getTime(), 0);
+
+  return {
+    segments,
+    stats: {
+      from,
+      to,
+      observedSeconds: Math.round(observedMs / 1000),
+      transitions: changes,
+      flapCount,
+      timeInState,
+      uptimePercent: observedMs > 0 ? Math.round(establishedMs / observedMs * 10000) / 100 : null
+    }
+  };
+}
+
+export class RouterOSBgpHistoryService {
+  private routerService = new RouterService();
+
+  /**
+   * Poll the BGP sessions of one router and record state changes
+   * Never throws for an unreachable router, the poll is reported as failed
+   */
+  async pollRouter(routerId: string, now: Date = new Date()): Promise<BgpPollResult> {
+    const result: BgpPollResult = { routerId, success: false, polledAt: now, peers: 0, transitions: 0, flapping: [] };
+
+    let sessions: ParsedBGPSession[];
+
+    try {
+      sessions = await routerOSRoutingService.getBGPSessions(routerId);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      return result;
+    }
+
+    const peers = await prisma.bgpPeer.findMany({ where: { routerId } });
+    const peersByKey = new Map(peers.map(peer => [peer.peerKey, peer]));
+    const seen = new Set<string>();
+
+    for (const session of sessions) {
+      const peerKey = getPeerKey(session);
+
+      // Two sessions of the same peer (rare) are tracked once
+      if (!peerKey || seen.has(peerKey)) {
+        continue;
+      }
+      seen.add(peerKey);
+
+      const state = getPeerState(session);
+      const prefixCount = session.prefixCount ?? null;
+      const existing = peersByKey.get(peerKey);
+
+      if (!existing) {
+        const peer = await prisma.bgpPeer.create({
+          data: {
+            routerId,
+            peerKey,
+            remoteAddress: session.remoteAddress ?? null,
+            remoteAs: session.remoteAs ?? null,
+            state,
+            prefixCount,
+            stateSince: now,
+            lastPolledAt: now
+          }
+        });
+
+        // First sighting, kept so the timeline knows where the peer starts
+        await prisma.bgpPeerTransition.create({
+          data: { peerId: peer.id, fromState: null, toState: state, prefixCount, timestamp: now }
+        });
+        continue;
+      }
+
+      const details = {
+        remoteAddress: session.remoteAddress ?? existing.remoteAddress,
+        remoteAs: session.remoteAs ?? existing.remoteAs
+      };
+
+      if (await this.recordState(existing, state, prefixCount, now, result, details)) {
+        result.transitions++;
+      }
+    }
+
+    // Sessions the router no longer lists are down
+    for (const peer of peers) {
+      if (!seen.has(peer.peerKey) && await this.recordState(peer, DOWN, null, now, result)) {
+        result.transitions++;
+      }
+    }
+
+    result.success = true;
+    result.peers = seen.size;
+    return result;
+  }
+
+  /**
+   * Poll every UPSTREAM router
+   */
+  async pollAll(concurrency: number = config.routeros.monitoring.concurrency): Promise<BgpPollAllResult> {
+    const routers = await this.routerService.getBgpRouters();
+
+    const result: BgpPollAllResult = {
+      total: routers.length,
+      succeeded: 0,
+      failed: 0,
+      transitions: 0,
+      results: []
+    };
+
+    const chunkSize = Math.max(1, concurrency);
+
+    for (let i = 0; i < routers.length; i += chunkSize) {
+      const chunk = routers.slice(i, i + chunkSize);
+      const results = await Promise.all(chunk.map(router => this.pollRouter(router.id)));
+
+      for (const pollResult of results) {
+        if (pollResult.success) result.succeeded++;
+        else result.failed++;
+        result.transitions += pollResult.transitions;
+        result.results.push(pollResult);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete transitions older than the retention
+   * The last transition of a peer is kept, it holds the current state
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.routeros.bgpHistory.retentionDays * 24 * 60 * 60 * 1000);
+    const peers = await prisma.bgpPeer.findMany({ select: { id: true } });
+    let deleted = 0;
+
+    for (const peer of peers) {
+      const latest = await prisma.bgpPeerTransition.findFirst({
+        where: { peerId: peer.id },
+        orderBy: { timestamp: 'desc' },
+        select: { id: true }
+      });
+
+      if (!latest) {
+        continue;
+      }
+
+      const { count } = await prisma.bgpPeerTransition.deleteMany({
+        where: { peerId: peer.id, timestamp: { lt: cutoff }, id: { not: latest.id } }
+      });
+      deleted += count;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Peers of a router with their statistics over the range
+   */
+  async listPeers(routerId: string, range: PeerHistoryRange = 'day', now: Date = new Date()): Promise<PeerSummary[]> {
+    await this.assertRouter(routerId);
+
+    const peers = await prisma.bgpPeer.findMany({
+      where: { routerId },
+      orderBy: { peerKey: 'asc' }
+    });
+
+    return await Promise.all(peers.map(async peer => {
+      const { stats } = await this.loadStats(peer, range, now);
+      return { ...peer, stats };
+    }));
+  }
+
+  /**
+   * Timeline and statistics of one peer over the range
+   */
+  async getPeerHistory(
+    routerId: string,
+    peerKey: string,
+    range: PeerHistoryRange = 'day',
+    now: Date = new Date()
+  ): Promise<PeerHistory> {
+    await this.assertRouter(routerId);
+
+    const peer = await prisma.bgpPeer.findFirst({ where: { routerId, peerKey } });
+
+    if (!peer) {
+      throw new AppError(404, `BGP peer not found: ${peerKey}`);
+    }
+
+    const { stats, segments, transitions } = await this.loadStats(peer, range, now);
+
+    return { ...peer, range, stats, segments, transitions };
+  }
+
+  /**
+   * Store a state change and refresh the flapping flag
+   * Returns whether the state changed
+   */
+  private async recordState(
+    peer: BgpPeer,
+    state: string,
+    prefixCount: number | null,
+    now: Date,
+    result: BgpPollResult,
+    details: Pick<Prisma.BgpPeerUpdateInput, 'remoteAddress' | 'remoteAs'> = {}
+  ): Promise<boolean> {
+    const changed = peer.state !== state;
+
+    if (changed) {
+      await prisma.bgpPeerTransition.create({
+        data: { peerId: peer.id, fromState: peer.state, toState: state, prefixCount, timestamp: now }
+      });
+    }
+
+    const { flapThreshold, flapWindowMinutes } = config.routeros.bgpHistory;
+    const recent = await prisma.bgpPeerTransition.count({
+      where: {
+        peerId: peer.id,
+        fromState: { not: null },
+        timestamp: { gte: new Date(now.getTime() - flapWindowMinutes * 60 * 1000) }
+      }
+    });
+    const isFlapping = recent >= flapThreshold;
+
+    if (isFlapping && !peer.isFlapping) {
+      result.flapping.push(peer.peerKey);
+      console.warn(`[BGP History] Peer ${peer.peerKey} on router ${peer.routerId} is flapping (${recent} transitions in ${flapWindowMinutes}m)`);
+    }
+
+    await prisma.bgpPeer.update({
+      where: { id: peer.id },
+      data: {
+        ...details,
+        state,
+        prefixCount,
+        stateSince: changed ? now : peer.stateSince,
+        lastPolledAt: now,
+        isFlapping
+      }
+    });
+
+    return changed;
+  }
+
+  private async loadStats(peer: BgpPeer, range: PeerHistoryRange, now: Date) {
+    const from = new Date(now.getTime() - RANGE_MS[range]);
+
+    const [initial, transitions] = await Promise.all([
+      prisma.bgpPeerTransition.findFirst({
+        where: { peerId: peer.id, timestamp: { lt: from } },
+        orderBy: { timestamp: 'desc' }
+      }),
+      prisma.bgpPeerTransition.findMany({
+        where: { peerId: peer.id, timestamp: { gte: from, lte: now } },
+        orderBy: { timestamp: 'asc' }
+      })
+    ]);
+
+    return { ...computePeerStats(initial, transitions, from, now), transitions };
+  }
+
+  private async assertRouter(routerId: string): Promise<void> {
+    const router = await prisma.router.findUnique({ where: { id: routerId }, select: { id: true } });
+
+    if (!router) {
+      throw new AppError(404, `Router not found: ${routerId}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSBgpHistoryService = new RouterOSBgpHistoryService();
@@ -0,0 +1,106 @@
+import { config } from '../../config';
+import { routerOSMonitoringService } from './routeros.monitoring.service';
+import { routerOSPollerLeaseService } from './routeros.poller.lease.service';
+import { alertEvaluatorService } from '../alert/alert.evaluator.service';
+
+/**
+ * RouterOS Monitoring Poller
+ * In-process poller that records router health on a fixed interval
+ *
+ * Every tick polls all ACTIVE routers, evaluates the alert rules against the
+ * fresh state, then rolls finished buckets up into the coarser resolutions
+ * and prunes rows past their retention. With several instances running,
+ * only the one that claims the cycle polls.
+ */
+export class RouterOSMonitoringPoller {
+  private timer: NodeJS.Timeout | null = null;
+  private current: Promise<void> | null = null;
+  private pollIntervalMs: number = config.routeros.monitoring.pollIntervalMs;
+
+  /**
+   * Start polling (no-op if already started)
+   */
+  start(pollIntervalMs: number = config.routeros.monitoring.pollIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.pollIntervalMs = pollIntervalMs;
+    console.log(`[Monitoring] Health poller started (poll interval: ${pollIntervalMs}ms)`);
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, pollIntervalMs);
+
+    void this.tick();
+  }
+
+  /**
+   * Stop polling and wait for the running pass to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('[Monitoring] Health poller stopped');
+    }
+
+    if (this.current) {
+      await this.current;
+    }
+  }
+
+  /**
+   * Check if poller is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Single poller pass
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous pass is still waiting on slow routers
+    if (this.current) {
+      return;
+    }
+
+    this.current = this.run().finally(() => {
+      this.current = null;
+    });
+
+    await this.current;
+  }
+
+  private async run(): Promise<void> {
+    try {
+      // Another instance polls this cycle
+      if (!await routerOSPollerLeaseService.claimCycle('monitoring', this.pollIntervalMs)) {
+        return;
+      }
+
+      const result = await routerOSMonitoringService.pollAll();
+
+      if (result.unreachable > 0) {
+        console.log(`[Monitoring] ${result.unreachable} of ${result.total} router(s) unreachable`);
+      }
+
+      if (config.alerting.enabled) {
+        const evaluation = await alertEvaluatorService.evaluate();
+
+        if (evaluation.opened > 0 || evaluation.resolved > 0) {
+          console.log(`[Monitoring] Alerts: ${evaluation.opened} opened, ${evaluation.resolved} resolved`);
+        }
+      }
+
+      await routerOSMonitoringService.rollup();
+      await routerOSMonitoringService.prune();
+    } catch (error) {
+      console.error('[Monitoring] Tick failed:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const routerOSMonitoringPoller = new RouterOSMonitoringPoller();
@@ -0,0 +1,630 @@
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { decrypt } from '../../lib/encryption';
+import { AppError } from '../../middleware/errorHandler';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection, ROUTER_TRANSPORT_SELECT } from '../../lib/routeros/transport';
+import type { RouterOSClient } from '../../lib/routeros/client';
+import { MetricResolution, RouterBrand, RouterStatus } from '@prisma/client';
+import type { Prisma, RouterMetric } from '@prisma/client';
+
+/**
+ * RouterOS Monitoring Service
+ * Health polling and time-series metrics for routers
+ *
+ * Every poll reads /system/resource, /system/health and the interface
+ * counters over the API and stores one RAW row. Interface rates come from
+ * the counter delta since the previous poll, so the first poll after a
+ * restart has no rates. RAW rows are averaged into 5 minute buckets and
+ * those into hourly buckets; each resolution is pruned after its retention.
+ */
+
+export type MetricRange = 'hour' | 'day' | 'week';
+
+export interface InterfaceRate {
+  name: string;
+  rxBps: number;
+  txBps: number;
+}
+
+export interface MetricPoint {
+  timestamp: Date;
+  cpuLoad: number | null;
+  memoryUsed: number | null;
+  memoryTotal: number | null;
+  uptime: number | null;
+  temperature: number | null;
+  voltage: number | null;
+  interfaces: InterfaceRate[];
+}
+
+export interface MetricHistory {
+  routerId: string;
+  range: MetricRange;
+  resolution: MetricResolution;
+  from: Date;
+  to: Date;
+  points: MetricPoint[];
+}
+
+export interface RouterPollResult {
+  routerId: string;
+  reachable: boolean;
+  polledAt: Date;
+  error?: string;
+  metric?: MetricPoint;
+}
+
+export interface PollAllResult {
+  total: number;
+  reachable: number;
+  unreachable: number;
+  results: RouterPollResult[];
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Chart ranges and the resolution that gives them a sensible number of points
+const RANGES: Record<MetricRange, { durationMs: number; resolution: MetricResolution }> = {
+  hour: { durationMs: HOUR, resolution: MetricResolution.RAW },
+  day: { durationMs: DAY, resolution: MetricResolution.FIVE_MINUTES },
+  week: { durationMs: 7 * DAY, resolution: MetricResolution.ONE_HOUR }
+};
+
+// Each rollup averages the finer resolution into fixed buckets
+const ROLLUPS: Array<{ source: MetricResolution; target: MetricResolution; bucketMs: number }> = [
+  { source: MetricResolution.RAW, target: MetricResolution.FIVE_MINUTES, bucketMs: 5 * MINUTE },
+  { source: MetricResolution.FIVE_MINUTES, target: MetricResolution.ONE_HOUR, bucketMs: HOUR }
+];
+
+// /system/health names, first one present wins (v7 lists sensors, v6 returns one item)
+const TEMPERATURE_SENSORS = ['temperature', 'cpu-temperature', 'board-temperature1', 'board-temperature'];
+const VOLTAGE_SENSORS = ['voltage', 'psu-voltage', 'psu1-voltage'];
+
+interface CounterSnapshot {
+  at: number;
+  interfaces: Map<string, { rx: number; tx: number }>;
+}
+
+const pollTargetSelect = {
+  id: true,
+  ipAddress: true,
+  username: true,
+  password: true,
+  ...ROUTER_TRANSPORT_SELECT
+} as const;
+
+type PollTarget = Prisma.RouterGetPayload<{ select: typeof pollTargetSelect }>;
+
+export class RouterOSMonitoringService {
+  // Interface counters of the previous poll per router, to turn counters into rates
+  private counters = new Map<string, CounterSnapshot>();
+
+  /**
+   * Poll one router and record its health
+   * Never throws for an unreachable router, the failure is stored on the router instead
+   */
+  async pollRouter(routerId: string): Promise<RouterPollResult> {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: pollTargetSelect
+    });
+
+    if (!router) {
+      throw new AppError(404, `Router not found: ${routerId}`);
+    }
+
+    return await this.poll(router);
+  }
+
+  /**
+   * Poll every ACTIVE MikroTik router
+   * Routers are polled in chunks to bound concurrent API sessions
+   */
+  async pollAll(concurrency: number = config.routeros.monitoring.concurrency): Promise<PollAllResult> {
+    const routers = await prisma.router.findMany({
+      where: {
+        status: RouterStatus.ACTIVE,
+        routerBrand: RouterBrand.MIKROTIK
+      },
+      select: pollTargetSelect
+    });
+
+    const result: PollAllResult = {
+      total: routers.length,
+      reachable: 0,
+      unreachable: 0,
+      results: []
+    };
+
+    const chunkSize = Math.max(1, concurrency);
+
+    for (let i = 0; i < routers.length; i += chunkSize) {
+      const chunk = routers.slice(i, i + chunkSize);
+      const results = await Promise.all(chunk.map(router => this.poll(router)));
+
+      for (const pollResult of results) {
+        if (pollResult.reachable) result.reachable++;
+        else result.unreachable++;
+        result.results.push(pollResult);
+      }
+    }
+
+    // Forget counters of routers that are no longer polled
+    const polledIds = new Set(routers.map(router => router.id));
+    for (const routerId of this.counters.keys()) {
+      if (!polledIds.has(routerId)) {
+        this.counters.delete(routerId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Average finished buckets of each resolution into the next one
+   * Buckets are only rolled up once the bucket has ended, so each is written once
+   *
+   * @returns Number of rolled up rows created per resolution
+   */
+  async rollup(now: Date = new Date()): Promise<Record<string, number>> {
+    const created: Record<string, number> = {};
+
+    for (const { source, target, bucketMs } of ROLLUPS) {
+      const end = new Date(Math.floor(now.getTime() / bucketMs) * bucketMs);
+
+      const last = await prisma.routerMetric.findFirst({
+        where: { resolution: target },
+        orderBy: { timestamp: 'desc' },
+        select: { timestamp: true }
+      });
+
+      let start: Date;
+      if (last) {
+        start = new Date(last.timestamp.getTime() + bucketMs);
+      } else {
+        const first = await prisma.routerMetric.findFirst({
+          where: { resolution: source },
+          orderBy: { timestamp: 'asc' },
+          select: { timestamp: true }
+        });
+
+        if (!first) {
+          created[target] = 0;
+          continue;
+        }
+
+        start = new Date(Math.floor(first.timestamp.getTime() / bucketMs) * bucketMs);
+      }
+
+      if (start >= end) {
+        created[target] = 0;
+        continue;
+      }
+
+      const rows = await prisma.routerMetric.findMany({
+        where: {
+          resolution: source,
+          timestamp: { gte: start, lt: end }
+        },
+        orderBy: { timestamp: 'asc' }
+      });
+
+      // Group by router and bucket start
+      const buckets = new Map<string, RouterMetric[]>();
+      for (const row of rows) {
+        const bucketStart = Math.floor(row.timestamp.getTime() / bucketMs) * bucketMs;
+        const key = `${row.routerId}|${bucketStart}`;
+        const bucket = buckets.get(key);
+
+        if (bucket) bucket.push(row);
+        else buckets.set(key, [row]);
+      }
+
+      const data: Prisma.RouterMetricCreateManyInput[] = [];
+      for (const [key, bucketRows] of buckets) {
+        const [routerId, bucketStart] = key.split('|');
+        data.push({
+          ...this.average(bucketRows),
+          routerId,
+          resolution: target,
+          timestamp: new Date(Number(bucketStart))
+        });
+      }
+
+      if (data.length > 0) {
+        await prisma.routerMetric.createMany({ data });
+      }
+
+      created[target] = data.length;
+    }
+
+    return created;
+  }
+
+  /**
+   * Delete rows older than the retention of their resolution
+   *
+   * @returns Number of deleted rows
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const { retention } = config.routeros.monitoring;
+    const cutoffs: Array<[MetricResolution, number]> = [
+      [MetricResolution.RAW, retention.rawHours * HOUR],
+      [MetricResolution.FIVE_MINUTES, retention.fiveMinuteDays * DAY],
+      [MetricResolution.ONE_HOUR, retention.hourlyDays * DAY]
+    ];
+
+    let deleted = 0;
+
+    for (const [resolution, keepMs] of cutoffs) {
+      const result = await prisma.routerMetric.deleteMany({
+        where: {
+          resolution,
+          timestamp: { lt: new Date(now.getTime() - keepMs) }
+        }
+      });
+
+      deleted += result.count;
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Metrics of a router for the last hour, day or week
+   * The newest bucket of day/week charts trails by up to one bucket, as it is rolled up when it ends
+   */
+  async getHistory(routerId: string, range: MetricRange, now: Date = new Date()): Promise<MetricHistory> {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: { id: true }
+    });
+
+    if (!router) {
+      throw new AppError(404, `Router not found: ${routerId}`);
+    }
+
+    const { durationMs, resolution } = RANGES[range];
+    const from = new Date(now.getTime() - durationMs);
+
+    const rows = await prisma.routerMetric.findMany({
+      where: {
+        routerId,
+        resolution,
+        timestamp: { gte: from, lte: now }
+      },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    return {
+      routerId,
+      range,
+      resolution,
+      from,
+      to: now,
+      points: rows.map(row => this.toPoint(row))
+    };
+  }
+
+  /**
+   * Reachability of a router and its most recent sample
+   */
+  async getLatest(routerId: string) {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: {
+        id: true,
+        isReachable: true,
+        lastSeen: true,
+        lastPolledAt: true,
+        lastPollError: true
+      }
+    });
+
+    if (!router) {
+      throw new AppError(404, `Router not found: ${routerId}`);
+    }
+
+    const latest = await prisma.routerMetric.findFirst({
+      where: { routerId, resolution: MetricResolution.RAW },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    return {
+      ...router,
+      metric: latest ? this.toPoint(latest) : null
+    };
+  }
+
+  /**
+   * Query a router, store the sample and update its reachability
+   */
+  private async poll(router: PollTarget): Promise<RouterPollResult> {
+    const polledAt = new Date();
+
+    try {
+      const sample = await routerOSPool.withClient(
+        router.id,
+        {
+          host: router.ipAddress,
+          username: router.username,
+          password: decrypt(router.password),
+          ...getRouterApiConnection(router)
+        },
+        client => this.readSample(client)
+      );
+
+      const interfaces = this.computeRates(router.id, sample.counters, polledAt.getTime());
+
+      const [metric] = await prisma.$transaction([
+        prisma.routerMetric.create({
+          data: {
+            routerId: router.id,
+            resolution: MetricResolution.RAW,
+            timestamp: polledAt,
+            cpuLoad: sample.cpuLoad,
+            memoryUsed: this.toBigInt(sample.memoryUsed),
+            memoryTotal: this.toBigInt(sample.memoryTotal),
+            uptime: sample.uptime,
+            temperature: sample.temperature,
+            voltage: sample.voltage,
+            interfaces: interfaces as unknown as Prisma.InputJsonValue
+          }
+        }),
+        prisma.router.update({
+          where: { id: router.id },
+          data: {
+            isReachable: true,
+            lastSeen: polledAt,
+            lastPolledAt: polledAt,
+            lastPollError: null
+          }
+        })
+      ]);
+
+      return { routerId: router.id, reachable: true, polledAt, metric: this.toPoint(metric) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Counters across an outage would average the gap into one sample
+      this.counters.delete(router.id);
+
+      try {
+        await prisma.router.update({
+          where: { id: router.id },
+          data: {
+            isReachable: false,
+            lastPolledAt: polledAt,
+            lastPollError: message
+          }
+        });
+      } catch (updateError) {
+        console.error(`[Monitoring] Failed to record poll failure for router ${router.id}:`, updateError);
+      }
+
+      return { routerId: router.id, reachable: false, polledAt, error: message };
+    }
+  }
+
+  /**
+   * Read resource, health and interface counters in one session
+   */
+  private async readSample(client: RouterOSClient) {
+    const resourceResult = await client.execute('/system/resource/print');
+    if (!resourceResult.success || !resourceResult.data?.length) {
+      throw new Error(resourceResult.error || 'Failed to read /system/resource');
+    }
+
+    const resource = resourceResult.data[0];
+    const totalMemory = this.toNumber(resource['total-memory']);
+    const freeMemory = this.toNumber(resource['free-memory']);
+
+    // CHR and some boards have no health sensors, that is not an error
+    const healthResult = await client.execute('/system/health/print');
+    const health = healthResult.success ? this.parseHealth(healthResult.data || []) : {};
+
+    const interfaceResult = await client.execute('/interface/print');
+    if (!interfaceResult.success) {
+      throw new Error(interfaceResult.error || 'Failed to read /interface');
+    }
+
+    // Running, non-dynamic interfaces only (skips PPPoE/L2TP sessions that come and go)
+    const counters = new Map<string, { rx: number; tx: number }>();
+    for (const item of interfaceResult.data || []) {
+      if (!item?.name || item.running !== 'true' || item.dynamic === 'true') {
+        continue;
+      }
+
+      const rx = this.toNumber(item['rx-byte']);
+      const tx = this.toNumber(item['tx-byte']);
+      if (rx !== null && tx !== null) {
+        counters.set(item.name, { rx, tx });
+      }
+    }
+
+    return {
+      cpuLoad: this.toNumber(resource['cpu-load']),
+      memoryTotal: totalMemory,
+      memoryUsed: totalMemory !== null && freeMemory !== null ? totalMemory - freeMemory : null,
+      uptime: this.parseUptime(resource.uptime),
+      temperature: this.pickSensor(health, TEMPERATURE_SENSORS),
+      voltage: this.pickSensor(health, VOLTAGE_SENSORS),
+      counters
+    };
+  }
+
+  /**
+   * Turn /system/health output into name -> value
+   * v7: one item per sensor ({ name, value, type }), v6: one item with a property per sensor
+   */
+  private parseHealth(items: any[]): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    for (const item of items) {
+      if (!item || typeof item !== 'object') {
+        continue;
+      }
+
+      if (item.name !== undefined && item.value !== undefined) {
+        values[item.name] = item.value;
+      } else {
+        Object.assign(values, item);
+      }
+    }
+
+    return values;
+  }
+
+  private pickSensor(health: Record<string, string>, names: string[]): number | null {
+    for (const name of names) {
+      const value = this.toNumber(health[name]);
+      if (value !== null) {
+        return value;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Bits per second since the previous poll of the same router
+   * Interfaces whose counters went backwards (reset, reboot) are left out of this sample
+   */
+  private computeRates(routerId: string, counters: Map<string, { rx: number; tx: number }>, at: number): InterfaceRate[] {
+    const previous = this.counters.get(routerId);
+    this.counters.set(routerId, { at, interfaces: counters });
+
+    if (!previous || at <= previous.at) {
+      return [];
+    }
+
+    const seconds = (at - previous.at) / 1000;
+    const rates: InterfaceRate[] = [];
+
+    for (const [name, current] of counters) {
+      const before = previous.interfaces.get(name);
+      if (!before || current.rx < before.rx || current.tx < before.tx) {
+        continue;
+      }
+
+      rates.push({
+        name,
+        rxBps: Math.round(((current.rx - before.rx) * 8) / seconds),
+        txBps: Math.round(((current.tx - before.tx) * 8) / seconds)
+      });
+    }
+
+    return rates;
+  }
+
+  /**
+   * Average rows of one bucket, weighted by how many raw samples each row holds
+   */
+  private average(rows: RouterMetric[]) {
+    const sampleCount = rows.reduce((sum, row) => sum + row.sampleCount, 0);
+
+    const mean = (pick: (row: RouterMetric) => number | null): number | null => {
+      let total = 0;
+      let weight = 0;
+
+      for (const row of rows) {
+        const value = pick(row);
+        if (value !== null) {
+          total += value * row.sampleCount;
+          weight += row.sampleCount;
+        }
+      }
+
+      return weight > 0 ? total / weight : null;
+    };
+
+    const interfaces = new Map<string, { rx: number; tx: number; weight: number }>();
+    for (const row of rows) {
+      for (const rate of this.toRates(row.interfaces)) {
+        const entry = interfaces.get(rate.name) || { rx: 0, tx: 0, weight: 0 };
+        entry.rx += rate.rxBps * row.sampleCount;
+        entry.tx += rate.txBps * row.sampleCount;
+        entry.weight += row.sampleCount;
+        interfaces.set(rate.name, entry);
+      }
+    }
+
+    const lastUptime = [...rows].reverse().find(row => row.uptime !== null)?.uptime ?? null;
+    const memoryUsed = mean(row => this.toNumber(row.memoryUsed));
+    const memoryTotal = mean(row => this.toNumber(row.memoryTotal));
+
+    return {
+      sampleCount,
+      cpuLoad: mean(row => row.cpuLoad),
+      memoryUsed: this.toBigInt(memoryUsed),
+      memoryTotal: this.toBigInt(memoryTotal),
+      uptime: lastUptime,
+      temperature: mean(row => row.temperature),
+      voltage: mean(row => row.voltage),
+      interfaces: [...interfaces].map(([name, entry]) => ({
+        name,
+        rxBps: Math.round(entry.rx / entry.weight),
+        txBps: Math.round(entry.tx / entry.weight)
+      })) as unknown as Prisma.InputJsonValue
+    };
+  }
+
+  private toPoint(row: RouterMetric): MetricPoint {
+    return {
+      timestamp: row.timestamp,
+      cpuLoad: row.cpuLoad,
+      memoryUsed: this.toNumber(row.memoryUsed),
+      memoryTotal: this.toNumber(row.memoryTotal),
+      uptime: row.uptime,
+      temperature: row.temperature,
+      voltage: row.voltage,
+      interfaces: this.toRates(row.interfaces)
+    };
+  }
+
+  private toRates(value: Prisma.JsonValue): InterfaceRate[] {
+    return Array.isArray(value) ? (value as unknown as InterfaceRate[]) : [];
+  }
+
+  /**
+   * Parse a RouterOS duration (e.g. "1w2d3h4m5s", v6 may use "2d03:04:05") into seconds
+   */
+  private parseUptime(value: string | undefined): number | null {
+    if (!value) {
+      return null;
+    }
+
+    const units: Record<string, number> = { w: 604800, d: 86400, h: 3600, m: 60, s: 1 };
+    let seconds = 0;
+
+    for (const [, amount, unit] of value.matchAll(/(\d+)([wdhms])/g)) {
+      seconds += parseInt(amount, 10) * units[unit];
+    }
+
+    const clock = value.match(/(\d+):(\d+):(\d+)$/);
+    if (clock) {
+      seconds += parseInt(clock[1], 10) * 3600 + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+    }
+
+    return seconds;
+  }
+
+  private toNumber(value: string | number | bigint | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+
+  private toBigInt(value: number | null): bigint | null {
+    return value === null ? null : BigInt(Math.round(value));
+  }
+}
+
+// Export singleton instance
+export const routerOSMonitoringService = new RouterOSMonitoringService();
@@ -0,0 +1,60 @@
+import { prisma } from '../../lib/prisma';
+import { Prisma } from '@prisma/client';
+
+/**
+ * RouterOS Poller Lease Service
+ * Lets a single instance run each cycle of a background poller
+ *
+ * PM2 runs the backend in cluster mode and every instance starts the pollers.
+ * A cycle is claimed by moving the poller's nextRunAt forward with an update
+ * that only matches while it is due (the same optimistic claim the backup
+ * scheduler uses), so the routers are polled once per interval, not once per
+ * instance.
+ */
+
+// Timers of the same instance fire a little early or late, don't lose a cycle over it
+const MAX_TIMER_DRIFT_MS = 5000;
+
+export class RouterOSPollerLeaseService {
+  /**
+   * Claim the current cycle of a poller
+   *
+   * @param name - Poller name, e.g. "monitoring"
+   * @param intervalMs - Poll interval, the next cycle is due after it
+   * @returns true if this process owns the cycle
+   */
+  async claimCycle(name: string, intervalMs: number, now: Date = new Date()): Promise<boolean> {
+    const nextRunAt = new Date(now.getTime() + intervalMs - Math.min(MAX_TIMER_DRIFT_MS, intervalMs / 10));
+
+    const lease = await prisma.pollerLease.findUnique({ where: { name } });
+
+    if (!lease) {
+      try {
+        await prisma.pollerLease.create({ data: { name, lastRunAt: now, nextRunAt } });
+        return true;
+      } catch (error) {
+        // Another instance created it first and owns this cycle
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return false;
+        }
+        throw error;
+      }
+    }
+
+    const result = await prisma.pollerLease.updateMany({
+      where: {
+        name,
+        nextRunAt: { lte: now }
+      },
+      data: {
+        lastRunAt: now,
+        nextRunAt
+      }
+    });
+
+    return result.count === 1;
+  }
+}
+
+// Export singleton instance
+export const routerOSPollerLeaseService = new RouterOSPollerLeaseService();
@@ -0,0 +1,459 @@
+/**
+ * RouterOS Routing Filter Service
+ * Reads and edits /routing/filter/rule, and tests chains against sample routes
+ *
+ * Adding, changing, moving and removing rules is preceded by a partial
+ * safety backup of /routing filter, like destructive BGP connection changes.
+ */
+
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/encryption';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection, ROUTER_TRANSPORT_SELECT } from '../../lib/routeros/transport';
+import { ROUTING_FILTER_COMMANDS } from '../../lib/routeros/constants';
+import { evaluateFilterChain } from '../../lib/routeros/routing-filter';
+import type { FilterEvaluation, FilterTestRoute } from '../../lib/routeros/routing-filter';
+import type { RouterOSClient } from '../../lib/routeros/client';
+import { AppError } from '../../middleware/errorHandler';
+import { routerOSRoutingService } from './routeros.routing.service';
+import { routerOSBackupService } from './routeros.backup.service';
+
+/**
+ * Routing filter rule from /routing/filter/rule/print
+ */
+export interface RoutingFilterRule {
+  '.id': string;
+  chain?: string;
+  rule?: string;
+  comment?: string;
+  disabled?: string;
+  inactive?: string;
+  invalid?: string;
+  dynamic?: string;
+}
+
+/**
+ * Parsed routing filter rule (cleaned up for frontend)
+ */
+export interface ParsedRoutingFilterRule {
+  id: string;
+  chain: string;
+  rule: string;
+  comment?: string;
+  disabled: boolean;
+  invalid: boolean; // RouterOS could not compile the rule
+  dynamic: boolean;
+  position: number; // 0-based order within the chain
+}
+
+/**
+ * A chain and the BGP connections that use it
+ */
+export interface RoutingFilterChain {
+  name: string;
+  ruleCount: number;
+  disabledCount: number;
+  usedBy: Array<{ connectionId: string; connectionName?: string; direction: 'in' | 'out' }>;
+}
+
+export interface RoutingFilterRuleParams {
+  chain: string;
+  rule: string;
+  comment?: string;
+  disabled?: boolean;
+  placeBefore?: string; // Rule ID, the new rule goes last when omitted
+}
+
+export interface RoutingFilterChangeOptions {
+  triggeredBy: string; // User ID, recorded on the safety backup
+}
+
+// Menu exported by the safety backup before a rule change
+const FILTER_BACKUP_SECTIONS = ['/routing filter'];
+
+export class RouterOSRoutingFilterService {
+  /**
+   * Get router credentials from database and borrow a pooled client
+   * Return it with routerOSPool.release() when done
+   */
+  private async getRouterClient(routerId: string): Promise<RouterOSClient> {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: {
+        ipAddress: true,
+        username: true,
+        password: true,
+        status: true,
+        ...ROUTER_TRANSPORT_SELECT,
+      },
+    });
+
+    if (!router) {
+      throw new Error(`Router with ID ${routerId} not found`);
+    }
+
+    if (router.status !== 'ACTIVE') {
+      throw new Error(`Router is not active (status: ${router.status})`);
+    }
+
+    // Decrypt password
+    let decryptedPassword: string;
+    try {
+      decryptedPassword = decrypt(router.password);
+    } catch (error) {
+      console.error('Failed to decrypt router password:', error);
+      throw new Error('Failed to decrypt router password. The password may be corrupted or encryption key is incorrect.');
+    }
+
+    const config = {
+      host: router.ipAddress,
+      username: router.username,
+      password: decryptedPassword,
+      ...getRouterApiConnection(router),
+    };
+
+    return await routerOSPool.acquire(routerId, config);
+  }
+
+  /**
+   * Parse rules in router order, numbering them within their chain
+   */
+  private parseFilterRules(rules: RoutingFilterRule[]): ParsedRoutingFilterRule[] {
+    const positions = new Map<string, number>();
+
+    return rules.map(rule => {
+      const chain = rule.chain ?? '';
+      const position = positions.get(chain) ?? 0;
+      positions.set(chain, position + 1);
+
+      return {
+        id: rule['.id'],
+        chain,
+        rule: rule.rule ?? '',
+        comment: rule.comment,
+        disabled: rule.disabled === 'true',
+        invalid: rule.invalid === 'true',
+        dynamic: rule.dynamic === 'true',
+        position,
+      };
+    });
+  }
+
+  private async printFilterRules(client: RouterOSClient, query: Record<string, string> = {}): Promise<ParsedRoutingFilterRule[]> {
+    const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.PRINT, query);
+
+    if (!result.success) {
+      throw new Error(`Failed to fetch routing filter rules: ${result.error}`);
+    }
+
+    return this.parseFilterRules((result.data || []) as RoutingFilterRule[]);
+  }
+
+  /**
+   * Back up /routing filter before changing rules
+   */
+  private async backupFilters(routerId: string, options: RoutingFilterChangeOptions): Promise<void> {
+    await routerOSBackupService.createSafetyBackup(routerId, options.triggeredBy, FILTER_BACKUP_SECTIONS);
+  }
+
+  private async findFilterRule(client: RouterOSClient, ruleId: string): Promise<ParsedRoutingFilterRule> {
+    const rule = (await this.printFilterRules(client)).find(other => other.id === ruleId);
+
+    if (!rule) {
+      throw new AppError(404, `Routing filter rule not found: ${ruleId}`);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Fetch the routing filter rules of a router, optionally of one chain
+   * Command: /routing/filter/rule/print
+   */
+  async getFilterRules(routerId: string, chain?: string): Promise<ParsedRoutingFilterRule[]> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      return await this.printFilterRules(client, chain ? { '?chain': chain } : {});
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * List the chains that have rules or are referenced by a BGP connection
+   */
+  async getFilterChains(routerId: string): Promise<RoutingFilterChain[]> {
+    const [rules, connections] = await Promise.all([
+      this.getFilterRules(routerId),
+      routerOSRoutingService.getBGPConnections(routerId),
+    ]);
+
+    const chains = new Map<string, RoutingFilterChain>();
+    const getChain = (name: string) => {
+      let chain = chains.get(name);
+      if (!chain) {
+        chain = { name, ruleCount: 0, disabledCount: 0, usedBy: [] };
+        chains.set(name, chain);
+      }
+      return chain;
+    };
+
+    for (const rule of rules) {
+      const chain = getChain(rule.chain);
+      chain.ruleCount++;
+      if (rule.disabled) chain.disabledCount++;
+    }
+
+    for (const connection of connections) {
+      if (connection.inFilter) {
+        getChain(connection.inFilter).usedBy.push({ connectionId: connection.id, connectionName: connection.name, direction: 'in' });
+      }
+      if (connection.outFilter) {
+        getChain(connection.outFilter).usedBy.push({ connectionId: connection.id, connectionName: connection.name, direction: 'out' });
+      }
+    }
+
+    return [...chains.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add a routing filter rule, after backing up /routing filter
+   * Command: /routing/filter/rule/add
+   */
+  async addFilterRule(
+    routerId: string,
+    params: RoutingFilterRuleParams,
+    options: RoutingFilterChangeOptions
+  ): Promise<ParsedRoutingFilterRule> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const cmdParams: Record<string, string> = { chain: params.chain, rule: params.rule };
+      if (params.comment !== undefined) cmdParams.comment = params.comment;
+      if (params.disabled !== undefined) cmdParams.disabled = params.disabled ? 'yes' : 'no';
+
+      if (params.placeBefore !== undefined) {
+        const destination = await this.findFilterRule(client, params.placeBefore);
+
+        if (destination.chain !== params.chain) {
+          throw new AppError(400, `Rule ${params.placeBefore} belongs to chain ${destination.chain}, not ${params.chain}`);
+        }
+
+        cmdParams['place-before'] = params.placeBefore;
+      }
+
+      await this.backupFilters(routerId, options);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.ADD, cmdParams);
+
+      if (!result.success) {
+        throw new Error(`Failed to add routing filter rule: ${result.error}`);
+      }
+
+      // add answers with the ID of the new rule
+      const ruleId = result.data?.[0]?.ret;
+      const rule = ruleId ? (await this.printFilterRules(client, { '?chain': params.chain })).find(other => other.id === ruleId) : undefined;
+
+      if (!rule) {
+        throw new Error('Routing filter rule added but could not be retrieved');
+      }
+
+      return rule;
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Change the text or comment of a routing filter rule, after backing up /routing filter
+   * Command: /routing/filter/rule/set
+   */
+  async updateFilterRule(
+    routerId: string,
+    ruleId: string,
+    params: Partial<Pick<RoutingFilterRuleParams, 'rule' | 'comment'>>,
+    options: RoutingFilterChangeOptions
+  ): Promise<ParsedRoutingFilterRule> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const { chain } = await this.findFilterRule(client, ruleId);
+
+      const cmdParams: Record<string, string> = { '.id': ruleId };
+      if (params.rule !== undefined) cmdParams.rule = params.rule;
+      if (params.comment !== undefined) cmdParams.comment = params.comment;
+
+      await this.backupFilters(routerId, options);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.SET, cmdParams);
+
+      if (!result.success) {
+        throw new Error(`Failed to update routing filter rule: ${result.error}`);
+      }
+
+      const rule = (await this.printFilterRules(client, { '?chain': chain })).find(other => other.id === ruleId);
+
+      if (!rule) {
+        throw new Error('Routing filter rule updated but could not be retrieved');
+      }
+
+      return rule;
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Move a rule in front of another rule of its chain, or to the end of the chain,
+   * after backing up /routing filter
+   * Command: /routing/filter/rule/move
+   * Returns the rules of the chain in their new order
+   */
+  async moveFilterRule(
+    routerId: string,
+    ruleId: string,
+    destinationId: string | undefined,
+    options: RoutingFilterChangeOptions
+  ): Promise<ParsedRoutingFilterRule[]> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const rules = await this.printFilterRules(client);
+      const rule = rules.find(other => other.id === ruleId);
+
+      if (!rule) {
+        throw new AppError(404, `Routing filter rule not found: ${ruleId}`);
+      }
+
+      const cmdParams: Record<string, string> = { numbers: ruleId };
+
+      if (destinationId !== undefined) {
+        const destination = rules.find(other => other.id === destinationId);
+
+        if (!destination) {
+          throw new AppError(404, `Routing filter rule not found: ${destinationId}`);
+        }
+
+        if (destination.chain !== rule.chain) {
+          throw new AppError(400, `Rule ${destinationId} belongs to chain ${destination.chain}, not ${rule.chain}`);
+        }
+
+        cmdParams.destination = destinationId;
+      }
+
+      await this.backupFilters(routerId, options);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.MOVE, cmdParams);
+
+      if (!result.success) {
+        throw new Error(`Failed to move routing filter rule: ${result.error}`);
+      }
+
+      return await this.printFilterRules(client, { '?chain': rule.chain });
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Enable a routing filter rule
+   */
+  async enableFilterRule(routerId: string, ruleId: string): Promise<void> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.ENABLE, {
+        '.id': ruleId,
+      });
+
+      if (!result.success) {
+        throw new Error(`Failed to enable routing filter rule: ${result.error}`);
+      }
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Disable a routing filter rule
+   */
+  async disableFilterRule(routerId: string, ruleId: string): Promise<void> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.DISABLE, {
+        '.id': ruleId,
+      });
+
+      if (!result.success) {
+        throw new Error(`Failed to disable routing filter rule: ${result.error}`);
+      }
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Remove a routing filter rule, after backing up /routing filter
+   */
+  async removeFilterRule(routerId: string, ruleId: string, options: RoutingFilterChangeOptions): Promise<void> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      await this.findFilterRule(client, ruleId);
+      await this.backupFilters(routerId, options);
+
+      const result = await client.execute(ROUTING_FILTER_COMMANDS.RULE.REMOVE, {
+        '.id': ruleId,
+      });
+
+      if (!result.success) {
+        throw new Error(`Failed to remove routing filter rule: ${result.error}`);
+      }
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Run a sample route through a chain with the rules as they are on the router
+   * Evaluated locally, the router is only read
+   */
+  async testFilterChain(routerId: string, chain: string, route: FilterTestRoute): Promise<FilterEvaluation> {
+    const rules = await this.getFilterRules(routerId);
+
+    return evaluateFilterChain(rules, chain, route);
+  }
+}
+
+// Export singleton instance
+export const routerOSRoutingFilterService = new RouterOSRoutingFilterService();
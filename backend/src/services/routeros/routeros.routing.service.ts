@@ -5,7 +5,12 @@
 
 import { prisma } from '../../lib/prisma';
 import { decrypt } from '../../lib/encryption';
-import { RouterOSClient } from '../../lib/routeros/client';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection, ROUTER_TRANSPORT_SELECT } from '../../lib/routeros/transport';
+import { BGP_COMMANDS } from '../../lib/routeros/constants';
+import type { RouterOSClient } from '../../lib/routeros/client';
+import { AppError } from '../../middleware/errorHandler';
+import { routerOSBackupService } from './routeros.backup.service';
 
 /**
  * BGP Connection from /routing/bgp/connection/print
@@ -15,12 +20,22 @@ export interface BGPConnection {
   name?: string;
   'remote.address'?: string;
   'remote.as'?: string;
+  'remote.port'?: string;
   'local.address'?: string;
   'local.as'?: string;
+  'local.role'?: string;
+  as?: string;
+  templates?: string;
+  multihop?: string;
+  'tcp-md5-key'?: string;
+  'hold-time'?: string;
+  comment?: string;
   'state'?: string;
   'uptime'?: string;
   'prefix-count'?: string;
   disabled?: string;
+  'input.filter'?: string;
+  'output.filter'?: string;
   'in.filter'?: string;
   'out.filter'?: string;
 }
@@ -93,8 +108,67 @@ export interface ParsedBGPConnection {
   disabled: boolean;
   inFilter?: string;
   outFilter?: string;
+  remotePort?: number;
+  localRole?: string;
+  templates: string[];
+  multihop: boolean;
+  hasTcpMd5Key: boolean; // The key itself is never sent to the frontend
+  holdTime?: string;
+  comment?: string;
+}
+
+/**
+ * BGP Connection settings accepted by create/update
+ * An empty string clears a filter chain or the TCP MD5 key
+ */
+export interface BGPConnectionParams {
+  name: string;
+  remoteAddress: string;
+  remoteAs?: string;
+  remotePort?: number;
+  localRole: string;
+  localAddress?: string;
+  localAs?: string;
+  templates?: string[];
+  inFilter?: string;
+  outFilter?: string;
+  multihop?: boolean;
+  tcpMd5Key?: string;
+  holdTime?: string;
+  comment?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Confirmation for changes that drop or re-establish a BGP session
+ */
+export interface BGPConnectionChangeOptions {
+  confirm?: boolean;
+  triggeredBy: string; // User ID, recorded on the safety backup
+}
+
+export interface BGPConnectionChangeResult {
+  connection: ParsedBGPConnection | null; // null after a delete
+  safetyBackupId: string | null; // Partial backup of /routing bgp taken before the change
 }
 
+// Menu exported by the safety backup before destructive changes
+const BGP_BACKUP_SECTIONS = ['/routing bgp'];
+
+// Settings whose change makes RouterOS tear the session down
+const SESSION_RESET_FIELDS: Array<keyof BGPConnectionParams> = [
+  'remoteAddress',
+  'remoteAs',
+  'remotePort',
+  'localRole',
+  'localAddress',
+  'localAs',
+  'templates',
+  'multihop',
+  'tcpMd5Key',
+  'holdTime',
+];
+
 /**
  * Parsed BGP Advertisement (cleaned up for frontend)
  */
@@ -143,7 +217,8 @@ export interface ParsedBGPSession {
 
 export class RouterOSRoutingService {
   /**
-   * Get router credentials from database and create client
+   * Get router credentials from database and borrow a pooled client
+   * Return it with routerOSPool.release() when done
    */
   private async getRouterClient(routerId: string): Promise<RouterOSClient> {
     const router = await prisma.router.findUnique({
@@ -152,8 +227,8 @@ export class RouterOSRoutingService {
         ipAddress: true,
         username: true,
         password: true,
-        apiPort: true,
         status: true,
+        ...ROUTER_TRANSPORT_SELECT,
       },
     });
 
@@ -176,15 +251,12 @@ export class RouterOSRoutingService {
 
     const config = {
       host: router.ipAddress,
-      port: router.apiPort || 8728,
       username: router.username,
       password: decryptedPassword,
+      ...getRouterApiConnection(router),
     };
 
-    const client = new RouterOSClient(config);
-    await client.connect();
-
-    return client;
+    return await routerOSPool.acquire(routerId, config);
   }
 
   /**
@@ -202,11 +274,69 @@ export class RouterOSRoutingService {
       uptime: connection.uptime,
       prefixCount: connection['prefix-count'] ? parseInt(connection['prefix-count'], 10) : undefined,
       disabled: connection.disabled === 'true',
-      inFilter: connection['in.filter'],
-      outFilter: connection['out.filter'],
+      // RouterOS v7 prints input.filter/output.filter, older 7.x builds in.filter/out.filter
+      inFilter: connection['input.filter'] || connection['in.filter'],
+      outFilter: connection['output.filter'] || connection['out.filter'],
+      remotePort: connection['remote.port'] ? parseInt(connection['remote.port'], 10) : undefined,
+      localRole: connection['local.role'],
+      templates: connection.templates ? connection.templates.split(',').filter(Boolean) : [],
+      multihop: connection.multihop === 'true' || connection.multihop === 'yes',
+      hasTcpMd5Key: !!connection['tcp-md5-key'],
+      holdTime: connection['hold-time'],
+      comment: connection.comment,
     };
   }
 
+  /**
+   * Map connection settings to /routing/bgp/connection add/set parameters
+   */
+  private buildBGPConnectionParams(params: Partial<BGPConnectionParams>): Record<string, string> {
+    const cmdParams: Record<string, string> = {};
+
+    if (params.name !== undefined) cmdParams.name = params.name;
+    if (params.remoteAddress !== undefined) cmdParams['remote.address'] = params.remoteAddress;
+    if (params.remoteAs !== undefined) cmdParams['remote.as'] = params.remoteAs;
+    if (params.remotePort !== undefined) cmdParams['remote.port'] = String(params.remotePort);
+    if (params.localRole !== undefined) cmdParams['local.role'] = params.localRole;
+    if (params.localAddress !== undefined) cmdParams['local.address'] = params.localAddress;
+    if (params.localAs !== undefined) cmdParams.as = params.localAs;
+    if (params.templates !== undefined) cmdParams.templates = params.templates.join(',');
+    if (params.inFilter !== undefined) cmdParams['input.filter'] = params.inFilter;
+    if (params.outFilter !== undefined) cmdParams['output.filter'] = params.outFilter;
+    if (params.multihop !== undefined) cmdParams.multihop = params.multihop ? 'yes' : 'no';
+    if (params.tcpMd5Key !== undefined) cmdParams['tcp-md5-key'] = params.tcpMd5Key;
+    if (params.holdTime !== undefined) cmdParams['hold-time'] = params.holdTime;
+    if (params.comment !== undefined) cmdParams.comment = params.comment;
+    if (params.disabled !== undefined) cmdParams.disabled = params.disabled ? 'yes' : 'no';
+
+    return cmdParams;
+  }
+
+  /**
+   * Whether an update drops the session (disabling it, or changing how it peers)
+   */
+  isDestructiveBGPConnectionUpdate(params: Partial<BGPConnectionParams>): boolean {
+    return params.disabled === true || SESSION_RESET_FIELDS.some(field => params[field] !== undefined);
+  }
+
+  /**
+   * Refuse an unconfirmed destructive change, otherwise back up /routing bgp first
+   * Returns the safety backup ID
+   */
+  private async prepareDestructiveBGPChange(
+    routerId: string,
+    options: BGPConnectionChangeOptions,
+    action: string
+  ): Promise<string> {
+    if (!options.confirm) {
+      throw new AppError(409, `${action} drops the BGP session and needs confirmation`);
+    }
+
+    const backup = await routerOSBackupService.createSafetyBackup(routerId, options.triggeredBy, BGP_BACKUP_SECTIONS);
+
+    return backup.id;
+  }
+
   /**
    * Parse plain text BGP advertisements output to structured format
    * Input format: "peer=AMAZON-1 dst=160.25.54.0/24 afi=ip nexthop=119.11.187.29 origin=0 as-path=sequence 15306"
@@ -416,7 +546,7 @@ export class RouterOSRoutingService {
       return connections.map(conn => this.parseBGPConnection(conn));
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -442,7 +572,7 @@ export class RouterOSRoutingService {
       return connections.length > 0 ? this.parseBGPConnection(connections[0]) : null;
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -467,7 +597,7 @@ export class RouterOSRoutingService {
       return this.parseBGPAdvertisementsOutput(result.data || []);
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -510,7 +640,7 @@ export class RouterOSRoutingService {
       return this.parseBGPAdvertisementsOutput(result.data || []);
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -535,7 +665,7 @@ export class RouterOSRoutingService {
       return sessions.map(session => this.parseBGPSession(session));
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -561,7 +691,7 @@ export class RouterOSRoutingService {
       return sessions.length > 0 ? this.parseBGPSession(sessions[0]) : null;
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -606,7 +736,7 @@ export class RouterOSRoutingService {
       };
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -629,7 +759,7 @@ export class RouterOSRoutingService {
       }
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -652,7 +782,7 @@ export class RouterOSRoutingService {
       }
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -675,7 +805,140 @@ export class RouterOSRoutingService {
       }
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Create a BGP connection
+   * Command: /routing/bgp/connection/add
+   */
+  async createBGPConnection(routerId: string, params: BGPConnectionParams): Promise<ParsedBGPConnection> {
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const existing = await client.execute(BGP_COMMANDS.CONNECTION.PRINT, { '?name': params.name });
+
+      if (existing.success && (existing.data || []).length > 0) {
+        throw new AppError(409, `BGP connection already exists: ${params.name}`);
+      }
+
+      const result = await client.execute(BGP_COMMANDS.CONNECTION.ADD, this.buildBGPConnectionParams(params));
+
+      if (!result.success) {
+        throw new Error(`Failed to create BGP connection: ${result.error}`);
+      }
+
+      // Fetch the created connection
+      const fetchResult = await client.execute(BGP_COMMANDS.CONNECTION.PRINT, { '?name': params.name });
+
+      if (!fetchResult.success || !fetchResult.data || fetchResult.data.length === 0) {
+        throw new Error('BGP connection created but could not be retrieved');
+      }
+
+      return this.parseBGPConnection(fetchResult.data[0] as BGPConnection);
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Update a BGP connection
+   * Changes that drop the session need options.confirm and are preceded by a backup of /routing bgp
+   * Command: /routing/bgp/connection/set
+   */
+  async updateBGPConnection(
+    routerId: string,
+    connectionId: string,
+    params: Partial<BGPConnectionParams>,
+    options: BGPConnectionChangeOptions
+  ): Promise<BGPConnectionChangeResult> {
+    const connection = await this.getBGPConnectionById(routerId, connectionId);
+
+    if (!connection) {
+      throw new AppError(404, `BGP connection not found: ${connectionId}`);
+    }
+
+    const safetyBackupId = this.isDestructiveBGPConnectionUpdate(params)
+      ? await this.prepareDestructiveBGPChange(routerId, options, `Updating ${connection.name || connectionId}`)
+      : null;
+
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const result = await client.execute(BGP_COMMANDS.CONNECTION.SET, {
+        '.id': connectionId,
+        ...this.buildBGPConnectionParams(params),
+      });
+
+      if (!result.success) {
+        throw new Error(`Failed to update BGP connection: ${result.error}`);
+      }
+
+      // Fetch the updated connection
+      const fetchResult = await client.execute(BGP_COMMANDS.CONNECTION.PRINT, { '?.id': connectionId });
+
+      if (!fetchResult.success || !fetchResult.data || fetchResult.data.length === 0) {
+        throw new Error('BGP connection updated but could not be retrieved');
+      }
+
+      return {
+        connection: this.parseBGPConnection(fetchResult.data[0] as BGPConnection),
+        safetyBackupId,
+      };
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Delete a BGP connection
+   * Always needs options.confirm and is preceded by a backup of /routing bgp
+   * Command: /routing/bgp/connection/remove
+   */
+  async deleteBGPConnection(
+    routerId: string,
+    connectionId: string,
+    options: BGPConnectionChangeOptions
+  ): Promise<BGPConnectionChangeResult> {
+    const connection = await this.getBGPConnectionById(routerId, connectionId);
+
+    if (!connection) {
+      throw new AppError(404, `BGP connection not found: ${connectionId}`);
+    }
+
+    const safetyBackupId = await this.prepareDestructiveBGPChange(
+      routerId,
+      options,
+      `Deleting ${connection.name || connectionId}`
+    );
+
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      const result = await client.execute(BGP_COMMANDS.CONNECTION.REMOVE, {
+        '.id': connectionId,
+      });
+
+      if (!result.success) {
+        throw new Error(`Failed to delete BGP connection: ${result.error}`);
+      }
+
+      return { connection: null, safetyBackupId };
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
       }
     }
   }
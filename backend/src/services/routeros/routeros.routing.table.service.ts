@@ -0,0 +1,356 @@
+/**
+ * RouterOS Routing Table Service
+ * Pages through /ip/route and /ipv6/route, and finds the route routers would use for an address
+ */
+
+import { prisma } from '../../lib/prisma';
+import { decrypt } from '../../lib/encryption';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection, ROUTER_TRANSPORT_SELECT } from '../../lib/routeros/transport';
+import { ROUTE_COMMANDS, ROUTE_PROTOCOLS } from '../../lib/routeros/constants';
+import { formatPrefix, parsePrefix, prefixWithin, truncatePrefix } from '../../lib/routeros/prefix';
+import type { ParsedPrefix } from '../../lib/routeros/prefix';
+import type { RouterOSClient } from '../../lib/routeros/client';
+import { AppError } from '../../middleware/errorHandler';
+
+// Attributes read from the router, full tables are large so the rest is left out
+const ROUTE_PROPLIST = [
+  '.id', 'dst-address', 'gateway', 'immediate-gw', 'distance', 'scope', 'target-scope', 'routing-table',
+  'pref-src', 'comment', 'belongs-to', 'active', 'dynamic', 'disabled', 'ecmp', 'blackhole', ...ROUTE_PROTOCOLS,
+].join(',');
+
+// Prefix lengths asked for at once during a lookup
+const LOOKUP_BATCH_SIZE = 8;
+
+export type RouteProtocol = typeof ROUTE_PROTOCOLS[number];
+
+export type RouteFamily = 'ipv4' | 'ipv6';
+
+/**
+ * Route from /ip/route/print or /ipv6/route/print
+ */
+export interface RouterOSRoute extends Partial<Record<RouteProtocol, string>> {
+  '.id': string;
+  'dst-address'?: string;
+  gateway?: string;
+  'immediate-gw'?: string;
+  distance?: string;
+  scope?: string;
+  'target-scope'?: string;
+  'routing-table'?: string;
+  'pref-src'?: string;
+  comment?: string;
+  'belongs-to'?: string;
+  active?: string;
+  dynamic?: string;
+  disabled?: string;
+  ecmp?: string;
+  blackhole?: string;
+}
+
+/**
+ * Parsed route (cleaned up for frontend)
+ */
+export interface ParsedRoute {
+  id: string;
+  dstAddress: string;
+  gateway?: string;
+  immediateGateway?: string; // Resolved next hop and interface, e.g. 10.0.0.1%ether1
+  distance?: number;
+  scope?: number;
+  targetScope?: number;
+  routingTable: string;
+  prefSrc?: string;
+  protocol: RouteProtocol | 'unknown';
+  active: boolean;
+  dynamic: boolean;
+  disabled: boolean;
+  ecmp: boolean;
+  blackhole: boolean;
+  comment?: string;
+  belongsTo?: string; // e.g. "bgp-IP-10.0.0.1" for routes learned from a peer
+}
+
+export interface RouteTableFilters {
+  family: RouteFamily;
+  dst?: string;
+  dstMatch: 'exact' | 'within'; // within: dst and every more specific prefix
+  gateway?: string;
+  routingTable?: string;
+  protocol?: RouteProtocol;
+  state?: 'active' | 'inactive';
+  offset: number;
+  limit: number;
+}
+
+/**
+ * One page of the routing table
+ */
+export interface RouteTablePage {
+  routes: ParsedRoute[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  scanned: number; // Routes read from the router to fill the page
+}
+
+/**
+ * The route one router would use for an address
+ */
+export interface RouteLookupResult {
+  routerId: string;
+  routerName?: string;
+  status: 'found' | 'no-route' | 'error';
+  prefix?: string; // Longest matching prefix
+  routes: ParsedRoute[]; // Active routes for that prefix, more than one with ECMP
+  error?: string;
+}
+
+export class RouterOSRoutingTableService {
+  /**
+   * Get router credentials from database and borrow a pooled client
+   * Return it with routerOSPool.release() when done
+   */
+  private async getRouterClient(routerId: string): Promise<RouterOSClient> {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId },
+      select: {
+        ipAddress: true,
+        username: true,
+        password: true,
+        status: true,
+        ...ROUTER_TRANSPORT_SELECT,
+      },
+    });
+
+    if (!router) {
+      throw new Error(`Router with ID ${routerId} not found`);
+    }
+
+    if (router.status !== 'ACTIVE') {
+      throw new Error(`Router is not active (status: ${router.status})`);
+    }
+
+    // Decrypt password
+    let decryptedPassword: string;
+    try {
+      decryptedPassword = decrypt(router.password);
+    } catch (error) {
+      console.error('Failed to decrypt router password:', error);
+      throw new Error('Failed to decrypt router password. The password may be corrupted or encryption key is incorrect.');
+    }
+
+    const config = {
+      host: router.ipAddress,
+      username: router.username,
+      password: decryptedPassword,
+      ...getRouterApiConnection(router),
+    };
+
+    return await routerOSPool.acquire(routerId, config);
+  }
+
+  private parseNumber(value: string | undefined): number | undefined {
+    return value ? parseInt(value, 10) : undefined;
+  }
+
+  private parseRoute(route: RouterOSRoute): ParsedRoute {
+    return {
+      id: route['.id'],
+      dstAddress: route['dst-address'] || '',
+      gateway: route.gateway,
+      immediateGateway: route['immediate-gw'],
+      distance: this.parseNumber(route.distance),
+      scope: this.parseNumber(route.scope),
+      targetScope: this.parseNumber(route['target-scope']),
+      routingTable: route['routing-table'] || 'main',
+      prefSrc: route['pref-src'],
+      protocol: ROUTE_PROTOCOLS.find(protocol => route[protocol] === 'true') ?? 'unknown',
+      active: route.active === 'true',
+      dynamic: route.dynamic === 'true',
+      disabled: route.disabled === 'true',
+      ecmp: route.ecmp === 'true',
+      blackhole: route.blackhole === 'true',
+      comment: route.comment,
+      belongsTo: route['belongs-to'],
+    };
+  }
+
+  /**
+   * Get one page of a router's routing table
+   *
+   * Exact filters are sent to the router as queries. The rest (dst within a
+   * prefix, inactive routes) is checked while the reply streams in, and the
+   * command is cancelled as soon as the page is full, so only one page is
+   * ever held in memory.
+   */
+  async getRoutes(routerId: string, filters: RouteTableFilters): Promise<RouteTablePage> {
+    let container: ParsedPrefix | null = null;
+
+    if (filters.dst) {
+      container = parsePrefix(filters.dst);
+
+      if (!container || container.version !== (filters.family === 'ipv4' ? 4 : 6)) {
+        throw new AppError(400, `Invalid ${filters.family === 'ipv4' ? 'IPv4' : 'IPv6'} prefix: ${filters.dst}`);
+      }
+    }
+
+    const params: Record<string, string> = { '.proplist': ROUTE_PROPLIST };
+
+    if (container && filters.dstMatch === 'exact') {
+      params['?dst-address'] = formatPrefix(container);
+    }
+    if (filters.gateway) {
+      params['?gateway'] = filters.gateway;
+    }
+    if (filters.routingTable) {
+      params['?routing-table'] = filters.routingTable;
+    }
+    if (filters.protocol) {
+      params[`?${filters.protocol}`] = 'true';
+    }
+    if (filters.state === 'active') {
+      params['?active'] = 'true';
+    }
+
+    const command = filters.family === 'ipv4' ? ROUTE_COMMANDS.IPV4.PRINT : ROUTE_COMMANDS.IPV6.PRINT;
+    const routes: ParsedRoute[] = [];
+    let matched = 0;
+    let scanned = 0;
+    let hasMore = false;
+    let client: RouterOSClient | null = null;
+
+    try {
+      client = await this.getRouterClient(routerId);
+
+      try {
+        for await (const sentence of client.stream(command, params)) {
+          const route = sentence as unknown as RouterOSRoute;
+          scanned++;
+
+          if (filters.state === 'inactive' && route.active === 'true') {
+            continue;
+          }
+
+          if (container && filters.dstMatch === 'within') {
+            const dst = parsePrefix(route['dst-address'] || '');
+            if (!dst || !prefixWithin(dst, container)) {
+              continue;
+            }
+          }
+
+          if (matched++ < filters.offset) {
+            continue;
+          }
+
+          // One route past the page tells there is a next page, leaving the loop cancels the print
+          if (routes.length === filters.limit) {
+            hasMore = true;
+            break;
+          }
+
+          routes.push(this.parseRoute(route));
+        }
+      } catch (error) {
+        throw new Error(`Failed to fetch routes: ${error instanceof Error ? error.message : error}`);
+      }
+
+      return { routes, offset: filters.offset, limit: filters.limit, hasMore, scanned };
+    } finally {
+      if (client) {
+        await routerOSPool.release(client);
+      }
+    }
+  }
+
+  /**
+   * Find the active route a router would use for an address, longest prefix first
+   *
+   * API queries only match exact values, so every covering prefix is asked
+   * for, a few lengths at a time, until one has an active route.
+   */
+  private async findLongestMatch(
+    client: RouterOSClient,
+    address: ParsedPrefix,
+    routingTable: string
+  ): Promise<{ prefix: string; routes: ParsedRoute[] } | null> {
+    const command = address.version === 4 ? ROUTE_COMMANDS.IPV4.PRINT : ROUTE_COMMANDS.IPV6.PRINT;
+    const lengths = Array.from({ length: address.length + 1 }, (_, index) => address.length - index);
+
+    for (let i = 0; i < lengths.length; i += LOOKUP_BATCH_SIZE) {
+      const prefixes = lengths.slice(i, i + LOOKUP_BATCH_SIZE).map(length => formatPrefix(truncatePrefix(address, length)));
+
+      const results = await Promise.all(prefixes.map(prefix => client.execute(command, {
+        '.proplist': ROUTE_PROPLIST,
+        '?dst-address': prefix,
+        '?routing-table': routingTable,
+        '?active': 'true',
+      })));
+
+      for (const [index, result] of results.entries()) {
+        if (!result.success) {
+          throw new Error(`Failed to look up route: ${result.error}`);
+        }
+
+        const routes = (result.data || []) as RouterOSRoute[];
+        if (routes.length > 0) {
+          return { prefix: prefixes[index], routes: routes.map(route => this.parseRoute(route)) };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ask several routers which route they would use for an address
+   *
+   * @param routerIds - Routers to ask, each is answered on its own so one unreachable router doesn't fail the rest
+   * @param address - IPv4 or IPv6 host address
+   * @param routingTable - Routing table to look in
+   * @returns One result per router, in the order asked
+   */
+  async lookupRoute(routerIds: string[], address: string, routingTable = 'main'): Promise<RouteLookupResult[]> {
+    const host = address.includes('/') ? null : parsePrefix(address);
+
+    if (!host) {
+      throw new AppError(400, `Invalid IP address: ${address}`);
+    }
+
+    const routers = await prisma.router.findMany({
+      where: { id: { in: routerIds } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(routers.map(router => [router.id, router.name]));
+
+    return await Promise.all(routerIds.map(async (routerId): Promise<RouteLookupResult> => {
+      const routerName = names.get(routerId);
+      let client: RouterOSClient | null = null;
+
+      try {
+        client = await this.getRouterClient(routerId);
+
+        const match = await this.findLongestMatch(client, host, routingTable);
+
+        return match
+          ? { routerId, routerName, status: 'found', ...match }
+          : { routerId, routerName, status: 'no-route', routes: [] };
+      } catch (error) {
+        return {
+          routerId,
+          routerName,
+          status: 'error',
+          routes: [],
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      } finally {
+        if (client) {
+          await routerOSPool.release(client);
+        }
+      }
+    }));
+  }
+}
+
+// Export singleton instance
+export const routerOSRoutingTableService = new RouterOSRoutingTableService();
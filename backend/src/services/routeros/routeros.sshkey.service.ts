@@ -0,0 +1,415 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
+import { decrypt, encrypt } from '../../lib/encryption';
+import { AppError } from '../../middleware/errorHandler';
+import { createSSHClient } from '../../lib/routeros/ssh-client';
+import { generateSshKeyPair } from '../../lib/routeros/ssh-keys';
+import type { RouterOSSSHClient, SSHConfig } from '../../lib/routeros/ssh-client';
+import type { SshKeyAlgorithm } from '../../lib/routeros/ssh-keys';
+import { RouterBrand, RouterStatus, SshAuthMethod } from '@prisma/client';
+import type { Router, SshKey } from '@prisma/client';
+
+/**
+ * RouterOS SSH Key Service
+ * SSH key pairs per company (or global) for key-based router logins
+ *
+ * Keys are pushed with /user ssh-keys import for the router's own user and
+ * checked with a key login before the router is switched to PUBLIC_KEY auth.
+ * Rotation installs a fresh key on every router that has the old one, then
+ * removes the old key from the router. Routers that fail keep the old key,
+ * which stays in the database (inactive) until no router uses it anymore.
+ */
+
+export interface CreateSshKeyOptions {
+  companyId?: string | null; // Null for the global key
+  name: string;
+  algorithm?: SshKeyAlgorithm;
+}
+
+export interface SshKeyRouterResult {
+  routerId: string;
+  routerName: string;
+  ipAddress: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SshKeyReport {
+  keyId: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: SshKeyRouterResult[];
+}
+
+// Never return the private key
+const sshKeySelect = {
+  id: true,
+  companyId: true,
+  name: true,
+  algorithm: true,
+  publicKey: true,
+  fingerprint: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  company: {
+    select: {
+      id: true,
+      name: true,
+      code: true
+    }
+  },
+  _count: {
+    select: { routers: true }
+  }
+};
+
+type RouterSSHAuth = Pick<Router, 'id' | 'password' | 'sshAuthMethod' | 'sshKeyId'>;
+
+type RouterTarget = Pick<Router, 'id' | 'name' | 'ipAddress' | 'sshPort' | 'username' | 'password' | 'sshAuthMethod' | 'sshKeyId'>;
+
+export class RouterOSSshKeyService {
+  /**
+   * List SSH keys, optionally for one company
+   */
+  async listKeys(companyId?: string) {
+    return await prisma.sshKey.findMany({
+      where: companyId ? { companyId } : undefined,
+      select: sshKeySelect,
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }]
+    });
+  }
+
+  /**
+   * Get an SSH key (public part only)
+   */
+  async getKey(keyId: string) {
+    const key = await prisma.sshKey.findUnique({
+      where: { id: keyId },
+      select: sshKeySelect
+    });
+
+    if (!key) {
+      throw new AppError(404, `SSH key not found: ${keyId}`);
+    }
+
+    return key;
+  }
+
+  /**
+   * Generate the SSH key of a company, or the global key
+   * A scope has one active key, replace it with rotateKey()
+   */
+  async createKey(options: CreateSshKeyOptions) {
+    const companyId = options.companyId ?? null;
+
+    if (companyId) {
+      const company = await prisma.company.findUnique({ where: { id: companyId } });
+      if (!company) {
+        throw new AppError(404, `Company not found: ${companyId}`);
+      }
+    }
+
+    const existing = await prisma.sshKey.findFirst({
+      where: { companyId, isActive: true }
+    });
+
+    if (existing) {
+      throw new AppError(409, `${companyId ? 'Company' : 'Global'} SSH key already exists, rotate it instead`);
+    }
+
+    const key = await prisma.sshKey.create({
+      data: await this.generateKeyData(companyId, options.name, options.algorithm ?? 'rsa')
+    });
+
+    return await this.getKey(key.id);
+  }
+
+  /**
+   * Delete an SSH key that no router uses anymore
+   */
+  async deleteKey(keyId: string): Promise<void> {
+    const key = await this.getKey(keyId);
+
+    if (key._count.routers > 0) {
+      throw new AppError(409, `SSH key is still installed on ${key._count.routers} router(s)`);
+    }
+
+    await prisma.sshKey.delete({ where: { id: keyId } });
+  }
+
+  /**
+   * SSH login secret of a router: its installed private key or its password
+   *
+   * @param router - Router with its auth settings
+   * @returns password or privateKey for SSHConfig
+   */
+  async getSSHCredentials(router: RouterSSHAuth): Promise<Pick<SSHConfig, 'password' | 'privateKey'>> {
+    if (router.sshAuthMethod !== SshAuthMethod.PUBLIC_KEY) {
+      return { password: decrypt(router.password) };
+    }
+
+    const key = router.sshKeyId
+      ? await prisma.sshKey.findUnique({ where: { id: router.sshKeyId } })
+      : null;
+
+    if (!key) {
+      throw new Error(`Router ${router.id} uses key-based SSH but has no SSH key installed`);
+    }
+
+    return { privateKey: decrypt(key.privateKey) };
+  }
+
+  /**
+   * Install an active key on routers
+   *
+   * @param keyId - Key to install
+   * @param routerIds - Routers to update, defaults to every ACTIVE MikroTik router the key applies to
+   * @returns Per-router report
+   * @throws AppError 400 if a listed router is not an ACTIVE MikroTik router the key applies to
+   */
+  async deployKey(keyId: string, routerIds?: string[]): Promise<SshKeyReport> {
+    const key = await prisma.sshKey.findUnique({ where: { id: keyId } });
+
+    if (!key) {
+      throw new AppError(404, `SSH key not found: ${keyId}`);
+    }
+
+    if (!key.isActive) {
+      throw new AppError(409, 'Only the active key of a company (or the global key) can be deployed');
+    }
+
+    const routers = await this.findRoutersForKey(key, routerIds);
+
+    if (routerIds) {
+      const eligible = new Set(routers.map(router => router.id));
+      const rejected = [...new Set(routerIds)].filter(id => !eligible.has(id));
+
+      if (rejected.length > 0) {
+        throw new AppError(400, `SSH key cannot be deployed to router(s): ${rejected.join(', ')}`);
+      }
+    }
+
+    return await this.runForRouters(key, routers, router => this.installKey(router, key));
+  }
+
+  /**
+   * Replace a key with a freshly generated one on every router that has it
+   *
+   * @param keyId - Active key to rotate
+   * @returns The new key and a per-router report
+   */
+  async rotateKey(keyId: string) {
+    const oldKey = await prisma.sshKey.findUnique({ where: { id: keyId } });
+
+    if (!oldKey) {
+      throw new AppError(404, `SSH key not found: ${keyId}`);
+    }
+
+    if (!oldKey.isActive) {
+      throw new AppError(409, 'SSH key was already rotated');
+    }
+
+    const newKeyData = await this.generateKeyData(oldKey.companyId, oldKey.name, oldKey.algorithm as SshKeyAlgorithm);
+
+    // Swap in one step, so the scope never has two active keys (or none)
+    const [, newKey] = await prisma.$transaction([
+      prisma.sshKey.update({ where: { id: oldKey.id }, data: { isActive: false } }),
+      prisma.sshKey.create({ data: newKeyData })
+    ]);
+
+    const routers = await prisma.router.findMany({ where: { sshKeyId: oldKey.id } });
+
+    const report = await this.runForRouters(newKey, routers, router => this.installKey(router, newKey, oldKey));
+
+    // Routers that failed still log in with the old key, keep it for them
+    const remaining = await prisma.router.count({ where: { sshKeyId: oldKey.id } });
+    if (remaining === 0) {
+      await prisma.sshKey.delete({ where: { id: oldKey.id } });
+    }
+
+    console.log(
+      `[SSH Keys] Rotated key ${oldKey.id} -> ${newKey.id}: ` +
+      `${report.succeeded} router(s) updated, ${report.failed} failed`
+    );
+
+    return {
+      key: await this.getKey(newKey.id),
+      retiredKeyId: oldKey.id,
+      retiredKeyDeleted: remaining === 0,
+      report
+    };
+  }
+
+  /**
+   * Generate a key pair and build its row, private key encrypted
+   */
+  private async generateKeyData(companyId: string | null, name: string, algorithm: SshKeyAlgorithm) {
+    const id = randomUUID();
+
+    // The comment becomes the key-owner on the router, so the key can be found and removed later
+    const keyPair = await generateSshKeyPair(algorithm, `router-management-${id}`);
+
+    return {
+      id,
+      companyId,
+      name,
+      algorithm,
+      publicKey: keyPair.publicKey,
+      privateKey: encrypt(keyPair.privateKey),
+      fingerprint: keyPair.fingerprint
+    };
+  }
+
+  /**
+   * Active MikroTik routers the key applies to and that don't have it yet
+   * With routerIds, only those routers (a redeploy of the same key is allowed)
+   */
+  private async findRoutersForKey(key: SshKey, routerIds?: string[]) {
+    const routers = await prisma.router.findMany({
+      where: {
+        status: RouterStatus.ACTIVE,
+        routerBrand: RouterBrand.MIKROTIK,
+        ...(key.companyId && { companyId: key.companyId }),
+        ...(routerIds
+          ? { id: { in: routerIds } }
+          : { OR: [{ sshKeyId: null }, { sshKeyId: { not: key.id } }] })
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    if (key.companyId) {
+      return routers;
+    }
+
+    // The global key skips routers whose company has its own key
+    const companiesWithKey = new Set(
+      (await prisma.sshKey.findMany({
+        where: { companyId: { not: null }, isActive: true },
+        select: { companyId: true }
+      })).map(companyKey => companyKey.companyId)
+    );
+
+    return routers.filter(router => !router.companyId || !companiesWithKey.has(router.companyId));
+  }
+
+  /**
+   * Run an operation on routers in chunks and collect the outcome of each
+   */
+  private async runForRouters(
+    key: SshKey,
+    routers: RouterTarget[],
+    operation: (router: RouterTarget) => Promise<void>
+  ): Promise<SshKeyReport> {
+    const chunkSize = Math.max(1, config.routeros.sshKeys.concurrency);
+    const results: SshKeyRouterResult[] = [];
+
+    for (let i = 0; i < routers.length; i += chunkSize) {
+      const chunk = routers.slice(i, i + chunkSize);
+
+      results.push(...await Promise.all(chunk.map(async router => {
+        const result: SshKeyRouterResult = {
+          routerId: router.id,
+          routerName: router.name,
+          ipAddress: router.ipAddress,
+          success: true
+        };
+
+        try {
+          await operation(router);
+        } catch (error) {
+          result.success = false;
+          result.error = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`[SSH Keys] Failed to update ${router.name} (${router.ipAddress}):`, error);
+        }
+
+        return result;
+      })));
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+
+    return {
+      keyId: key.id,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    };
+  }
+
+  /**
+   * Authorize a key on a router, prove it works, then drop the key it replaces
+   */
+  private async installKey(router: RouterTarget, key: SshKey, previousKey?: SshKey): Promise<void> {
+    const connection = {
+      host: router.ipAddress,
+      port: router.sshPort || 22,
+      username: router.username,
+      timeout: 30000
+    };
+
+    // Log in the way the router is set up today
+    const current = await createSSHClient({ ...connection, ...await this.getSSHCredentials(router) });
+    try {
+      await current.importSshKey(router.username, key.publicKey);
+    } finally {
+      current.disconnect();
+    }
+
+    // Only switch the router over once the new key is known to work
+    let verified: RouterOSSSHClient;
+    try {
+      verified = await createSSHClient({ ...connection, privateKey: decrypt(key.privateKey) });
+    } catch (error) {
+      // Don't leave a key behind that the router is not switched to
+      if (router.sshKeyId !== key.id) {
+        await this.removeKey(router, connection, key).catch(cleanupError => {
+          console.error(`[SSH Keys] Failed to remove unverified key ${key.id} from router ${router.id}:`, cleanupError);
+        });
+      }
+
+      throw error;
+    }
+
+    try {
+      if (previousKey) {
+        await verified.removeSshKeys(router.username, getKeyOwner(previousKey));
+      }
+    } finally {
+      verified.disconnect();
+    }
+
+    await prisma.router.update({
+      where: { id: router.id },
+      data: {
+        sshKeyId: key.id,
+        sshAuthMethod: SshAuthMethod.PUBLIC_KEY
+      }
+    });
+  }
+
+  /**
+   * Remove a key from the router, logging in the way the router is set up today
+   */
+  private async removeKey(router: RouterTarget, connection: SSHConfig, key: SshKey): Promise<void> {
+    const current = await createSSHClient({ ...connection, ...await this.getSSHCredentials(router) });
+    try {
+      await current.removeSshKeys(router.username, getKeyOwner(key));
+    } finally {
+      current.disconnect();
+    }
+  }
+}
+
+/**
+ * key-owner RouterOS lists for a key: the comment of its public key
+ */
+function getKeyOwner(key: Pick<SshKey, 'publicKey'>): string {
+  return key.publicKey.trim().split(/\s+/).slice(2).join(' ');
+}
+
+// Export singleton instance
+export const routerOSSshKeyService = new RouterOSSshKeyService();
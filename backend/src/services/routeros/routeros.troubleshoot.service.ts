@@ -4,7 +4,7 @@
  */
 
 import { prisma } from '../../lib/prisma';
-import { decrypt } from '../../lib/encryption';
+import { routerOSSshKeyService } from './routeros.sshkey.service';
 import { RouterOSSSHClient, type SSHConfig } from '../../lib/routeros/ssh-client';
 import { TROUBLESHOOT_DEFAULTS } from '../../lib/routeros/constants';
 
@@ -91,10 +91,13 @@ export class RouterOSTroubleshootService {
     const router = await prisma.router.findUnique({
       where: { id: routerId },
       select: {
+        id: true,
         ipAddress: true,
         username: true,
         password: true,
         sshPort: true,
+        sshAuthMethod: true,
+        sshKeyId: true,
         status: true,
       },
     });
@@ -107,21 +110,22 @@ export class RouterOSTroubleshootService {
       throw new Error(`Router is not active (status: ${router.status})`);
     }
 
-    // Decrypt password
-    let decryptedPassword: string;
+    // Decrypt password (or the SSH key installed on the router)
+    let credentials: Pick<SSHConfig, 'password' | 'privateKey'>;
     try {
-      decryptedPassword = decrypt(router.password);
+      credentials = await routerOSSshKeyService.getSSHCredentials(router);
     } catch (error) {
-      console.error('Failed to decrypt router password:', error);
-      throw new Error('Failed to decrypt router password. The password may be corrupted or encryption key is incorrect.');
+      console.error('Failed to load router SSH credentials:', error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to load router SSH credentials. The password or key may be corrupted or encryption key is incorrect: ${errorMsg}`);
     }
 
     const config: SSHConfig = {
       host: router.ipAddress,
       port: router.sshPort ?? 22,
       username: router.username,
-      password: decryptedPassword,
       timeout: 30000,
+      ...credentials,
     };
 
     const client = new RouterOSSSHClient(config);
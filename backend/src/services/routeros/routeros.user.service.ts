@@ -5,7 +5,9 @@
 
 import { prisma } from '../../lib/prisma';
 import { decrypt } from '../../lib/encryption';
-import { RouterOSClient } from '../../lib/routeros/client';
+import { routerOSPool } from '../../lib/routeros/pool';
+import { getRouterApiConnection, ROUTER_TRANSPORT_SELECT } from '../../lib/routeros/transport';
+import type { RouterOSClient } from '../../lib/routeros/client';
 import { USER_COMMANDS } from '../../lib/routeros/constants';
 import type {
   RouterOSConfig,
@@ -16,7 +18,8 @@ import type {
 
 export class RouterOSUserService {
   /**
-   * Get router credentials from database and create client
+   * Get router credentials from database and borrow a pooled client
+   * Return it with routerOSPool.release() when done
    */
   private async getRouterClient(routerId: string): Promise<RouterOSClient> {
     const router = await prisma.router.findUnique({
@@ -25,8 +28,8 @@ export class RouterOSUserService {
         ipAddress: true,
         username: true,
         password: true,
-        apiPort: true,
         status: true,
+        ...ROUTER_TRANSPORT_SELECT,
       },
     });
 
@@ -49,15 +52,12 @@ export class RouterOSUserService {
 
     const config: RouterOSConfig = {
       host: router.ipAddress,
-      port: router.apiPort || 8728,
       username: router.username,
       password: decryptedPassword,
+      ...getRouterApiConnection(router),
     };
 
-    const client = new RouterOSClient(config);
-    await client.connect();
-
-    return client;
+    return await routerOSPool.acquire(routerId, config);
   }
 
   /**
@@ -94,7 +94,7 @@ export class RouterOSUserService {
       return users.map(user => this.parseRouterUser(user));
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -120,7 +120,7 @@ export class RouterOSUserService {
       return users.length > 0 ? this.parseRouterUser(users[0]) : null;
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -164,7 +164,7 @@ export class RouterOSUserService {
       return user;
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -212,7 +212,7 @@ export class RouterOSUserService {
       return this.parseRouterUser(fetchResult.data[0] as RouterOSUser);
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
@@ -235,7 +235,7 @@ export class RouterOSUserService {
       }
     } finally {
       if (client) {
-        await client.disconnect();
+        await routerOSPool.release(client);
       }
     }
   }
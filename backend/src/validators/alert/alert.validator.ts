@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { AlertRuleType, AlertSeverity, IncidentStatus } from '@prisma/client';
+
+/**
+ * Alert Rule and Incident Validators
+ */
+
+export const alertRuleIdParamSchema = z.object({
+  ruleId: z.string().uuid('Invalid alert rule ID')
+});
+
+export const incidentIdParamSchema = z.object({
+  incidentId: z.string().uuid('Invalid incident ID')
+});
+
+export const listAlertRulesSchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  routerId: z.string().uuid('Invalid router ID').optional()
+});
+
+export type ListAlertRulesQuery = z.infer<typeof listAlertRulesSchema>;
+
+const thresholdFields = {
+  metric: z.enum(['cpu', 'memory', 'temperature', 'voltage']).nullable().optional(),
+  operator: z.enum(['gt', 'lt']).nullable().optional(),
+  threshold: z.number().finite().nullable().optional()
+};
+
+export const createAlertRuleSchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').nullable().optional(), // Omit for every company
+  routerId: z.string().uuid('Invalid router ID').nullable().optional(), // Omit for every router in scope
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.nativeEnum(AlertRuleType),
+  severity: z.nativeEnum(AlertSeverity).optional(),
+  ...thresholdFields,
+  isEnabled: z.boolean().optional()
+});
+
+export type CreateAlertRuleDTO = z.infer<typeof createAlertRuleSchema>;
+
+export const updateAlertRuleSchema = createAlertRuleSchema.omit({ type: true }).partial();
+
+export type UpdateAlertRuleDTO = z.infer<typeof updateAlertRuleSchema>;
+
+export const listIncidentsSchema = z.object({
+  status: z.nativeEnum(IncidentStatus).optional(),
+  severity: z.nativeEnum(AlertSeverity).optional(),
+  routerId: z.string().uuid('Invalid router ID').optional(),
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  limit: z.string().optional().transform(val => parseInt(val || '50')).refine(val => val > 0 && val <= 100),
+  offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0)
+});
+
+export type ListIncidentsQuery = z.infer<typeof listIncidentsSchema>;
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { AlertSeverity, NotificationChannelType } from '@prisma/client';
+
+/**
+ * Notification Channel and Subscription Validators
+ */
+
+export const channelIdParamSchema = z.object({
+  channelId: z.string().uuid('Invalid notification channel ID')
+});
+
+export const listChannelsSchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').optional()
+});
+
+export type ListChannelsQuery = z.infer<typeof listChannelsSchema>;
+
+export const emailSettingsSchema = z.object({
+  host: z.string().trim().min(1, 'SMTP host is required'),
+  port: z.number().int().min(1).max(65535).default(587),
+  secure: z.boolean().default(false), // true for implicit TLS (465)
+  username: z.string().trim().min(1).optional(),
+  from: z.string().trim().min(1, 'Sender address is required')
+});
+
+export const webhookSettingsSchema = z.object({
+  url: z.string().url('Invalid webhook URL').refine(val => /^https?:\/\//.test(val), 'Webhook URL must be http or https')
+});
+
+export const telegramSettingsSchema = z.object({
+  chatId: z.string().trim().regex(/^(-?\d+|@\w+)$/, 'Invalid Telegram chat ID').optional()
+});
+
+// Settings of a channel type, for updates where the type comes from the stored channel
+export const channelSettingsSchemas = {
+  [NotificationChannelType.EMAIL]: emailSettingsSchema,
+  [NotificationChannelType.WEBHOOK]: webhookSettingsSchema,
+  [NotificationChannelType.TELEGRAM]: telegramSettingsSchema
+};
+
+const channelBase = {
+  companyId: z.string().uuid('Invalid company ID').nullable().optional(), // Omit for every company
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  secret: z.string().min(1).max(500).nullable().optional(), // SMTP password, webhook signing secret or bot token
+  isEnabled: z.boolean().optional()
+};
+
+export const createChannelSchema = z.discriminatedUnion('type', [
+  z.object({ ...channelBase, type: z.literal(NotificationChannelType.EMAIL), settings: emailSettingsSchema }),
+  z.object({ ...channelBase, type: z.literal(NotificationChannelType.WEBHOOK), settings: webhookSettingsSchema }),
+  z.object({ ...channelBase, type: z.literal(NotificationChannelType.TELEGRAM), settings: telegramSettingsSchema })
+]);
+
+export type CreateChannelDTO = z.infer<typeof createChannelSchema>;
+
+export const updateChannelSchema = z.object({
+  name: channelBase.name.optional(),
+  settings: z.record(z.unknown()).optional(), // Checked against the channel type
+  secret: channelBase.secret, // Omit to keep, null to clear
+  isEnabled: z.boolean().optional()
+});
+
+export type UpdateChannelDTO = z.infer<typeof updateChannelSchema>;
+
+export const subscribeSchema = z.object({
+  minSeverity: z.nativeEnum(AlertSeverity).optional(),
+  target: z.string().trim().max(255).nullable().optional() // Email address or Telegram chat ID
+});
+
+export type SubscribeDTO = z.infer<typeof subscribeSchema>;
@@ -4,6 +4,29 @@ export const routerIdParamSchema = z.object({
   routerId: z.string().uuid('Invalid router ID'),
 });
 
+const apiTransportSchema = z.enum(['PLAIN', 'SSL', 'SSL_VERIFY']);
+
+// PEM certificate to trust for API-SSL, empty clears it
+const apiTlsCaSchema = z.string()
+  .trim()
+  .refine(val => val === '' || /-----BEGIN CERTIFICATE-----[\s\S]+-----END CERTIFICATE-----/.test(val), 'TLS CA must be a PEM certificate')
+  .transform(val => val === '' ? null : val);
+
+// SHA-256 certificate fingerprint, stored as AB:CD:... like Node reports it, empty clears it
+const apiTlsFingerprintSchema = z.string()
+  .transform(val => val.replace(/[\s:]/g, '').toUpperCase())
+  .refine(val => val === '' || /^[0-9A-F]{64}$/.test(val), 'TLS fingerprint must be a SHA-256 hash (64 hex characters)')
+  .transform(val => val === '' ? null : val.match(/../g)!.join(':'));
+
+// A pinned CA or fingerprint only means something when the certificate is verified
+const tlsPinsNeedVerification = (data: { apiTransport?: string; apiTlsCa?: string | null; apiTlsFingerprint?: string | null }) =>
+  data.apiTransport === undefined || data.apiTransport === 'SSL_VERIFY' || (!data.apiTlsCa && !data.apiTlsFingerprint);
+
+const tlsPinsMessage = {
+  message: 'A pinned TLS CA or fingerprint requires the SSL_VERIFY transport',
+  path: ['apiTransport']
+};
+
 export const createRouterSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   ipAddress: z.string().ip('Invalid IP address'),
@@ -17,8 +40,12 @@ export const createRouterSchema = z.object({
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
   apiPort: z.coerce.number().int().positive().optional(),
-  sshPort: z.coerce.number().int().positive().optional()
-});
+  sshPort: z.coerce.number().int().positive().optional(),
+  apiTransport: apiTransportSchema.optional(),
+  apiTlsCa: apiTlsCaSchema.nullable().optional(),
+  apiTlsFingerprint: apiTlsFingerprintSchema.nullable().optional(),
+  backupShowSensitive: z.boolean().optional()
+}).refine(tlsPinsNeedVerification, tlsPinsMessage);
 
 export const updateRouterSchema = z.object({
   name: z.string().min(1).optional(),
@@ -34,8 +61,13 @@ export const updateRouterSchema = z.object({
   username: z.string().min(1).optional(),
   password: z.string().optional().transform(val => val === '' ? undefined : val),
   apiPort: z.coerce.number().int().positive().optional(),
-  sshPort: z.coerce.number().int().positive().optional()
-});
+  sshPort: z.coerce.number().int().positive().optional(),
+  apiTransport: apiTransportSchema.optional(),
+  apiTlsCa: apiTlsCaSchema.nullable().optional(),
+  apiTlsFingerprint: apiTlsFingerprintSchema.nullable().optional(),
+  sshAuthMethod: z.enum(['PASSWORD', 'PUBLIC_KEY']).optional(), // PUBLIC_KEY needs a deployed SSH key
+  backupShowSensitive: z.boolean().optional()
+}).refine(tlsPinsNeedVerification, tlsPinsMessage);
 
 export type CreateRouterInput = z.infer<typeof createRouterSchema>;
 export type UpdateRouterInput = z.infer<typeof updateRouterSchema>;
@@ -1,29 +1,65 @@
 import { z } from 'zod';
-import { BackupType, BackupStatus, RestoreType } from '@prisma/client';
+import { BackupType, BackupStatus, RestoreType, RouterType } from '@prisma/client';
+import { isValidCronExpression, isValidTimezone } from '../../lib/cron';
 
 /**
  * Backup Management Validators
  */
 
+// RouterOS menu path, e.g. "/ip firewall" or "/routing bgp"
+const sectionPathSchema = z.string()
+  .trim()
+  .regex(/^(\/[a-z0-9-]+)( [a-z0-9-]+)*$/, 'Invalid section (expected a menu path, e.g. /ip firewall)');
+
 // Trigger manual backup
 export const triggerBackupSchema = z.object({
   routerId: z.string().uuid('Invalid router ID'),
   compact: z.boolean().optional().default(false),
-  backupType: z.nativeEnum(BackupType).optional().default(BackupType.EXPORT)
+  backupType: z.nativeEnum(BackupType).optional().default(BackupType.EXPORT),
+  // Create several backup types in one run, e.g. EXPORT and BINARY
+  backupTypes: z.array(z.enum([BackupType.EXPORT, BackupType.BINARY])).min(1).optional(),
+  binaryPassword: z.string().min(1).max(100).optional(), // Encrypts the .backup file on the router
+  sections: z.array(sectionPathSchema).min(1).max(20).optional(), // Required for PARTIAL backups
+  showSensitive: z.boolean().optional() // Export secrets, defaults to the router setting
+}).refine(data => data.backupType !== BackupType.PARTIAL || data.backupTypes || data.sections, {
+  message: 'Partial backups need at least one section',
+  path: ['sections']
 });
 
 export type TriggerBackupDTO = z.infer<typeof triggerBackupSchema>;
 
 // Restore backup
 export const restoreBackupSchema = z.object({
-  backupId: z.string().uuid('Invalid backup ID'),
   routerId: z.string().uuid('Invalid router ID'),
   createSafetyBackup: z.boolean().optional().default(true),
-  restoreType: z.nativeEnum(RestoreType).optional().default(RestoreType.FULL)
+  restoreType: z.nativeEnum(RestoreType).optional().default(RestoreType.FULL),
+  method: z.enum(['SSH', 'API']).optional().default('SSH'), // API is a line-by-line fallback
+  sections: z.array(sectionPathSchema).min(1).max(20).optional() // Required for PARTIAL restores
+}).refine(data => data.restoreType !== RestoreType.PARTIAL || data.sections, {
+  message: 'Partial restores need at least one section',
+  path: ['sections']
 });
 
 export type RestoreBackupDTO = z.infer<typeof restoreBackupSchema>;
 
+// Fleet-wide backup job (all ACTIVE routers when no filter is given)
+export const createBackupJobSchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  routerType: z.nativeEnum(RouterType).optional(),
+  backupType: z.enum([BackupType.EXPORT, BackupType.BINARY]).optional().default(BackupType.EXPORT),
+  compact: z.boolean().optional().default(false)
+});
+
+export type CreateBackupJobDTO = z.infer<typeof createBackupJobSchema>;
+
+// List backup jobs query params
+export const listBackupJobsSchema = z.object({
+  limit: z.string().optional().transform(val => parseInt(val || '20')).refine(val => val > 0 && val <= 100),
+  offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0)
+});
+
+export type ListBackupJobsQuery = z.infer<typeof listBackupJobsSchema>;
+
 // Pin/unpin backup
 export const pinBackupSchema = z.object({
   reason: z.string().max(500).optional()
@@ -31,18 +67,35 @@ export const pinBackupSchema = z.object({
 
 export type PinBackupDTO = z.infer<typeof pinBackupSchema>;
 
+// Compare backups query params
+export const compareBackupsSchema = z.object({
+  baseId: z.string().uuid(),
+  targetId: z.string().uuid()
+});
+
+export type CompareBackupsQuery = z.infer<typeof compareBackupsSchema>;
+
 // List backups query params
 export const listBackupsSchema = z.object({
   routerId: z.string().uuid().optional(),
   companyId: z.string().uuid().optional(),
   status: z.nativeEnum(BackupStatus).optional(),
   isPinned: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+  changedOnly: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
   limit: z.string().optional().transform(val => parseInt(val || '50')).refine(val => val > 0 && val <= 100),
   offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0)
 });
 
 export type ListBackupsQuery = z.infer<typeof listBackupsSchema>;
 
+// Router change timeline query params
+export const changeTimelineSchema = z.object({
+  limit: z.string().optional().transform(val => parseInt(val || '50')).refine(val => val > 0 && val <= 100),
+  offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0)
+});
+
+export type ChangeTimelineQuery = z.infer<typeof changeTimelineSchema>;
+
 // Get download URL query params
 export const downloadUrlSchema = z.object({
   expiresIn: z.string().optional()
@@ -51,3 +104,73 @@ export const downloadUrlSchema = z.object({
 });
 
 export type DownloadUrlQuery = z.infer<typeof downloadUrlSchema>;
+
+// Backup schedule
+const cronExpressionSchema = z.string()
+  .trim()
+  .refine(isValidCronExpression, 'Invalid cron expression (expected 5 fields: minute hour day month weekday)');
+
+const timezoneSchema = z.string()
+  .refine(isValidTimezone, 'Invalid timezone (expected IANA name, e.g. Asia/Jakarta)');
+
+export const createScheduleSchema = z.object({
+  routerId: z.string().uuid('Invalid router ID').optional(),
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  isEnabled: z.boolean().optional().default(true),
+  cronExpression: cronExpressionSchema,
+  timezone: timezoneSchema.optional().default('UTC'),
+  showSensitive: z.boolean().nullable().optional(), // Null = use the router setting
+  retentionDays: z.number().int().min(0).max(365).optional(),
+  retentionWeeks: z.number().int().min(0).max(104).optional(),
+  retentionMonths: z.number().int().min(0).max(120).optional()
+}).refine(data => data.routerId || data.companyId, {
+  message: 'Either routerId or companyId is required',
+  path: ['routerId']
+}).refine(data => !(data.routerId && data.companyId), {
+  message: 'A schedule targets either a router or a company, not both',
+  path: ['companyId']
+});
+
+export type CreateScheduleDTO = z.infer<typeof createScheduleSchema>;
+
+export const updateScheduleSchema = z.object({
+  routerId: z.string().uuid('Invalid router ID').optional(),
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  isEnabled: z.boolean().optional(),
+  cronExpression: cronExpressionSchema.optional(),
+  timezone: timezoneSchema.optional(),
+  showSensitive: z.boolean().nullable().optional(),
+  retentionDays: z.number().int().min(0).max(365).optional(),
+  retentionWeeks: z.number().int().min(0).max(104).optional(),
+  retentionMonths: z.number().int().min(0).max(120).optional()
+}).refine(data => !(data.routerId && data.companyId), {
+  message: 'A schedule targets either a router or a company, not both',
+  path: ['companyId']
+});
+
+export type UpdateScheduleDTO = z.infer<typeof updateScheduleSchema>;
+
+// List schedules query params
+export const listSchedulesSchema = z.object({
+  routerId: z.string().uuid().optional(),
+  companyId: z.string().uuid().optional(),
+  isEnabled: z.enum(['true', 'false']).optional().transform(val => val === undefined ? undefined : val === 'true')
+});
+
+export type ListSchedulesQuery = z.infer<typeof listSchedulesSchema>;
+
+// List schedule runs query params
+export const listScheduleRunsSchema = z.object({
+  limit: z.string().optional().transform(val => parseInt(val || '50')).refine(val => val > 0 && val <= 100),
+  offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0)
+});
+
+export type ListScheduleRunsQuery = z.infer<typeof listScheduleRunsSchema>;
+
+// Retention preview/enforce target
+export const retentionTargetSchema = z.object({
+  routerId: z.string().uuid().optional(),
+  companyId: z.string().uuid().optional()
+});
+
+export type RetentionTargetDTO = z.infer<typeof retentionTargetSchema>;
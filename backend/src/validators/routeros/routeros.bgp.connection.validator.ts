@@ -0,0 +1,94 @@
+/**
+ * RouterOS BGP Connection Validators
+ * Zod schemas for creating, updating and deleting BGP connections
+ */
+
+import { z } from 'zod';
+import { parsePrefix } from '../../lib/routeros/prefix';
+
+/**
+ * BGP roles of /routing/bgp/connection local.role (RouterOS v7)
+ */
+export const BGP_LOCAL_ROLES = [
+  'ebgp',
+  'ebgp-customer',
+  'ebgp-peer',
+  'ebgp-provider',
+  'ebgp-rs',
+  'ebgp-rs-client',
+  'ibgp',
+  'ibgp-rr',
+  'ibgp-rr-client',
+] as const;
+
+const asNumber = z.string()
+  .regex(/^\d+(\.\d+)?$/, 'AS number must be plain (65000) or dotted (1.10)');
+
+// Single address or a prefix the peer may connect from
+const remoteAddress = z.string()
+  .regex(/^[\da-fA-F:.]+(\/\d{1,3})?$/, 'Remote address must be an IPv4/IPv6 address or prefix')
+  .refine(val => parsePrefix(val) !== null, 'Remote address must be an IPv4/IPv6 address or prefix');
+
+const localAddress = z.string().ip('Local address must be an IPv4/IPv6 address');
+
+// RouterOS time, 3s up to 1h, or infinity
+const holdTime = z.string()
+  .regex(/^(infinity|(\d+[smh])+|\d+)$/, 'Hold time must look like 90s, 3m or infinity');
+
+// Names RouterOS accepts without quoting
+const itemName = z.string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w.-]+$/, 'Only letters, digits, "_", "." and "-" are allowed');
+
+const connectionFields = {
+  remoteAddress,
+  remoteAs: asNumber.optional(),
+  remotePort: z.number().int().min(1).max(65535).optional(),
+  localRole: z.enum(BGP_LOCAL_ROLES),
+  localAddress: localAddress.optional(),
+  localAs: asNumber.optional(),
+  templates: z.array(itemName).optional(),
+  inFilter: itemName.or(z.literal('')).optional(), // Empty string removes the chain
+  outFilter: itemName.or(z.literal('')).optional(),
+  multihop: z.boolean().optional(),
+  tcpMd5Key: z.string().max(80, 'TCP MD5 key too long').optional(), // Empty string removes the key
+  holdTime: holdTime.optional(),
+  comment: z.string().max(255).optional(),
+  disabled: z.boolean().optional(),
+};
+
+/**
+ * Create BGP connection request body validation
+ */
+export const createBGPConnectionSchema = z.object({
+  name: itemName,
+  ...connectionFields,
+});
+
+/**
+ * Update BGP connection request body validation
+ * confirm must be true when the change tears the session down
+ */
+export const updateBGPConnectionSchema = z.object({
+  name: itemName.optional(),
+  ...connectionFields,
+  remoteAddress: remoteAddress.optional(),
+  localRole: z.enum(BGP_LOCAL_ROLES).optional(),
+  confirm: z.boolean().optional().default(false),
+}).refine(
+  ({ confirm: _confirm, ...data }) => Object.values(data).some(value => value !== undefined),
+  { message: 'At least one field must be provided for update' }
+);
+
+/**
+ * Delete BGP connection request body validation
+ */
+export const deleteBGPConnectionSchema = z.object({
+  confirm: z.boolean().optional().default(false),
+});
+
+export type CreateBGPConnectionInput = z.infer<typeof createBGPConnectionSchema>;
+export type UpdateBGPConnectionInput = z.infer<typeof updateBGPConnectionSchema>;
+export type DeleteBGPConnectionInput = z.infer<typeof deleteBGPConnectionSchema>;
+export type BGPLocalRole = typeof BGP_LOCAL_ROLES[number];
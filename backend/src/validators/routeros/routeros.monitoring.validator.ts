@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * RouterOS Monitoring Validators
+ */
+
+export const monitoringRouterIdParamSchema = z.object({
+  routerId: z.string().uuid('Invalid router ID')
+});
+
+export const metricHistoryQuerySchema = z.object({
+  range: z.enum(['hour', 'day', 'week']).default('hour')
+});
+
+export type MetricHistoryQuery = z.infer<typeof metricHistoryQuerySchema>;
@@ -0,0 +1,76 @@
+/**
+ * RouterOS Routing Filter Validators
+ * Zod schemas for routing filter rules and the chain tester
+ */
+
+import { z } from 'zod';
+import { parsePrefix } from '../../lib/routeros/prefix';
+
+// Names RouterOS accepts without quoting
+const chainName = z.string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w.-]+$/, 'Only letters, digits, "_", "." and "-" are allowed');
+
+const ruleId = z.string().regex(/^\*[\dA-Fa-f]+$/, 'Invalid rule ID');
+
+const ruleText = z.string().trim().min(1, 'Rule is required').max(4096, 'Rule too long');
+
+const prefix = z.string()
+  .regex(/^[\da-fA-F:.]+(\/\d{1,3})?$/, 'Must be an IPv4/IPv6 address or prefix')
+  .refine(val => parsePrefix(val) !== null, 'Must be an IPv4/IPv6 address or prefix');
+
+/**
+ * Routing filter rule list query validation
+ */
+export const routingFilterRulesQuerySchema = z.object({
+  chain: chainName.optional(),
+});
+
+/**
+ * Create routing filter rule body validation
+ */
+export const createRoutingFilterRuleSchema = z.object({
+  chain: chainName,
+  rule: ruleText,
+  comment: z.string().max(255).optional(),
+  disabled: z.boolean().optional(),
+  placeBefore: ruleId.optional(), // Goes last in the chain when omitted
+});
+
+/**
+ * Update routing filter rule body validation
+ */
+export const updateRoutingFilterRuleSchema = z.object({
+  rule: ruleText.optional(),
+  comment: z.string().max(255).optional(),
+}).refine(
+  data => data.rule !== undefined || data.comment !== undefined,
+  { message: 'At least one field must be provided for update' }
+);
+
+/**
+ * Move routing filter rule body validation
+ */
+export const moveRoutingFilterRuleSchema = z.object({
+  destination: ruleId.optional(), // Rule to move in front of, the end of the chain when omitted
+});
+
+/**
+ * Routing filter chain test body validation
+ */
+export const testRoutingFilterChainSchema = z.object({
+  chain: chainName,
+  dst: prefix,
+  asPath: z.array(z.number().int().min(0).max(4294967295)).max(255).default([]),
+  communities: z.array(z.string().regex(/^(\d+:\d+|[a-z-]+)$/, 'Communities look like 65000:100 or no-export')).max(64).default([]),
+  localPref: z.number().int().min(0).max(4294967295).optional(),
+  med: z.number().int().min(0).max(4294967295).optional(),
+  protocol: z.string().max(32).default('bgp'),
+});
+
+export type RoutingFilterRulesQuery = z.infer<typeof routingFilterRulesQuerySchema>;
+export type CreateRoutingFilterRuleInput = z.infer<typeof createRoutingFilterRuleSchema>;
+export type UpdateRoutingFilterRuleInput = z.infer<typeof updateRoutingFilterRuleSchema>;
+export type MoveRoutingFilterRuleInput = z.infer<typeof moveRoutingFilterRuleSchema>;
+export type TestRoutingFilterChainInput = z.infer<typeof testRoutingFilterChainSchema>;
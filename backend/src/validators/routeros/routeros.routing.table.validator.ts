@@ -0,0 +1,43 @@
+/**
+ * RouterOS Routing Table Validators
+ * Zod schemas for the route table browser and the longest-prefix lookup
+ */
+
+import { z } from 'zod';
+import { ROUTE_PROTOCOLS } from '../../lib/routeros/constants';
+import { parsePrefix } from '../../lib/routeros/prefix';
+
+const routingTableName = z.string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w.-]+$/, 'Only letters, digits, "_", "." and "-" are allowed');
+
+/**
+ * Route table query validation
+ */
+export const routeTableQuerySchema = z.object({
+  family: z.enum(['ipv4', 'ipv6']).default('ipv4'),
+  dst: z.string()
+    .regex(/^[\da-fA-F:.]+(\/\d{1,3})?$/, 'Must be an IPv4/IPv6 address or prefix')
+    .refine(val => parsePrefix(val) !== null, 'Must be an IPv4/IPv6 address or prefix')
+    .optional(),
+  dstMatch: z.enum(['exact', 'within']).default('within'), // within: the prefix and everything more specific
+  gateway: z.string().min(1).max(128).optional(),
+  routingTable: routingTableName.optional(),
+  protocol: z.enum(ROUTE_PROTOCOLS).optional(),
+  state: z.enum(['active', 'inactive']).optional(),
+  limit: z.string().optional().transform(val => parseInt(val || '100')).refine(val => val > 0 && val <= 500),
+  offset: z.string().optional().transform(val => parseInt(val || '0')).refine(val => val >= 0),
+});
+
+/**
+ * Longest-prefix lookup body validation
+ */
+export const routeLookupSchema = z.object({
+  address: z.string().ip('Must be an IPv4 or IPv6 address'),
+  routerIds: z.array(z.string().uuid('Invalid router ID')).min(1).max(50),
+  routingTable: routingTableName.default('main'),
+});
+
+export type RouteTableQuery = z.infer<typeof routeTableQuerySchema>;
+export type RouteLookupInput = z.infer<typeof routeLookupSchema>;
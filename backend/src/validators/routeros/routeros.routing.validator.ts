@@ -65,6 +65,13 @@ export const bgpConnectionResetSchema = z.object({
   soft: z.boolean().optional().default(false), // Soft reset without tearing down session
 });
 
+/**
+ * BGP peer history query validation
+ */
+export const bgpPeerHistoryQuerySchema = z.object({
+  range: z.enum(['day', 'week', 'month']).default('day'),
+});
+
 // Export types
 export type RouterIdParams = z.infer<typeof routerIdParamSchema>;
 export type ConnectionIdParams = z.infer<typeof connectionIdParamSchema>;
@@ -74,3 +81,4 @@ export type RouterSessionIdParams = z.infer<typeof routerSessionIdParamsSchema>;
 export type BGPAdvertisementFilter = z.infer<typeof bgpAdvertisementFilterSchema>;
 export type BGPConnectionActionInput = z.infer<typeof bgpConnectionActionSchema>;
 export type BGPConnectionResetInput = z.infer<typeof bgpConnectionResetSchema>;
+export type BGPPeerHistoryQuery = z.infer<typeof bgpPeerHistoryQuerySchema>;
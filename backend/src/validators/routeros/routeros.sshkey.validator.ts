@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * RouterOS SSH Key Validators
+ */
+
+export const sshKeyIdParamSchema = z.object({
+  keyId: z.string().uuid('Invalid SSH key ID')
+});
+
+export const listSshKeysSchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').optional()
+});
+
+export type ListSshKeysQuery = z.infer<typeof listSshKeysSchema>;
+
+export const createSshKeySchema = z.object({
+  companyId: z.string().uuid('Invalid company ID').nullable().optional(), // Omit for the global key
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  algorithm: z.enum(['rsa', 'ed25519']).optional() // ed25519 needs RouterOS 7
+});
+
+export type CreateSshKeyDTO = z.infer<typeof createSshKeySchema>;
+
+export const deploySshKeySchema = z.object({
+  routerIds: z.array(z.string().uuid('Invalid router ID')).min(1).max(500).optional() // Defaults to every router the key applies to
+});
+
+export type DeploySshKeyDTO = z.infer<typeof deploySshKeySchema>;
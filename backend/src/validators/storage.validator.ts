@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Storage Validators
+ */
+
+// Signed download query params (local storage files and encrypted backups)
+export const signedDownloadSchema = z.object({
+  expires: z.string().regex(/^\d+$/, 'Invalid expiry').transform(val => parseInt(val, 10)),
+  signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid signature')
+});
+
+export type SignedDownloadQuery = z.infer<typeof signedDownloadSchema>;
@@ -0,0 +1,92 @@
+import { db } from './helpers/setup';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { alertEvaluatorService } from '../src/services/alert/alert.evaluator.service';
+import { notificationService } from '../src/services/alert/notification.service';
+import { createRouter } from './helpers/fixtures';
+
+describe('AlertEvaluatorService', () => {
+  let notifications: Array<[string, string]>;
+
+  beforeEach(() => {
+    db.reset();
+    notifications = [];
+    mock.method(notificationService, 'notifyIncident', async (incidentId: string, event: string) => {
+      notifications.push([incidentId, event]);
+      return [];
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function createUnreachableRouter() {
+    const router = await createRouter(db, { apiPort: 1, sshPort: 1 }, {
+      isReachable: false,
+      lastPollError: 'Connection timed out'
+    });
+    const rule = await db.alertRule.create({
+      data: { name: 'Router down', type: 'ROUTER_UNREACHABLE', severity: 'CRITICAL' }
+    });
+
+    return { router, rule };
+  }
+
+  test('opens one incident per dedup key across evaluations', async () => {
+    const { router, rule } = await createUnreachableRouter();
+
+    const first = await alertEvaluatorService.evaluate(new Date('2026-03-01T10:00:00Z'));
+    const second = await alertEvaluatorService.evaluate(new Date('2026-03-01T10:01:00Z'));
+
+    assert.equal(first.opened, 1);
+    assert.equal(second.opened, 0);
+    assert.equal(db.alertIncident.rows.length, 1);
+
+    const [incident] = db.alertIncident.rows;
+    assert.equal(incident.dedupKey, `${rule.id}:${router.id}:reachability`);
+    assert.equal(incident.severity, 'CRITICAL');
+    assert.equal(incident.occurrences, 2);
+    assert.deepEqual(incident.lastSeenAt, new Date('2026-03-01T10:01:00Z'));
+    assert.deepEqual(notifications, [[incident.id, 'opened']]);
+  });
+
+  test('overlapping evaluations open and notify once', async () => {
+    await createUnreachableRouter();
+
+    const results = await Promise.all([alertEvaluatorService.evaluate(), alertEvaluatorService.evaluate()]);
+
+    assert.equal(results[0].opened + results[1].opened, 1);
+    assert.equal(db.alertIncident.rows.length, 1);
+    assert.deepEqual(notifications, [[db.alertIncident.rows[0].id, 'opened']]);
+  });
+
+  test('resolves once when the condition clears', async () => {
+    const { router } = await createUnreachableRouter();
+
+    await alertEvaluatorService.evaluate();
+    await db.router.update({ where: { id: router.id }, data: { isReachable: true, lastPollError: null } });
+
+    const results = await Promise.all([alertEvaluatorService.evaluate(), alertEvaluatorService.evaluate()]);
+    const later = await alertEvaluatorService.evaluate();
+
+    const [incident] = db.alertIncident.rows;
+    assert.equal(results[0].resolved + results[1].resolved, 1);
+    assert.equal(later.resolved, 0);
+    assert.equal(incident.status, 'RESOLVED');
+    assert.equal(incident.resolvedBy, null);
+    assert.deepEqual(notifications, [[incident.id, 'opened'], [incident.id, 'resolved']]);
+  });
+
+  test('leaves incidents alone while reachability is unknown', async () => {
+    const { router } = await createUnreachableRouter();
+
+    await alertEvaluatorService.evaluate();
+    await db.router.update({ where: { id: router.id }, data: { isReachable: null } });
+    const result = await alertEvaluatorService.evaluate();
+
+    assert.equal(result.checks, 0);
+    assert.equal(db.alertIncident.rows[0].status, 'OPEN');
+    assert.equal(notifications.length, 1);
+  });
+});
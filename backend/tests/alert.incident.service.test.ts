@@ -0,0 +1,85 @@
+import { db } from './helpers/setup';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertIncidentService } from '../src/services/alert/alert.incident.service';
+import { alertEvaluatorService } from '../src/services/alert/alert.evaluator.service';
+import { notificationService } from '../src/services/alert/notification.service';
+import { createRouter } from './helpers/fixtures';
+
+describe('AlertIncidentService', () => {
+  const alertIncidentService = new AlertIncidentService();
+  let notifications: Array<[string, string]>;
+
+  beforeEach(() => {
+    db.reset();
+    notifications = [];
+    mock.method(notificationService, 'notifyIncident', async (incidentId: string, event: string) => {
+      notifications.push([incidentId, event]);
+      return [];
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function openIncident() {
+    await createRouter(db, { apiPort: 1, sshPort: 1 }, { isReachable: false });
+    await db.alertRule.create({ data: { name: 'Router down', type: 'ROUTER_UNREACHABLE' } });
+    await alertEvaluatorService.evaluate();
+
+    return db.alertIncident.rows[0];
+  }
+
+  test('acknowledges, keeps deduplicating, then resolves', async () => {
+    const incident = await openIncident();
+
+    const acknowledged = await alertIncidentService.acknowledgeIncident(incident.id, 'user-1');
+    assert.equal(acknowledged.status, 'ACKNOWLEDGED');
+    assert.equal(acknowledged.acknowledgedBy, 'user-1');
+    assert.equal(acknowledged.rule.name, 'Router down');
+    await assert.rejects(
+      alertIncidentService.acknowledgeIncident(incident.id, 'user-1'),
+      { statusCode: 409, message: 'Incident is already acknowledged' }
+    );
+
+    // Still down: the acknowledged incident is bumped, nothing new is opened or sent
+    await alertEvaluatorService.evaluate();
+    assert.equal(db.alertIncident.rows.length, 1);
+    assert.equal(incident.occurrences, 2);
+
+    const resolved = await alertIncidentService.resolveIncident(incident.id, 'user-2');
+    assert.equal(resolved.status, 'RESOLVED');
+    assert.equal(resolved.resolvedBy, 'user-2');
+    assert.ok(resolved.resolvedAt);
+    await assert.rejects(
+      alertIncidentService.resolveIncident(incident.id, 'user-2'),
+      { statusCode: 409, message: 'Incident is already resolved' }
+    );
+    await assert.rejects(
+      alertIncidentService.acknowledgeIncident(incident.id, 'user-1'),
+      { statusCode: 409, message: 'Incident is already resolved' }
+    );
+
+    assert.deepEqual(notifications, [[incident.id, 'opened'], [incident.id, 'resolved']]);
+  });
+
+  test('opens a new incident when a resolved condition is still there', async () => {
+    const incident = await openIncident();
+
+    await alertIncidentService.resolveIncident(incident.id, 'user-1');
+    const result = await alertEvaluatorService.evaluate();
+
+    assert.equal(result.opened, 1);
+    assert.equal(db.alertIncident.rows.length, 2);
+    assert.equal(db.alertIncident.rows[1].status, 'OPEN');
+    assert.equal(db.alertIncident.rows[1].dedupKey, incident.dedupKey);
+  });
+
+  test('rejects unknown incidents', async () => {
+    await assert.rejects(
+      alertIncidentService.acknowledgeIncident('missing', 'user-1'),
+      { statusCode: 404 }
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { db } from './helpers/setup';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config';
+import {
+  BACKUP_ENCRYPTION_ALGORITHM,
+  decryptBackupContent,
+  encryptBackupContent,
+  getMasterKeyId,
+  rewrapDataKey
+} from '../src/lib/backup-encryption';
+import { routerOSBackupService } from '../src/services/routeros/routeros.backup.service';
+
+const KEY_A = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const KEY_B = 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const KEY_C = 'cccccccccccccccccccccccccccccccc';
+
+const CONTENT = '# by RouterOS 7.16\n/system identity\nset name=core-1\n';
+
+describe('backup encryption', () => {
+  const original = { ...config.backup.encryption };
+
+  beforeEach(() => {
+    config.backup.encryption.masterKey = KEY_A;
+    config.backup.encryption.previousMasterKeys = [];
+  });
+
+  afterEach(() => {
+    Object.assign(config.backup.encryption, original);
+  });
+
+  /**
+   * Switch to a new master key, keeping the old ones for decryption
+   */
+  function rotateTo(masterKey: string, previousMasterKeys: string[]) {
+    config.backup.encryption.masterKey = masterKey;
+    config.backup.encryption.previousMasterKeys = previousMasterKeys;
+  }
+
+  test('round trips content under a fresh data key each time', () => {
+    const first = encryptBackupContent(CONTENT);
+    const second = encryptBackupContent(Buffer.from(CONTENT));
+
+    assert.equal(first.encryption.encryptionAlgorithm, BACKUP_ENCRYPTION_ALGORITHM);
+    assert.equal(first.encryption.masterKeyId, getMasterKeyId(KEY_A));
+    assert.match(first.encryption.wrappedDataKey!, /^[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]{64}$/);
+    assert.notEqual(first.encryption.wrappedDataKey, second.encryption.wrappedDataKey);
+    assert.notDeepEqual(first.content, second.content);
+    assert.equal(first.content.includes('core-1'), false);
+
+    assert.equal(decryptBackupContent(first.content, first.encryption).toString('utf-8'), CONTENT);
+    assert.equal(decryptBackupContent(second.content, second.encryption).toString('utf-8'), CONTENT);
+  });
+
+  const tamperCases: Array<{ name: string; offset: number }> = [
+    { name: 'IV', offset: 0 },
+    { name: 'auth tag', offset: 12 },
+    { name: 'ciphertext', offset: 28 }
+  ];
+
+  for (const { name, offset } of tamperCases) {
+    test(`rejects content with a modified ${name}`, () => {
+      const { content, encryption } = encryptBackupContent(CONTENT);
+      const tampered = Buffer.from(content);
+      tampered[offset] ^= 0x01;
+
+      assert.throws(() => decryptBackupContent(tampered, encryption), /unable to authenticate data/);
+    });
+  }
+
+  test('rejects a modified wrapped data key', () => {
+    const { content, encryption } = encryptBackupContent(CONTENT);
+    const [iv, authTag, key] = encryption.wrappedDataKey!.split(':');
+    const flipped = `${key[0] === '0' ? '1' : '0'}${key.slice(1)}`;
+
+    assert.throws(
+      () => decryptBackupContent(content, { ...encryption, wrappedDataKey: `${iv}:${authTag}:${flipped}` }),
+      /unable to authenticate data/
+    );
+    assert.throws(
+      () => decryptBackupContent(content, { ...encryption, wrappedDataKey: `${iv}:${authTag}` }),
+      /^Error: Invalid wrapped data key format$/
+    );
+  });
+
+  test('rejects unencrypted metadata and other algorithms', () => {
+    const { content, encryption } = encryptBackupContent(CONTENT);
+
+    assert.throws(
+      () => decryptBackupContent(content, { encryptionAlgorithm: null, wrappedDataKey: null, masterKeyId: null }),
+      /^Error: Backup is not encrypted$/
+    );
+    assert.throws(
+      () => decryptBackupContent(content, { ...encryption, encryptionAlgorithm: 'aes-128-cbc' }),
+      /^Error: Unsupported backup encryption algorithm: aes-128-cbc$/
+    );
+  });
+
+  test('refuses a master key that is not 32 characters', () => {
+    config.backup.encryption.masterKey = 'too-short';
+
+    assert.throws(() => encryptBackupContent(CONTENT), /^Error: Backup master key must be exactly 32 characters$/);
+  });
+
+  test('re-wraps a data key under the new master key', () => {
+    const { content, encryption } = encryptBackupContent(CONTENT);
+
+    rotateTo(KEY_B, [KEY_A]);
+    const rewrapped = rewrapDataKey(encryption);
+
+    assert.equal(rewrapped.masterKeyId, getMasterKeyId(KEY_B));
+    assert.notEqual(rewrapped.wrappedDataKey, encryption.wrappedDataKey);
+
+    // Once the old key is gone only the re-wrapped key opens the unchanged content
+    rotateTo(KEY_B, []);
+    assert.equal(decryptBackupContent(content, { ...encryption, ...rewrapped }).toString('utf-8'), CONTENT);
+    assert.throws(
+      () => decryptBackupContent(content, encryption),
+      new RegExp(`^Error: Backup master key not available: ${getMasterKeyId(KEY_A)}$`)
+    );
+  });
+});
+
+describe('backup master key rotation', () => {
+  const original = { ...config.backup.encryption };
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  afterEach(() => {
+    Object.assign(config.backup.encryption, original);
+  });
+
+  async function createEncryptedBackup(masterKey: string) {
+    config.backup.encryption.masterKey = masterKey;
+    const { content, encryption } = encryptBackupContent(CONTENT);
+    const backup = await db.routerBackup.create({
+      data: { routerId: 'router-1', backupStatus: 'COMPLETED', ...encryption }
+    });
+
+    return { backup, content };
+  }
+
+  test('re-wraps every backup not under the current key and reports the rest', async () => {
+    const first = await createEncryptedBackup(KEY_A);
+    const second = await createEncryptedBackup(KEY_A);
+    const unknownKey = await createEncryptedBackup(KEY_C);
+    const current = await createEncryptedBackup(KEY_B);
+    const currentWrappedKey = current.backup.wrappedDataKey;
+    await db.routerBackup.create({ data: { routerId: 'router-1', backupStatus: 'COMPLETED' } });
+
+    config.backup.encryption.masterKey = KEY_B;
+    config.backup.encryption.previousMasterKeys = [KEY_A];
+
+    const result = await routerOSBackupService.rotateEncryptionKeys();
+
+    assert.deepEqual(result, {
+      masterKeyId: getMasterKeyId(KEY_B),
+      total: 3,
+      rotated: 2,
+      failed: [{ backupId: unknownKey.backup.id, error: `Backup master key not available: ${getMasterKeyId(KEY_C)}` }]
+    });
+    assert.equal(current.backup.wrappedDataKey, currentWrappedKey);
+    assert.equal(unknownKey.backup.masterKeyId, getMasterKeyId(KEY_C));
+
+    config.backup.encryption.previousMasterKeys = [];
+
+    for (const { backup, content } of [first, second]) {
+      const { encryptionAlgorithm, wrappedDataKey, masterKeyId } = backup;
+      assert.equal(masterKeyId, getMasterKeyId(KEY_B));
+      assert.equal(decryptBackupContent(content, { encryptionAlgorithm, wrappedDataKey, masterKeyId }).toString('utf-8'), CONTENT);
+    }
+
+    // A second run has nothing left to do but the backup it cannot open
+    const again = await routerOSBackupService.rotateEncryptionKeys();
+    assert.equal(again.total, 1);
+    assert.equal(again.rotated, 0);
+  });
+});
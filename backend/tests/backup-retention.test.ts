@@ -0,0 +1,162 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyBackups } from '../src/lib/backup-retention';
+import type { RetentionBucket, RetentionDecision, RetentionPolicy } from '../src/lib/backup-retention';
+
+function summarize(decision: RetentionDecision) {
+  return {
+    keep: Object.fromEntries(decision.keep.map(({ backup, buckets }) => [backup.id, buckets])),
+    expire: decision.expire.map(backup => backup.id)
+  };
+}
+
+describe('classifyBackups', () => {
+  const cases: Array<{
+    name: string;
+    policy: Partial<RetentionPolicy>;
+    now: string;
+    backups: Record<string, string>;
+    keep: Record<string, RetentionBucket[]>;
+    expire: string[];
+  }> = [
+    {
+      name: 'daily buckets split at UTC midnight',
+      policy: { daily: 2 },
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        today: '2026-03-04T00:00:00Z',
+        lateYesterday: '2026-03-03T23:59:59Z',
+        earlyYesterday: '2026-03-03T00:00:00Z',
+        twoDaysAgo: '2026-03-02T23:59:59Z'
+      },
+      keep: { today: ['latest', 'daily'], lateYesterday: ['daily'] },
+      expire: ['earlyYesterday', 'twoDaysAgo']
+    },
+    {
+      name: 'daily buckets follow the local midnight of the timezone',
+      policy: { daily: 2, timezone: 'Asia/Jakarta' },
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        afterLocalMidnight: '2026-03-03T17:30:00Z', // 00:30 on the 4th in Jakarta
+        beforeLocalMidnight: '2026-03-03T16:30:00Z' // 23:30 on the 3rd
+      },
+      keep: { afterLocalMidnight: ['latest', 'daily'], beforeLocalMidnight: ['daily'] },
+      expire: []
+    },
+    {
+      name: 'the same backups share one UTC day',
+      policy: { daily: 2 },
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        afterLocalMidnight: '2026-03-03T17:30:00Z',
+        beforeLocalMidnight: '2026-03-03T16:30:00Z'
+      },
+      keep: { afterLocalMidnight: ['latest', 'daily'] },
+      expire: ['beforeLocalMidnight']
+    },
+    {
+      name: 'weeks start on Monday',
+      policy: { weekly: 2 },
+      now: '2026-03-09T10:00:00Z', // Monday
+      backups: {
+        monday: '2026-03-09T08:00:00Z',
+        sunday: '2026-03-08T22:00:00Z',
+        previousMonday: '2026-03-02T01:00:00Z',
+        previousSunday: '2026-03-01T23:00:00Z'
+      },
+      keep: { monday: ['latest', 'weekly'], sunday: ['weekly'] },
+      expire: ['previousMonday', 'previousSunday']
+    },
+    {
+      name: 'month buckets cross the year boundary',
+      policy: { monthly: 3 },
+      now: '2026-01-20T10:00:00Z',
+      backups: {
+        january: '2026-01-05T10:00:00Z',
+        endOfDecember: '2025-12-31T23:00:00Z',
+        startOfDecember: '2025-12-01T00:00:00Z',
+        endOfNovember: '2025-11-30T23:59:59Z',
+        october: '2025-10-31T12:00:00Z'
+      },
+      keep: { january: ['latest', 'monthly'], endOfDecember: ['monthly'], endOfNovember: ['monthly'] },
+      expire: ['startOfDecember', 'october']
+    },
+    {
+      name: 'one backup can fill several buckets',
+      policy: { daily: 1, weekly: 1, monthly: 1 },
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        newest: '2026-03-04T11:00:00Z',
+        older: '2026-03-04T10:00:00Z'
+      },
+      keep: { newest: ['latest', 'daily', 'weekly', 'monthly'] },
+      expire: ['older']
+    },
+    {
+      name: 'the newest backup is kept even outside every window',
+      policy: { daily: 7, weekly: 4, monthly: 1 },
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        newest: '2026-01-10T10:00:00Z',
+        older: '2026-01-09T10:00:00Z'
+      },
+      keep: { newest: ['latest'] },
+      expire: ['older']
+    },
+    {
+      name: 'the newest backup is kept with an empty policy',
+      policy: {},
+      now: '2026-03-04T12:00:00Z',
+      backups: {
+        older: '2026-03-03T10:00:00Z',
+        newest: '2026-03-04T10:00:00Z'
+      },
+      keep: { newest: ['latest'] },
+      expire: ['older']
+    },
+    {
+      name: 'days and weeks stay calendar days when DST starts',
+      policy: { daily: 3, weekly: 2, timezone: 'Europe/Berlin' },
+      now: '2026-03-30T10:00:00Z', // Monday after the switch to CEST on the 29th
+      backups: {
+        monday: '2026-03-29T22:30:00Z', // 00:30 CEST on the 30th
+        sunday: '2026-03-28T23:30:00Z', // 00:30 CET on the 29th, before the switch
+        saturday: '2026-03-27T23:30:00Z', // 00:30 CET on the 28th
+        friday: '2026-03-27T22:30:00Z' // 23:30 CET on the 27th
+      },
+      keep: { monday: ['latest', 'daily', 'weekly'], sunday: ['daily', 'weekly'], saturday: ['daily'] },
+      expire: ['friday']
+    },
+    {
+      name: 'the 25-hour day when DST ends is one day',
+      policy: { daily: 2, timezone: 'Europe/Berlin' },
+      now: '2026-10-26T10:00:00Z',
+      backups: {
+        today: '2026-10-25T23:30:00Z', // 00:30 CET on the 26th
+        startOfLongDay: '2026-10-24T22:30:00Z', // 00:30 CEST on the 25th
+        dayBefore: '2026-10-24T21:30:00Z' // 23:30 CEST on the 24th
+      },
+      keep: { today: ['latest', 'daily'], startOfLongDay: ['daily'] },
+      expire: ['dayBefore']
+    }
+  ];
+
+  for (const { name, policy, now, backups, keep, expire } of cases) {
+    test(name, () => {
+      const decision = classifyBackups(
+        Object.entries(backups).map(([id, createdAt]) => ({ id, createdAt: new Date(createdAt) })),
+        { daily: 0, weekly: 0, monthly: 0, timezone: 'UTC', ...policy },
+        new Date(now)
+      );
+
+      assert.deepEqual(summarize(decision), { keep, expire });
+    });
+  }
+
+  test('keeps nothing when there are no backups', () => {
+    assert.deepEqual(
+      classifyBackups([], { daily: 7, weekly: 4, monthly: 12, timezone: 'UTC' }),
+      { keep: [], expire: [] }
+    );
+  });
+});
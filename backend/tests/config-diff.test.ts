@@ -0,0 +1,253 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectRiskyChanges, diffConfigs, parseConfigSections } from '../src/lib/config-diff';
+import type { ConfigDiff, RestoreWarning } from '../src/lib/config-diff';
+
+const lines = (...parts: string[]) => `${parts.join('\n')}\n`;
+
+describe('parseConfigSections', () => {
+  const cases: Array<{ name: string; input: string; expected: Array<[string, string[]]> }> = [
+    {
+      name: 'header comments without the export timestamp',
+      input: lines(
+        '# 2026-03-04 12:00:00 by RouterOS 7.16',
+        '# software id = ABCD-1234',
+        '/interface bridge',
+        'add name=bridge1'
+      ),
+      expected: [
+        ['(header)', ['# software id = ABCD-1234']],
+        ['/interface bridge', ['add name=bridge1']]
+      ]
+    },
+    {
+      name: 'slash paths, inline paths and repeated sections',
+      input: lines(
+        '/ip/firewall/filter add chain=input action=accept',
+        '/ip firewall filter',
+        'add chain=forward   action=drop',
+        '/system identity',
+        'set name=core',
+        '/ip firewall filter',
+        'add chain=output action=accept'
+      ),
+      expected: [
+        ['/ip firewall filter', ['add chain=input action=accept', 'add chain=forward action=drop', 'add chain=output action=accept']],
+        ['/system identity', ['set name=core']]
+      ]
+    },
+    {
+      name: 'continuation lines',
+      input: lines(
+        '/ip firewall filter',
+        'add action=drop chain=input comment="drop everything else" \\',
+        '    in-interface=ether1'
+      ),
+      expected: [
+        ['/ip firewall filter', ['add action=drop chain=input comment="drop everything else" in-interface=ether1']]
+      ]
+    },
+    {
+      name: 'a value ending in an escaped backslash does not continue',
+      input: lines(
+        '/system script',
+        'add name=a source="x\\\\"',
+        'add name=b comment=y\\\\',
+        'add name=c'
+      ),
+      expected: [
+        ['/system script', ['add name=a source="x\\\\"', 'add name=b comment=y\\\\', 'add name=c']]
+      ]
+    },
+    {
+      name: 'menu paths without commands',
+      input: lines('/ip address', '/interface bridge', 'add name=bridge1', '/ip dns'),
+      expected: [['/interface bridge', ['add name=bridge1']]]
+    }
+  ];
+
+  for (const { name, input, expected } of cases) {
+    test(name, () => {
+      assert.deepEqual([...parseConfigSections(input)], expected);
+    });
+  }
+});
+
+describe('diffConfigs', () => {
+  const empty = { sectionsAdded: 0, sectionsRemoved: 0, sectionsModified: 0, linesAdded: 0, linesRemoved: 0, linesChanged: 0 };
+
+  const cases: Array<{ name: string; before: string; after: string; expected: ConfigDiff }> = [
+    {
+      name: 'reordered sections, timestamps and wrapping are not changes',
+      before: lines(
+        '# 2026-03-04 12:00:00 by RouterOS 7.16',
+        '/interface bridge',
+        'add name=bridge1 comment="lan bridge"',
+        '/ip dns',
+        'set servers=1.1.1.1'
+      ),
+      after: lines(
+        '# 2026-03-05 12:00:00 by RouterOS 7.16',
+        '/ip dns',
+        'set servers=1.1.1.1',
+        '/interface bridge',
+        'add name=bridge1 \\',
+        '    comment="lan bridge"'
+      ),
+      expected: { sections: [], summary: empty }
+    },
+    {
+      name: 'added, removed and modified sections',
+      before: lines(
+        '/interface bridge',
+        'add name=bridge1 mtu=1500',
+        '/ip address',
+        'add address=10.0.0.1/24 interface=bridge1'
+      ),
+      after: lines(
+        '/interface bridge',
+        'add name=bridge1 mtu=9000',
+        'add name=bridge2',
+        '/ip dns',
+        'set servers=1.1.1.1'
+      ),
+      expected: {
+        sections: [
+          {
+            section: '/interface bridge',
+            status: 'modified',
+            added: ['add name=bridge2'],
+            removed: [],
+            changed: [{ before: 'add name=bridge1 mtu=1500', after: 'add name=bridge1 mtu=9000' }]
+          },
+          {
+            section: '/ip address',
+            status: 'removed',
+            added: [],
+            removed: ['add address=10.0.0.1/24 interface=bridge1'],
+            changed: []
+          },
+          {
+            section: '/ip dns',
+            status: 'added',
+            added: ['set servers=1.1.1.1'],
+            removed: [],
+            changed: []
+          }
+        ],
+        summary: { sectionsAdded: 1, sectionsRemoved: 1, sectionsModified: 1, linesAdded: 2, linesRemoved: 1, linesChanged: 1 }
+      }
+    },
+    {
+      name: 'set lines pair by their target',
+      before: lines(
+        '/interface ethernet',
+        'set [ find default-name=ether1 ] mtu=1500',
+        'set [ find default-name=ether2 ] mtu=1500'
+      ),
+      after: lines(
+        '/interface ethernet',
+        'set [ find default-name=ether2 ] mtu=1500',
+        'set [ find default-name=ether1 ] mtu=1400'
+      ),
+      expected: {
+        sections: [{
+          section: '/interface ethernet',
+          status: 'modified',
+          added: [],
+          removed: [],
+          changed: [{ before: 'set [ find default-name=ether1 ] mtu=1500', after: 'set [ find default-name=ether1 ] mtu=1400' }]
+        }],
+        summary: { ...empty, sectionsModified: 1, linesChanged: 1 }
+      }
+    },
+    {
+      name: 'duplicate lines without identity count one by one',
+      before: lines('/ip firewall filter', 'add chain=input action=accept', 'add chain=input action=accept'),
+      after: lines('/ip firewall filter', 'add chain=input action=accept', 'add chain=input action=drop'),
+      expected: {
+        sections: [{
+          section: '/ip firewall filter',
+          status: 'modified',
+          added: ['add chain=input action=drop'],
+          removed: ['add chain=input action=accept'],
+          changed: []
+        }],
+        summary: { ...empty, sectionsModified: 1, linesAdded: 1, linesRemoved: 1 }
+      }
+    }
+  ];
+
+  for (const { name, before, after, expected } of cases) {
+    test(name, () => {
+      assert.deepEqual(diffConfigs(before, after), expected);
+    });
+  }
+});
+
+describe('detectRiskyChanges', () => {
+  const base = lines(
+    '/ip address',
+    'add address=10.0.0.1/24 interface=ether1',
+    'add address=192.168.88.1/24 interface=bridge1',
+    '/ip firewall filter',
+    'add action=accept chain=forward',
+    '/ip service',
+    'set api disabled=no',
+    '/user group',
+    'add name=noc policy=read'
+  );
+
+  const cases: Array<{ name: string; after: string; expected: RestoreWarning[] }> = [
+    {
+      name: 'no risky sections',
+      after: base.replace('chain=forward', 'chain=forward comment=lan'),
+      expected: []
+    },
+    {
+      name: 'management address',
+      after: base.replace('10.0.0.1/24', '10.0.0.2/24'),
+      expected: [{ section: '/ip address', severity: 'danger', message: 'Management address 10.0.0.1 will be changed or removed' }]
+    },
+    {
+      name: 'other addresses',
+      after: base.replace('192.168.88.1/24', '192.168.89.1/24'),
+      expected: [{ section: '/ip address', severity: 'warning', message: 'IP addresses will change' }]
+    },
+    {
+      name: 'input chain rules',
+      after: base.replace('add action=accept chain=forward', 'add action=drop chain=input'),
+      expected: [{
+        section: '/ip firewall filter',
+        severity: 'warning',
+        message: 'Input chain firewall rules will change and may block management access'
+      }]
+    },
+    {
+      name: 'management services and user groups, most severe first',
+      after: base
+        .replace('add action=accept chain=forward', 'add action=drop chain=input')
+        .replace('set api disabled=no', 'set api disabled=yes')
+        .replace('policy=read', 'policy=read,write'),
+      expected: [
+        { section: '/ip service', severity: 'danger', message: 'Management services (api, ssh, winbox) will change' },
+        {
+          section: '/user group',
+          severity: 'danger',
+          message: 'Router users or groups will change, the credentials stored for this router may stop working'
+        },
+        {
+          section: '/ip firewall filter',
+          severity: 'warning',
+          message: 'Input chain firewall rules will change and may block management access'
+        }
+      ]
+    }
+  ];
+
+  for (const { name, after, expected } of cases) {
+    test(name, () => {
+      assert.deepEqual(detectRiskyChanges(diffConfigs(base, after), '10.0.0.1'), expected);
+    });
+  }
+});
@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { REDACTED_VALUE, getSensitiveExportFlag, redactSecrets } from '../src/lib/config-redaction';
+
+describe('redactSecrets', () => {
+  const cases: Array<{ name: string; input: string; expected: string }> = [
+    {
+      name: 'bare value',
+      input: '/ppp secret\nadd name=noc password=noc-secret profile=default\n',
+      expected: `/ppp secret\nadd name=noc password=${REDACTED_VALUE} profile=default\n`
+    },
+    {
+      name: 'quoted value with spaces and escaped quotes',
+      input: 'add name=noc password="pa ss\\"word" service=pppoe',
+      expected: `add name=noc password=${REDACTED_VALUE} service=pppoe`
+    },
+    {
+      name: 'bare value with escapes',
+      input: 'set wpa2-pre-shared-key=ab\\"cd\\_ef mode=ap-bridge',
+      expected: `set wpa2-pre-shared-key=${REDACTED_VALUE} mode=ap-bridge`
+    },
+    {
+      name: 'quoted value wrapped onto the next line',
+      input: '/interface wireguard\nadd listen-port=13231 name=wg0 private-key=\\\n    "mFJ0iKSq2VQxQxnMvcJrPz0XhN3vYxMq4GdQ1n6p0Ws=" mtu=1420\n/ip address\n',
+      expected: `/interface wireguard\nadd listen-port=13231 name=wg0 private-key=${REDACTED_VALUE} mtu=1420\n/ip address\n`
+    },
+    {
+      name: 'bare value wrapped in the middle',
+      input: 'add name=peer1 secret=0123456789abcdef01234\\\n    56789abcdef comment=core\n',
+      expected: `add name=peer1 secret=${REDACTED_VALUE} comment=core\n`
+    },
+    {
+      name: 'static keys and parameters that only end in a sensitive name',
+      input: 'set static-key-0=abcdef old-password-hint=none',
+      expected: `set static-key-0=${REDACTED_VALUE} old-password-hint=none`
+    }
+  ];
+
+  for (const { name, input, expected } of cases) {
+    test(name, () => {
+      assert.equal(redactSecrets(input), expected);
+    });
+  }
+
+  test('keeps the wrapping of lines without secrets', () => {
+    const input = [
+      '/ip firewall filter',
+      'add action=drop chain=input comment="drop everything else on the uplink" \\',
+      '    in-interface=ether1',
+      'add action=accept chain=input comment=ends-in-escaped-backslash\\\\',
+      'add action=accept chain=forward',
+      ''
+    ].join('\n');
+
+    assert.equal(redactSecrets(input), input);
+  });
+
+  test('does not join a line ending in an escaped backslash with the next', () => {
+    const input = 'set password=abc\\\\\nadd name=next\n';
+
+    assert.equal(redactSecrets(input), `set password=${REDACTED_VALUE}\nadd name=next\n`);
+  });
+});
+
+describe('getSensitiveExportFlag', () => {
+  test('picks the flag by RouterOS major version', () => {
+    assert.equal(getSensitiveExportFlag('6.49.10 (long-term)', false), 'hide-sensitive');
+    assert.equal(getSensitiveExportFlag('6.49.10 (long-term)', true), undefined);
+    assert.equal(getSensitiveExportFlag('7.16 (stable)', true), 'show-sensitive');
+    assert.equal(getSensitiveExportFlag('7.16 (stable)', false), undefined);
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * In-memory Prisma Stand-in
+ *
+ * Covers the delegate calls the RouterOS services make (findUnique, findFirst,
+ * findMany, create, createMany, update, updateMany, delete, deleteMany, count)
+ * on plain arrays. Undefined fields in `data` are skipped, as Prisma does, and
+ * { increment } adds to a number. `where` supports equality, { not }, { in },
+ * { gt, gte, lt, lte } and OR. Whole rows are returned; an `include` or
+ * `select` naming a declared relation returns a copy with the related rows
+ * attached. Declared unique constraints (optionally partial) throw P2002.
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any> & { id: string };
+type Where = Record<string, any>;
+
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+    const operators = condition as Record<string, unknown>;
+
+    if ('in' in operators) {
+      return (operators.in as unknown[]).includes(value);
+    }
+
+    if ('not' in operators) {
+      return !matchesValue(value, operators.not);
+    }
+
+    const ranges: Array<[string, (a: any, b: any) => boolean]> = [
+      ['gt', (a, b) => a > b],
+      ['gte', (a, b) => a >= b],
+      ['lt', (a, b) => a < b],
+      ['lte', (a, b) => a <= b]
+    ];
+    const bounds = ranges.filter(([operator]) => operators[operator] !== undefined);
+
+    return bounds.length > 0 && value !== null && value !== undefined &&
+      bounds.every(([operator, compare]) => compare(value, operators[operator]));
+  }
+
+  // Prisma treats undefined as "no condition"
+  return condition === undefined || (value ?? null) === condition;
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return (condition as Where[]).some(alternative => matches(row, alternative));
+    }
+
+    if (key === 'AND') {
+      return (condition as Where[]).every(part => matches(row, part));
+    }
+
+    return matchesValue(row[key], condition);
+  });
+}
+
+function defined<T>(data: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function applyData<T extends Row>(row: T, data: Partial<T>): void {
+  for (const [key, value] of Object.entries(defined(data))) {
+    const increment = value !== null && typeof value === 'object' && 'increment' in value
+      ? (value as { increment: number }).increment
+      : undefined;
+
+    (row as Row)[key] = increment === undefined ? value : (row[key] ?? 0) + increment;
+  }
+
+  (row as Row).updatedAt = new Date();
+}
+
+function sortRows<T extends Row>(rows: T[], orderBy?: Record<string, 'asc' | 'desc'> | Array<Record<string, 'asc' | 'desc'>>): T[] {
+  const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+
+  return [...rows].sort((a, b) => {
+    for (const order of orders) {
+      const [field, direction] = Object.entries(order)[0];
+      if (a[field] < b[field]) return direction === 'asc' ? -1 : 1;
+      if (a[field] > b[field]) return direction === 'asc' ? 1 : -1;
+    }
+    return 0;
+  });
+}
+
+type Shape = { include?: Record<string, any>; select?: Record<string, any> };
+
+export interface FakeRelation {
+  table: () => FakeTable<any>;
+  where: (row: Row) => Where; // Rows of the other table that belong to this row
+  many?: boolean;
+}
+
+export interface FakeUnique {
+  fields: string[];
+  where?: Where; // Partial index condition
+}
+
+export interface FakeTableOptions {
+  relations?: Record<string, FakeRelation>;
+  unique?: FakeUnique[];
+}
+
+export class FakeTable<T extends Row = Row> {
+  rows: T[] = [];
+
+  constructor(
+    private name: string,
+    private defaults: () => Partial<T> = () => ({}),
+    private options: FakeTableOptions = {}
+  ) {}
+
+  async findUnique(args: { where: Where } & Shape): Promise<T | null> {
+    const row = this.find(args.where);
+    return row ? this.shape(row, args) : null;
+  }
+
+  async findUniqueOrThrow(args: { where: Where } & Shape): Promise<T> {
+    const row = await this.findUnique(args);
+    if (!row) {
+      throw new Error(`No ${this.name} found`);
+    }
+    return row;
+  }
+
+  async findFirst(args: { where?: Where; orderBy?: any } & Shape = {}): Promise<T | null> {
+    const row = sortRows(this.rows.filter(row => matches(row, args.where)), args.orderBy)[0];
+    return row ? this.shape(row, args) : null;
+  }
+
+  async findMany(args: { where?: Where; orderBy?: any; skip?: number; take?: number } & Shape = {}): Promise<T[]> {
+    const rows = sortRows(this.rows.filter(row => matches(row, args.where)), args.orderBy);
+    const skip = args.skip ?? 0;
+    return rows
+      .slice(skip, args.take === undefined ? undefined : skip + args.take)
+      .map(row => this.shape(row, args));
+  }
+
+  async count(args: { where?: Where } = {}): Promise<number> {
+    return this.rows.filter(row => matches(row, args.where)).length;
+  }
+
+  async create(args: { data: Partial<T> } & Shape): Promise<T> {
+    const now = new Date();
+    const row = { id: randomUUID(), createdAt: now, updatedAt: now, ...this.defaults(), ...defined(args.data) } as unknown as T;
+    this.assertUnique(row);
+    this.rows.push(row);
+    return this.shape(row, args);
+  }
+
+  async createMany(args: { data: Array<Partial<T>> }): Promise<{ count: number }> {
+    for (const data of args.data) {
+      await this.create({ data });
+    }
+    return { count: args.data.length };
+  }
+
+  async update(args: { where: Where; data: Partial<T> } & Shape): Promise<T> {
+    const row = this.findOrThrow(args.where);
+    this.write(row, args.data);
+    return this.shape(row, args);
+  }
+
+  async updateMany(args: { where?: Where; data: Partial<T> }): Promise<{ count: number }> {
+    const rows = this.rows.filter(row => matches(row, args.where));
+    for (const row of rows) {
+      this.write(row, args.data);
+    }
+    return { count: rows.length };
+  }
+
+  async delete(args: { where: Where }): Promise<T> {
+    const row = this.findOrThrow(args.where);
+    this.rows = this.rows.filter(other => other !== row);
+    return row;
+  }
+
+  async deleteMany(args: { where?: Where } = {}): Promise<{ count: number }> {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(row => !matches(row, args.where));
+    return { count: before - this.rows.length };
+  }
+
+  clear(): void {
+    this.rows = [];
+  }
+
+  private find(where: Where): T | undefined {
+    return this.rows.find(row => matches(row, where));
+  }
+
+  private findOrThrow(where: Where): T {
+    const row = this.find(where);
+    if (!row) {
+      throw new Error(`No ${this.name} found`);
+    }
+    return row;
+  }
+
+  private write(row: T, data: Partial<T>): void {
+    const next = { ...row };
+    applyData(next, data);
+    this.assertUnique(next, row);
+    Object.assign(row, next);
+  }
+
+  private assertUnique(candidate: T, self?: T): void {
+    for (const { fields, where } of this.options.unique ?? []) {
+      if (where && !matches(candidate, where)) {
+        continue;
+      }
+
+      const conflict = this.rows.some(row =>
+        row !== self &&
+        (!where || matches(row, where)) &&
+        fields.every(field => row[field] === candidate[field])
+      );
+
+      if (conflict) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `Unique constraint failed on the fields: (${fields.join(', ')})`,
+          { code: 'P2002', clientVersion: Prisma.prismaVersion.client, meta: { target: fields } }
+        );
+      }
+    }
+  }
+
+  /**
+   * Copy of a row with the relations the query asked for
+   */
+  private shape(row: T, args: Shape): T {
+    const relations = this.options.relations ?? {};
+    const wanted = Object.entries({ ...args.select, ...args.include })
+      .filter(([key, value]) => value && relations[key]);
+
+    if (wanted.length === 0) {
+      return row;
+    }
+
+    const shaped: Row = { ...row };
+
+    for (const [key, value] of wanted) {
+      const { table, where, many } = relations[key];
+      const nested: Shape & { where?: Where } = typeof value === 'object' ? value : {};
+      const related = table().rows
+        .filter(other => matches(other, { ...where(row), ...nested.where }))
+        .map(other => table().shape(other, nested));
+
+      shaped[key] = many ? related : related[0] ?? null;
+    }
+
+    return shaped as T;
+  }
+}
+
+export class FakeDatabase {
+  router = new FakeTable('Router', () => ({
+    status: 'ACTIVE',
+    routerType: 'CORE',
+    routerBrand: 'MIKROTIK',
+    username: 'admin',
+    apiPort: 8728,
+    sshPort: 22,
+    apiTransport: 'PLAIN',
+    apiTlsCa: null,
+    apiTlsFingerprint: null,
+    sshAuthMethod: 'PASSWORD',
+    sshKeyId: null,
+    companyId: null,
+    backupShowSensitive: false,
+    lastSeen: null,
+    isReachable: null,
+    lastPolledAt: null,
+    lastPollError: null
+  }), {
+    relations: {
+      company: { table: () => this.company, where: router => ({ id: router.companyId }) }
+    }
+  });
+
+  routerBackup = new FakeTable('RouterBackup', () => ({
+    backupType: 'EXPORT',
+    storageUrl: null,
+    encryptionAlgorithm: null,
+    wrappedDataKey: null,
+    masterKeyId: null,
+    containsSensitive: false,
+    backupPassword: null,
+    sections: [],
+    routerVersion: null,
+    backupStatus: 'PENDING',
+    configSummary: null,
+    configHash: null,
+    previousBackupId: null,
+    hasChanges: null,
+    changeSummary: null,
+    isPinned: false,
+    isSafetyBackup: false,
+    completedAt: null,
+    expiresAt: null
+  }));
+
+  backupRestore = new FakeTable('BackupRestore');
+  sshKey = new FakeTable('SshKey', () => ({ companyId: null, isActive: true }));
+
+  routerMetric = new FakeTable('RouterMetric', () => ({
+    resolution: 'RAW',
+    sampleCount: 1,
+    cpuLoad: null,
+    memoryUsed: null,
+    memoryTotal: null,
+    uptime: null,
+    temperature: null,
+    voltage: null,
+    interfaces: null
+  }));
+
+  pollerLease = new FakeTable('PollerLease', () => ({ lastRunAt: null }));
+
+  bgpPeer = new FakeTable('BgpPeer', () => ({
+    remoteAddress: null,
+    remoteAs: null,
+    prefixCount: null,
+    isFlapping: false
+  }));
+
+  bgpPeerTransition = new FakeTable('BgpPeerTransition', () => ({ prefixCount: null }));
+
+  company = new FakeTable('Company');
+
+  backupSchedule = new FakeTable('BackupSchedule', () => ({
+    routerId: null,
+    companyId: null,
+    isEnabled: true,
+    timezone: 'UTC',
+    showSensitive: null,
+    retentionDays: 7,
+    retentionWeeks: 4,
+    retentionMonths: 12,
+    lastRunAt: null,
+    nextRunAt: null
+  }));
+
+  backupScheduleRun = new FakeTable('BackupScheduleRun', () => ({
+    routerId: null,
+    backupId: null,
+    runStatus: 'RUNNING',
+    errorMessage: null,
+    startedAt: new Date(),
+    completedAt: null
+  }));
+
+  backupJob = new FakeTable('BackupJob', () => ({
+    companyId: null,
+    routerType: null,
+    backupType: 'EXPORT',
+    compact: false,
+    jobStatus: 'QUEUED',
+    totalRouters: 0,
+    succeededCount: 0,
+    failedCount: 0,
+    errorMessage: null,
+    triggeredBy: null,
+    startedAt: null,
+    completedAt: null,
+    heartbeatAt: null
+  }));
+
+  backupJobItem = new FakeTable('BackupJobItem', () => ({
+    backupId: null,
+    itemStatus: 'QUEUED',
+    errorMessage: null,
+    startedAt: null,
+    completedAt: null
+  }));
+
+  user = new FakeTable('User', () => ({ email: null, fullName: null, role: 'USER', isActive: true }));
+
+  alertRule = new FakeTable('AlertRule', () => ({
+    companyId: null,
+    routerId: null,
+    severity: 'WARNING',
+    metric: null,
+    operator: null,
+    threshold: null,
+    isEnabled: true
+  }));
+
+  alertIncident = new FakeTable('AlertIncident', () => ({
+    status: 'OPEN',
+    occurrences: 1,
+    openedAt: new Date(),
+    lastSeenAt: new Date(),
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    resolvedBy: null
+  }), {
+    relations: {
+      rule: { table: () => this.alertRule, where: incident => ({ id: incident.ruleId }) },
+      router: { table: () => this.router, where: incident => ({ id: incident.routerId }) }
+    },
+    // Partial unique index from the add_alert_incident_unresolved_unique migration
+    unique: [{ fields: ['dedupKey'], where: { status: { not: 'RESOLVED' } } }]
+  });
+
+  notificationChannel = new FakeTable('NotificationChannel', () => ({
+    companyId: null,
+    secret: null,
+    isEnabled: true,
+    lastDeliveryAt: null,
+    lastDeliveryError: null
+  }), {
+    relations: {
+      company: { table: () => this.company, where: channel => ({ id: channel.companyId }) },
+      subscriptions: {
+        table: () => this.notificationSubscription,
+        where: channel => ({ channelId: channel.id }),
+        many: true
+      }
+    }
+  });
+
+  notificationSubscription = new FakeTable('NotificationSubscription', () => ({
+    minSeverity: 'WARNING',
+    target: null
+  }), {
+    relations: {
+      user: { table: () => this.user, where: subscription => ({ id: subscription.userId }) }
+    },
+    unique: [{ fields: ['channelId', 'userId'] }]
+  });
+
+  async $transaction<T>(operations: Array<Promise<T>>): Promise<T[]> {
+    return await Promise.all(operations);
+  }
+
+  async $disconnect(): Promise<void> {}
+
+  reset(): void {
+    this.router.clear();
+    this.routerBackup.clear();
+    this.backupRestore.clear();
+    this.sshKey.clear();
+    this.routerMetric.clear();
+    this.pollerLease.clear();
+    this.bgpPeer.clear();
+    this.bgpPeerTransition.clear();
+    this.company.clear();
+    this.backupSchedule.clear();
+    this.backupScheduleRun.clear();
+    this.backupJob.clear();
+    this.backupJobItem.clear();
+    this.user.clear();
+    this.alertRule.clear();
+    this.alertIncident.clear();
+    this.notificationChannel.clear();
+    this.notificationSubscription.clear();
+  }
+}
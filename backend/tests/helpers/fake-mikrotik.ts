@@ -0,0 +1,803 @@
+/**
+ * Fake MikroTik Device
+ *
+ * A simulated RouterOS 7 router for integration tests. One in-memory
+ * configuration is served over:
+ * - the API (FakeRouterOSApi): print/add/set/remove/enable/disable on menus,
+ *   move and add place-before on /routing/filter/rule, /system/resource, /system/health, /system/identity and /system/backup/save
+ * - SSH exec: the CLI commands RouterOSSSHClient runs (export, /import,
+ *   /file remove, /user ssh-keys, /system backup save and load, /system scheduler,
+ *   /ping, /tool traceroute)
+ * - SFTP: the router's file list
+ *
+ * Logins on both are checked against /user (password) and /user ssh-keys
+ * (public key), so a key imported over SSH works for the next login.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { Server, utils } from 'ssh2';
+import type { AddressInfo } from 'net';
+import type { AuthContext, Connection, ServerChannel, SFTPWrapper } from 'ssh2';
+import { FakeRouterOSApi } from './fake-routeros-api';
+import type { FakeApiReply, FakeApiRequest } from './fake-routeros-api';
+
+const { OPEN_MODE, STATUS_CODE } = utils.sftp;
+
+export type FakeItem = Record<string, string> & { '.id': string };
+
+export interface FakeTracerouteHop {
+  address: string;
+  rtt: number; // ms
+}
+
+export interface FakeSshKey {
+  user: string;
+  keyOwner: string; // Comment of the public key
+  publicKey: string;
+}
+
+export interface FakeExportRequest {
+  section?: string; // Menu path for "<section> export", undefined for /export
+  flags: string[]; // compact, show-sensitive, hide-sensitive
+}
+
+export interface FakeMikroTikOptions {
+  identity?: string;
+  version?: string;
+  users?: Array<{ name: string; password: string; group?: string }>;
+  exportText?: string; // Body of /export, without the header comments
+}
+
+// Menus reachable with print/add/set/remove/enable/disable
+const MENUS = [
+  '/user',
+  '/interface',
+  '/ip/address',
+  '/ip/route',
+  '/ipv6/route',
+  '/routing/bgp/connection',
+  '/routing/bgp/session',
+  '/routing/bgp/advertisements',
+  '/routing/filter/rule',
+  '/system/scheduler'
+];
+
+// Attributes RouterOS never prints
+const HIDDEN_ATTRIBUTES: Record<string, string[]> = {
+  '/user': ['password']
+};
+
+const SECRET_PATTERN = / (password|secret|auth-key|passphrase)=("(?:[^"\\]|\\.)*"|\S+)/g;
+
+const DEFAULT_EXPORT = [
+  '/interface bridge',
+  'add name=bridge-lan',
+  '/ip address',
+  'add address=192.168.88.1/24 interface=bridge-lan network=192.168.88.0',
+  '/ip firewall filter',
+  'add action=accept chain=input connection-state=established,related',
+  'add action=drop chain=input in-interface=ether1',
+  '/routing bgp connection',
+  'add as=65001 local.role=ebgp name=upstream remote.address=10.0.0.1/32 remote.as=65000',
+  '/system identity',
+  'set name=fake-router',
+  '/user',
+  'add group=full name=noc password=noc-secret',
+  ''
+].join('\n');
+
+/**
+ * Value of a CLI argument, unquoted: name=x, name="x y" or name="say \"hi\""
+ */
+function getArgument(command: string, name: string): string | undefined {
+  const match = command.match(new RegExp(`(?:^|[\\s\\[])${name}=("(?:[^"\\\\]|\\\\.)*"|\\S+?)(?=[\\s\\]]|$)`));
+  if (!match) {
+    return undefined;
+  }
+
+  const value = match[1];
+  return value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+}
+
+/**
+ * RouterOS duration notation, e.g. 20ms688us
+ */
+function formatRtt(ms: number): string {
+  const whole = Math.floor(ms);
+  const micros = Math.round((ms - whole) * 1000);
+  return micros > 0 ? `${whole}ms${micros}us` : `${whole}ms`;
+}
+
+function toBoolean(value: string): string {
+  if (value === 'yes') return 'true';
+  if (value === 'no') return 'false';
+  return value;
+}
+
+export class FakeMikroTik {
+  identity: string;
+  resource: Record<string, string>; // As the API returns it, sizes in bytes
+  health: Array<{ name: string; value: string; type: string }>;
+  exportText: string;
+  importError?: string; // Line /import fails with, e.g. "expected end of command (line 2 column 5)"
+
+  readonly api: FakeRouterOSApi;
+  readonly files = new Map<string, Buffer>();
+  readonly sshKeys: FakeSshKey[] = [];
+  readonly sshCommands: string[] = []; // Every SSH exec, in order
+  readonly exports: FakeExportRequest[] = [];
+  readonly imports: string[] = []; // Scripts run with /import
+  readonly backupLoads: Array<{ name: string; password: string }> = [];
+
+  private menus = new Map<string, FakeItem[]>();
+  private nextId = 1;
+  private pingReplies = new Map<string, Array<number | null>>();
+  private traceroutes = new Map<string, Array<FakeTracerouteHop | null>>();
+  private ssh: Server;
+  private sshConnections = new Set<Connection>();
+
+  constructor(options: FakeMikroTikOptions = {}) {
+    this.identity = options.identity ?? 'fake-router';
+    this.exportText = options.exportText ?? DEFAULT_EXPORT;
+    this.resource = {
+      uptime: '1w2d3h4m5s',
+      version: options.version ?? '7.16 (stable)',
+      'build-time': '2024-09-20 13:00:27',
+      'factory-software': '7.1',
+      'free-memory': '956719104',
+      'total-memory': '1073741824',
+      cpu: 'ARMv7',
+      'cpu-count': '4',
+      'cpu-frequency': '1400MHz',
+      'cpu-load': '3',
+      'free-hdd-space': '102969344',
+      'total-hdd-space': '134217728',
+      'architecture-name': 'arm',
+      'board-name': 'RB4011iGS+',
+      platform: 'MikroTik'
+    };
+
+    this.health = [
+      { name: 'voltage', value: '24.1', type: 'V' },
+      { name: 'temperature', value: '41', type: 'C' }
+    ];
+
+    for (const menu of MENUS) {
+      this.menus.set(menu, []);
+    }
+
+    for (const user of options.users ?? [{ name: 'admin', password: 'secret', group: 'full' }]) {
+      this.add('/user', { name: user.name, password: user.password, group: user.group ?? 'full' });
+    }
+
+    this.add('/interface', { name: 'ether1', type: 'ether', mtu: '1500', running: 'true', 'rx-byte': '0', 'tx-byte': '0' });
+    this.add('/interface', { name: 'ether2', type: 'ether', mtu: '1500', running: 'false', 'rx-byte': '0', 'tx-byte': '0' });
+
+    this.api = new FakeRouterOSApi({
+      authenticate: (name, password) => this.checkPassword(name, password)
+    });
+    this.registerApiHandlers();
+
+    const hostKey = utils.generateKeyPairSync('ed25519');
+    this.ssh = new Server({ hostKeys: [hostKey.private] }, connection => this.acceptSsh(connection));
+  }
+
+  /**
+   * Start the API and SSH listeners on free local ports
+   */
+  async start(): Promise<{ apiPort: number; sshPort: number }> {
+    const apiPort = await this.api.listen();
+    await new Promise<void>(resolve => this.ssh.listen(0, '127.0.0.1', resolve));
+
+    return { apiPort, sshPort: (this.ssh.address() as AddressInfo).port };
+  }
+
+  async stop(): Promise<void> {
+    this.dropSshConnections();
+    await Promise.all([
+      this.api.close(),
+      new Promise<void>(resolve => this.ssh.close(() => resolve()))
+    ]);
+  }
+
+  /**
+   * Items of a menu, e.g. items('/routing/bgp/session'), changes show up right away
+   */
+  items(menu: string): FakeItem[] {
+    const items = this.menus.get(menu);
+    if (!items) {
+      throw new Error(`Unknown menu: ${menu}`);
+    }
+    return items;
+  }
+
+  /**
+   * Add an item to a menu and return its .id
+   */
+  add(menu: string, attributes: Record<string, string>): string {
+    const id = `*${(this.nextId++).toString(16).toUpperCase()}`;
+    this.items(menu).push({ disabled: 'false', ...attributes, '.id': id });
+    return id;
+  }
+
+  remove(menu: string, item: FakeItem): void {
+    const items = this.items(menu);
+    items.splice(items.indexOf(item), 1);
+  }
+
+  /**
+   * Move an item in front of another one, or last without a destination
+   * Returns false when either item does not exist
+   */
+  move(menu: string, id: string, destination?: string): boolean {
+    const items = this.items(menu);
+    const item = items.find(other => other['.id'] === id);
+
+    if (!item || (destination !== undefined && !items.some(other => other['.id'] === destination))) {
+      return false;
+    }
+
+    items.splice(items.indexOf(item), 1);
+
+    const index = destination === undefined ? items.length : items.findIndex(other => other['.id'] === destination);
+    items.splice(index, 0, item);
+    return true;
+  }
+
+  find(menu: string, attributes: Record<string, string>): FakeItem | undefined {
+    return this.items(menu).find(item =>
+      Object.entries(attributes).every(([key, value]) => item[key] === value)
+    );
+  }
+
+  /**
+   * Round-trip times /ping reports for an address, null for a lost packet
+   * Replies repeat when more packets are sent, unknown addresses time out
+   */
+  setPingReplies(address: string, rtts: Array<number | null>): void {
+    this.pingReplies.set(address, rtts);
+  }
+
+  /**
+   * Hops /tool traceroute reports for an address, null for a silent hop
+   */
+  setTraceroute(address: string, hops: Array<FakeTracerouteHop | null>): void {
+    this.traceroutes.set(address, hops);
+  }
+
+  /**
+   * Cut every SSH session, like a router that rebooted
+   */
+  dropSshConnections(): void {
+    for (const connection of this.sshConnections) {
+      connection.end();
+    }
+  }
+
+  private checkPassword(name: string, password: string): boolean {
+    const user = this.find('/user', { name });
+    return !!user && user.disabled !== 'true' && user.password === password;
+  }
+
+  // API
+
+  private registerApiHandlers(): void {
+    for (const menu of MENUS) {
+      this.api.handle(`${menu}/print`, (request, reply) => this.print(menu, request, reply));
+      this.api.handle(`${menu}/add`, (request, reply) => {
+        reply.done({ ret: this.add(menu, this.normalize(request.params)) });
+      });
+      this.api.handle(`${menu}/set`, (request, reply) => {
+        const { '.id': id, ...attributes } = request.params;
+        this.update(menu, id, reply, item => Object.assign(item, this.normalize(attributes)));
+      });
+      this.api.handle(`${menu}/remove`, (request, reply) => {
+        this.update(menu, request.params['.id'], reply, item => this.remove(menu, item));
+      });
+      this.api.handle(`${menu}/enable`, (request, reply) => {
+        this.update(menu, request.params['.id'], reply, item => { item.disabled = 'false'; });
+      });
+      this.api.handle(`${menu}/disable`, (request, reply) => {
+        this.update(menu, request.params['.id'], reply, item => { item.disabled = 'true'; });
+      });
+    }
+
+    this.api.handle('/routing/bgp/connection/reset', (request, reply) => {
+      this.update('/routing/bgp/connection', request.params['.id'], reply, () => undefined);
+    });
+
+    this.api.handle('/routing/filter/rule/add', (request, reply) => {
+      const { 'place-before': placeBefore, ...attributes } = request.params;
+
+      if (placeBefore !== undefined && !this.find('/routing/filter/rule', { '.id': placeBefore })) {
+        reply.trap('no such item');
+        return;
+      }
+
+      const id = this.add('/routing/filter/rule', this.normalize(attributes));
+      if (placeBefore !== undefined) {
+        this.move('/routing/filter/rule', id, placeBefore);
+      }
+      reply.done({ ret: id });
+    });
+
+    this.api.handle('/routing/filter/rule/move', (request, reply) => {
+      if (this.move('/routing/filter/rule', request.params.numbers, request.params.destination)) {
+        reply.done();
+      } else {
+        reply.trap('no such item');
+      }
+    });
+
+    this.api.handle('/system/resource/print', (_request, reply) => {
+      reply.re(this.resource);
+      reply.done();
+    });
+
+    this.api.handle('/system/health/print', (_request, reply) => {
+      for (const [index, sensor] of this.health.entries()) {
+        reply.re({ '.id': `*${index + 1}`, ...sensor });
+      }
+      reply.done();
+    });
+
+    this.api.handle('/system/identity/print', (_request, reply) => {
+      reply.re({ name: this.identity });
+      reply.done();
+    });
+
+    this.api.handle('/system/identity/set', (request, reply) => {
+      this.identity = request.params.name ?? this.identity;
+      reply.done();
+    });
+
+    this.api.handle('/file/print', (_request, reply) => {
+      for (const [name, content] of this.files) {
+        reply.re({ '.id': name, name, size: String(content.length), type: 'file' });
+      }
+      reply.done();
+    });
+
+    this.api.handle('/system/backup/save', (request, reply) => {
+      const name = `${request.params.name || this.identity}.backup`;
+      const encryption = request.params.password ? `encrypted:${request.params.password}` : 'plain';
+      this.files.set(name, Buffer.from(`RouterOS backup of ${this.identity} (${encryption})`));
+      reply.done();
+    });
+  }
+
+  private print(menu: string, request: FakeApiRequest, reply: FakeApiReply): void {
+    const hidden = HIDDEN_ATTRIBUTES[menu] ?? [];
+
+    // Only ?key=value queries, all of them must match
+    const queries = request.queries
+      .map(query => query.slice(1).split('='))
+      .filter(parts => parts.length >= 2)
+      .map(([key, ...value]) => [key, value.join('=')]);
+
+    for (const item of this.items(menu)) {
+      if (queries.every(([key, value]) => item[key] === value)) {
+        reply.re(Object.fromEntries(Object.entries(item).filter(([key]) => !hidden.includes(key))));
+      }
+    }
+
+    reply.done();
+  }
+
+  private update(menu: string, id: string | undefined, reply: FakeApiReply, change: (item: FakeItem) => void): void {
+    const item = this.items(menu).find(other => other['.id'] === id);
+
+    if (!item) {
+      reply.trap('no such item');
+      return;
+    }
+
+    change(item);
+    reply.done();
+  }
+
+  private normalize(attributes: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(attributes).map(([key, value]) => [key, key === 'disabled' ? toBoolean(value) : value])
+    );
+  }
+
+  // SSH
+
+  private acceptSsh(connection: Connection): void {
+    this.sshConnections.add(connection);
+    let username = '';
+
+    connection.on('authentication', context => {
+      username = context.username;
+
+      if (this.authenticate(context)) {
+        context.accept();
+      } else {
+        context.reject(['password', 'publickey']);
+      }
+    });
+
+    connection.on('ready', () => {
+      connection.on('session', accept => {
+        const session = accept();
+
+        session.on('exec', (acceptExec, _reject, info) => {
+          this.exec(acceptExec(), info.command, username);
+        });
+
+        session.on('sftp', acceptSftp => {
+          this.serveSftp(acceptSftp());
+        });
+      });
+    });
+
+    connection.on('error', () => undefined);
+    connection.on('close', () => this.sshConnections.delete(connection));
+  }
+
+  private authenticate(context: AuthContext): boolean {
+    if (context.method === 'password') {
+      return this.checkPassword(context.username, context.password);
+    }
+
+    if (context.method !== 'publickey' || !this.find('/user', { name: context.username })) {
+      return false;
+    }
+
+    return this.sshKeys
+      .filter(key => key.user === context.username)
+      .some(key => {
+        const parsed = utils.parseKey(key.publicKey);
+        if (parsed instanceof Error) {
+          return false;
+        }
+
+        const publicSsh = parsed.getPublicSSH();
+        if (publicSsh.length !== context.key.data.length || !timingSafeEqual(publicSsh, context.key.data)) {
+          return false;
+        }
+
+        // Without a signature the client only asks whether the key would be accepted
+        return !context.signature || parsed.verify(context.blob!, context.signature, context.hashAlgo) === true;
+      });
+  }
+
+  private exec(channel: ServerChannel, command: string, username: string): void {
+    this.sshCommands.push(command);
+
+    let result: { output: string; exitCode: number; reboot?: boolean };
+    try {
+      result = this.runCommand(command.trim(), username);
+    } catch (error) {
+      result = { output: error instanceof Error ? error.message : String(error), exitCode: 1 };
+    }
+
+    if (result.exitCode === 0) {
+      channel.write(result.output.replace(/\r?\n/g, '\r\n'));
+    } else {
+      channel.stderr.write(`${result.output}\r\n`);
+    }
+
+    channel.exit(result.exitCode);
+    channel.end();
+
+    if (result.reboot) {
+      setImmediate(() => {
+        this.dropSshConnections();
+        this.api.dropConnections();
+      });
+    }
+  }
+
+  private runCommand(command: string, username: string): { output: string; exitCode: number; reboot?: boolean } {
+    const ok = (output = '') => ({ output, exitCode: 0 });
+
+    if (command === ':put [/system resource get version]') {
+      return ok(`${this.resource.version}\n`);
+    }
+
+    if (command === '/system resource print') {
+      const width = Math.max(...Object.keys(this.resource).map(key => key.length));
+      return ok(Object.entries(this.resource)
+        .map(([key, value]) => `${key.padStart(width + 2)}: ${value}`)
+        .join('\n') + '\n');
+    }
+
+    if (command === '/export' || command.startsWith('/export ')) {
+      return ok(this.export(undefined, command.split(' ').slice(1)));
+    }
+
+    const sectionExport = command.match(/^(\/[a-z0-9-]+(?: [a-z0-9-]+)*?) export((?: [a-z-]+)*)$/);
+    if (sectionExport) {
+      return ok(this.export(sectionExport[1], sectionExport[2].split(' ').filter(Boolean)));
+    }
+
+    if (command.startsWith('/file remove ')) {
+      this.files.delete(getArgument(command, 'name') ?? '');
+      return ok();
+    }
+
+    if (command.startsWith('/import ')) {
+      return ok(this.importScript(getArgument(command, 'file-name') ?? ''));
+    }
+
+    if (command.startsWith('/system backup save ')) {
+      const name = `${getArgument(command, 'name') ?? this.identity}.backup`;
+      const password = getArgument(command, 'password');
+      this.files.set(name, Buffer.from(`RouterOS backup of ${this.identity} (${password ? `encrypted:${password}` : 'plain'})`));
+      return ok('Configuration backup saved\n');
+    }
+
+    if (command.startsWith('/system backup load ')) {
+      const name = getArgument(command, 'name') ?? '';
+
+      if (!this.files.has(name)) {
+        return ok(`failure: no such file ${name}\n`);
+      }
+
+      this.backupLoads.push({ name, password: getArgument(command, 'password') ?? '' });
+      this.files.delete(name);
+      return { output: 'Restore and reboot? [y/N]: \nsystem will reboot shortly\n', exitCode: 0, reboot: true };
+    }
+
+    if (command.startsWith('/system scheduler add ')) {
+      this.add('/system/scheduler', {
+        name: getArgument(command, 'name') ?? '',
+        interval: getArgument(command, 'interval') ?? '0s',
+        'on-event': getArgument(command, 'on-event') ?? ''
+      });
+      return ok();
+    }
+
+    if (command.startsWith('/system scheduler remove ')) {
+      const scheduler = this.find('/system/scheduler', { name: getArgument(command, 'name') ?? '' });
+      if (scheduler) {
+        this.remove('/system/scheduler', scheduler);
+      }
+      return ok();
+    }
+
+    if (command.startsWith('/user ssh-keys import ')) {
+      return ok(this.importSshKey(getArgument(command, 'public-key-file') ?? '', getArgument(command, 'user') ?? username));
+    }
+
+    if (command.startsWith('/user ssh-keys remove ')) {
+      const user = getArgument(command, 'user');
+      const keyOwner = getArgument(command, 'key-owner');
+      const kept = this.sshKeys.filter(key => key.user !== user || key.keyOwner !== keyOwner);
+      this.sshKeys.splice(0, this.sshKeys.length, ...kept);
+      return ok();
+    }
+
+    if (command.startsWith('/ping ')) {
+      return ok(this.ping(command));
+    }
+
+    if (command.startsWith('/tool traceroute ')) {
+      return ok(this.traceroute(command));
+    }
+
+    return { output: `bad command name ${command.split(' ')[0]} (line 1 column 1)`, exitCode: 1 };
+  }
+
+  private export(section: string | undefined, flags: string[]): string {
+    this.exports.push({ section, flags });
+
+    let body = this.exportText;
+
+    if (section) {
+      // Keep the blocks under the section header and its submenus
+      const blocks = body.split(/\n(?=\/)/);
+      body = blocks
+        .filter(block => {
+          const header = block.split('\n')[0];
+          return header === section || header.startsWith(`${section} `);
+        })
+        .join('\n');
+    }
+
+    // RouterOS 7 hides secrets unless asked, RouterOS 6 shows them unless asked
+    const isV7 = parseInt(this.resource.version, 10) >= 7;
+    const hideSecrets = isV7 ? !flags.includes('show-sensitive') : flags.includes('hide-sensitive');
+
+    if (hideSecrets) {
+      body = body.replace(SECRET_PATTERN, '');
+    }
+
+    const date = new Date().toISOString().slice(0, 19).replace('T', ' ');
+    return `# ${date} by RouterOS ${this.resource.version}\n# software id = FAKE-0001\n#\n${body.trimEnd()}\n`;
+  }
+
+  private importScript(fileName: string): string {
+    const script = this.files.get(fileName);
+
+    if (!script) {
+      return `failure: no such file ${fileName}\n`;
+    }
+
+    this.imports.push(script.toString('utf-8'));
+
+    if (this.importError) {
+      return `${this.importError}\n`;
+    }
+
+    return '\nScript file loaded and executed successfully\n';
+  }
+
+  private importSshKey(fileName: string, user: string): string {
+    const publicKey = this.files.get(fileName)?.toString('utf-8').trim();
+
+    if (!publicKey) {
+      return `failure: no such file ${fileName}\n`;
+    }
+
+    if (!this.find('/user', { name: user })) {
+      return `failure: no such user ${user}\n`;
+    }
+
+    if (utils.parseKey(publicKey) instanceof Error) {
+      return 'failure: unable to load key file (wrong format or bad passphrase)!\n';
+    }
+
+    this.sshKeys.push({ user, keyOwner: publicKey.split(/\s+/).slice(2).join(' '), publicKey });
+    this.files.delete(fileName);
+    return '';
+  }
+
+  private ping(command: string): string {
+    const address = command.split(/\s+/)[1];
+    const count = parseInt(getArgument(command, 'count') ?? '4', 10);
+    const size = getArgument(command, 'size') ?? '56';
+    const replies = this.pingReplies.get(address) ?? [null];
+
+    const lines = ['  SEQ HOST                                     SIZE TTL TIME       STATUS'];
+    const rtts: number[] = [];
+
+    for (let seq = 0; seq < count; seq++) {
+      const rtt = replies[seq % replies.length];
+
+      if (rtt === null) {
+        lines.push(`  ${String(seq).padStart(3)} ${address.padEnd(40)}                 timeout`);
+      } else {
+        rtts.push(rtt);
+        lines.push(`  ${String(seq).padStart(3)} ${address.padEnd(40)} ${size.padStart(4)}  64 ${formatRtt(rtt)}`);
+      }
+    }
+
+    const loss = Math.round(((count - rtts.length) / count) * 100);
+    const stats = `    sent=${count} received=${rtts.length} packet-loss=${loss}%`;
+
+    if (rtts.length === 0) {
+      lines.push(stats);
+    } else {
+      const avg = rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length;
+      lines.push(`${stats} min-rtt=${formatRtt(Math.min(...rtts))} avg-rtt=${formatRtt(avg)}`);
+      lines.push(`   max-rtt=${formatRtt(Math.max(...rtts))}`);
+    }
+
+    return `${lines.join('\n')}\n\n`;
+  }
+
+  private traceroute(command: string): string {
+    const address = command.split(/\s+/)[2];
+    const count = parseInt(getArgument(command, 'count') ?? '3', 10);
+    const hops = this.traceroutes.get(address) ?? [null];
+    const blocks: string[] = [];
+
+    // RouterOS redraws the whole table after every probe
+    for (let sent = 1; sent <= count; sent++) {
+      const lines = [
+        'Columns: ADDRESS, LOSS, SENT, LAST, AVG, BEST, WORST, STD-DEV',
+        '#  ADDRESS          LOSS  SENT  LAST    AVG  BEST  WORST  STD-DEV'
+      ];
+
+      hops.forEach((hop, index) => {
+        const number = String(index + 1).padEnd(2);
+
+        if (hop) {
+          lines.push(`${number} ${hop.address.padEnd(16)} 0%    ${String(sent).padEnd(5)} ${hop.rtt}ms  ${hop.rtt}  ${hop.rtt}   ${hop.rtt}    0`);
+        } else {
+          lines.push(`${number}                  100%  ${String(sent).padEnd(5)} 0ms`);
+        }
+      });
+
+      blocks.push(lines.join('\n'));
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  private serveSftp(sftp: SFTPWrapper): void {
+    const handles = new Map<number, { name: string; data: Buffer; writable: boolean }>();
+    let nextHandle = 0;
+
+    const getHandle = (handle: Buffer) => handles.get(handle.readUInt32BE(0));
+    const getName = (filename: string) => filename.replace(/^\/+/, '');
+    const getAttributes = (size: number) => {
+      const now = Math.floor(Date.now() / 1000);
+      return { mode: 0o100644, uid: 0, gid: 0, size, atime: now, mtime: now };
+    };
+
+    sftp.on('OPEN', (requestId, filename, flags) => {
+      const name = getName(filename);
+      const existing = this.files.get(name);
+
+      if (!existing && !(flags & OPEN_MODE.CREAT)) {
+        sftp.status(requestId, STATUS_CODE.NO_SUCH_FILE);
+        return;
+      }
+
+      const id = nextHandle++;
+      handles.set(id, {
+        name,
+        data: !existing || flags & OPEN_MODE.TRUNC ? Buffer.alloc(0) : existing,
+        writable: !!(flags & OPEN_MODE.WRITE)
+      });
+
+      const handle = Buffer.alloc(4);
+      handle.writeUInt32BE(id, 0);
+      sftp.handle(requestId, handle);
+    });
+
+    sftp.on('WRITE', (requestId, handle, offset, data) => {
+      const file = getHandle(handle);
+
+      if (!file || !file.writable) {
+        sftp.status(requestId, STATUS_CODE.FAILURE);
+        return;
+      }
+
+      const size = Math.max(file.data.length, offset + data.length);
+      const grown = Buffer.alloc(size);
+      file.data.copy(grown);
+      data.copy(grown, offset);
+      file.data = grown;
+      sftp.status(requestId, STATUS_CODE.OK);
+    });
+
+    sftp.on('READ', (requestId, handle, offset, length) => {
+      const file = getHandle(handle);
+
+      if (!file) {
+        sftp.status(requestId, STATUS_CODE.FAILURE);
+      } else if (offset >= file.data.length) {
+        sftp.status(requestId, STATUS_CODE.EOF);
+      } else {
+        sftp.data(requestId, file.data.subarray(offset, offset + length));
+      }
+    });
+
+    sftp.on('FSTAT', (requestId, handle) => {
+      const file = getHandle(handle);
+
+      if (file) {
+        sftp.attrs(requestId, getAttributes(file.data.length));
+      } else {
+        sftp.status(requestId, STATUS_CODE.FAILURE);
+      }
+    });
+
+    sftp.on('STAT', (requestId, filename) => {
+      const content = this.files.get(getName(filename));
+
+      if (content) {
+        sftp.attrs(requestId, getAttributes(content.length));
+      } else {
+        sftp.status(requestId, STATUS_CODE.NO_SUCH_FILE);
+      }
+    });
+
+    sftp.on('CLOSE', (requestId, handle) => {
+      const id = handle.readUInt32BE(0);
+      const file = handles.get(id);
+
+      if (file?.writable) {
+        this.files.set(file.name, file.data);
+      }
+
+      handles.delete(id);
+      sftp.status(requestId, file ? STATUS_CODE.OK : STATUS_CODE.FAILURE);
+    });
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Fake RouterOS API Server
+ *
+ * Speaks the RouterOS API sentence protocol (length-prefixed words, .tag
+ * multiplexing, 6.43+ /login, !re / !done / !trap replies and /cancel) over a
+ * local TCP socket, or TLS like api-ssl, so RouterOSClient can be tested
+ * without a router.
+ *
+ * Commands are answered by handlers registered per path. A handler may reply
+ * right away, or keep streaming until the client cancels the command.
+ */
+
+import { createServer } from 'net';
+import { createServer as createTlsServer } from 'tls';
+import type { AddressInfo, Server, Socket } from 'net';
+
+export interface FakeApiRequest {
+  command: string; // e.g. /interface/monitor-traffic
+  params: Record<string, string>; // =key=value words
+  queries: string[]; // ?key=value words, as sent
+  tag: string;
+}
+
+export interface FakeApiReply {
+  /** Send a !re sentence */
+  re(attributes: Record<string, string>): void;
+  /** Finish the command with !done */
+  done(attributes?: Record<string, string>): void;
+  /** Fail the command with !trap, followed by !done */
+  trap(message: string): void;
+  /** Called when the client cancels the command (only while it is running) */
+  onCancel(listener: () => void): void;
+  /** Whether the command was finished, trapped or cancelled */
+  readonly finished: boolean;
+}
+
+export type FakeApiHandler = (request: FakeApiRequest, reply: FakeApiReply) => void | Promise<void>;
+
+export interface FakeRouterOSApiOptions {
+  users?: Record<string, string>; // name -> password, defaults to admin/secret
+  authenticate?: (name: string, password: string) => boolean; // Replaces the users check
+  tls?: { key: string; cert: string }; // Serve API-SSL with this certificate instead of the plain API
+}
+
+interface RunningCommand {
+  finished: boolean;
+  cancelListeners: Array<() => void>;
+}
+
+interface FakeApiSession {
+  socket: Socket;
+  loggedIn: boolean;
+  username?: string;
+  buffer: Buffer;
+  words: string[];
+  running: Map<string, RunningCommand>;
+}
+
+/**
+ * Encode a word length the way RouterOS does (1 to 5 bytes)
+ */
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  if (length < 0x4000) {
+    return Buffer.from([(length >> 8) | 0x80, length & 0xff]);
+  }
+  if (length < 0x200000) {
+    return Buffer.from([(length >> 16) | 0xc0, (length >> 8) & 0xff, length & 0xff]);
+  }
+  if (length < 0x10000000) {
+    return Buffer.from([(length >> 24) | 0xe0, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+  }
+  return Buffer.from([0xf0, (length >> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+}
+
+/**
+ * Decode a word length, null when the buffer doesn't hold all of it yet
+ */
+function decodeLength(buffer: Buffer): { length: number; size: number } | null {
+  if (buffer.length === 0) {
+    return null;
+  }
+
+  const first = buffer[0];
+  const size = first < 0x80 ? 1 : first < 0xc0 ? 2 : first < 0xe0 ? 3 : first < 0xf0 ? 4 : 5;
+
+  if (buffer.length < size) {
+    return null;
+  }
+
+  if (size === 1) {
+    return { length: first, size };
+  }
+
+  let length = size === 5 ? 0 : first & (0xff >> size);
+  for (let i = 1; i < size; i++) {
+    length = length * 256 + buffer[i];
+  }
+
+  return { length, size };
+}
+
+function encodeSentence(words: string[]): Buffer {
+  const parts: Buffer[] = [];
+
+  for (const word of words) {
+    const bytes = Buffer.from(word, 'utf-8');
+    parts.push(encodeLength(bytes.length), bytes);
+  }
+
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+export class FakeRouterOSApi {
+  readonly received: FakeApiRequest[] = []; // Every command after login, in order
+  readonly logins: string[] = []; // User name of every /login, accepted or not
+  private server: Server;
+  private sessions = new Set<FakeApiSession>();
+  private handlers = new Map<string, FakeApiHandler>();
+  private users = new Map<string, string>();
+  private authenticate?: (name: string, password: string) => boolean;
+
+  constructor(options: FakeRouterOSApiOptions = {}) {
+    for (const [name, password] of Object.entries(options.users ?? { admin: 'secret' })) {
+      this.users.set(name, password);
+    }
+
+    this.authenticate = options.authenticate;
+    this.server = options.tls
+      ? createTlsServer(options.tls, socket => this.accept(socket))
+      : createServer(socket => this.accept(socket));
+  }
+
+  /**
+   * Answer a command path, replacing any earlier handler for it
+   */
+  handle(command: string, handler: FakeApiHandler): this {
+    this.handlers.set(command, handler);
+    return this;
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return this.getPort();
+  }
+
+  getPort(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Number of client connections currently open
+   */
+  getConnectionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Commands of a path the client sent
+   */
+  requestsFor(command: string): FakeApiRequest[] {
+    return this.received.filter(request => request.command === command);
+  }
+
+  /**
+   * Cut every connection, like a router that rebooted
+   */
+  dropConnections(): void {
+    for (const session of this.sessions) {
+      session.socket.destroy();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.dropConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private accept(socket: Socket): void {
+    const session: FakeApiSession = {
+      socket,
+      loggedIn: false,
+      buffer: Buffer.alloc(0),
+      words: [],
+      running: new Map()
+    };
+
+    this.sessions.add(session);
+
+    socket.on('data', chunk => {
+      session.buffer = Buffer.concat([session.buffer, chunk]);
+      this.readSentences(session);
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      this.sessions.delete(session);
+      session.running.clear();
+    });
+  }
+
+  private readSentences(session: FakeApiSession): void {
+    for (;;) {
+      const header = decodeLength(session.buffer);
+      if (!header || session.buffer.length < header.size + header.length) {
+        return;
+      }
+
+      const word = session.buffer.subarray(header.size, header.size + header.length).toString('utf-8');
+      session.buffer = session.buffer.subarray(header.size + header.length);
+
+      if (header.length > 0) {
+        session.words.push(word);
+        continue;
+      }
+
+      const words = session.words;
+      session.words = [];
+
+      if (words.length > 0) {
+        this.dispatch(session, words);
+      }
+    }
+  }
+
+  private dispatch(session: FakeApiSession, words: string[]): void {
+    const [command, ...rest] = words;
+    const request: FakeApiRequest = { command, params: {}, queries: [], tag: '' };
+
+    for (const word of rest) {
+      if (word.startsWith('.tag=')) {
+        request.tag = word.slice(5);
+      } else if (word.startsWith('?')) {
+        request.queries.push(word);
+      } else if (word.startsWith('=')) {
+        const separator = word.indexOf('=', 1);
+        request.params[word.slice(1, separator)] = word.slice(separator + 1);
+      }
+    }
+
+    const reply = this.createReply(session, request.tag);
+
+    if (command === '/login') {
+      this.login(session, request, reply);
+      return;
+    }
+
+    if (!session.loggedIn) {
+      reply.trap('not logged in');
+      return;
+    }
+
+    this.received.push(request);
+
+    if (command === '/cancel') {
+      this.cancel(session, request.params.tag);
+      reply.done();
+      return;
+    }
+
+    const handler = this.handlers.get(command);
+    if (!handler) {
+      reply.trap('no such command');
+      return;
+    }
+
+    Promise.resolve(handler(request, reply)).catch(error => {
+      reply.trap(error instanceof Error ? error.message : String(error));
+    });
+  }
+
+  private login(session: FakeApiSession, request: FakeApiRequest, reply: FakeApiReply): void {
+    const { name, password = '' } = request.params;
+    this.logins.push(name);
+    const valid = this.authenticate
+      ? this.authenticate(name, password)
+      : this.users.get(name) === password;
+
+    if (!name || !valid) {
+      reply.trap('invalid user name or password (6)');
+      return;
+    }
+
+    session.loggedIn = true;
+    session.username = name;
+    reply.done();
+  }
+
+  private cancel(session: FakeApiSession, tag: string | undefined): void {
+    const running = tag ? session.running.get(tag) : undefined;
+    if (!running || running.finished) {
+      return;
+    }
+
+    running.finished = true;
+    session.running.delete(tag!);
+    running.cancelListeners.forEach(listener => listener());
+
+    this.send(session, ['!trap', '=category=2', '=message=interrupted', `.tag=${tag}`]);
+    this.send(session, ['!done', `.tag=${tag}`]);
+  }
+
+  private createReply(session: FakeApiSession, tag: string): FakeApiReply {
+    const running: RunningCommand = { finished: false, cancelListeners: [] };
+    session.running.set(tag, running);
+
+    const tagWords = tag ? [`.tag=${tag}`] : [];
+    const attributeWords = (attributes: Record<string, string> = {}) =>
+      Object.entries(attributes).map(([key, value]) => `=${key}=${value}`);
+
+    const finish = () => {
+      running.finished = true;
+      session.running.delete(tag);
+    };
+
+    return {
+      re: attributes => {
+        if (!running.finished) {
+          this.send(session, ['!re', ...attributeWords(attributes), ...tagWords]);
+        }
+      },
+      done: attributes => {
+        if (!running.finished) {
+          finish();
+          this.send(session, ['!done', ...attributeWords(attributes), ...tagWords]);
+        }
+      },
+      trap: message => {
+        if (!running.finished) {
+          finish();
+          this.send(session, ['!trap', `=message=${message}`, ...tagWords]);
+          this.send(session, ['!done', ...tagWords]);
+        }
+      },
+      onCancel: listener => {
+        running.cancelListeners.push(listener);
+      },
+      get finished() {
+        return running.finished;
+      }
+    };
+  }
+
+  private send(session: FakeApiSession, words: string[]): void {
+    if (!session.socket.destroyed) {
+      session.socket.write(encodeSentence(words));
+    }
+  }
+}
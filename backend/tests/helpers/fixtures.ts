@@ -0,0 +1,55 @@
+/**
+ * Database rows pointing at a FakeMikroTik
+ */
+
+import { encrypt } from '../../src/lib/encryption';
+import { generateSshKeyPair } from '../../src/lib/routeros/ssh-keys';
+import type { FakeDatabase } from './fake-database';
+import type { FakeMikroTik } from './fake-mikrotik';
+
+export interface FakeRouterPorts {
+  apiPort: number;
+  sshPort: number;
+}
+
+/**
+ * Insert an ACTIVE MikroTik router that logs in as admin/secret
+ */
+export async function createRouter(
+  db: FakeDatabase,
+  ports: FakeRouterPorts,
+  overrides: Record<string, unknown> = {}
+) {
+  const { password = 'secret', ...rest } = overrides;
+
+  return await db.router.create({
+    data: {
+      name: 'fake-router',
+      ipAddress: '127.0.0.1',
+      username: 'admin',
+      password: encrypt(String(password)),
+      apiPort: ports.apiPort,
+      sshPort: ports.sshPort,
+      ...rest
+    }
+  });
+}
+
+/**
+ * Insert an ed25519 SSH key and authorize it for a user on the device
+ */
+export async function createSshKey(db: FakeDatabase, device: FakeMikroTik, user = 'admin') {
+  const keyPair = await generateSshKeyPair('ed25519', 'router-management-fixture');
+
+  device.sshKeys.push({ user, keyOwner: 'router-management-fixture', publicKey: keyPair.publicKey });
+
+  return await db.sshKey.create({
+    data: {
+      name: 'Fixture key',
+      algorithm: 'ed25519',
+      publicKey: keyPair.publicKey,
+      privateKey: encrypt(keyPair.privateKey),
+      fingerprint: keyPair.fingerprint
+    }
+  });
+}
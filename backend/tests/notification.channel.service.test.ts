@@ -0,0 +1,66 @@
+import { db } from './helpers/setup';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NotificationChannelService } from '../src/services/alert/notification.channel.service';
+import { decrypt } from '../src/lib/encryption';
+
+describe('NotificationChannelService', () => {
+  const notificationChannelService = new NotificationChannelService();
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test('stores the secret encrypted and never returns it', async () => {
+    const channel = await notificationChannelService.createChannel({
+      name: 'NOC hook',
+      type: 'WEBHOOK',
+      settings: { url: 'https://hooks.example.test/alerts' },
+      secret: 'hook-secret'
+    });
+
+    assert.equal('secret' in channel, false);
+    assert.equal(channel.hasSecret, true);
+    assert.equal(decrypt(db.notificationChannel.rows[0].secret), 'hook-secret');
+
+    const cleared = await notificationChannelService.updateChannel(channel.id, { secret: null });
+    assert.equal(cleared.hasSecret, false);
+  });
+
+  test('refuses a Telegram channel without a bot token', async () => {
+    await assert.rejects(
+      notificationChannelService.createChannel({ name: 'NOC chat', type: 'TELEGRAM', settings: { chatId: '-1001' } }),
+      { statusCode: 400 }
+    );
+  });
+
+  test('sends a test message to the channel chat when nobody subscribed', async () => {
+    const urls: string[] = [];
+    const bodies: any[] = [];
+    mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+      urls.push(url);
+      bodies.push(JSON.parse(String(init.body)));
+      return Response.json({ ok: true });
+    });
+
+    const channel = await notificationChannelService.createChannel({
+      name: 'NOC chat',
+      type: 'TELEGRAM',
+      settings: { chatId: '-1001' },
+      secret: '123:bot-token'
+    });
+
+    const result = await notificationChannelService.testChannel(channel.id);
+
+    assert.deepEqual(result, { channelId: channel.id, success: true, recipients: 1 });
+    assert.equal(urls.length, 1);
+    assert.match(urls[0], /\/bot123:bot-token\/sendMessage$/);
+    assert.equal(bodies[0].chat_id, '-1001');
+    assert.match(bodies[0].text, /^\[TEST\] NOC chat\n/);
+    assert.ok(db.notificationChannel.rows[0].lastDeliveryAt);
+  });
+});
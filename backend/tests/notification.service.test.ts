@@ -0,0 +1,205 @@
+import { db } from './helpers/setup';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import nodemailer from 'nodemailer';
+import { notificationService } from '../src/services/alert/notification.service';
+import { config } from '../src/config';
+import { encrypt } from '../src/lib/encryption';
+import { createRouter } from './helpers/fixtures';
+
+interface SentRequest {
+  url: string;
+  init: RequestInit;
+}
+
+describe('NotificationService', () => {
+  let requests: SentRequest[];
+
+  beforeEach(() => {
+    db.reset();
+    requests = [];
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  /**
+   * Record fetch calls and answer each with the given status and JSON body
+   */
+  function stubFetch(status = 200, body: unknown = { ok: true }) {
+    mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return Response.json(body, { status });
+    });
+  }
+
+  async function createIncident(severity = 'CRITICAL') {
+    const router = await createRouter(db, { apiPort: 1, sshPort: 1 }, { name: 'core-1', ipAddress: '10.0.0.1' });
+    const rule = await db.alertRule.create({ data: { name: 'Router down', type: 'ROUTER_UNREACHABLE', severity } });
+
+    return await db.alertIncident.create({
+      data: {
+        ruleId: rule.id,
+        routerId: router.id,
+        dedupKey: `${rule.id}:${router.id}:reachability`,
+        subject: 'reachability',
+        severity,
+        title: 'Router unreachable',
+        message: 'core-1 did not answer the health poll: Connection timed out'
+      }
+    });
+  }
+
+  async function subscribe(channelId: string, email: string | null, overrides: Record<string, unknown> = {}) {
+    const user = await db.user.create({ data: { username: email ?? 'no-email', password: 'hash', email } });
+    return await db.notificationSubscription.create({
+      data: { channelId, userId: user.id, minSeverity: 'WARNING', ...overrides }
+    });
+  }
+
+  test('signs webhook bodies with the channel secret', async () => {
+    stubFetch();
+    const incident = await createIncident();
+    const channel = await db.notificationChannel.create({
+      data: {
+        name: 'NOC hook',
+        type: 'WEBHOOK',
+        settings: { url: 'https://hooks.example.test/alerts' },
+        secret: encrypt('hook-secret')
+      }
+    });
+    await subscribe(channel.id, 'noc@example.test');
+
+    const results = await notificationService.notifyIncident(incident.id, 'opened');
+
+    assert.deepEqual(results, [{ channelId: channel.id, success: true, recipients: 1 }]);
+    assert.equal(requests.length, 1);
+
+    const [{ url, init }] = requests;
+    const body = String(init.body);
+    const headers = init.headers as Record<string, string>;
+    assert.equal(url, 'https://hooks.example.test/alerts');
+    assert.equal(headers['X-Signature-256'], `sha256=${createHmac('sha256', 'hook-secret').update(body).digest('hex')}`);
+    assert.equal(JSON.parse(body).event, 'opened');
+    assert.equal(JSON.parse(body).incident.id, incident.id);
+    assert.equal(JSON.parse(body).router.name, 'core-1');
+    assert.ok(channel.lastDeliveryAt);
+  });
+
+  test('records a failed webhook on the channel without throwing', async () => {
+    stubFetch(502, {});
+    const incident = await createIncident();
+    const channel = await db.notificationChannel.create({
+      data: { name: 'NOC hook', type: 'WEBHOOK', settings: { url: 'https://hooks.example.test/alerts' } }
+    });
+    await subscribe(channel.id, 'noc@example.test');
+
+    const [result] = await notificationService.notifyIncident(incident.id, 'opened');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Webhook responded with HTTP 502');
+    assert.equal(channel.lastDeliveryError, 'Webhook responded with HTTP 502');
+    assert.equal('X-Signature-256' in (requests[0].init.headers as Record<string, string>), false);
+  });
+
+  test('skips channels whose subscribers want a higher severity', async () => {
+    stubFetch();
+    const incident = await createIncident('WARNING');
+    const channel = await db.notificationChannel.create({
+      data: { name: 'NOC hook', type: 'WEBHOOK', settings: { url: 'https://hooks.example.test/alerts' } }
+    });
+    await subscribe(channel.id, 'noc@example.test', { minSeverity: 'CRITICAL' });
+
+    assert.deepEqual(await notificationService.notifyIncident(incident.id, 'opened'), []);
+    assert.equal(requests.length, 0);
+  });
+
+  test('sends Telegram messages to each subscriber chat', async () => {
+    stubFetch();
+    const incident = await createIncident();
+    const channel = await db.notificationChannel.create({
+      data: {
+        name: 'NOC chat',
+        type: 'TELEGRAM',
+        settings: { chatId: '-1001' },
+        secret: encrypt('123:bot-token')
+      }
+    });
+    await subscribe(channel.id, 'a@example.test', { target: '42' });
+    await subscribe(channel.id, 'b@example.test');
+
+    const [result] = await notificationService.notifyIncident(incident.id, 'resolved');
+
+    assert.equal(result.success, true);
+    assert.equal(result.recipients, 2);
+    assert.deepEqual(
+      requests.map(({ url, init }) => [url, JSON.parse(String(init.body)).chat_id]),
+      [
+        [`${config.alerting.telegramApiUrl}/bot123:bot-token/sendMessage`, '42'],
+        [`${config.alerting.telegramApiUrl}/bot123:bot-token/sendMessage`, '-1001']
+      ]
+    );
+    assert.match(JSON.parse(String(requests[0].init.body)).text, /^\[RESOLVED\] core-1: Router unreachable\n/);
+  });
+
+  test('reports the Telegram error description', async () => {
+    stubFetch(400, { ok: false, description: 'Bad Request: chat not found' });
+    const incident = await createIncident();
+    const channel = await db.notificationChannel.create({
+      data: { name: 'NOC chat', type: 'TELEGRAM', settings: { chatId: '-1001' }, secret: encrypt('123:bot-token') }
+    });
+    await subscribe(channel.id, 'a@example.test');
+
+    const [result] = await notificationService.notifyIncident(incident.id, 'opened');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Telegram rejected chat -1001: Bad Request: chat not found');
+  });
+
+  test('mails every subscriber address in one message over SMTP', async () => {
+    const transports: Array<{ options: any; mails: any[]; closed: boolean }> = [];
+    mock.method(nodemailer, 'createTransport', (options: any) => {
+      const transport = { options, mails: [] as any[], closed: false };
+      transports.push(transport);
+      return {
+        sendMail: async (mail: any) => {
+          transport.mails.push(mail);
+          return { messageId: 'fake' };
+        },
+        close: () => {
+          transport.closed = true;
+        }
+      };
+    });
+
+    const incident = await createIncident();
+    const channel = await db.notificationChannel.create({
+      data: {
+        name: 'NOC mail',
+        type: 'EMAIL',
+        settings: { host: 'smtp.example.test', port: 587, secure: false, username: 'alerts', from: 'alerts@example.test' },
+        secret: encrypt('smtp-password')
+      }
+    });
+    await subscribe(channel.id, 'a@example.test');
+    await subscribe(channel.id, 'b@example.test', { target: 'oncall@example.test' });
+    await subscribe(channel.id, 'c@example.test', { target: 'a@example.test' });
+
+    const [result] = await notificationService.notifyIncident(incident.id, 'opened');
+
+    assert.deepEqual(result, { channelId: channel.id, success: true, recipients: 2 });
+    assert.equal(transports.length, 1);
+
+    const [{ options, mails, closed }] = transports;
+    assert.equal(options.host, 'smtp.example.test');
+    assert.equal(options.port, 587);
+    assert.deepEqual(options.auth, { user: 'alerts', pass: 'smtp-password' });
+    assert.equal(mails.length, 1);
+    assert.equal(mails[0].from, 'alerts@example.test');
+    assert.equal(mails[0].to, 'a@example.test, oncall@example.test');
+    assert.equal(mails[0].subject, '[CRITICAL] core-1: Router unreachable');
+    assert.ok(closed);
+  });
+});
@@ -0,0 +1,28 @@
+import { db } from './helpers/setup';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RouterService } from '../src/services/router/router.service';
+import { createRouter } from './helpers/fixtures';
+
+describe('RouterService', () => {
+  const routerService = new RouterService();
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  test('moves the API port with the transport unless one is given', async () => {
+    const router = await createRouter(db, { apiPort: 8728, sshPort: 22 });
+
+    const ssl = await routerService.updateRouter(router.id, { apiTransport: 'SSL' });
+    assert.equal(ssl.apiPort, 8729);
+
+    // Same transport again keeps whatever port is stored
+    await routerService.updateRouter(router.id, { apiPort: 9729 });
+    const unchanged = await routerService.updateRouter(router.id, { apiTransport: 'SSL' });
+    assert.equal(unchanged.apiPort, 9729);
+
+    const custom = await routerService.updateRouter(router.id, { apiTransport: 'PLAIN', apiPort: 18728 });
+    assert.equal(custom.apiPort, 18728);
+  });
+});
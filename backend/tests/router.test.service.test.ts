@@ -0,0 +1,102 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSTestService } from '../src/services/router/router.test.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter, createSshKey } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+describe('RouterOSTestService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ports = await device.start();
+    routerId = (await createRouter(db, ports)).id;
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  test('API test logs in and reads system info', async () => {
+    const result = await routerOSTestService.testAPIConnection(routerId);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.message, 'API connection successful. RouterOS version: 7.16 (stable)');
+    assert.equal(result.details?.apiPort, ports.apiPort);
+    assert.equal(result.details?.uptime, '1w2d3h4m5s');
+    assert.equal(result.details?.systemInfo?.['board-name'], 'RB4011iGS+');
+  });
+
+  test('API test always opens a fresh session', async () => {
+    const before = routerOSPool.getMetrics().totals.created;
+
+    await routerOSTestService.testAPIConnection(routerId);
+    await routerOSTestService.testAPIConnection(routerId);
+
+    assert.equal(routerOSPool.getMetrics().totals.created, before + 2);
+  });
+
+  test('API test reports wrong credentials', async () => {
+    const wrong = await createRouter(db, ports, { password: 'wrong' });
+
+    const result = await routerOSTestService.testAPIConnection(wrong.id);
+
+    assert.equal(result.success, false);
+    assert.equal(result.message, 'Authentication failed. Please check username and password.');
+  });
+
+  test('API test reports a closed port', async () => {
+    const closed = await createRouter(db, { ...ports, apiPort: 1 });
+
+    const result = await routerOSTestService.testAPIConnection(closed.id);
+
+    assert.equal(result.success, false);
+    assert.equal(result.message, 'Connection refused. API service may not be enabled or wrong port (1).');
+  });
+
+  test('SSH test parses /system resource print', async () => {
+    const result = await routerOSTestService.testSSHConnection(routerId);
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.message, 'SSH connection successful (password). RouterOS version: 7.16');
+    assert.equal(result.details?.systemInfo?.['board-name'], 'RB4011iGS+');
+    assert.equal(result.details?.systemInfo?.['architecture-name'], 'arm');
+  });
+
+  test('SSH test logs in with the router\'s key', async () => {
+    const key = await createSshKey(db, device);
+    const keyRouter = await createRouter(db, ports, {
+      password: 'not-the-password',
+      sshAuthMethod: 'PUBLIC_KEY',
+      sshKeyId: key.id
+    });
+
+    const result = await routerOSTestService.testSSHConnection(keyRouter.id);
+    assert.equal(result.success, true, result.message);
+    assert.match(result.message, /\(public key\)/);
+
+    // Key removed on the router
+    device.sshKeys.length = 0;
+
+    const failed = await routerOSTestService.testSSHConnection(keyRouter.id);
+    assert.equal(failed.success, false);
+    assert.equal(failed.message, 'Authentication failed. The SSH key may have been removed from the router, deploy it again.');
+  });
+
+  test('tests both connections and several routers', async () => {
+    const both = await routerOSTestService.testBothConnections(routerId);
+    assert.equal(both.api.success, true);
+    assert.equal(both.ssh.success, true);
+
+    const [result, missing] = await routerOSTestService.testMultipleRouters([routerId, 'missing']);
+    assert.equal(result.apiTest?.success, true);
+    assert.equal(result.sshTest?.success, true);
+    assert.equal(missing.apiTest?.message, 'Router not found');
+  });
+});
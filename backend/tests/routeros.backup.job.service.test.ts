@@ -0,0 +1,78 @@
+import { db } from './helpers/setup';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSBackupJobService } from '../src/services/routeros/routeros.backup.job.service';
+import { createRouter } from './helpers/fixtures';
+
+// Recovery never talks to the router
+const NO_DEVICE = { apiPort: 1, sshPort: 1 };
+
+describe('RouterOSBackupJobService', () => {
+  let routerIds: string[];
+
+  beforeEach(async () => {
+    db.reset();
+    routerIds = [
+      (await createRouter(db, NO_DEVICE, { name: 'core-1' })).id,
+      (await createRouter(db, NO_DEVICE, { name: 'core-2' })).id,
+      (await createRouter(db, NO_DEVICE, { name: 'core-3' })).id
+    ];
+  });
+
+  test('fails jobs and items a dead process left unfinished', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    // Process died after the first router
+    const orphan = await db.backupJob.create({
+      data: {
+        jobStatus: 'RUNNING',
+        totalRouters: 3,
+        succeededCount: 1,
+        heartbeatAt: new Date('2026-03-10T11:00:00Z')
+      }
+    });
+    const items = await Promise.all([
+      db.backupJobItem.create({ data: { jobId: orphan.id, routerId: routerIds[0], itemStatus: 'SUCCEEDED' } }),
+      db.backupJobItem.create({ data: { jobId: orphan.id, routerId: routerIds[1], itemStatus: 'RUNNING' } }),
+      db.backupJobItem.create({ data: { jobId: orphan.id, routerId: routerIds[2] } })
+    ]);
+
+    // Another instance is still running this one
+    const live = await db.backupJob.create({
+      data: { jobStatus: 'RUNNING', totalRouters: 1, heartbeatAt: new Date('2026-03-10T11:59:45Z') }
+    });
+    await db.backupJobItem.create({ data: { jobId: live.id, routerId: routerIds[0], itemStatus: 'RUNNING' } });
+
+    assert.equal(await routerOSBackupJobService.recoverOrphanedJobs(now), 1);
+
+    assert.equal(orphan.jobStatus, 'FAILED');
+    assert.equal(orphan.failedCount, 2);
+    assert.deepEqual(orphan.completedAt, now);
+    assert.deepEqual(items.map(item => item.itemStatus), ['SUCCEEDED', 'FAILED', 'FAILED']);
+    assert.match(items[1].errorMessage, /interrupted/);
+
+    assert.equal(live.jobStatus, 'RUNNING');
+
+    // Nothing left to recover
+    assert.equal(await routerOSBackupJobService.recoverOrphanedJobs(now), 0);
+  });
+
+  test('fails a job interrupted by a quick restart on a later pass', async () => {
+    const restartedAt = new Date('2026-03-10T12:00:00Z');
+
+    // Last heartbeat 20s before the restart, still fresh when the new process starts
+    const interrupted = await db.backupJob.create({
+      data: { jobStatus: 'RUNNING', totalRouters: 1, heartbeatAt: new Date('2026-03-10T11:59:40Z') }
+    });
+    await db.backupJobItem.create({ data: { jobId: interrupted.id, routerId: routerIds[0], itemStatus: 'RUNNING' } });
+
+    assert.equal(await routerOSBackupJobService.recoverOrphanedJobs(restartedAt), 0);
+    assert.equal(interrupted.jobStatus, 'RUNNING');
+
+    // Nothing refreshes the heartbeat any more, the next passes pick it up
+    assert.equal(await routerOSBackupJobService.recoverOrphanedJobs(new Date('2026-03-10T12:00:30Z')), 0);
+    assert.equal(await routerOSBackupJobService.recoverOrphanedJobs(new Date('2026-03-10T12:01:30Z')), 1);
+    assert.equal(interrupted.jobStatus, 'FAILED');
+    assert.equal(interrupted.failedCount, 1);
+  });
+});
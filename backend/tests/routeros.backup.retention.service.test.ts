@@ -0,0 +1,76 @@
+import { db } from './helpers/setup';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSBackupRetentionService } from '../src/services/routeros/routeros.backup.retention.service';
+import { createRouter } from './helpers/fixtures';
+
+// Retention never talks to the router
+const NO_DEVICE = { apiPort: 1, sshPort: 1 };
+
+describe('RouterOSBackupRetentionService', () => {
+  let routerId: string;
+  let companyId: string;
+
+  const createBackup = (backupType: string, createdAt: string, sections: string[] = []) => db.routerBackup.create({
+    data: {
+      routerId,
+      backupType,
+      sections,
+      backupStatus: 'COMPLETED',
+      storageKey: `backups/${routerId}/${createdAt}.rsc`,
+      fileSize: BigInt(100),
+      createdAt: new Date(createdAt)
+    }
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    companyId = (await db.company.create({ data: { name: 'ACME', code: 'ACME' } })).id;
+    routerId = (await createRouter(db, NO_DEVICE, { companyId })).id;
+  });
+
+  test('a later partial backup does not take the day slot of the full export', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const olderExport = await createBackup('EXPORT', '2026-03-10T01:00:00Z');
+    const dailyExport = await createBackup('EXPORT', '2026-03-10T02:00:00Z');
+    const partial = await createBackup('PARTIAL', '2026-03-10T09:00:00Z');
+
+    const report = await routerOSBackupRetentionService.buildRouterReport({ id: routerId, name: 'fake-router', companyId }, now);
+
+    assert.deepEqual(report.keep.map(backup => backup.id).sort(), [dailyExport.id, partial.id].sort());
+    assert.deepEqual(report.expire.map(backup => backup.id), [olderExport.id]);
+    assert.deepEqual(report.keep.find(backup => backup.id === dailyExport.id)!.buckets, ['latest', 'daily', 'weekly', 'monthly']);
+
+    await routerOSBackupRetentionService.enforceRetention({ routerId });
+    assert.equal(dailyExport.backupStatus, 'COMPLETED');
+    assert.equal(olderExport.backupStatus, 'EXPIRED');
+  });
+
+  test('partial backups of different sections keep their own day slots', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const olderFirewall = await createBackup('PARTIAL', '2026-03-10T01:00:00Z', ['/ip firewall']);
+    const firewall = await createBackup('PARTIAL', '2026-03-10T02:00:00Z', ['/ip firewall']);
+    const bgp = await createBackup('PARTIAL', '2026-03-10T03:00:00Z', ['/routing bgp', '/routing filter']);
+    const sameSetReordered = await createBackup('PARTIAL', '2026-03-10T04:00:00Z', ['/routing filter', '/routing bgp']);
+
+    const report = await routerOSBackupRetentionService.buildRouterReport({ id: routerId, name: 'fake-router', companyId }, now);
+
+    assert.deepEqual(report.keep.map(backup => backup.id).sort(), [firewall.id, sameSetReordered.id].sort());
+    assert.deepEqual(report.expire.map(backup => backup.id).sort(), [olderFirewall.id, bgp.id].sort());
+  });
+
+  test('a disabled schedule does not decide the retention policy', async () => {
+    await db.backupSchedule.create({
+      data: { routerId, cronExpression: '0 2 * * *', isEnabled: false, retentionDays: 1 }
+    });
+    const companySchedule = await db.backupSchedule.create({
+      data: { companyId, cronExpression: '0 3 * * *', retentionDays: 14 }
+    });
+
+    const policy = await routerOSBackupRetentionService.resolvePolicy({ id: routerId, companyId });
+
+    assert.equal(policy.source, 'COMPANY_SCHEDULE');
+    assert.equal(policy.scheduleId, companySchedule.id);
+    assert.equal(policy.daily, 14);
+  });
+});
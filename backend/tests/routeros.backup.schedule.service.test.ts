@@ -0,0 +1,153 @@
+import { db } from './helpers/setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BackupSchedule } from '@prisma/client';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSBackupScheduleService } from '../src/services/routeros/routeros.backup.schedule.service';
+import { routerOSBackupScheduler } from '../src/services/routeros/routeros.backup.scheduler.service';
+import { createScheduleSchema, updateScheduleSchema } from '../src/validators/routeros/routeros.backup.validator';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+const DAILY = '0 2 * * *';
+
+describe('RouterOSBackupScheduleService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+  let companyId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ports = await device.start();
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    companyId = (await db.company.create({ data: { name: 'ACME', code: 'ACME' } })).id;
+    routerId = (await createRouter(db, ports, { companyId })).id;
+  });
+
+  test('accepts a router or a company target, never both', async () => {
+    assert.equal(createScheduleSchema.safeParse({ routerId, companyId, cronExpression: DAILY }).success, false);
+    assert.equal(updateScheduleSchema.safeParse({ routerId, companyId }).success, false);
+    assert.equal(createScheduleSchema.safeParse({ companyId, cronExpression: DAILY }).success, true);
+
+    await assert.rejects(
+      routerOSBackupScheduleService.createSchedule({ routerId, companyId, cronExpression: DAILY }),
+      /not both/
+    );
+  });
+
+  test('switching the target clears the other one', async () => {
+    const schedule = await routerOSBackupScheduleService.createSchedule({ routerId, cronExpression: DAILY });
+    assert.ok(schedule.nextRunAt);
+
+    const toCompany = await routerOSBackupScheduleService.updateSchedule(schedule.id, { companyId });
+    assert.equal(toCompany.companyId, companyId);
+    assert.equal(toCompany.routerId, null);
+
+    const toRouter = await routerOSBackupScheduleService.updateSchedule(schedule.id, { routerId });
+    assert.equal(toRouter.routerId, routerId);
+    assert.equal(toRouter.companyId, null);
+
+    const disabled = await routerOSBackupScheduleService.updateSchedule(schedule.id, { isEnabled: false });
+    assert.equal(disabled.nextRunAt, null);
+    assert.equal(disabled.routerId, routerId);
+  });
+
+  test('fills in missing next runs and finds due schedules', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    const missing = await db.backupSchedule.create({ data: { routerId, cronExpression: DAILY } });
+    await db.backupSchedule.create({ data: { routerId, cronExpression: 'not a cron' } });
+    const due = await db.backupSchedule.create({
+      data: { routerId, cronExpression: DAILY, nextRunAt: new Date('2026-03-10T02:00:00Z') }
+    });
+    await db.backupSchedule.create({
+      data: { routerId, cronExpression: DAILY, isEnabled: false, nextRunAt: new Date('2026-03-09T02:00:00Z') }
+    });
+
+    assert.equal(await routerOSBackupScheduleService.initializeMissingNextRuns(now), 1);
+    assert.deepEqual(missing.nextRunAt, new Date('2026-03-11T02:00:00Z'));
+
+    const schedules = await routerOSBackupScheduleService.getDueSchedules(now);
+    assert.deepEqual(schedules.map(schedule => schedule.id), [due.id]);
+  });
+
+  test('only one claim of a slot wins and missed slots collapse into one run', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const schedule = await db.backupSchedule.create({
+      data: { routerId, cronExpression: DAILY, nextRunAt: new Date('2026-03-07T02:00:00Z') }
+    });
+
+    // Two instances loaded the same due row
+    const stale = { ...schedule } as BackupSchedule;
+    const claims = await Promise.all([
+      routerOSBackupScheduleService.claimSchedule(stale, now),
+      routerOSBackupScheduleService.claimSchedule(stale, now)
+    ]);
+
+    assert.deepEqual(claims.sort(), [false, true]);
+    assert.deepEqual(schedule.lastRunAt, now);
+    assert.deepEqual(schedule.nextRunAt, new Date('2026-03-11T02:00:00Z'));
+    assert.equal((await routerOSBackupScheduleService.getDueSchedules(now)).length, 0);
+  });
+
+  test('a schedule with a broken cron expression is disabled instead of claimed', async () => {
+    const schedule = await db.backupSchedule.create({
+      data: { routerId, cronExpression: 'not a cron', nextRunAt: new Date('2026-03-10T02:00:00Z') }
+    });
+
+    assert.equal(await routerOSBackupScheduleService.claimSchedule({ ...schedule } as BackupSchedule, new Date('2026-03-10T12:00:00Z')), false);
+    assert.equal(schedule.isEnabled, false);
+    assert.equal(schedule.nextRunAt, null);
+  });
+
+  test('a company schedule backs up its active routers and records every run', async () => {
+    const inactive = await createRouter(db, ports, { companyId, name: 'offline-router', status: 'INACTIVE' });
+    const schedule = await routerOSBackupScheduleService.createSchedule({ companyId, cronExpression: DAILY });
+
+    // Company schedules only pick ACTIVE routers
+    const targets = await routerOSBackupScheduleService.resolveTargetRouters(schedule);
+    assert.deepEqual(targets.map(router => router.id), [routerId]);
+
+    const result = await routerOSBackupScheduleService.executeSchedule(schedule, new Date());
+    assert.equal(result.total, 1);
+    assert.equal(result.succeeded, 1);
+
+    // A router schedule still records an inactive router, as skipped
+    const routerSchedule = await routerOSBackupScheduleService.createSchedule({ routerId: inactive.id, cronExpression: DAILY });
+    const skipped = await routerOSBackupScheduleService.executeSchedule(routerSchedule, new Date());
+    assert.equal(skipped.skipped, 1);
+
+    const runs = db.backupScheduleRun.rows;
+    assert.deepEqual(runs.map(run => run.runStatus), ['SUCCESS', 'SKIPPED']);
+    assert.ok(runs[0].backupId);
+  });
+
+  test('a manual run is started in the background and never overlaps another run', async () => {
+    const schedule = await routerOSBackupScheduleService.createSchedule({ routerId, cronExpression: DAILY });
+    const stale = { ...schedule } as BackupSchedule;
+
+    const batch = await routerOSBackupScheduler.runNow(schedule.id);
+    assert.equal(batch.runs.length, 1);
+    assert.deepEqual(db.backupScheduleRun.rows.map(run => [run.id, run.runStatus]), [[batch.runs[0].id, 'RUNNING']]);
+
+    // Still running here, and a second manual run from a stale read of the schedule loses the claim
+    await assert.rejects(routerOSBackupScheduler.runNow(schedule.id), { statusCode: 409 });
+    assert.equal(await routerOSBackupScheduleService.claimManualRun(stale), false);
+
+    await routerOSBackupScheduler.stop();
+    assert.equal(db.backupScheduleRun.rows[0].runStatus, 'SUCCESS');
+    assert.equal(db.backupScheduleRun.rows.length, 1);
+
+    await assert.rejects(routerOSBackupScheduler.runNow('missing'), { statusCode: 404 });
+  });
+});
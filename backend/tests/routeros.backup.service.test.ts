@@ -0,0 +1,179 @@
+import { db } from './helpers/setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BackupStatus, BackupType } from '@prisma/client';
+import { decrypt } from '../src/lib/encryption';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSBackupService } from '../src/services/routeros/routeros.backup.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+describe('RouterOSBackupService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+  let originalExport: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    originalExport = device.exportText;
+    ports = await device.start();
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    device.exportText = originalExport;
+    device.importError = undefined;
+    device.sshCommands.length = 0;
+    routerId = (await createRouter(db, ports)).id;
+  });
+
+  test('stores an export backup and reads it back', async () => {
+    const backup = await routerOSBackupService.createBackup({ routerId });
+
+    assert.equal(backup.backupStatus, BackupStatus.COMPLETED);
+    assert.equal(backup.routerVersion, '7.16 (stable)');
+    assert.equal(backup.containsSensitive, false);
+    assert.equal(backup.hasChanges, null);
+    assert.deepEqual(device.sshCommands, ['/export']);
+
+    const file = await routerOSBackupService.getBackupFile(backup.id);
+    const content = file.content.toString('utf-8');
+
+    assert.match(content, /by RouterOS 7\.16 \(stable\)/);
+    assert.match(content, /add action=drop chain=input in-interface=ether1/);
+    assert.doesNotMatch(content, /noc-secret/);
+    assert.ok((await db.router.findUnique({ where: { id: routerId } }))?.lastSeen);
+  });
+
+  test('exports secrets when the router is set to', async () => {
+    await db.router.update({ where: { id: routerId }, data: { backupShowSensitive: true } });
+
+    const backup = await routerOSBackupService.createBackup({ routerId, compact: true });
+    const file = await routerOSBackupService.getBackupFile(backup.id);
+
+    assert.deepEqual(device.sshCommands, ['/export compact show-sensitive']);
+    assert.equal(backup.containsSensitive, true);
+    assert.match(file.content.toString('utf-8'), /password=noc-secret/);
+  });
+
+  test('detects configuration drift between backups', async () => {
+    const first = await routerOSBackupService.createBackup({ routerId });
+    const unchanged = await routerOSBackupService.createBackup({ routerId });
+
+    assert.equal(unchanged.previousBackupId, first.id);
+    assert.equal(unchanged.hasChanges, false);
+
+    device.exportText += '/ip firewall filter\nadd action=drop chain=forward src-address=198.51.100.0/24\n';
+
+    const changed = await routerOSBackupService.createBackup({ routerId });
+
+    assert.equal(changed.previousBackupId, unchanged.id);
+    assert.equal(changed.hasChanges, true);
+  });
+
+  test('does not compare drift against a safety backup with secrets', async () => {
+    const first = await routerOSBackupService.createBackup({ routerId });
+    await routerOSBackupService.createSafetyBackup(routerId, 'user-1');
+
+    const next = await routerOSBackupService.createBackup({ routerId });
+
+    assert.equal(next.previousBackupId, first.id);
+    assert.equal(next.hasChanges, false);
+  });
+
+  test('stores only the requested sections of a partial backup', async () => {
+    const backup = await routerOSBackupService.createBackup({
+      routerId,
+      backupType: BackupType.PARTIAL,
+      sections: ['/ip firewall']
+    });
+
+    const content = (await routerOSBackupService.getBackupFile(backup.id)).content.toString('utf-8');
+
+    assert.deepEqual(device.sshCommands, ['/ip firewall export']);
+    assert.deepEqual(backup.sections, ['/ip firewall']);
+    assert.match(content, /\/ip firewall filter/);
+    assert.doesNotMatch(content, /\/interface bridge/);
+  });
+
+  test('saves, downloads and cleans up a binary backup', async () => {
+    const backup = await routerOSBackupService.createBackup({
+      routerId,
+      backupType: BackupType.BINARY,
+      binaryPassword: 'backup-pass'
+    });
+
+    const file = await routerOSBackupService.getBackupFile(backup.id);
+
+    assert.equal(file.content.toString(), 'RouterOS backup of fake-router (encrypted:backup-pass)');
+    assert.equal(decrypt(backup.backupPassword!), 'backup-pass');
+    assert.equal(backup.containsSensitive, true);
+    assert.equal(device.files.size, 0);
+    assert.deepEqual(device.sshCommands, [`/file remove [find name="backup-${backup.id}.backup"]`]);
+  });
+
+  test('marks the backup FAILED when the router cannot be reached over SSH', async () => {
+    const unreachable = await createRouter(db, { ...ports, sshPort: 1 });
+
+    await assert.rejects(routerOSBackupService.createBackup({ routerId: unreachable.id }), /^Error: Backup failed: /);
+
+    const [record] = await db.routerBackup.findMany({ where: { routerId: unreachable.id } });
+    assert.equal(record.backupStatus, BackupStatus.FAILED);
+    assert.ok(record.completedAt);
+  });
+
+  test('restores an export over SSH behind a safety backup', async () => {
+    const backup = await routerOSBackupService.createBackup({ routerId });
+    device.sshCommands.length = 0;
+
+    const restore = await routerOSBackupService.restoreBackup({ backupId: backup.id, routerId, restoredBy: 'user-1' });
+
+    assert.equal(restore.restoreStatus, 'COMPLETED');
+    assert.ok(restore.safetyBackupId);
+    assert.match(device.imports.at(-1)!, /add action=drop chain=input in-interface=ether1/);
+
+    // Rollback armed before the import and disarmed once the router answered again
+    const rollback = `restore-rollback-${restore.id}`;
+    assert.ok(device.sshCommands.includes(`/system backup save name=${rollback} dont-encrypt=yes`));
+    assert.ok(device.sshCommands.some(command => command.startsWith(`/system scheduler add name=${rollback} `)));
+    assert.ok(device.sshCommands.includes(`/system scheduler remove [find name="${rollback}"]`));
+    assert.equal(device.find('/system/scheduler', { name: rollback }), undefined);
+    assert.equal(device.files.size, 0);
+  });
+
+  test('records where a failed import stopped', async () => {
+    const backup = await routerOSBackupService.createBackup({ routerId });
+    device.importError = 'expected end of command (line 4 column 12)';
+
+    await assert.rejects(
+      routerOSBackupService.restoreBackup({ backupId: backup.id, routerId, restoredBy: 'user-1', createSafetyBackup: false }),
+      /Restore failed: expected end of command \(line 4 column 12\)/
+    );
+
+    const [restore] = await db.backupRestore.findMany();
+    assert.equal(restore.restoreStatus, 'FAILED');
+    assert.match(restore.restoreLog, /line 4 column 12/);
+  });
+
+  test('leaves the rollback armed when the import fails behind a safety backup', async () => {
+    const backup = await routerOSBackupService.createBackup({ routerId });
+    device.importError = 'expected end of command (line 4 column 12)';
+
+    const restore = await routerOSBackupService.restoreBackup({ backupId: backup.id, routerId, restoredBy: 'user-1' });
+
+    assert.equal(restore.restoreStatus, 'ROLLBACK_PENDING');
+    assert.match(restore.errorMessage!, /Import failed \(expected end of command/);
+
+    // The half-applied config is reverted by the scheduler, not confirmed
+    const rollback = `restore-rollback-${restore.id}`;
+    assert.equal(device.find('/system/scheduler', { name: rollback })?.['on-event'], `/system backup load name=${rollback}.backup`);
+    assert.ok(device.files.has(`${rollback}.backup`));
+  });
+});
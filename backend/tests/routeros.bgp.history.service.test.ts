@@ -0,0 +1,187 @@
+import { db } from './helpers/setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { computePeerStats, routerOSBgpHistoryService } from '../src/services/routeros/routeros.bgp.history.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('RouterOSBgpHistoryService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ports = await device.start();
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    device.items('/routing/bgp/session').splice(0);
+    device.add('/routing/bgp/session', {
+      name: 'upstream-1',
+      'remote.address': '10.0.0.1',
+      'remote.as': '65000',
+      established: 'true',
+      'prefix-count': '912345'
+    });
+    device.add('/routing/bgp/session', { name: 'backup-1', 'remote.as': '65010', state: 'idle' });
+    routerId = (await createRouter(db, ports, { routerType: 'UPSTREAM' })).id;
+  });
+
+  test('records the first sighting of each peer', async () => {
+    const now = new Date();
+    const result = await routerOSBgpHistoryService.pollRouter(routerId, now);
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.peers, 2);
+    assert.equal(result.transitions, 0);
+
+    const upstream = await db.bgpPeer.findFirst({ where: { routerId, peerKey: 'upstream-1' } });
+    assert.equal(upstream?.state, 'established');
+    assert.equal(upstream?.prefixCount, 912345);
+    assert.equal(upstream?.remoteAs, '65000');
+    assert.deepEqual(upstream?.stateSince, now);
+
+    const first = await db.bgpPeerTransition.findMany({ where: { peerId: upstream!.id } });
+    assert.deepEqual(first.map(transition => [transition.fromState, transition.toState]), [[null, 'established']]);
+  });
+
+  test('stores state changes and marks unlisted peers down', async () => {
+    const start = new Date(Date.now() - HOUR);
+    await routerOSBgpHistoryService.pollRouter(routerId, start);
+
+    const session = device.find('/routing/bgp/session', { name: 'upstream-1' })!;
+    delete session.established;
+    session.state = 'active';
+    session['prefix-count'] = '0';
+    device.remove('/routing/bgp/session', device.find('/routing/bgp/session', { name: 'backup-1' })!);
+
+    const later = new Date(start.getTime() + 10 * MINUTE);
+    const result = await routerOSBgpHistoryService.pollRouter(routerId, later);
+    assert.equal(result.transitions, 2);
+
+    const upstream = await db.bgpPeer.findFirst({ where: { routerId, peerKey: 'upstream-1' } });
+    assert.equal(upstream?.state, 'active');
+    assert.equal(upstream?.prefixCount, 0);
+    assert.deepEqual(upstream?.stateSince, later);
+
+    const backup = await db.bgpPeer.findFirst({ where: { routerId, peerKey: 'backup-1' } });
+    assert.equal(backup?.state, 'down');
+
+    // An unchanged state adds nothing
+    const again = await routerOSBgpHistoryService.pollRouter(routerId, new Date(later.getTime() + MINUTE));
+    assert.equal(again.transitions, 0);
+    assert.equal(await db.bgpPeerTransition.count({ where: { peerId: upstream!.id } }), 2);
+  });
+
+  test('flags a peer that flaps within the window', async () => {
+    const session = device.find('/routing/bgp/session', { name: 'upstream-1' })!;
+    const start = new Date(Date.now() - HOUR);
+    await routerOSBgpHistoryService.pollRouter(routerId, start);
+
+    const flapping: string[] = [];
+
+    for (let i = 1; i <= 5; i++) {
+      session.established = i % 2 === 0 ? 'true' : 'false';
+      session.state = i % 2 === 0 ? '' : 'idle';
+      const result = await routerOSBgpHistoryService.pollRouter(routerId, new Date(start.getTime() + i * MINUTE));
+      flapping.push(...result.flapping);
+    }
+
+    // The fifth transition reaches the default threshold, reported once
+    assert.deepEqual(flapping, ['upstream-1']);
+
+    let upstream = await db.bgpPeer.findFirst({ where: { routerId, peerKey: 'upstream-1' } });
+    assert.equal(upstream?.isFlapping, true);
+
+    // Once the transitions age out of the window the flag clears
+    await routerOSBgpHistoryService.pollRouter(routerId, new Date(start.getTime() + 3 * HOUR));
+    upstream = await db.bgpPeer.findFirst({ where: { routerId, peerKey: 'upstream-1' } });
+    assert.equal(upstream?.isFlapping, false);
+  });
+
+  test('reports a failed poll without touching the history', async () => {
+    const closed = await createRouter(db, { ...ports, apiPort: 1 }, { routerType: 'UPSTREAM' });
+    const result = await routerOSBgpHistoryService.pollRouter(closed.id);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /ECONNREFUSED/);
+    assert.equal(await db.bgpPeer.count({ where: { routerId: closed.id } }), 0);
+  });
+
+  test('polls only UPSTREAM routers', async () => {
+    await createRouter(db, ports, { name: 'core' });
+
+    const result = await routerOSBgpHistoryService.pollAll();
+
+    assert.equal(result.total, 1);
+    assert.equal(result.succeeded, 1);
+    assert.equal(await db.bgpPeer.count(), 2);
+  });
+
+  test('returns the timeline and statistics of a peer', async () => {
+    const now = new Date();
+    const session = device.find('/routing/bgp/session', { name: 'upstream-1' })!;
+
+    await routerOSBgpHistoryService.pollRouter(routerId, new Date(now.getTime() - 4 * HOUR));
+    session.established = 'false';
+    session.state = 'idle';
+    await routerOSBgpHistoryService.pollRouter(routerId, new Date(now.getTime() - 3 * HOUR));
+    session.established = 'true';
+    session.state = '';
+    await routerOSBgpHistoryService.pollRouter(routerId, new Date(now.getTime() - 2 * HOUR));
+
+    const history = await routerOSBgpHistoryService.getPeerHistory(routerId, 'upstream-1', 'day', now);
+
+    assert.deepEqual(history.segments.map(segment => segment.state), ['established', 'idle', 'established']);
+    assert.equal(history.stats.flapCount, 1);
+    assert.equal(history.stats.transitions, 2);
+    assert.equal(history.stats.observedSeconds, 4 * 3600);
+    assert.equal(history.stats.timeInState.idle, 3600);
+    assert.equal(history.stats.uptimePercent, 75);
+
+    await assert.rejects(
+      routerOSBgpHistoryService.getPeerHistory(routerId, 'missing', 'day', now),
+      { statusCode: 404 }
+    );
+  });
+});
+
+describe('computePeerStats', () => {
+  test('starts the range in the state carried over from before it', () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-01-01T10:00:00Z');
+
+    const { segments, stats } = computePeerStats(
+      { toState: 'idle' },
+      [{ fromState: 'idle', toState: 'established', timestamp: new Date('2026-01-01T01:00:00Z') }],
+      from,
+      to
+    );
+
+    assert.deepEqual(segments.map(segment => [segment.state, segment.start.toISOString()]), [
+      ['idle', from.toISOString()],
+      ['established', '2026-01-01T01:00:00.000Z']
+    ]);
+    assert.equal(stats.uptimePercent, 90);
+    assert.equal(stats.flapCount, 0);
+  });
+
+  test('has no uptime for a peer never seen in the range', () => {
+    const { segments, stats } = computePeerStats(null, [], new Date(0), new Date(1000));
+
+    assert.deepEqual(segments, []);
+    assert.equal(stats.uptimePercent, null);
+  });
+});
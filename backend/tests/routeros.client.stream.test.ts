@@ -0,0 +1,232 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RouterOSClient } from '../src/lib/routeros/client';
+import { FakeRouterOSApi } from './helpers/fake-routeros-api';
+import type { FakeApiReply } from './helpers/fake-routeros-api';
+
+const tick = (ms = 10) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Send a sample every intervalMs until the command is cancelled
+ */
+function streamSamples(reply: FakeApiReply, sample: (index: number) => Record<string, string>, intervalMs = 5) {
+  let index = 0;
+  const timer = setInterval(() => reply.re(sample(index++)), intervalMs);
+  reply.onCancel(() => clearInterval(timer));
+}
+
+describe('RouterOSClient.stream', () => {
+  let server: FakeRouterOSApi;
+  let port: number;
+
+  before(async () => {
+    server = new FakeRouterOSApi({ users: { admin: 'secret' } });
+    port = await server.listen();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.received.length = 0;
+
+    server.handle('/ping', (request, reply) => {
+      const count = Number(request.params.count || 0);
+      let sent = 0;
+
+      const timer = setInterval(() => {
+        reply.re({ seq: String(sent), host: request.params.address, time: '1ms' });
+        sent++;
+
+        if (count > 0 && sent === count) {
+          clearInterval(timer);
+          reply.done();
+        }
+      }, 5);
+
+      reply.onCancel(() => clearInterval(timer));
+    });
+
+    server.handle('/interface/monitor-traffic', (request, reply) => {
+      streamSamples(reply, index => ({
+        name: request.params.interface,
+        'rx-bits-per-second': String(1000 * (index + 1))
+      }));
+    });
+
+    server.handle('/system/identity/print', (_request, reply) => {
+      reply.re({ name: 'fake-router' });
+      reply.done();
+    });
+  });
+
+  async function connect(): Promise<RouterOSClient> {
+    const client = new RouterOSClient({ host: '127.0.0.1', port, username: 'admin', password: 'secret', timeout: 5 });
+    await client.connect();
+    return client;
+  }
+
+  test('yields sentences as they arrive and ends on !done', async () => {
+    const client = await connect();
+
+    try {
+      const replies = [];
+      for await (const sentence of client.stream('/ping', { address: '10.0.0.1', count: 3 })) {
+        replies.push(sentence);
+      }
+
+      assert.deepEqual(replies.map(reply => reply.seq), ['0', '1', '2']);
+      assert.equal(replies[0].host, '10.0.0.1');
+      assert.equal(client.getActiveStreamCount(), 0);
+      assert.equal(server.requestsFor('/cancel').length, 0);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('cancel() sends /cancel for the command tag and ends iteration', async () => {
+    const client = await connect();
+
+    try {
+      const stream = client.stream('/interface/monitor-traffic', { interface: 'ether1' });
+
+      const first = await stream.next();
+      assert.equal(first.done, false);
+      assert.equal(first.value.name, 'ether1');
+
+      await stream.cancel();
+
+      assert.deepEqual(await stream.next(), { value: undefined, done: true });
+      assert.equal(stream.isFinished(), true);
+      assert.equal(client.getActiveStreamCount(), 0);
+
+      const [monitor] = server.requestsFor('/interface/monitor-traffic');
+      const [cancel] = server.requestsFor('/cancel');
+      assert.equal(cancel.params.tag, monitor.tag);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('leaving a for await loop early cancels the command', async () => {
+    const client = await connect();
+
+    try {
+      let samples = 0;
+      for await (const sample of client.stream('/interface/monitor-traffic', { interface: 'ether2' })) {
+        assert.equal(sample.name, 'ether2');
+        if (++samples === 3) {
+          break;
+        }
+      }
+
+      assert.equal(server.requestsFor('/cancel').length, 1);
+      assert.equal(client.getActiveStreamCount(), 0);
+
+      // The session stays usable for regular commands
+      const identity = await client.execute('/system/identity/print');
+      assert.equal(identity.success, true);
+      assert.equal(identity.data?.[0].name, 'fake-router');
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('an aborted signal cancels the command', async () => {
+    const client = await connect();
+
+    try {
+      const controller = new AbortController();
+      const stream = client.stream('/interface/monitor-traffic', { interface: 'ether1' }, { signal: controller.signal });
+
+      await stream.next();
+      controller.abort();
+      await tick(50);
+
+      assert.equal(stream.isFinished(), true);
+      assert.equal(server.requestsFor('/cancel').length, 1);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('a !trap rejects the pending read', async () => {
+    server.handle('/tool/torch', (_request, reply) => {
+      reply.re({ 'rx-packets': '10' });
+      setTimeout(() => reply.trap('no such interface'), 20);
+    });
+
+    const client = await connect();
+
+    try {
+      const stream = client.stream('/tool/torch', { interface: 'ether9' });
+
+      assert.equal((await stream.next()).value?.['rx-packets'], '10');
+      await assert.rejects(stream.next(), /no such interface/);
+      assert.deepEqual(await stream.next(), { value: undefined, done: true });
+      assert.equal(client.getActiveStreamCount(), 0);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('runs alongside regular commands on the same session', async () => {
+    const client = await connect();
+
+    try {
+      const stream = client.stream('/interface/monitor-traffic', { interface: 'ether1' });
+      await stream.next();
+
+      const [identity, another] = await Promise.all([
+        client.execute('/system/identity/print'),
+        stream.next()
+      ]);
+
+      assert.equal(identity.data?.[0].name, 'fake-router');
+      assert.equal(another.value?.name, 'ether1');
+
+      await stream.cancel();
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('losing the connection rejects the pending read', async () => {
+    server.handle('/log/print', () => undefined); // follow with an empty log: nothing to send
+
+    const client = await connect();
+
+    try {
+      const stream = client.stream('/log/print', { follow: '' });
+
+      const pending = stream.next();
+      await tick();
+      server.dropConnections();
+
+      await assert.rejects(pending, /closed|lost/);
+      assert.equal(stream.isFinished(), true);
+      assert.equal(client.isConnected(), false);
+      assert.equal(client.getActiveStreamCount(), 0);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('disconnect() cancels running streams', async () => {
+    const client = await connect();
+    const stream = client.stream('/interface/monitor-traffic', { interface: 'ether1' });
+    await stream.next();
+
+    await client.disconnect();
+
+    assert.equal(stream.isFinished(), true);
+    assert.equal(server.requestsFor('/cancel').length, 1);
+    assert.deepEqual(await stream.next(), { value: undefined, done: true });
+  });
+
+  test('refuses to stream before connecting', () => {
+    const client = new RouterOSClient({ host: '127.0.0.1', port, username: 'admin', password: 'secret' });
+    assert.throws(() => client.stream('/ping', { address: '10.0.0.1' }), /Not connected/);
+  });
+});
@@ -0,0 +1,159 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RouterOSClient } from '../src/lib/routeros/client';
+import type { RouterOSTlsConfig } from '../src/lib/routeros/types';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { FakeRouterOSApi } from './helpers/fake-routeros-api';
+import { FAKE_CA_CERT, FAKE_ROUTER_CERT, FAKE_ROUTER_FINGERPRINT, FAKE_ROUTER_KEY } from './helpers/fake-tls';
+
+describe('RouterOSClient', () => {
+  let device: FakeMikroTik;
+  let port: number;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ({ apiPort: port } = await device.start());
+  });
+
+  after(async () => {
+    await device.stop();
+  });
+
+  async function connect(password = 'secret'): Promise<RouterOSClient> {
+    const client = new RouterOSClient({ host: '127.0.0.1', port, username: 'admin', password, timeout: 5 });
+    await client.connect();
+    return client;
+  }
+
+  test('logs in and reads the RouterOS version', async () => {
+    const client = await connect();
+
+    try {
+      assert.equal(client.isConnected(), true);
+      assert.equal(await client.getVersion(), '7.16 (stable)');
+    } finally {
+      await client.disconnect();
+    }
+
+    assert.equal(client.isConnected(), false);
+  });
+
+  test('rejects a wrong password', async () => {
+    await assert.rejects(connect('wrong'), /Failed to connect to RouterOS at 127\.0\.0\.1/);
+  });
+
+  test('filters print results with ? queries', async () => {
+    const client = await connect();
+
+    try {
+      const all = await client.execute('/interface/print');
+      assert.deepEqual(all.data?.map(item => item.name), ['ether1', 'ether2']);
+
+      const running = await client.execute('/interface/print', { '?running': 'true' });
+      assert.deepEqual(running.data?.map(item => item.name), ['ether1']);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('adds, changes and removes items', async () => {
+    const client = await connect();
+
+    try {
+      const added = await client.execute('/ip/address/add', { address: '10.9.0.1/24', interface: 'ether2' });
+      assert.equal(added.success, true);
+
+      const address = device.find('/ip/address', { address: '10.9.0.1/24' });
+      assert.ok(address);
+
+      await client.execute('/ip/address/set', { '.id': address['.id'], comment: 'uplink' });
+      assert.equal(address.comment, 'uplink');
+
+      await client.execute('/ip/address/remove', { '.id': address['.id'] });
+      assert.equal(device.find('/ip/address', { address: '10.9.0.1/24' }), undefined);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('reports a !trap as a failed result', async () => {
+    const client = await connect();
+
+    try {
+      const result = await client.execute('/interface/set', { '.id': '*FFFF', mtu: '9000' });
+
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /no such item/);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  test('saves a binary backup on the router', async () => {
+    const client = await connect();
+
+    try {
+      const result = await client.saveBinaryBackup('nightly', 'backup-pass');
+
+      assert.equal(result.success, true);
+      assert.equal(device.files.get('nightly.backup')?.toString(), 'RouterOS backup of fake-router (encrypted:backup-pass)');
+      assert.deepEqual(device.api.requestsFor('/system/backup/save').at(-1)?.params, { name: 'nightly', password: 'backup-pass' });
+    } finally {
+      await client.disconnect();
+    }
+  });
+});
+
+describe('RouterOSClient over API-SSL', () => {
+  let server: FakeRouterOSApi;
+  let port: number;
+
+  before(async () => {
+    server = new FakeRouterOSApi({ tls: { key: FAKE_ROUTER_KEY, cert: FAKE_ROUTER_CERT } });
+    server.handle('/system/identity/print', (_request, reply) => {
+      reply.re({ name: 'fake-router' });
+      reply.done();
+    });
+    port = await server.listen();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  async function identityOver(tls: RouterOSTlsConfig): Promise<string | undefined> {
+    const client = new RouterOSClient({ host: '127.0.0.1', port, username: 'admin', password: 'secret', timeout: 5, tls });
+    await client.connect();
+
+    try {
+      return (await client.execute('/system/identity/print')).data?.[0]?.name;
+    } finally {
+      await client.disconnect();
+    }
+  }
+
+  test('accepts a certificate pinned by fingerprint alone', async () => {
+    assert.equal(await identityOver({ verify: true, fingerprint: FAKE_ROUTER_FINGERPRINT }), 'fake-router');
+  });
+
+  test('refuses another fingerprint before sending the login', async () => {
+    server.logins.length = 0;
+
+    await assert.rejects(
+      identityOver({ verify: true, fingerprint: FAKE_ROUTER_FINGERPRINT.replace(/^58/, '00') }),
+      /Certificate fingerprint mismatch/
+    );
+    assert.deepEqual(server.logins, []);
+  });
+
+  test('accepts a certificate signed by the pinned CA', async () => {
+    assert.equal(await identityOver({ verify: true, ca: FAKE_CA_CERT }), 'fake-router');
+  });
+
+  test('refuses a certificate the system CAs do not trust', async () => {
+    server.logins.length = 0;
+
+    await assert.rejects(identityOver({ verify: true }), /Failed to connect to RouterOS/);
+    assert.deepEqual(server.logins, []);
+  });
+});
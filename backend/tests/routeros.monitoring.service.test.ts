@@ -0,0 +1,195 @@
+import { db } from './helpers/setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSMonitoringService } from '../src/services/routeros/routeros.monitoring.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+const MINUTE = 60 * 1000;
+
+describe('RouterOSMonitoringService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ports = await device.start();
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    routerId = (await createRouter(db, ports)).id;
+  });
+
+  test('records resource and health readings and marks the router reachable', async () => {
+    const result = await routerOSMonitoringService.pollRouter(routerId);
+
+    assert.equal(result.reachable, true, result.error);
+    assert.equal(result.metric?.cpuLoad, 3);
+    assert.equal(result.metric?.memoryTotal, 1073741824);
+    assert.equal(result.metric?.memoryUsed, 1073741824 - 956719104);
+    assert.equal(result.metric?.uptime, 788645); // 1w2d3h4m5s
+    assert.equal(result.metric?.temperature, 41);
+    assert.equal(result.metric?.voltage, 24.1);
+
+    // No earlier counters to compare against
+    assert.deepEqual(result.metric?.interfaces, []);
+
+    const router = await db.router.findUnique({ where: { id: routerId } });
+    assert.equal(router?.isReachable, true);
+    assert.equal(router?.lastPollError, null);
+    assert.deepEqual(router?.lastSeen, result.polledAt);
+    assert.equal(await db.routerMetric.count({ where: { routerId, resolution: 'RAW' } }), 1);
+  });
+
+  test('turns interface counters into rates between polls', async () => {
+    const ether1 = device.find('/interface', { name: 'ether1' })!;
+    ether1['rx-byte'] = '1000000';
+    ether1['tx-byte'] = '500000';
+
+    const first = await routerOSMonitoringService.pollRouter(routerId);
+    await sleep(50);
+
+    ether1['rx-byte'] = '3000000';
+    ether1['tx-byte'] = '600000';
+
+    const second = await routerOSMonitoringService.pollRouter(routerId);
+    const seconds = (second.polledAt.getTime() - first.polledAt.getTime()) / 1000;
+
+    // ether2 is not running
+    assert.deepEqual(second.metric?.interfaces, [
+      { name: 'ether1', rxBps: Math.round(2000000 * 8 / seconds), txBps: Math.round(100000 * 8 / seconds) }
+    ]);
+
+    // Counter reset (reboot) leaves the interface out instead of a negative rate
+    ether1['rx-byte'] = '10';
+    const third = await routerOSMonitoringService.pollRouter(routerId);
+    assert.deepEqual(third.metric?.interfaces, []);
+  });
+
+  test('leaves readings empty on boards without health sensors', async () => {
+    const sensors = device.health;
+    device.health = [];
+
+    try {
+      const result = await routerOSMonitoringService.pollRouter(routerId);
+
+      assert.equal(result.reachable, true, result.error);
+      assert.equal(result.metric?.temperature, null);
+      assert.equal(result.metric?.voltage, null);
+    } finally {
+      device.health = sensors;
+    }
+  });
+
+  test('marks a router it cannot reach as unreachable', async () => {
+    const closed = await createRouter(db, { ...ports, apiPort: 1 });
+
+    const result = await routerOSMonitoringService.pollRouter(closed.id);
+
+    assert.equal(result.reachable, false);
+    assert.match(result.error!, /ECONNREFUSED/);
+
+    const router = await db.router.findUnique({ where: { id: closed.id } });
+    assert.equal(router?.isReachable, false);
+    assert.equal(router?.lastSeen, null);
+    assert.match(router?.lastPollError, /ECONNREFUSED/);
+    assert.equal(await db.routerMetric.count({ where: { routerId: closed.id } }), 0);
+  });
+
+  test('polls only active MikroTik routers', async () => {
+    await createRouter(db, ports, { status: 'INACTIVE' });
+    await createRouter(db, ports, { routerBrand: 'UBIVIQUITI' });
+    await createRouter(db, { ...ports, apiPort: 1 });
+
+    const result = await routerOSMonitoringService.pollAll();
+
+    assert.equal(result.total, 2);
+    assert.equal(result.reachable, 1);
+    assert.equal(result.unreachable, 1);
+  });
+
+  test('rolls raw samples up into 5 minute and hourly buckets', async () => {
+    const hour = new Date('2026-03-10T10:00:00Z').getTime();
+
+    // Two samples in the 10:00 bucket, one in 10:05, one in 10:10, one in 11:00
+    const samples: Array<[number, number, Array<{ name: string; rxBps: number; txBps: number }>]> = [
+      [0, 10, [{ name: 'ether1', rxBps: 100, txBps: 10 }]],
+      [1, 30, [{ name: 'ether1', rxBps: 300, txBps: 30 }]],
+      [5, 50, []],
+      [10, 70, []],
+      [60, 90, []]
+    ];
+
+    for (const [minute, cpuLoad, interfaces] of samples) {
+      await db.routerMetric.create({
+        data: { routerId, timestamp: new Date(hour + minute * MINUTE), cpuLoad, uptime: minute, interfaces }
+      });
+    }
+
+    const now = new Date(hour + 61 * MINUTE);
+    assert.deepEqual(await routerOSMonitoringService.rollup(now), { FIVE_MINUTES: 3, ONE_HOUR: 1 });
+
+    const fiveMinutes = await db.routerMetric.findMany({ where: { resolution: 'FIVE_MINUTES' }, orderBy: { timestamp: 'asc' } });
+    assert.deepEqual(fiveMinutes.map(row => [row.timestamp.toISOString(), row.sampleCount, row.cpuLoad, row.uptime]), [
+      ['2026-03-10T10:00:00.000Z', 2, 20, 1],
+      ['2026-03-10T10:05:00.000Z', 1, 50, 5],
+      ['2026-03-10T10:10:00.000Z', 1, 70, 10]
+    ]);
+    assert.deepEqual(fiveMinutes[0].interfaces, [{ name: 'ether1', rxBps: 200, txBps: 20 }]);
+
+    // Weighted by raw samples: (20 * 2 + 50 + 70) / 4
+    const [hourly] = await db.routerMetric.findMany({ where: { resolution: 'ONE_HOUR' } });
+    assert.equal(hourly.timestamp.toISOString(), '2026-03-10T10:00:00.000Z');
+    assert.equal(hourly.sampleCount, 4);
+    assert.equal(hourly.cpuLoad, 40);
+
+    // The 11:00 bucket is still open, finished buckets are not written twice
+    assert.deepEqual(await routerOSMonitoringService.rollup(now), { FIVE_MINUTES: 0, ONE_HOUR: 0 });
+    assert.deepEqual(await routerOSMonitoringService.rollup(new Date(hour + 66 * MINUTE)), { FIVE_MINUTES: 1, ONE_HOUR: 0 });
+  });
+
+  test('prunes each resolution after its retention', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const ago = (ms: number) => new Date(now.getTime() - ms);
+
+    await db.routerMetric.create({ data: { routerId, resolution: 'RAW', timestamp: ago(25 * 60 * MINUTE) } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'RAW', timestamp: ago(MINUTE) } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'FIVE_MINUTES', timestamp: ago(9 * 24 * 60 * MINUTE) } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'ONE_HOUR', timestamp: ago(9 * 24 * 60 * MINUTE) } });
+
+    assert.equal(await routerOSMonitoringService.prune(now), 2);
+    assert.deepEqual((await db.routerMetric.findMany()).map(row => row.resolution).sort(), ['ONE_HOUR', 'RAW']);
+  });
+
+  test('serves history at the resolution of the requested range', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const ago = (ms: number) => new Date(now.getTime() - ms);
+
+    await db.routerMetric.create({ data: { routerId, resolution: 'RAW', timestamp: ago(2 * 60 * MINUTE), cpuLoad: 1 } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'RAW', timestamp: ago(30 * MINUTE), cpuLoad: 2 } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'FIVE_MINUTES', timestamp: ago(3 * 60 * MINUTE), cpuLoad: 3 } });
+    await db.routerMetric.create({ data: { routerId, resolution: 'ONE_HOUR', timestamp: ago(3 * 24 * 60 * MINUTE), cpuLoad: 4 } });
+
+    const hour = await routerOSMonitoringService.getHistory(routerId, 'hour', now);
+    assert.equal(hour.resolution, 'RAW');
+    assert.deepEqual(hour.points.map(point => point.cpuLoad), [2]);
+
+    const day = await routerOSMonitoringService.getHistory(routerId, 'day', now);
+    assert.deepEqual(day.points.map(point => point.cpuLoad), [3]);
+
+    const week = await routerOSMonitoringService.getHistory(routerId, 'week', now);
+    assert.deepEqual(week.points.map(point => point.cpuLoad), [4]);
+
+    await assert.rejects(routerOSMonitoringService.getHistory('missing', 'hour'), /Router not found: missing/);
+  });
+});
@@ -0,0 +1,31 @@
+import { db } from './helpers/setup';
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPollerLeaseService } from '../src/services/routeros/routeros.poller.lease.service';
+
+const MINUTE = 60 * 1000;
+
+describe('RouterOSPollerLeaseService', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  test('one instance claims each poll cycle', async () => {
+    const start = new Date('2026-03-10T12:00:00Z');
+    assert.equal(await routerOSPollerLeaseService.claimCycle('monitoring', MINUTE, start), true);
+
+    // Second instance ticks a few seconds later in the same cycle
+    assert.equal(await routerOSPollerLeaseService.claimCycle('monitoring', MINUTE, new Date('2026-03-10T12:00:20Z')), false);
+
+    // Both instances tick for the next cycle, slightly early
+    const next = new Date('2026-03-10T12:00:59Z');
+    const claims = await Promise.all([
+      routerOSPollerLeaseService.claimCycle('monitoring', MINUTE, next),
+      routerOSPollerLeaseService.claimCycle('monitoring', MINUTE, next)
+    ]);
+    assert.deepEqual(claims.sort(), [false, true]);
+
+    // Pollers have separate cycles
+    assert.equal(await routerOSPollerLeaseService.claimCycle('bgp-history', MINUTE, next), true);
+  });
+});
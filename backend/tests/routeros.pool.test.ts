@@ -0,0 +1,211 @@
+import './helpers/setup';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { config } from '../src/config';
+import { RouterOSConnectionPool } from '../src/lib/routeros/pool';
+import type { RouterOSConfig } from '../src/lib/routeros/types';
+import { FakeRouterOSApi } from './helpers/fake-routeros-api';
+
+const ROUTER_ID = 'router-1';
+
+describe('RouterOSConnectionPool', () => {
+  let api: FakeRouterOSApi;
+  let port: number;
+  let pool: RouterOSConnectionPool;
+
+  beforeEach(async () => {
+    api = new FakeRouterOSApi({ users: { admin: 'secret', noc: 'noc-secret' } });
+    api.handle('/system/identity/print', (_request, reply) => {
+      reply.re({ name: 'core-1' });
+      reply.done();
+    });
+    port = await api.listen();
+  });
+
+  afterEach(async () => {
+    await pool.drain();
+    await api.close();
+  });
+
+  function createPool(options: Partial<typeof config.routeros.pool> = {}) {
+    pool = new RouterOSConnectionPool({
+      maxSessionsPerRouter: 2,
+      idleTimeoutMs: 60000,
+      healthCheckAfterMs: 60000,
+      acquireTimeoutMs: 5000,
+      ...options
+    });
+    return pool;
+  }
+
+  function clientConfig(overrides: Partial<RouterOSConfig> = {}): RouterOSConfig {
+    return { host: '127.0.0.1', port, username: 'admin', password: 'secret', timeout: 5, ...overrides };
+  }
+
+  test('lends an idle session instead of logging in again', async () => {
+    createPool();
+
+    const first = await pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(first);
+    const second = await pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(second);
+
+    assert.equal(second, first);
+    assert.deepEqual(api.logins, ['admin']);
+    // Used a moment ago, so not probed
+    assert.equal(api.requestsFor('/system/identity/print').length, 0);
+    assert.deepEqual(pool.getMetrics().totals, {
+      created: 1,
+      reused: 1,
+      destroyed: 0,
+      healthCheckFailures: 0,
+      acquireTimeouts: 0
+    });
+  });
+
+  test('queues borrowers beyond the session limit and hands them released sessions', async () => {
+    createPool({ maxSessionsPerRouter: 2 });
+
+    const first = await pool.acquire(ROUTER_ID, clientConfig());
+    const second = await pool.acquire(ROUTER_ID, clientConfig());
+    const third = pool.acquire(ROUTER_ID, clientConfig());
+
+    await sleep(20);
+    assert.equal(pool.getMetrics().routers[0].waiting, 1);
+
+    await pool.release(second);
+    assert.equal(await third, second);
+    assert.equal(api.logins.length, 2);
+
+    // A destroyed session frees its slot for the next borrower in line
+    const fourth = pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(first, { destroy: true });
+    const replacement = await fourth;
+
+    assert.notEqual(replacement, first);
+    assert.equal(first.isConnected(), false);
+    assert.equal(api.logins.length, 3);
+
+    await pool.release(second);
+    await pool.release(replacement);
+  });
+
+  test('times out a borrower that waits too long', async () => {
+    createPool({ maxSessionsPerRouter: 1, acquireTimeoutMs: 100 });
+
+    const client = await pool.acquire(ROUTER_ID, clientConfig());
+
+    await assert.rejects(
+      pool.acquire(ROUTER_ID, clientConfig()),
+      /^Error: Timed out waiting for a RouterOS session to 127\.0\.0\.1 \(1 sessions in use\)$/
+    );
+
+    const metrics = pool.getMetrics();
+    assert.equal(metrics.totals.acquireTimeouts, 1);
+    assert.equal(metrics.routers[0].waiting, 0);
+
+    await pool.release(client);
+  });
+
+  test('probes sessions idle past the health check age and replaces dead ones', async () => {
+    createPool({ healthCheckAfterMs: 0 });
+
+    const first = await pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(first);
+    assert.equal(await pool.acquire(ROUTER_ID, clientConfig()), first);
+    assert.equal(api.requestsFor('/system/identity/print').length, 1);
+    await pool.release(first);
+
+    api.handle('/system/identity/print', (_request, reply) => reply.trap('session is stale'));
+    const second = await pool.acquire(ROUTER_ID, clientConfig());
+
+    assert.notEqual(second, first);
+    assert.equal(first.isConnected(), false);
+    assert.equal(api.logins.length, 2);
+    assert.equal(pool.getMetrics().totals.healthCheckFailures, 1);
+
+    await pool.release(second);
+  });
+
+  test('counts a session under health check against the session limit', async () => {
+    createPool({ maxSessionsPerRouter: 1, healthCheckAfterMs: 0 });
+
+    const client = await pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(client);
+
+    let answerProbe!: () => void;
+    const probing = new Promise<void>(resolve => {
+      api.handle('/system/identity/print', (_request, reply) => {
+        answerProbe = () => {
+          reply.re({ name: 'core-1' });
+          reply.done();
+        };
+        resolve();
+      });
+    });
+
+    const probed = pool.acquire(ROUTER_ID, clientConfig());
+    await probing;
+
+    // The only session is being probed, so this borrower has to wait for it
+    const waiting = pool.acquire(ROUTER_ID, clientConfig());
+    await sleep(20);
+
+    assert.equal(api.logins.length, 1);
+    assert.equal(pool.getMetrics().routers[0].waiting, 1);
+
+    answerProbe();
+    assert.equal(await probed, client);
+    await pool.release(client);
+    assert.equal(await waiting, client);
+    assert.equal(api.logins.length, 1);
+
+    await pool.release(client);
+  });
+
+  test('retires every session of a router when its credentials change', async () => {
+    createPool({ maxSessionsPerRouter: 1 });
+
+    const idle = await pool.acquire('router-2', clientConfig());
+    await pool.release(idle);
+    const borrowed = await pool.acquire(ROUTER_ID, clientConfig());
+    const waiter = assert.rejects(
+      pool.acquire(ROUTER_ID, clientConfig()),
+      /^Error: Router connection settings changed$/
+    );
+
+    const renamed = { username: 'noc', password: 'noc-secret' };
+    const replacement = await pool.acquire(ROUTER_ID, clientConfig(renamed));
+
+    await waiter;
+    assert.notEqual(replacement, borrowed);
+    assert.equal(borrowed.isConnected(), true);
+
+    // The borrowed session of the old settings is closed instead of pooled
+    await pool.release(borrowed);
+    assert.equal(borrowed.isConnected(), false);
+
+    await pool.release(replacement);
+    assert.equal(await pool.acquire(ROUTER_ID, clientConfig(renamed)), replacement);
+    await pool.release(replacement);
+
+    // Other routers keep their sessions
+    assert.equal(idle.isConnected(), true);
+    assert.deepEqual(api.logins, ['admin', 'admin', 'noc']);
+  });
+
+  test('closes sessions left idle past the idle timeout', async () => {
+    createPool({ idleTimeoutMs: 50 });
+
+    const client = await pool.acquire(ROUTER_ID, clientConfig());
+    await pool.release(client);
+
+    // The sweep runs at most once a second
+    await sleep(1300);
+
+    assert.equal(client.isConnected(), false);
+    assert.deepEqual(pool.getMetrics().routers, []);
+    assert.equal(pool.getMetrics().totals.destroyed, 1);
+  });
+});
@@ -0,0 +1,223 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSRoutingFilterService } from '../src/services/routeros/routeros.routing.filter.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+
+describe('RouterOSRoutingFilterService', () => {
+  let device: FakeMikroTik;
+  let routerId: string;
+  let jumpRuleId: string;
+  let prependId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+
+    device.add('/routing/bgp/connection', {
+      name: 'upstream',
+      'remote.address': '10.0.0.1',
+      'remote.as': '65000',
+      'input.filter': 'upstream-in',
+      'output.filter': 'upstream-out'
+    });
+    device.add('/routing/bgp/connection', { name: 'ix-peer', 'remote.address': '10.0.1.1', 'input.filter': 'upstream-in' });
+
+    jumpRuleId = device.add('/routing/filter/rule', { chain: 'upstream-in', rule: 'jump bogons' });
+    device.add('/routing/filter/rule', {
+      chain: 'upstream-in',
+      rule: 'if (dst-len > 24 || bgp-as-path-len > 20) { reject }'
+    });
+    device.add('/routing/filter/rule', {
+      chain: 'upstream-in',
+      rule: 'if (bgp-as-path "^65000 .*64512$" && bgp-communities includes 65000:100) '
+        + '{ set bgp-local-pref 200; append bgp-communities 65001:10; accept } else { set bgp-local-pref 100 }'
+    });
+    device.add('/routing/filter/rule', { chain: 'upstream-in', rule: 'if (afi ipv6) { reject } else { accept }' });
+    device.add('/routing/filter/rule', {
+      chain: 'bogons',
+      rule: 'if (dst in 10.0.0.0/8 || dst in 192.168.0.0/16 || dst in 2001:db8::/32) { reject }'
+    });
+    device.add('/routing/filter/rule', { chain: 'bogons', rule: 'return' });
+    device.add('/routing/filter/rule', { chain: 'bogons', rule: 'reject' });
+    device.add('/routing/filter/rule', { chain: 'upstream-out', rule: 'if (dst in 203.0.113.0/24) { accept }' });
+    prependId = device.add('/routing/filter/rule', {
+      chain: 'upstream-out',
+      rule: 'set bgp-path-prepend 2; accept',
+      disabled: 'true'
+    });
+
+    routerId = (await createRouter(db, await device.start())).id;
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  test('lists the rules of a chain in router order', async () => {
+    const rules = await routerOSRoutingFilterService.getFilterRules(routerId, 'upstream-out');
+
+    assert.deepEqual(rules.map(rule => rule.position), [0, 1]);
+    assert.deepEqual(rules[1], {
+      id: prependId,
+      chain: 'upstream-out',
+      rule: 'set bgp-path-prepend 2; accept',
+      comment: undefined,
+      disabled: true,
+      invalid: false,
+      dynamic: false,
+      position: 1
+    });
+  });
+
+  test('lists chains with the BGP connections that use them', async () => {
+    const chains = await routerOSRoutingFilterService.getFilterChains(routerId);
+
+    assert.deepEqual(chains.map(chain => [chain.name, chain.ruleCount, chain.disabledCount]), [
+      ['bogons', 3, 0],
+      ['upstream-in', 4, 0],
+      ['upstream-out', 2, 1]
+    ]);
+    assert.deepEqual(
+      chains.find(chain => chain.name === 'upstream-in')!.usedBy.map(use => [use.connectionName, use.direction]),
+      [['upstream', 'in'], ['ix-peer', 'in']]
+    );
+  });
+
+  test('adds, edits, moves, disables and removes rules', async () => {
+    const options = { triggeredBy: 'user-1' };
+    const added = await routerOSRoutingFilterService.addFilterRule(routerId, {
+      chain: 'upstream-out',
+      rule: 'if (dst-len < 8) { reject }',
+      comment: 'too short',
+      placeBefore: device.find('/routing/filter/rule', { chain: 'upstream-out' })!['.id']
+    }, options);
+
+    assert.equal(added.position, 0);
+    assert.equal(added.comment, 'too short');
+    assert.equal(device.find('/routing/filter/rule', { '.id': added.id })!['place-before'], undefined);
+
+    const updated = await routerOSRoutingFilterService.updateFilterRule(routerId, added.id, { rule: 'if (dst-len < 16) { reject }' }, options);
+    assert.equal(updated.rule, 'if (dst-len < 16) { reject }');
+
+    let rules = await routerOSRoutingFilterService.moveFilterRule(routerId, added.id, undefined, options);
+    assert.deepEqual(rules.map(rule => rule.id).at(-1), added.id);
+    assert.deepEqual(device.api.requestsFor('/routing/filter/rule/move').at(-1)?.params, { numbers: added.id });
+
+    rules = await routerOSRoutingFilterService.moveFilterRule(routerId, added.id, prependId, options);
+    assert.deepEqual(rules.map(rule => rule.position), [0, 1, 2]);
+    assert.equal(rules[1].id, added.id);
+
+    await assert.rejects(
+      routerOSRoutingFilterService.moveFilterRule(routerId, added.id, jumpRuleId, options),
+      { statusCode: 400, message: /belongs to chain upstream-in/ }
+    );
+
+    await routerOSRoutingFilterService.disableFilterRule(routerId, added.id);
+    assert.equal(device.find('/routing/filter/rule', { '.id': added.id })!.disabled, 'true');
+
+    await routerOSRoutingFilterService.enableFilterRule(routerId, added.id);
+    assert.equal(device.find('/routing/filter/rule', { '.id': added.id })!.disabled, 'false');
+
+    await routerOSRoutingFilterService.removeFilterRule(routerId, added.id, options);
+    assert.equal(device.find('/routing/filter/rule', { '.id': added.id }), undefined);
+
+    await assert.rejects(
+      routerOSRoutingFilterService.removeFilterRule(routerId, added.id, options),
+      { statusCode: 404 }
+    );
+
+    // Every applied change was preceded by a backup of /routing filter, rejected ones were not
+    const backups = await db.routerBackup.findMany({ where: { isSafetyBackup: true } });
+    assert.equal(backups.length, 5);
+    assert.ok(backups.every(backup => backup.backupType === 'PARTIAL' && backup.triggeredBy === 'user-1'));
+    assert.deepEqual(backups[0].sections, ['/routing filter']);
+  });
+
+  test('accepts and rewrites a route matched by AS path and community', async () => {
+    const result = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-in', {
+      dst: '203.0.113.0/24',
+      asPath: [65000, 3356, 64512],
+      communities: ['65000:100']
+    });
+
+    assert.equal(result.action, 'accept');
+    assert.equal(result.decidedBy?.chain, 'upstream-in');
+    assert.equal(result.route.localPref, 200);
+    assert.deepEqual(result.route.communities, ['65000:100', '65001:10']);
+    assert.deepEqual(result.trace.map(step => [step.chain, step.depth, step.outcome]), [
+      ['upstream-in', 0, 'next'],
+      ['bogons', 1, 'next'],
+      ['bogons', 1, 'return'],
+      ['upstream-in', 0, 'next'],
+      ['upstream-in', 0, 'accept']
+    ]);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  test('rejects bogons in the jumped chain and follows else branches', async () => {
+    const bogon = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-in', { dst: '10.20.0.0/16' });
+
+    assert.equal(bogon.action, 'reject');
+    assert.deepEqual(bogon.decidedBy, { chain: 'bogons', ruleId: device.find('/routing/filter/rule', { chain: 'bogons' })!['.id'] });
+
+    const other = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-in', {
+      dst: '198.51.100.0/24',
+      asPath: [65000, 65010]
+    });
+
+    assert.equal(other.action, 'accept');
+    assert.equal(other.route.localPref, 100);
+
+    const tooLong = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-in', { dst: '198.51.100.0/25' });
+    assert.equal(tooLong.action, 'reject');
+
+    const ipv6 = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-in', { dst: '2001:db8:1::/48' });
+    assert.equal(ipv6.decidedBy?.chain, 'bogons');
+  });
+
+  test('skips disabled rules and rejects at the end of the chain', async () => {
+    const result = await routerOSRoutingFilterService.testFilterChain(routerId, 'upstream-out', { dst: '198.51.100.0/24' });
+
+    assert.equal(result.action, 'reject');
+    assert.equal(result.decidedBy, null);
+    assert.equal(result.trace.length, 1);
+  });
+
+  test('reports rules the tester cannot parse or follow', async () => {
+    device.add('/routing/filter/rule', { chain: 'lab', rule: 'if (dst in 10.0.0.0/8 { accept }' });
+    device.add('/routing/filter/rule', { chain: 'lab', rule: 'jump lab' });
+
+    const result = await routerOSRoutingFilterService.testFilterChain(routerId, 'lab', { dst: '10.0.0.0/8' });
+
+    assert.equal(result.action, 'reject');
+    assert.equal(result.decidedBy, null);
+    assert.ok(result.warnings.some(warning => warning.includes('Expected ")"')));
+    assert.ok(result.warnings.some(warning => warning.includes('nested deeper than 16')));
+  });
+
+  test('reports an indeterminate verdict when an unsupported matcher picks the branch', async () => {
+    const id = device.add('/routing/filter/rule', {
+      chain: 'lab-unknown',
+      rule: 'if (!(bgp-large-communities includes 65000:1:1)) { accept }'
+    });
+    device.add('/routing/filter/rule', { chain: 'lab-unknown', rule: 'reject' });
+
+    const result = await routerOSRoutingFilterService.testFilterChain(routerId, 'lab-unknown', { dst: '10.0.0.0/8' });
+
+    assert.equal(result.action, 'indeterminate');
+    assert.deepEqual(result.decidedBy, { chain: 'lab-unknown', ruleId: id });
+    assert.deepEqual(result.trace.map(step => step.outcome), ['indeterminate']);
+    assert.ok(result.warnings.some(warning => warning.startsWith(`Rule ${id}: "bgp-large-communities includes 65000:1:1"`)));
+
+    // A known side can still settle the condition
+    device.add('/routing/filter/rule', {
+      chain: 'lab-settled',
+      rule: 'if (dst in 10.0.0.0/8 || bgp-large-communities includes 65000:1:1) { accept }'
+    });
+    const settled = await routerOSRoutingFilterService.testFilterChain(routerId, 'lab-settled', { dst: '10.0.0.0/8' });
+    assert.equal(settled.action, 'accept');
+  });
+});
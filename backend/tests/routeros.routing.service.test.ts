@@ -0,0 +1,242 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSRoutingService } from '../src/services/routeros/routeros.routing.service';
+import { createBGPConnectionSchema } from '../src/validators/routeros/routeros.bgp.connection.validator';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+
+describe('RouterOSRoutingService', () => {
+  let device: FakeMikroTik;
+  let routerId: string;
+  let upstreamId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+
+    upstreamId = device.add('/routing/bgp/connection', {
+      name: 'upstream',
+      'remote.address': '10.0.0.1',
+      'remote.as': '65000',
+      'local.as': '65001',
+      'in.filter': 'upstream-in',
+      'out.filter': 'upstream-out'
+    });
+    device.add('/routing/bgp/connection', {
+      name: 'ix-peer',
+      'remote.address': '10.0.1.1',
+      'remote.as': '65100',
+      'local.as': '65001',
+      disabled: 'true'
+    });
+
+    device.add('/routing/bgp/session', {
+      name: 'upstream-1',
+      'remote.address': '10.0.0.1',
+      'remote.as': '65000',
+      'remote.port': '179',
+      'local.as': '65001',
+      established: 'true',
+      uptime: '3d4h',
+      'prefix-count': '912345'
+    });
+    device.add('/routing/bgp/session', { name: 'backup-1', 'remote.as': '65010', state: 'idle' });
+    device.add('/routing/bgp/session', { name: 'lab-1', 'remote.as': '65020', state: 'active' });
+
+    device.add('/routing/bgp/advertisements', { peer: 'upstream', dst: '203.0.113.0/24', nexthop: '10.0.0.2' });
+    device.add('/routing/bgp/advertisements', { peer: 'ix-peer', dst: '198.51.100.0/24', nexthop: '10.0.1.2' });
+
+    routerId = (await createRouter(db, await device.start())).id;
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  test('lists BGP connections', async () => {
+    const connections = await routerOSRoutingService.getBGPConnections(routerId);
+
+    assert.deepEqual(connections.map(connection => connection.name), ['upstream', 'ix-peer']);
+    assert.deepEqual(connections[0], {
+      id: upstreamId,
+      name: 'upstream',
+      remoteAddress: '10.0.0.1',
+      remoteAs: '65000',
+      localAddress: undefined,
+      localAs: '65001',
+      state: undefined,
+      uptime: undefined,
+      prefixCount: undefined,
+      disabled: false,
+      inFilter: 'upstream-in',
+      outFilter: 'upstream-out',
+      remotePort: undefined,
+      localRole: undefined,
+      templates: [],
+      multihop: false,
+      hasTcpMd5Key: false,
+      holdTime: undefined,
+      comment: undefined
+    });
+    assert.equal(connections[1].disabled, true);
+  });
+
+  test('looks a connection up by ID', async () => {
+    assert.equal((await routerOSRoutingService.getBGPConnectionById(routerId, upstreamId))?.name, 'upstream');
+    assert.equal(await routerOSRoutingService.getBGPConnectionById(routerId, '*FFFF'), null);
+  });
+
+  test('parses sessions and counts their states', async () => {
+    const [established] = await routerOSRoutingService.getBGPSessions(routerId);
+
+    assert.equal(established.state, 'established');
+    assert.equal(established.remotePort, 179);
+    assert.equal(established.prefixCount, 912345);
+
+    assert.deepEqual(await routerOSRoutingService.getBGPSessionStats(routerId), {
+      totalSessions: 3,
+      establishedSessions: 1,
+      activeSessions: 1,
+      idleSessions: 1,
+      downSessions: 0
+    });
+  });
+
+  test('maps advertisements to prefixes per peer', async () => {
+    const advertisements = await routerOSRoutingService.getBGPAdvertisements(routerId);
+
+    assert.deepEqual(advertisements.map(advertisement => [advertisement.from, advertisement.dstAddress, advertisement.gateway]), [
+      ['upstream', '203.0.113.0/24', '10.0.0.2'],
+      ['ix-peer', '198.51.100.0/24', '10.0.1.2']
+    ]);
+  });
+
+  test('fetches connections, advertisements and sessions together', async () => {
+    const data = await routerOSRoutingService.getALLBGPData(routerId);
+
+    assert.equal(data.connections.length, 2);
+    assert.equal(data.advertisements.length, 2);
+    assert.equal(data.sessions.length, 3);
+  });
+
+  test('disables, enables and resets a connection', async () => {
+    await routerOSRoutingService.disableBGPConnection(routerId, upstreamId);
+    assert.equal(device.find('/routing/bgp/connection', { '.id': upstreamId })?.disabled, 'true');
+
+    await routerOSRoutingService.enableBGPConnection(routerId, upstreamId);
+    assert.equal(device.find('/routing/bgp/connection', { '.id': upstreamId })?.disabled, 'false');
+
+    await routerOSRoutingService.resetBGPConnection(routerId, upstreamId);
+    assert.deepEqual(device.api.requestsFor('/routing/bgp/connection/reset').at(-1)?.params, { '.id': upstreamId });
+  });
+
+  test('surfaces router errors for unknown connections', async () => {
+    await assert.rejects(
+      routerOSRoutingService.resetBGPConnection(routerId, '*FFFF'),
+      /Failed to reset BGP connection: .*no such item/
+    );
+  });
+
+  test('creates a connection with RouterOS v7 parameter names', async () => {
+    const connection = await routerOSRoutingService.createBGPConnection(routerId, {
+      name: 'transit-2',
+      remoteAddress: '10.0.2.1',
+      remoteAs: '65200',
+      localRole: 'ebgp',
+      templates: ['default'],
+      inFilter: 'transit-in',
+      multihop: true,
+      tcpMd5Key: 'peer-secret',
+      holdTime: '90s'
+    });
+
+    assert.equal(connection.name, 'transit-2');
+    assert.equal(connection.localRole, 'ebgp');
+    assert.deepEqual(connection.templates, ['default']);
+    assert.equal(connection.inFilter, 'transit-in');
+    assert.equal(connection.multihop, true);
+    assert.equal(connection.hasTcpMd5Key, true);
+    assert.equal('tcpMd5Key' in connection, false);
+
+    assert.deepEqual(device.api.requestsFor('/routing/bgp/connection/add').at(-1)?.params, {
+      name: 'transit-2',
+      'remote.address': '10.0.2.1',
+      'remote.as': '65200',
+      'local.role': 'ebgp',
+      templates: 'default',
+      'input.filter': 'transit-in',
+      multihop: 'yes',
+      'tcp-md5-key': 'peer-secret',
+      'hold-time': '90s'
+    });
+
+    await assert.rejects(
+      routerOSRoutingService.createBGPConnection(routerId, { name: 'transit-2', remoteAddress: '10.0.2.9', localRole: 'ebgp' }),
+      { statusCode: 409 }
+    );
+  });
+
+  test('accepts only real addresses and prefixes as peers', () => {
+    const valid = (remoteAddress: string, localAddress?: string) =>
+      createBGPConnectionSchema.safeParse({ name: 'peer', remoteAddress, localAddress, localRole: 'ebgp' }).success;
+
+    assert.equal(valid('10.0.2.1'), true);
+    assert.equal(valid('10.0.2.0/24'), true);
+    assert.equal(valid('2001:db8::1'), true);
+    assert.equal(valid('2001:db8::/32', '2001:db8::2'), true);
+
+    assert.equal(valid(':::'), false);
+    assert.equal(valid('1.2.3.4.5/999'), false);
+    assert.equal(valid('10.0.2.0/33'), false);
+    assert.equal(valid('10.0.2.1', '10.0.2.256'), false);
+  });
+
+  test('applies filter changes without confirmation or backup', async () => {
+    const id = device.find('/routing/bgp/connection', { name: 'transit-2' })!['.id'];
+
+    const result = await routerOSRoutingService.updateBGPConnection(routerId, id, { outFilter: 'transit-out' }, {
+      triggeredBy: 'user-1'
+    });
+
+    assert.equal(result.connection?.outFilter, 'transit-out');
+    assert.equal(result.safetyBackupId, null);
+  });
+
+  test('backs up /routing bgp before a confirmed destructive change', async () => {
+    const id = device.find('/routing/bgp/connection', { name: 'transit-2' })!['.id'];
+
+    await assert.rejects(
+      routerOSRoutingService.updateBGPConnection(routerId, id, { remoteAs: '65201' }, { triggeredBy: 'user-1' }),
+      { statusCode: 409 }
+    );
+    assert.equal(device.find('/routing/bgp/connection', { '.id': id })?.['remote.as'], '65200');
+
+    const updated = await routerOSRoutingService.updateBGPConnection(routerId, id, { remoteAs: '65201' }, {
+      confirm: true,
+      triggeredBy: 'user-1'
+    });
+    assert.equal(updated.connection?.remoteAs, '65201');
+
+    const backup = await db.routerBackup.findUnique({ where: { id: updated.safetyBackupId! } });
+    assert.equal(backup?.backupType, 'PARTIAL');
+    assert.deepEqual(backup?.sections, ['/routing bgp']);
+    assert.equal(backup?.isSafetyBackup, true);
+    assert.equal(backup?.triggeredBy, 'user-1');
+
+    await assert.rejects(
+      routerOSRoutingService.deleteBGPConnection(routerId, id, { triggeredBy: 'user-1' }),
+      { statusCode: 409 }
+    );
+
+    const deleted = await routerOSRoutingService.deleteBGPConnection(routerId, id, { confirm: true, triggeredBy: 'user-1' });
+    assert.ok(deleted.safetyBackupId);
+    assert.equal(device.find('/routing/bgp/connection', { '.id': id }), undefined);
+
+    await assert.rejects(
+      routerOSRoutingService.deleteBGPConnection(routerId, id, { confirm: true, triggeredBy: 'user-1' }),
+      { statusCode: 404 }
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSRoutingTableService } from '../src/services/routeros/routeros.routing.table.service';
+import type { RouteTableFilters } from '../src/services/routeros/routeros.routing.table.service';
+import { routeTableQuerySchema } from '../src/validators/routeros/routeros.routing.table.validator';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+
+const ALL_ROUTES: RouteTableFilters = { family: 'ipv4', dstMatch: 'within', offset: 0, limit: 100 };
+
+describe('RouterOSRoutingTableService', () => {
+  let edge: FakeMikroTik;
+  let core: FakeMikroTik;
+  let edgeId: string;
+  let coreId: string;
+
+  before(async () => {
+    edge = new FakeMikroTik({ identity: 'edge' });
+    core = new FakeMikroTik({ identity: 'core' });
+
+    edge.add('/ip/route', {
+      'dst-address': '0.0.0.0/0', gateway: '10.0.0.1', distance: '20', 'routing-table': 'main',
+      bgp: 'true', active: 'true', 'belongs-to': 'bgp-IP-10.0.0.1'
+    });
+    edge.add('/ip/route', {
+      'dst-address': '0.0.0.0/0', gateway: '10.0.1.1', distance: '20', 'routing-table': 'main',
+      bgp: 'true', active: 'false'
+    });
+    edge.add('/ip/route', {
+      'dst-address': '10.0.0.0/30', gateway: 'ether1', distance: '0', 'routing-table': 'main',
+      connect: 'true', active: 'true'
+    });
+    edge.add('/ip/route', {
+      'dst-address': '203.0.113.0/24', gateway: '10.0.0.1', distance: '20', 'routing-table': 'main',
+      bgp: 'true', active: 'true'
+    });
+    edge.add('/ip/route', {
+      'dst-address': '203.0.113.128/25', gateway: '10.0.2.1', distance: '1', 'routing-table': 'main',
+      static: 'true', active: 'true'
+    });
+    edge.add('/ip/route', {
+      'dst-address': '203.0.113.128/25', gateway: '10.9.9.1', distance: '1', 'routing-table': 'customers',
+      static: 'true', active: 'true'
+    });
+    edge.add('/ipv6/route', {
+      'dst-address': '2001:db8::/32', gateway: 'fe80::1%ether1', distance: '20', 'routing-table': 'main',
+      bgp: 'true', active: 'true'
+    });
+
+    core.add('/ip/route', {
+      'dst-address': '203.0.113.0/24', gateway: '10.1.0.1', 'routing-table': 'main', static: 'true', active: 'true', ecmp: 'true'
+    });
+    core.add('/ip/route', {
+      'dst-address': '203.0.113.0/24', gateway: '10.1.0.2', 'routing-table': 'main', static: 'true', active: 'true', ecmp: 'true'
+    });
+
+    edgeId = (await createRouter(db, await edge.start(), { name: 'edge' })).id;
+    coreId = (await createRouter(db, await core.start(), { name: 'core' })).id;
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await edge.stop();
+    await core.stop();
+  });
+
+  test('lists routes and narrows them with router-side and local filters', async () => {
+    const all = await routerOSRoutingTableService.getRoutes(edgeId, ALL_ROUTES);
+    assert.equal(all.routes.length, 6);
+    assert.equal(all.hasMore, false);
+
+    const [defaultRoute] = all.routes;
+    assert.equal(defaultRoute.dstAddress, '0.0.0.0/0');
+    assert.equal(defaultRoute.protocol, 'bgp');
+    assert.equal(defaultRoute.distance, 20);
+    assert.equal(defaultRoute.active, true);
+    assert.equal(defaultRoute.belongsTo, 'bgp-IP-10.0.0.1');
+
+    const bgp = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, protocol: 'bgp', state: 'active' });
+    assert.deepEqual(bgp.routes.map(route => route.dstAddress), ['0.0.0.0/0', '203.0.113.0/24']);
+    assert.equal(edge.api.requestsFor('/ip/route/print').at(-1)?.params['.proplist']?.includes('dst-address'), true);
+
+    const inactive = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, state: 'inactive' });
+    assert.deepEqual(inactive.routes.map(route => route.gateway), ['10.0.1.1']);
+
+    const within = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, dst: '203.0.113.0/24' });
+    assert.deepEqual(within.routes.map(route => route.dstAddress), ['203.0.113.0/24', '203.0.113.128/25', '203.0.113.128/25']);
+
+    const exact = await routerOSRoutingTableService.getRoutes(edgeId, {
+      ...ALL_ROUTES, dst: '203.0.113.200/25', dstMatch: 'exact', routingTable: 'customers'
+    });
+    assert.deepEqual(exact.routes.map(route => route.gateway), ['10.9.9.1']);
+
+    const ipv6 = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, family: 'ipv6', dst: '2001:db8:0::/32' });
+    assert.deepEqual(ipv6.routes.map(route => route.dstAddress), ['2001:db8::/32']);
+
+    await assert.rejects(
+      routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, dst: '2001:db8::/32' }),
+      { statusCode: 400 }
+    );
+  });
+
+  test('accepts only real addresses and prefixes as destination filter', () => {
+    const valid = (dst: string) => routeTableQuerySchema.safeParse({ dst }).success;
+
+    assert.equal(valid('10.0.0.0/8'), true);
+    assert.equal(valid('2001:db8::/32'), true);
+    assert.equal(valid(':::'), false);
+    assert.equal(valid('1.2.3.4.5/999'), false);
+    assert.equal(valid('2001:db8::/129'), false);
+  });
+
+  test('pages through the table', async () => {
+    const first = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, limit: 4 });
+    assert.equal(first.routes.length, 4);
+    assert.equal(first.hasMore, true);
+
+    const second = await routerOSRoutingTableService.getRoutes(edgeId, { ...ALL_ROUTES, offset: 4, limit: 4 });
+    assert.deepEqual(second.routes.map(route => route.routingTable), ['main', 'customers']);
+    assert.equal(second.hasMore, false);
+  });
+
+  test('cancels the print once a page is full', async () => {
+    const device = new FakeMikroTik();
+    let cancelled = false;
+
+    // A table too large to finish: keeps sending routes until cancelled
+    device.api.handle('/ip/route/print', (_request, reply) => {
+      for (let index = 0; index < 50; index++) {
+        reply.re({ '.id': `*${index + 1}`, 'dst-address': `198.51.100.${index}/32`, static: 'true', active: 'true' });
+      }
+      reply.onCancel(() => { cancelled = true; });
+    });
+
+    const routerId = (await createRouter(db, await device.start())).id;
+
+    try {
+      const page = await routerOSRoutingTableService.getRoutes(routerId, { ...ALL_ROUTES, offset: 10, limit: 5 });
+
+      assert.deepEqual(page.routes.map(route => route.dstAddress), [
+        '198.51.100.10/32', '198.51.100.11/32', '198.51.100.12/32', '198.51.100.13/32', '198.51.100.14/32'
+      ]);
+      assert.equal(page.hasMore, true);
+      assert.equal(cancelled, true);
+    } finally {
+      await routerOSPool.drain();
+      await device.stop();
+    }
+  });
+
+  test('looks up the longest matching route on several routers', async () => {
+    const results = await routerOSRoutingTableService.lookupRoute([edgeId, coreId], '203.0.113.200');
+
+    assert.equal(results[0].routerName, 'edge');
+    assert.equal(results[0].status, 'found');
+    assert.equal(results[0].prefix, '203.0.113.128/25');
+    assert.deepEqual(results[0].routes.map(route => route.gateway), ['10.0.2.1']);
+
+    assert.equal(results[1].routerName, 'core');
+    assert.equal(results[1].prefix, '203.0.113.0/24');
+    assert.deepEqual(results[1].routes.map(route => route.gateway), ['10.1.0.1', '10.1.0.2']);
+
+    const customers = await routerOSRoutingTableService.lookupRoute([edgeId], '203.0.113.200', 'customers');
+    assert.deepEqual(customers[0].routes.map(route => route.gateway), ['10.9.9.1']);
+
+    // Falls back to the active default route, never the inactive one
+    const fallback = await routerOSRoutingTableService.lookupRoute([edgeId, coreId], '198.51.100.7');
+    assert.equal(fallback[0].prefix, '0.0.0.0/0');
+    assert.deepEqual(fallback[0].routes.map(route => route.gateway), ['10.0.0.1']);
+    assert.equal(fallback[1].status, 'no-route');
+
+    const ipv6 = await routerOSRoutingTableService.lookupRoute([edgeId], '2001:db8::1');
+    assert.equal(ipv6[0].prefix, '2001:db8::/32');
+  });
+
+  test('reports routers that cannot answer without failing the others', async () => {
+    const missingId = randomUUID();
+
+    const results = await routerOSRoutingTableService.lookupRoute([missingId, edgeId], '10.0.0.2');
+
+    assert.equal(results[0].status, 'error');
+    assert.match(results[0].error ?? '', /not found/);
+    assert.equal(results[1].status, 'found');
+    assert.equal(results[1].prefix, '10.0.0.0/30');
+
+    await assert.rejects(routerOSRoutingTableService.lookupRoute([edgeId], '10.0.0.0/8'), { statusCode: 400 });
+  });
+});
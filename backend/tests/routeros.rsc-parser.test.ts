@@ -0,0 +1,146 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findRscCommands, parseRsc, splitLogicalLines, unquoteRscValue } from '../src/lib/routeros/rsc-parser';
+import type { RscDiagnostic, RscLogicalLine } from '../src/lib/routeros/rsc-parser';
+
+describe('splitLogicalLines', () => {
+  const cases: Array<{ name: string; input: string; expected: RscLogicalLine[] }> = [
+    {
+      name: 'continuation drops the backslash and the indent',
+      input: 'add chain=input \\\n    action=accept',
+      expected: [{ text: 'add chain=input action=accept', line: 1 }]
+    },
+    {
+      name: 'even trailing backslashes are an escaped backslash',
+      input: 'add comment=a\\\\\nadd comment=b',
+      expected: [{ text: 'add comment=a\\\\', line: 1 }, { text: 'add comment=b', line: 2 }]
+    },
+    {
+      name: 'odd trailing backslashes continue after the escaped one',
+      input: 'add comment=a\\\\\\\n    b',
+      expected: [{ text: 'add comment=a\\\\b', line: 1 }]
+    },
+    {
+      name: 'line numbers count the physical lines',
+      input: '/ip address\nadd \\\n  address=10.0.0.1/24 \\\n  interface=ether1\n/ip dns',
+      expected: [
+        { text: '/ip address', line: 1 },
+        { text: 'add address=10.0.0.1/24 interface=ether1', line: 2 },
+        { text: '/ip dns', line: 5 }
+      ]
+    },
+    {
+      name: 'CRLF line endings',
+      input: 'add a=1 \\\r\n  b=2\r\nadd c=3',
+      expected: [{ text: 'add a=1 b=2', line: 1 }, { text: 'add c=3', line: 3 }]
+    },
+    {
+      name: 'continuation at the end of the file',
+      input: 'add a=1 \\',
+      expected: [{ text: 'add a=1 ', line: 1 }]
+    }
+  ];
+
+  for (const { name, input, expected } of cases) {
+    test(name, () => {
+      assert.deepEqual(splitLogicalLines(input), expected);
+    });
+  }
+});
+
+describe('unquoteRscValue', () => {
+  const cases: Array<{ name: string; input: string; expected: string }> = [
+    { name: 'bare value', input: 'ether1', expected: 'ether1' },
+    { name: 'lone quote', input: '"', expected: '"' },
+    { name: 'escaped quotes', input: '"office \\"A\\""', expected: 'office "A"' },
+    { name: 'simple escapes', input: '"a\\_b\\tc\\nd\\$e\\?f"', expected: 'a b\tc\nd$e?f' },
+    { name: 'escaped backslash', input: '"back\\\\slash"', expected: 'back\\slash' },
+    { name: 'escaped backslash before hex digits', input: '"\\\\41"', expected: '\\41' },
+    { name: 'hex escapes', input: '"\\41\\42C"', expected: 'ABC' },
+    { name: 'UTF-8 from consecutive hex escapes', input: '"caf\\C3\\A9 \\E2\\82\\AC5"', expected: 'café €5' },
+    { name: 'lowercase hex is not a hex escape', input: '"\\4a"', expected: '4a' },
+    { name: 'unknown escape keeps the character', input: '"\\q"', expected: 'q' },
+    { name: 'trailing backslash is kept', input: '"abc\\"', expected: 'abc\\' }
+  ];
+
+  for (const { name, input, expected } of cases) {
+    test(name, () => {
+      assert.equal(unquoteRscValue(input), expected);
+    });
+  }
+});
+
+describe('parseRsc', () => {
+  test('parses paths, targets, parameters and comments', () => {
+    const document = parseRsc([
+      '# header',
+      '/interface ethernet set [ find default-name=ether1 ] mtu=1500 comment="uplink \\"A\\""',
+      '/ip/dns',
+      'set servers=1.1.1.1',
+      '/interface',
+      'unset ether2 comment',
+      ''
+    ].join('\n'));
+
+    assert.deepEqual(document.diagnostics, []);
+    assert.deepEqual(document.sections.map(({ path, line }) => [path, line]), [
+      ['', 1],
+      ['/interface ethernet', 2],
+      ['/ip dns', 3],
+      ['/interface', 5]
+    ]);
+    assert.deepEqual(document.sections[0].entries, [{ type: 'comment', text: '# header', line: 1 }]);
+
+    const [ethernet] = findRscCommands(document, '/interface ethernet', 'set');
+    assert.deepEqual(ethernet.target, {
+      kind: 'find',
+      raw: '[ find default-name=ether1 ]',
+      where: { 'default-name': 'ether1' }
+    });
+    assert.deepEqual(ethernet.params, { mtu: '1500', comment: 'uplink "A"' });
+
+    const [dns] = findRscCommands(document, '/ip dns');
+    assert.equal(dns.target, null);
+    assert.deepEqual(dns.params, { servers: '1.1.1.1' });
+
+    const [unset] = findRscCommands(document, '/interface', 'unset');
+    assert.deepEqual(unset.target, { kind: 'item', raw: 'ether2', where: {} });
+    assert.deepEqual(unset.args, ['comment']);
+  });
+
+  const diagnosticCases: Array<{ name: string; input: string; expected: RscDiagnostic[]; commandLines: number[] }> = [
+    {
+      name: 'unterminated quoted string',
+      input: '/ip address\nadd comment="open\nadd address=10.0.0.2/24\n',
+      expected: [{ line: 2, message: 'Unterminated quoted string' }],
+      commandLines: [3]
+    },
+    {
+      name: 'unterminated selector',
+      input: '/interface ethernet\nset [ find default-name=ether1 mtu=1500\nset ether2 mtu=1500\n',
+      expected: [{ line: 2, message: 'Unterminated [ ... ] expression' }],
+      commandLines: [3]
+    },
+    {
+      name: 'reported on the line a continued command starts on',
+      input: '/ip address\nadd \\\n  comment="open \\\n  still open\nadd address=10.0.0.2/24\n',
+      expected: [{ line: 2, message: 'Unterminated quoted string' }],
+      commandLines: [5]
+    },
+    {
+      name: 'escaped quotes and brackets inside quotes are fine',
+      input: '/system script\nadd name=a source=":put \\"[ok\\""\n',
+      expected: [],
+      commandLines: [2]
+    }
+  ];
+
+  for (const { name, input, expected, commandLines } of diagnosticCases) {
+    test(`diagnostics: ${name}`, () => {
+      const document = parseRsc(input);
+
+      assert.deepEqual(document.diagnostics, expected);
+      assert.deepEqual(findRscCommands(document).map(command => command.line), commandLines);
+    });
+  }
+});
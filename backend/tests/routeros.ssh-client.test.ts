@@ -0,0 +1,154 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSSHClient, RouterOSSSHClient } from '../src/lib/routeros/ssh-client';
+import type { SSHConfig } from '../src/lib/routeros/ssh-client';
+import { generateSshKeyPair } from '../src/lib/routeros/ssh-keys';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+
+describe('RouterOSSSHClient', () => {
+  let device: FakeMikroTik;
+  let connection: SSHConfig;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    const { sshPort } = await device.start();
+    connection = { host: '127.0.0.1', port: sshPort, username: 'admin', password: 'secret', timeout: 5000 };
+  });
+
+  after(async () => {
+    await device.stop();
+  });
+
+  beforeEach(() => {
+    device.sshCommands.length = 0;
+    device.exports.length = 0;
+    device.importError = undefined;
+  });
+
+  async function withClient<T>(fn: (client: RouterOSSSHClient) => Promise<T>, config = connection): Promise<T> {
+    const client = await createSSHClient(config);
+    try {
+      return await fn(client);
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  test('logs in with a password and reads the version', async () => {
+    assert.equal(await withClient(client => client.getVersion()), '7.16 (stable)');
+  });
+
+  test('rejects a wrong password', async () => {
+    await assert.rejects(createSSHClient({ ...connection, password: 'wrong' }), /authentication/i);
+  });
+
+  test('rejects commands the router does not know', async () => {
+    await withClient(async client => {
+      await assert.rejects(client.executeCommand('/nonsense print'), /Command failed with code 1: bad command name/);
+    });
+  });
+
+  test('exports the configuration with the requested flags', async () => {
+    const hidden = await withClient(client => client.exportConfig(true));
+    const shown = await withClient(client => client.exportConfig(false, 'show-sensitive'));
+
+    assert.deepEqual(device.sshCommands, ['/export compact', '/export show-sensitive']);
+    assert.match(hidden, /^# .* by RouterOS 7\.16 \(stable\)/);
+    assert.doesNotMatch(hidden, /noc-secret/);
+    assert.match(shown, /add group=full name=noc password=noc-secret/);
+  });
+
+  test('exports only the requested sections', async () => {
+    const output = await withClient(client => client.exportSections(['/ip firewall', '/user'], true));
+
+    assert.deepEqual(device.exports.map(request => request.section), ['/ip firewall', '/user']);
+    assert.match(output, /\/ip firewall filter\r?\nadd action=accept/);
+    assert.match(output, /\/user\r?\nadd group=full name=noc/);
+    assert.doesNotMatch(output, /\/interface bridge/);
+  });
+
+  test('refuses section names that are not plain menu paths', async () => {
+    await withClient(async client => {
+      await assert.rejects(client.exportSections(['/ip firewall; /system reboot']), /Invalid section/);
+    });
+    assert.deepEqual(device.sshCommands, []);
+  });
+
+  test('uploads, downloads and removes files', async () => {
+    const content = Buffer.from(Array.from({ length: 100_000 }, (_, index) => index % 251));
+
+    await withClient(async client => {
+      await client.uploadFile('blob.bin', content);
+      assert.deepEqual(await client.downloadFile('blob.bin'), content);
+
+      await client.removeFile('blob.bin');
+      await assert.rejects(client.downloadFile('blob.bin'), /No such file/i);
+    });
+
+    assert.equal(device.files.has('blob.bin'), false);
+  });
+
+  test('imports a script and removes the uploaded file', async () => {
+    const script = '/system identity\nset name=restored\n';
+    const result = await withClient(client => client.importConfig(script, 'restore-test.rsc'));
+
+    assert.equal(result.success, true);
+    assert.equal(device.imports.at(-1), script);
+    assert.equal(device.files.has('restore-test.rsc'), false);
+    assert.deepEqual(device.sshCommands, [
+      '/import file-name=restore-test.rsc verbose=yes',
+      '/file remove [find name="restore-test.rsc"]'
+    ]);
+  });
+
+  test('reports the line a failed import stopped at', async () => {
+    device.importError = 'expected end of command (line 2 column 9)';
+
+    const result = await withClient(client => client.importConfig('/ip address\nadd foo\n'));
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'expected end of command (line 2 column 9)');
+  });
+
+  test('logs in with a key once it was imported, and not after it was removed', async () => {
+    const keyPair = await generateSshKeyPair('ed25519', 'router-management-test');
+    const keyLogin = { ...connection, password: undefined, privateKey: keyPair.privateKey };
+
+    await assert.rejects(createSSHClient(keyLogin), /authentication/i);
+
+    await withClient(client => client.importSshKey('admin', keyPair.publicKey));
+    assert.deepEqual(device.sshKeys.map(key => key.keyOwner), ['router-management-test']);
+    assert.equal([...device.files.keys()].some(name => name.endsWith('.pub')), false);
+
+    assert.equal(await withClient(client => client.getVersion(), keyLogin), '7.16 (stable)');
+
+    await withClient(client => client.removeSshKeys('admin', 'router-management-test'), keyLogin);
+    assert.deepEqual(device.sshKeys, []);
+    await assert.rejects(createSSHClient(keyLogin), /authentication/i);
+  });
+
+  test('arms and disarms a rollback to a binary backup', async () => {
+    await withClient(async client => {
+      await client.armRollback('restore-rollback-1', 300);
+
+      const scheduler = device.find('/system/scheduler', { name: 'restore-rollback-1' });
+      assert.equal(scheduler?.interval, '300s');
+      assert.equal(scheduler?.['on-event'], '/system backup load name=restore-rollback-1.backup');
+      assert.equal(device.files.has('restore-rollback-1.backup'), true);
+
+      await client.disarmRollback('restore-rollback-1');
+    });
+
+    assert.equal(device.find('/system/scheduler', { name: 'restore-rollback-1' }), undefined);
+    assert.equal(device.files.has('restore-rollback-1.backup'), false);
+  });
+
+  test('loads a binary backup and survives the reboot', async () => {
+    const output = await withClient(client =>
+      client.loadBinaryBackup('restore.backup', Buffer.from('binary'), 'pa"ss')
+    );
+
+    assert.match(output, /reboot/);
+    assert.deepEqual(device.backupLoads.at(-1), { name: 'restore.backup', password: 'pa"ss' });
+  });
+});
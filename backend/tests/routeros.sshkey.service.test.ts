@@ -0,0 +1,61 @@
+import { db } from './helpers/setup';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSSshKeyService } from '../src/services/routeros/routeros.sshkey.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+describe('RouterOSSshKeyService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let companyId: string;
+  let routerId: string;
+  let keyId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    ports = await device.start();
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  beforeEach(async () => {
+    db.reset();
+    device.sshKeys.length = 0;
+    companyId = (await db.company.create({ data: { name: 'ACME', code: 'ACME' } })).id;
+    routerId = (await createRouter(db, ports, { companyId })).id;
+    keyId = (await routerOSSshKeyService.createKey({ companyId, name: 'ACME key', algorithm: 'ed25519' })).id;
+  });
+
+  test('deploys a company key to a listed router and switches it over', async () => {
+    const report = await routerOSSshKeyService.deployKey(keyId, [routerId]);
+
+    assert.equal(report.succeeded, 1);
+    assert.equal(device.sshKeys.length, 1);
+
+    const router = await db.router.findUnique({ where: { id: routerId } });
+    assert.equal(router?.sshKeyId, keyId);
+    assert.equal(router?.sshAuthMethod, 'PUBLIC_KEY');
+  });
+
+  test('rejects listed routers outside the key scope before touching any router', async () => {
+    const otherCompany = (await db.company.create({ data: { name: 'Other', code: 'OTHER' } })).id;
+    const foreign = await createRouter(db, ports, { companyId: otherCompany, name: 'foreign-router' });
+    const inactive = await createRouter(db, ports, { companyId, name: 'inactive-router', status: 'INACTIVE' });
+    const ubiquiti = await createRouter(db, ports, { companyId, name: 'ubiquiti-router', routerBrand: 'UBIVIQUITI' });
+
+    for (const rejected of [foreign, inactive, ubiquiti]) {
+      await assert.rejects(
+        routerOSSshKeyService.deployKey(keyId, [routerId, rejected.id]),
+        (error: Error) => error.message.includes(rejected.id)
+      );
+    }
+
+    assert.equal(device.sshKeys.length, 0);
+  });
+});
@@ -0,0 +1,92 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSTroubleshootService } from '../src/services/routeros/routeros.troubleshoot.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter, createSshKey } from './helpers/fixtures';
+import type { FakeRouterPorts } from './helpers/fixtures';
+
+describe('RouterOSTroubleshootService', () => {
+  let device: FakeMikroTik;
+  let ports: FakeRouterPorts;
+  let routerId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    device.setPingReplies('1.1.1.1', [20.688, 21.5, 22.25, 20]);
+    device.setPingReplies('192.0.2.1', [10, null]);
+    device.setTraceroute('1.1.1.1', [
+      { address: '10.0.0.1', rtt: 0.7 },
+      null,
+      { address: '1.1.1.1', rtt: 12.4 }
+    ]);
+
+    ports = await device.start();
+    routerId = (await createRouter(db, ports)).id;
+  });
+
+  after(async () => {
+    await device.stop();
+  });
+
+  test('pings through the router and parses replies and statistics', async () => {
+    const result = await routerOSTroubleshootService.ping(routerId, { address: '1.1.1.1', count: 4, size: 100 });
+
+    assert.equal(device.sshCommands.at(-1), '/ping 1.1.1.1 count=4 size=100');
+    assert.equal(result.sent, 4);
+    assert.equal(result.received, 4);
+    assert.equal(result.packetLoss, 0);
+    assert.deepEqual(result.results.map(entry => entry.time), [20.688, 21.5, 22.25, 20]);
+    assert.equal(result.results[0].bytes, 100);
+    assert.equal(result.rtt.min, 20);
+    assert.equal(result.rtt.max, 22.25);
+  });
+
+  test('reports lost packets', async () => {
+    const result = await routerOSTroubleshootService.ping(routerId, { address: '192.0.2.1', count: 4 });
+
+    assert.equal(result.sent, 4);
+    assert.equal(result.received, 2);
+    assert.equal(result.packetLoss, 50);
+  });
+
+  test('passes optional ping parameters through', async () => {
+    await routerOSTroubleshootService.ping(routerId, {
+      address: '1.1.1.1',
+      count: 1,
+      srcAddress: '192.168.88.1',
+      interface: 'ether1',
+      doNotFragment: true
+    });
+
+    assert.match(device.sshCommands.at(-1)!, /src-address=192\.168\.88\.1 interface=ether1 do-not-fragment=yes$/);
+  });
+
+  test('traces the route, silent hops included', async () => {
+    const result = await routerOSTroubleshootService.traceroute(routerId, { address: '1.1.1.1', count: 3 });
+
+    assert.equal(device.sshCommands.at(-1), '/tool traceroute 1.1.1.1 count=3');
+    assert.deepEqual(result.hops.map(hop => [hop.hop, hop.address, hop.sent]), [
+      [1, '10.0.0.1', 3],
+      [2, '*', 3],
+      [3, '1.1.1.1', 3]
+    ]);
+    assert.equal(result.hops[2].avg, 12.4);
+  });
+
+  test('logs in with the router\'s SSH key when it uses one', async () => {
+    const key = await createSshKey(db, device);
+    const keyRouter = await createRouter(db, ports, {
+      password: 'not-the-password',
+      sshAuthMethod: 'PUBLIC_KEY',
+      sshKeyId: key.id
+    });
+
+    const result = await routerOSTroubleshootService.ping(keyRouter.id, { address: '1.1.1.1', count: 1 });
+    assert.equal(result.received, 1);
+  });
+
+  test('requires a target address', async () => {
+    await assert.rejects(routerOSTroubleshootService.ping(routerId, { address: '' }), /Target address is required for ping/);
+  });
+});
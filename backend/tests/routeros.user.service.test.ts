@@ -0,0 +1,86 @@
+import { db } from './helpers/setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { routerOSPool } from '../src/lib/routeros/pool';
+import { routerOSUserService } from '../src/services/routeros/routeros.user.service';
+import { FakeMikroTik } from './helpers/fake-mikrotik';
+import { createRouter } from './helpers/fixtures';
+
+describe('RouterOSUserService', () => {
+  let device: FakeMikroTik;
+  let routerId: string;
+
+  before(async () => {
+    device = new FakeMikroTik();
+    routerId = (await createRouter(db, await device.start())).id;
+  });
+
+  after(async () => {
+    await routerOSPool.drain();
+    await device.stop();
+  });
+
+  test('lists users without their passwords', async () => {
+    const users = await routerOSUserService.getUsers(routerId);
+
+    assert.equal(users.length, 1);
+    assert.equal(users[0].name, 'admin');
+    assert.equal(users[0].group, 'full');
+    assert.equal(users[0].disabled, false);
+    assert.equal('password' in users[0], false);
+  });
+
+  test('creates a user and returns it', async () => {
+    const user = await routerOSUserService.createUser(routerId, {
+      name: 'noc',
+      password: 'noc-pass',
+      group: 'read',
+      comment: 'monitoring'
+    });
+
+    assert.equal(user.name, 'noc');
+    assert.equal(user.group, 'read');
+    assert.equal(user.comment, 'monitoring');
+    assert.equal(device.find('/user', { name: 'noc' })?.password, 'noc-pass');
+  });
+
+  test('updates, disables and enables a user', async () => {
+    const { id } = (await routerOSUserService.getUserByName(routerId, 'noc'))!;
+
+    const updated = await routerOSUserService.updateUser(routerId, id, { group: 'write' });
+    assert.equal(updated.group, 'write');
+
+    assert.equal((await routerOSUserService.disableUser(routerId, id)).disabled, true);
+    assert.equal(device.find('/user', { name: 'noc' })?.disabled, 'true');
+
+    assert.equal((await routerOSUserService.enableUser(routerId, id)).disabled, false);
+  });
+
+  test('deletes a user', async () => {
+    const { id } = (await routerOSUserService.getUserByName(routerId, 'noc'))!;
+
+    await routerOSUserService.deleteUser(routerId, id);
+
+    assert.equal(await routerOSUserService.getUserByName(routerId, 'noc'), null);
+  });
+
+  test('surfaces router errors for unknown users', async () => {
+    await assert.rejects(routerOSUserService.deleteUser(routerId, '*FFFF'), /Failed to delete user: .*no such item/);
+  });
+
+  test('refuses routers that are not active', async () => {
+    const inactive = await createRouter(db, { apiPort: 1, sshPort: 1 }, { status: 'INACTIVE' });
+
+    await assert.rejects(routerOSUserService.getUsers(inactive.id), /Router is not active \(status: INACTIVE\)/);
+    await assert.rejects(routerOSUserService.getUsers('missing'), /Router with ID missing not found/);
+  });
+
+  test('reuses pooled sessions across calls', async () => {
+    const before = routerOSPool.getMetrics().totals.created;
+
+    await routerOSUserService.getUsers(routerId);
+    await routerOSUserService.getUsers(routerId);
+
+    assert.equal(routerOSPool.getMetrics().totals.created, before);
+  });
+});
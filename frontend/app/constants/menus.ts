@@ -19,6 +19,11 @@ export const navMenu: NavMenu[] = [
         icon: 'i-lucide-building-2',
         link: '/company',
       },
+      {
+        title: 'Alerts',
+        icon: 'i-lucide-bell-ring',
+        link: '/alerts',
+      },
       {
         title: 'Router Management',
         icon: 'i-lucide-radio',
@@ -33,6 +38,11 @@ export const navMenu: NavMenu[] = [
             icon: 'i-lucide-archive',
             link: '/routeros/backup',
           },
+          {
+            title: 'SSH Keys',
+            icon: 'i-lucide-key-round',
+            link: '/routeros/ssh_keys',
+          },
         ],
       },
       {
@@ -70,6 +80,16 @@ export const navMenu: NavMenu[] = [
             icon: 'i-lucide-globe',
             link: '/routeros/routing_session',
           },
+          {
+            title: 'Filters',
+            icon: 'i-lucide-filter',
+            link: '/routeros/routing_filter',
+          },
+          {
+            title: 'Routing Table',
+            icon: 'i-lucide-route',
+            link: '/routeros/routing_table',
+          },
         ],
       },
     ],
@@ -0,0 +1,289 @@
+import type {
+  AlertIncident,
+  AlertRule,
+  AlertRuleRequest,
+  IncidentFilters,
+  IncidentList,
+  IncidentSummary,
+} from '~/types/alert'
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+/**
+ * Alert Store
+ * Alert rules and the incidents they open
+ */
+export const useAlertStore = defineStore('alert', () => {
+  // State
+  const rules = ref<AlertRule[]>([])
+  const incidents = ref<AlertIncident[]>([])
+  const total = ref(0)
+  const limit = ref(50)
+  const offset = ref(0)
+  const summary = ref<IncidentSummary | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Actions
+
+  /**
+   * Fetch incidents with filters and pagination
+   */
+  async function fetchIncidents(filters?: IncidentFilters) {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+      const params = new URLSearchParams()
+
+      if (filters?.status)
+        params.append('status', filters.status)
+      if (filters?.severity)
+        params.append('severity', filters.severity)
+      if (filters?.routerId)
+        params.append('routerId', filters.routerId)
+      if (filters?.companyId)
+        params.append('companyId', filters.companyId)
+      if (filters?.limit)
+        params.append('limit', String(filters.limit))
+      if (filters?.offset)
+        params.append('offset', String(filters.offset))
+
+      const queryString = params.toString()
+      const result = await $apiFetch<{ success: boolean, data: IncidentList }>(
+        `/alerts/incidents${queryString ? `?${queryString}` : ''}`,
+      )
+
+      incidents.value = result.data.incidents
+      total.value = result.data.total
+      limit.value = result.data.limit
+      offset.value = result.data.offset
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Fetch unresolved incident counts
+   */
+  async function fetchSummary() {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: IncidentSummary }>('/alerts/incidents/summary')
+
+      summary.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Acknowledge an open incident
+   */
+  async function acknowledgeIncident(incidentId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: AlertIncident }>(
+        `/alerts/incidents/${incidentId}/acknowledge`,
+        {
+          method: 'POST',
+        },
+      )
+
+      replaceIncident(result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Resolve an incident by hand
+   */
+  async function resolveIncident(incidentId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: AlertIncident }>(
+        `/alerts/incidents/${incidentId}/resolve`,
+        {
+          method: 'POST',
+        },
+      )
+
+      replaceIncident(result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch alert rules
+   */
+  async function fetchRules() {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: AlertRule[] }>('/alerts/rules')
+
+      rules.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Create an alert rule
+   */
+  async function createRule(data: AlertRuleRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: AlertRule }>('/alerts/rules', {
+        method: 'POST',
+        body: data,
+      })
+
+      rules.value.unshift(result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Update an alert rule (the type cannot change)
+   */
+  async function updateRule(ruleId: string, data: Partial<Omit<AlertRuleRequest, 'type'>>) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: AlertRule }>(`/alerts/rules/${ruleId}`, {
+        method: 'PUT',
+        body: data,
+      })
+
+      const index = rules.value.findIndex(rule => rule.id === ruleId)
+      if (index !== -1)
+        rules.value[index] = result.data
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Delete an alert rule and its incidents
+   */
+  async function deleteRule(ruleId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      await $apiFetch(`/alerts/rules/${ruleId}`, {
+        method: 'DELETE',
+      })
+
+      rules.value = rules.value.filter(rule => rule.id !== ruleId)
+      incidents.value = incidents.value.filter(incident => incident.ruleId !== ruleId)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  function replaceIncident(incident: AlertIncident) {
+    const index = incidents.value.findIndex(entry => entry.id === incident.id)
+    if (index !== -1)
+      incidents.value[index] = incident
+  }
+
+  /**
+   * Clear error
+   */
+  function clearError() {
+    error.value = null
+  }
+
+  /**
+   * Reset store
+   */
+  function $reset() {
+    rules.value = []
+    incidents.value = []
+    total.value = 0
+    limit.value = 50
+    offset.value = 0
+    summary.value = null
+    loading.value = false
+    error.value = null
+  }
+
+  return {
+    // State
+    rules,
+    incidents,
+    total,
+    limit,
+    offset,
+    summary,
+    loading,
+    error,
+
+    // Actions
+    fetchIncidents,
+    fetchSummary,
+    acknowledgeIncident,
+    resolveIncident,
+    fetchRules,
+    createRule,
+    updateRule,
+    deleteRule,
+    clearError,
+    $reset,
+  }
+})
@@ -0,0 +1,256 @@
+import type {
+  DeliveryResult,
+  NotificationChannel,
+  NotificationChannelRequest,
+  NotificationSubscription,
+  SubscribableChannel,
+  SubscribeRequest,
+} from '~/types/alert'
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+/**
+ * Notification Store
+ * Notification channels and the current user's subscriptions to them
+ */
+export const useNotificationStore = defineStore('notification', () => {
+  // State
+  const channels = ref<NotificationChannel[]>([])
+  const subscriptions = ref<SubscribableChannel[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Actions
+
+  /**
+   * Fetch notification channels (admin)
+   */
+  async function fetchChannels() {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: NotificationChannel[] }>('/alerts/channels')
+
+      channels.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Create a notification channel
+   */
+  async function createChannel(data: NotificationChannelRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: NotificationChannel }>('/alerts/channels', {
+        method: 'POST',
+        body: data,
+      })
+
+      channels.value.unshift(result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Update a notification channel (the type and company cannot change)
+   */
+  async function updateChannel(channelId: string, data: Partial<Omit<NotificationChannelRequest, 'type' | 'companyId'>>) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: NotificationChannel }>(`/alerts/channels/${channelId}`, {
+        method: 'PUT',
+        body: data,
+      })
+
+      const index = channels.value.findIndex(channel => channel.id === channelId)
+      if (index !== -1)
+        channels.value[index] = result.data
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Delete a notification channel and its subscriptions
+   */
+  async function deleteChannel(channelId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      await $apiFetch(`/alerts/channels/${channelId}`, {
+        method: 'DELETE',
+      })
+
+      channels.value = channels.value.filter(channel => channel.id !== channelId)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Send a test message to the channel's subscribers
+   */
+  async function testChannel(channelId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, message: string, data: DeliveryResult }>(
+        `/alerts/channels/${channelId}/test`,
+        {
+          method: 'POST',
+        },
+      )
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch channels the current user can subscribe to
+   */
+  async function fetchSubscriptions() {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: SubscribableChannel[] }>('/alerts/subscriptions')
+
+      subscriptions.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Subscribe to a channel, or update the subscription
+   */
+  async function subscribe(channelId: string, data: SubscribeRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: NotificationSubscription }>(
+        `/alerts/subscriptions/${channelId}`,
+        {
+          method: 'PUT',
+          body: data,
+        },
+      )
+
+      setSubscription(channelId, result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Unsubscribe from a channel
+   */
+  async function unsubscribe(channelId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      await $apiFetch(`/alerts/subscriptions/${channelId}`, {
+        method: 'DELETE',
+      })
+
+      setSubscription(channelId, null)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  function setSubscription(channelId: string, subscription: NotificationSubscription | null) {
+    const channel = subscriptions.value.find(entry => entry.id === channelId)
+    if (channel)
+      channel.subscription = subscription
+  }
+
+  /**
+   * Clear error
+   */
+  function clearError() {
+    error.value = null
+  }
+
+  /**
+   * Reset store
+   */
+  function $reset() {
+    channels.value = []
+    subscriptions.value = []
+    loading.value = false
+    error.value = null
+  }
+
+  return {
+    // State
+    channels,
+    subscriptions,
+    loading,
+    error,
+
+    // Actions
+    fetchChannels,
+    createChannel,
+    updateChannel,
+    deleteChannel,
+    testChannel,
+    fetchSubscriptions,
+    subscribe,
+    unsubscribe,
+    clearError,
+    $reset,
+  }
+})
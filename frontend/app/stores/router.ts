@@ -3,6 +3,8 @@ import { defineStore } from 'pinia'
 export type RouterStatus = 'ACTIVE' | 'INACTIVE' | 'MAINTENANCE'
 export type RouterType = 'UPSTREAM' | 'CORE' | 'DISTRIBUSI' | 'WIRELESS'
 export type RouterBrand = 'MIKROTIK' | 'UBIVIQUITI'
+export type RouterApiTransport = 'PLAIN' | 'SSL' | 'SSL_VERIFY'
+export type SshAuthMethod = 'PASSWORD' | 'PUBLIC_KEY'
 
 export interface CompanyInfo {
   id: string
@@ -27,6 +29,15 @@ export interface Router {
   password: string
   apiPort?: number | null
   sshPort?: number | null
+  apiTransport: RouterApiTransport
+  apiTlsCa?: string | null
+  apiTlsFingerprint?: string | null
+  sshAuthMethod: SshAuthMethod
+  sshKeyId?: string | null // Installed SSH key
+  backupShowSensitive: boolean
+  isReachable?: boolean | null // Last health poll, null until polled
+  lastPolledAt?: string | null
+  lastPollError?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -45,6 +56,10 @@ export interface CreateRouterInput {
   password: string
   apiPort?: number
   sshPort?: number
+  apiTransport?: RouterApiTransport
+  apiTlsCa?: string // Empty clears it
+  apiTlsFingerprint?: string // Empty clears it
+  backupShowSensitive?: boolean
 }
 
 export interface UpdateRouterInput {
@@ -62,6 +77,11 @@ export interface UpdateRouterInput {
   password?: string
   apiPort?: number
   sshPort?: number
+  apiTransport?: RouterApiTransport
+  apiTlsCa?: string // Empty clears it
+  apiTlsFingerprint?: string // Empty clears it
+  sshAuthMethod?: SshAuthMethod // PUBLIC_KEY needs a deployed SSH key
+  backupShowSensitive?: boolean
 }
 
 interface RouterState {
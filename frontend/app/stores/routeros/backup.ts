@@ -1,12 +1,22 @@
 import type {
+  BackupChangeTimeline,
+  BackupComparison,
   BackupFilters,
+  BackupJob,
   BackupRestore,
+  BackupSchedule,
+  BackupScheduleRun,
   BackupStats,
+  CreateBackupJobRequest,
+  CreateScheduleRequest,
   ListBackupsQuery,
   PinBackupRequest,
   RestoreBackupRequest,
+  RestorePreview,
   RouterBackup,
+  ScheduleRunStarted,
   TriggerBackupRequest,
+  UpdateScheduleRequest,
 } from '~/types/backup'
 import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
@@ -16,11 +26,12 @@ import { computed, ref } from 'vue'
  * Manages backup state and API interactions
  */
 export const useBackupStore = defineStore('routeros-backup', () => {
-
   // State
   const backups = ref<RouterBackup[]>([])
   const currentBackup = ref<RouterBackup | null>(null)
   const restoreHistory = ref<BackupRestore[]>([])
+  const schedules = ref<BackupSchedule[]>([])
+  const scheduleRuns = ref<BackupScheduleRun[]>([])
   const loading = ref(false)
   const error = ref<string | null>(null)
 
@@ -36,6 +47,7 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     companyId: undefined,
     status: null,
     isPinned: null,
+    changedOnly: false,
     searchQuery: '',
   })
 
@@ -74,6 +86,10 @@ export const useBackupStore = defineStore('routeros-backup', () => {
       result = result.filter(b => b.isPinned === filters.value.isPinned)
     }
 
+    if (filters.value.changedOnly) {
+      result = result.filter(b => b.hasChanges === true)
+    }
+
     if (filters.value.searchQuery) {
       const query = filters.value.searchQuery.toLowerCase()
       result = result.filter(b =>
@@ -107,6 +123,8 @@ export const useBackupStore = defineStore('routeros-backup', () => {
         params.append('status', query.status)
       if (query?.isPinned !== undefined)
         params.append('isPinned', String(query.isPinned))
+      if (query?.changedOnly)
+        params.append('changedOnly', 'true')
       if (query?.limit)
         params.append('limit', String(query.limit))
       if (query?.offset)
@@ -160,6 +178,45 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     }
   }
 
+  /**
+   * Fetch configuration change timeline of a router
+   */
+  async function fetchChangeTimeline(routerId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupChangeTimeline }>(`/routeros/backup/${routerId}/changes`)
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Compare two backups (base is the older side)
+   */
+  async function compareBackups(baseId: string, targetId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+      const params = new URLSearchParams({ baseId, targetId })
+
+      const result = await $apiFetch<{ status: string, data: BackupComparison }>(`/routeros/backup/compare?${params.toString()}`)
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
   /**
    * Trigger manual backup
    */
@@ -170,13 +227,13 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     try {
       const { $apiFetch } = useApiFetch()
 
-      const result = await $apiFetch<{ status: string, data: RouterBackup }>(`/routeros/backup/${data.routerId}/trigger`, {
+      const result = await $apiFetch<{ status: string, data: RouterBackup | RouterBackup[] }>(`/routeros/backup/${data.routerId}/trigger`, {
         method: 'POST',
         body: data,
       })
 
-      // Add new backup to list
-      backups.value.unshift(result.data)
+      // Add new backup(s) to list
+      backups.value.unshift(...(Array.isArray(result.data) ? result.data : [result.data]))
 
       return result.data
     }
@@ -243,7 +300,7 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     try {
       const { $apiFetch } = useApiFetch()
 
-      const result = await $apiFetch<{ status: string, data: any }>(`/routeros/backup/${backupId}/restore`, {
+      const result = await $apiFetch<{ status: string, data: BackupRestore }>(`/routeros/backup/${backupId}/restore`, {
         method: 'POST',
         body: data,
       })
@@ -262,6 +319,28 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     }
   }
 
+  /**
+   * Preview what restoring a backup to a router would change (dry-run)
+   */
+  async function previewRestore(backupId: string, routerId: string, sections?: string[]) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: RestorePreview }>(`/routeros/backup/${backupId}/restore`, {
+        method: 'POST',
+        body: { routerId, restoreType: 'PREVIEW', sections },
+      })
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
   /**
    * Fetch restore history for a backup
    */
@@ -354,6 +433,200 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     }
   }
 
+  /**
+   * Fetch backup schedules
+   */
+  async function fetchSchedules() {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupSchedule[] }>('/routeros/backup/schedules')
+      schedules.value = result.data
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Create backup schedule
+   */
+  async function createSchedule(data: CreateScheduleRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupSchedule }>('/routeros/backup/schedules', {
+        method: 'POST',
+        body: data,
+      })
+
+      schedules.value.unshift(result.data)
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Update backup schedule
+   */
+  async function updateSchedule(scheduleId: string, data: UpdateScheduleRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupSchedule }>(`/routeros/backup/schedules/${scheduleId}`, {
+        method: 'PATCH',
+        body: data,
+      })
+
+      const index = schedules.value.findIndex(s => s.id === scheduleId)
+      if (index !== -1) {
+        schedules.value[index] = result.data
+      }
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Delete backup schedule
+   */
+  async function deleteSchedule(scheduleId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      await $apiFetch(`/routeros/backup/schedules/${scheduleId}`, {
+        method: 'DELETE',
+      })
+
+      schedules.value = schedules.value.filter(s => s.id !== scheduleId)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Start backup schedule immediately, returns before the backups finish
+   */
+  async function runScheduleNow(scheduleId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: ScheduleRunStarted }>(`/routeros/backup/schedules/${scheduleId}/run`, {
+        method: 'POST',
+      })
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch run history for a schedule
+   */
+  async function fetchScheduleRuns(scheduleId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupScheduleRun[] }>(`/routeros/backup/schedules/${scheduleId}/runs`)
+      scheduleRuns.value = result.data
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Start a fleet-wide backup job
+   */
+  async function startBackupJob(data: CreateBackupJobRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupJob }>('/routeros/backup/jobs', {
+        method: 'POST',
+        body: data,
+      })
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch backup job progress (poll while running)
+   */
+  async function fetchBackupJob(jobId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ status: string, data: BackupJob }>(`/routeros/backup/jobs/${jobId}`)
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch recent backup jobs
+   */
+  async function fetchBackupJobs(jobLimit = 20) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const params = new URLSearchParams({ limit: String(jobLimit) })
+      const result = await $apiFetch<{ status: string, data: BackupJob[] }>(`/routeros/backup/jobs?${params.toString()}`)
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
   /**
    * Update filters
    */
@@ -370,6 +643,7 @@ export const useBackupStore = defineStore('routeros-backup', () => {
       companyId: undefined,
       status: null,
       isPinned: null,
+      changedOnly: false,
       searchQuery: '',
     }
   }
@@ -388,6 +662,8 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     backups.value = []
     currentBackup.value = null
     restoreHistory.value = []
+    schedules.value = []
+    scheduleRuns.value = []
     loading.value = false
     error.value = null
     total.value = 0
@@ -402,6 +678,8 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     backups,
     currentBackup,
     restoreHistory,
+    schedules,
+    scheduleRuns,
     loading,
     error,
     total,
@@ -417,13 +695,25 @@ export const useBackupStore = defineStore('routeros-backup', () => {
     // Actions
     fetchBackups,
     fetchBackupById,
+    compareBackups,
+    fetchChangeTimeline,
     triggerBackup,
     getDownloadUrl,
     downloadBackup,
     restoreBackup,
+    previewRestore,
     fetchRestoreHistory,
     togglePin,
     deleteBackup,
+    fetchSchedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runScheduleNow,
+    fetchScheduleRuns,
+    startBackupJob,
+    fetchBackupJob,
+    fetchBackupJobs,
     setFilters,
     resetFilters,
     clearError,
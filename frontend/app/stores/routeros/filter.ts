@@ -0,0 +1,399 @@
+import { defineStore } from 'pinia'
+
+/**
+ * Routing Filter Rule Interface
+ * Matches ParsedRoutingFilterRule from backend
+ */
+export interface RoutingFilterRule {
+  id: string
+  chain: string
+  rule: string
+  comment?: string
+  disabled: boolean
+  invalid: boolean
+  dynamic: boolean
+  position: number // Order within the chain, from 0
+}
+
+/**
+ * Routing Filter Chain Interface
+ * Chains with rules or used by a BGP connection
+ */
+export interface RoutingFilterChain {
+  name: string
+  ruleCount: number
+  disabledCount: number
+  usedBy: Array<{ connectionId: string, connectionName?: string, direction: 'in' | 'out' }>
+}
+
+/**
+ * Create Routing Filter Rule payload
+ */
+export interface CreateRoutingFilterRuleInput {
+  chain: string
+  rule: string
+  comment?: string
+  disabled?: boolean
+  placeBefore?: string // Rule ID, last in the chain when omitted
+}
+
+export interface UpdateRoutingFilterRuleInput {
+  rule?: string
+  comment?: string
+}
+
+/**
+ * Sample route for the chain tester
+ */
+export interface RoutingFilterTestInput {
+  chain: string
+  dst: string
+  asPath: number[]
+  communities: string[]
+  localPref?: number
+  med?: number
+}
+
+/**
+ * Chain tester result
+ * Matches FilterEvaluation from backend
+ */
+export interface RoutingFilterEvaluation {
+  chain: string
+  action: 'accept' | 'reject' | 'indeterminate'
+  decidedBy: { chain: string, ruleId: string } | null // Rule that decided or could not be evaluated, null when the route fell off the end of the chain
+  route: {
+    dst: string
+    asPath: number[]
+    communities: string[]
+    localPref: number | null
+    med: number | null
+    protocol: string
+    other: Record<string, string>
+  }
+  modifications: Array<{ chain: string, ruleId: string, verb: 'set' | 'append' | 'delete', property: string, value: string }>
+  trace: Array<{ chain: string, ruleId: string, rule: string, depth: number, outcome: 'accept' | 'reject' | 'indeterminate' | 'return' | 'next' }>
+  warnings: string[]
+}
+
+/**
+ * Store State Interface
+ */
+interface RouterOSFilterState {
+  chains: RoutingFilterChain[]
+  rules: RoutingFilterRule[] // Rules of the selected chain
+  evaluation: RoutingFilterEvaluation | null
+  isLoading: boolean
+  isTesting: boolean
+  error: string | null
+}
+
+export const useRouterOSFilterStore = defineStore('routerosFilter', {
+  state: (): RouterOSFilterState => ({
+    chains: [],
+    rules: [],
+    evaluation: null,
+    isLoading: false,
+    isTesting: false,
+    error: null,
+  }),
+
+  getters: {
+    /**
+     * Get chain by name
+     */
+    getChainByName: state => (name: string) =>
+      state.chains.find(c => c.name === name),
+  },
+
+  actions: {
+    /**
+     * Fetch the filter chains of a router
+     */
+    async fetchChains(routerId: string) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterChain[]
+        }>(`/routeros/${routerId}/routing/filters/chains`)
+
+        this.chains = response.data
+
+        return { success: true, data: response.data }
+      }
+      catch (error: any) {
+        console.error('Fetch routing filter chains error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to fetch routing filter chains'
+        this.chains = []
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Fetch the rules of a chain
+     */
+    async fetchRules(routerId: string, chain: string) {
+      this.isLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterRule[]
+        }>(`/routeros/${routerId}/routing/filters/rules?chain=${encodeURIComponent(chain)}`)
+
+        this.rules = response.data
+
+        return { success: true, data: response.data }
+      }
+      catch (error: any) {
+        console.error('Fetch routing filter rules error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to fetch routing filter rules'
+        this.rules = []
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isLoading = false
+      }
+    },
+
+    /**
+     * Add a rule, then reload the chain so positions stay right
+     */
+    async createRule(routerId: string, input: CreateRoutingFilterRuleInput) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterRule
+          message: string
+        }>(`/routeros/${routerId}/routing/filters/rules`, {
+          method: 'POST',
+          body: input,
+        })
+
+        await Promise.all([this.fetchRules(routerId, input.chain), this.fetchChains(routerId)])
+
+        return { success: true, data: response.data, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Create routing filter rule error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to add routing filter rule'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Update the text or comment of a rule
+     */
+    async updateRule(routerId: string, ruleId: string, input: UpdateRoutingFilterRuleInput) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterRule
+          message: string
+        }>(`/routeros/${routerId}/routing/filters/rules/${ruleId}`, {
+          method: 'PUT',
+          body: input,
+        })
+
+        const index = this.rules.findIndex(r => r.id === ruleId)
+        if (index !== -1) {
+          this.rules[index] = response.data
+        }
+
+        return { success: true, data: response.data, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Update routing filter rule error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to update routing filter rule'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Move a rule in front of another rule of its chain, or to the end without a destination
+     */
+    async moveRule(routerId: string, ruleId: string, destination?: string) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterRule[]
+          message: string
+        }>(`/routeros/${routerId}/routing/filters/rules/${ruleId}/move`, {
+          method: 'POST',
+          body: { destination },
+        })
+
+        this.rules = response.data
+
+        return { success: true, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Move routing filter rule error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to move routing filter rule'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Enable or disable a rule
+     */
+    async setRuleDisabled(routerId: string, ruleId: string, disabled: boolean) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          message: string
+        }>(`/routeros/${routerId}/routing/filters/rules/${ruleId}/${disabled ? 'disable' : 'enable'}`, {
+          method: 'POST',
+        })
+
+        const rule = this.rules.find(r => r.id === ruleId)
+        if (rule) {
+          const chain = this.chains.find(c => c.name === rule.chain)
+          if (chain && rule.disabled !== disabled) {
+            chain.disabledCount += disabled ? 1 : -1
+          }
+          rule.disabled = disabled
+        }
+
+        return { success: true, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Toggle routing filter rule error:', error)
+        this.error = error?.data?.message || error?.message || `Failed to ${disabled ? 'disable' : 'enable'} routing filter rule`
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Remove a rule
+     */
+    async deleteRule(routerId: string, ruleId: string) {
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          message: string
+        }>(`/routeros/${routerId}/routing/filters/rules/${ruleId}`, {
+          method: 'DELETE',
+        })
+
+        const rule = this.rules.find(r => r.id === ruleId)
+        if (rule) {
+          await Promise.all([this.fetchRules(routerId, rule.chain), this.fetchChains(routerId)])
+        }
+
+        return { success: true, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Delete routing filter rule error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to remove routing filter rule'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+    },
+
+    /**
+     * Run a sample route through a chain, evaluated by the backend from the router's rules
+     */
+    async testChain(routerId: string, input: RoutingFilterTestInput) {
+      this.isTesting = true
+      this.evaluation = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RoutingFilterEvaluation
+        }>(`/routeros/${routerId}/routing/filters/test`, {
+          method: 'POST',
+          body: input,
+        })
+
+        this.evaluation = response.data
+
+        return { success: true, data: response.data }
+      }
+      catch (error: any) {
+        console.error('Test routing filter chain error:', error)
+        return {
+          success: false,
+          error: error?.data?.message || error?.message || 'Failed to test routing filter chain',
+        }
+      }
+      finally {
+        this.isTesting = false
+      }
+    },
+
+    /**
+     * Drop the tester result, e.g. when another chain is selected
+     */
+    clearEvaluation() {
+      this.evaluation = null
+    },
+
+    /**
+     * Clear data when the router changes
+     */
+    clearFilterData() {
+      this.chains = []
+      this.rules = []
+      this.evaluation = null
+      this.error = null
+    },
+
+    /**
+     * Clear error state
+     */
+    clearError() {
+      this.error = null
+    },
+  },
+})
@@ -0,0 +1,133 @@
+import type {
+  MetricHistory,
+  MetricRange,
+  RouterHealth,
+  RouterPollResult,
+} from '~/types/monitoring'
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+/**
+ * RouterOS Monitoring Store
+ * Router reachability, latest health sample and metric history
+ */
+export const useMonitoringStore = defineStore('routeros-monitoring', () => {
+  // State
+  const health = ref<RouterHealth | null>(null)
+  const history = ref<MetricHistory | null>(null)
+  const loading = ref(false)
+  const polling = ref(false)
+  const error = ref<string | null>(null)
+
+  // Actions
+
+  /**
+   * Fetch reachability and latest sample of a router
+   */
+  async function fetchHealth(routerId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: RouterHealth }>(
+        `/routeros/monitoring/${routerId}`,
+      )
+
+      health.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Fetch metric history for the last hour, day or week
+   */
+  async function fetchHistory(routerId: string, range: MetricRange = 'hour') {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: MetricHistory }>(
+        `/routeros/monitoring/${routerId}/history?range=${range}`,
+      )
+
+      history.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Poll a router now instead of waiting for the next interval
+   */
+  async function pollRouter(routerId: string) {
+    polling.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, message: string, data: RouterPollResult }>(
+        `/routeros/monitoring/${routerId}/poll`,
+        {
+          method: 'POST',
+        },
+      )
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      polling.value = false
+    }
+  }
+
+  /**
+   * Clear error
+   */
+  function clearError() {
+    error.value = null
+  }
+
+  /**
+   * Reset store
+   */
+  function $reset() {
+    health.value = null
+    history.value = null
+    loading.value = false
+    polling.value = false
+    error.value = null
+  }
+
+  return {
+    // State
+    health,
+    history,
+    loading,
+    polling,
+    error,
+
+    // Actions
+    fetchHealth,
+    fetchHistory,
+    pollRouter,
+    clearError,
+    $reset,
+  }
+})
@@ -0,0 +1,186 @@
+import { defineStore } from 'pinia'
+
+export type RouteProtocol = 'connect' | 'static' | 'bgp' | 'ospf' | 'rip' | 'dhcp' | 'vpn' | 'modem'
+
+/**
+ * Route Interface
+ * Matches ParsedRoute from backend
+ */
+export interface Route {
+  id: string
+  dstAddress: string
+  gateway?: string
+  immediateGateway?: string
+  distance?: number
+  scope?: number
+  targetScope?: number
+  routingTable: string
+  prefSrc?: string
+  protocol: RouteProtocol | 'unknown'
+  active: boolean
+  dynamic: boolean
+  disabled: boolean
+  ecmp: boolean
+  blackhole: boolean
+  comment?: string
+  belongsTo?: string
+}
+
+/**
+ * Route table filters, empty values are not sent
+ */
+export interface RouteTableFilters {
+  family: 'ipv4' | 'ipv6'
+  dst: string
+  dstMatch: 'exact' | 'within' // within: the prefix and everything more specific
+  gateway: string
+  routingTable: string
+  protocol: RouteProtocol | ''
+  state: 'active' | 'inactive' | ''
+}
+
+/**
+ * Longest-prefix lookup result of one router
+ * Matches RouteLookupResult from backend
+ */
+export interface RouteLookupResult {
+  routerId: string
+  routerName?: string
+  status: 'found' | 'no-route' | 'error'
+  prefix?: string
+  routes: Route[] // More than one with ECMP
+  error?: string
+}
+
+/**
+ * Store State Interface
+ */
+interface RouterOSRouteState {
+  routes: Route[] // Current page
+  offset: number
+  limit: number
+  hasMore: boolean
+  lookupResults: RouteLookupResult[]
+  isLoading: boolean
+  isLookingUp: boolean
+  error: string | null
+}
+
+export const useRouterOSRouteStore = defineStore('routerosRoute', {
+  state: (): RouterOSRouteState => ({
+    routes: [],
+    offset: 0,
+    limit: 100,
+    hasMore: false,
+    lookupResults: [],
+    isLoading: false,
+    isLookingUp: false,
+    error: null,
+  }),
+
+  actions: {
+    /**
+     * Fetch one page of a router's routing table
+     */
+    async fetchRoutes(routerId: string, filters: RouteTableFilters, offset = 0) {
+      this.isLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const params = new URLSearchParams({
+          family: filters.family,
+          dstMatch: filters.dstMatch,
+          offset: String(offset),
+          limit: String(this.limit),
+        })
+        if (filters.dst)
+          params.append('dst', filters.dst)
+        if (filters.gateway)
+          params.append('gateway', filters.gateway)
+        if (filters.routingTable)
+          params.append('routingTable', filters.routingTable)
+        if (filters.protocol)
+          params.append('protocol', filters.protocol)
+        if (filters.state)
+          params.append('state', filters.state)
+
+        const response = await $apiFetch<{
+          status: string
+          data: { routes: Route[], offset: number, limit: number, hasMore: boolean, scanned: number }
+        }>(`/routeros/${routerId}/routing/routes?${params.toString()}`)
+
+        this.routes = response.data.routes
+        this.offset = response.data.offset
+        this.hasMore = response.data.hasMore
+
+        return { success: true, data: response.data }
+      }
+      catch (error: any) {
+        console.error('Fetch routes error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to fetch routes'
+        this.routes = []
+        this.hasMore = false
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isLoading = false
+      }
+    },
+
+    /**
+     * Ask several routers which route they would use for an address
+     */
+    async lookupRoute(address: string, routerIds: string[], routingTable = 'main') {
+      this.isLookingUp = true
+      this.lookupResults = []
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: RouteLookupResult[]
+        }>('/routeros/routing/lookup', {
+          method: 'POST',
+          body: { address, routerIds, routingTable },
+        })
+
+        this.lookupResults = response.data
+
+        return { success: true, data: response.data }
+      }
+      catch (error: any) {
+        console.error('Route lookup error:', error)
+        return {
+          success: false,
+          error: error?.data?.message || error?.message || 'Failed to look up route',
+        }
+      }
+      finally {
+        this.isLookingUp = false
+      }
+    },
+
+    /**
+     * Clear the route page when the router changes
+     */
+    clearRoutes() {
+      this.routes = []
+      this.offset = 0
+      this.hasMore = false
+      this.error = null
+    },
+
+    /**
+     * Clear error state
+     */
+    clearError() {
+      this.error = null
+    },
+  },
+})
@@ -17,6 +17,89 @@ export interface BGPConnection {
   disabled: boolean
   inFilter?: string
   outFilter?: string
+  remotePort?: number
+  localRole?: string
+  templates: string[]
+  multihop: boolean
+  hasTcpMd5Key: boolean
+  holdTime?: string
+  comment?: string
+}
+
+/**
+ * BGP roles of a connection (RouterOS v7 local.role)
+ */
+export const BGP_LOCAL_ROLES = [
+  'ebgp',
+  'ebgp-customer',
+  'ebgp-peer',
+  'ebgp-provider',
+  'ebgp-rs',
+  'ebgp-rs-client',
+  'ibgp',
+  'ibgp-rr',
+  'ibgp-rr-client',
+] as const
+
+/**
+ * Create BGP Connection payload
+ * An empty inFilter, outFilter or tcpMd5Key clears it on update
+ */
+export interface CreateBGPConnectionInput {
+  name: string
+  remoteAddress: string
+  remoteAs?: string
+  remotePort?: number
+  localRole: string
+  localAddress?: string
+  localAs?: string
+  templates?: string[]
+  inFilter?: string
+  outFilter?: string
+  multihop?: boolean
+  tcpMd5Key?: string
+  holdTime?: string
+  comment?: string
+  disabled?: boolean
+}
+
+/**
+ * Update BGP Connection payload
+ * confirm is required when the change drops the session
+ */
+export type UpdateBGPConnectionInput = Partial<CreateBGPConnectionInput> & {
+  confirm?: boolean
+}
+
+/**
+ * Settings whose change drops the BGP session, kept in line with the backend
+ */
+export const BGP_SESSION_RESET_FIELDS: Array<keyof CreateBGPConnectionInput> = [
+  'remoteAddress',
+  'remoteAs',
+  'remotePort',
+  'localRole',
+  'localAddress',
+  'localAs',
+  'templates',
+  'multihop',
+  'tcpMd5Key',
+  'holdTime',
+]
+
+/**
+ * Whether an update drops the BGP session and needs confirmation
+ */
+export function isDestructiveBGPConnectionUpdate(input: UpdateBGPConnectionInput): boolean {
+  return input.disabled === true || BGP_SESSION_RESET_FIELDS.some(field => input[field] !== undefined)
+}
+
+/**
+ * Result of an update or delete, with the /routing bgp backup taken first
+ */
+export interface BGPConnectionChangeResult {
+  connection: BGPConnection | null
+  safetyBackupId: string | null
 }
 
 /**
@@ -96,6 +179,75 @@ export interface BGPAdvertisementFilter {
   fromPeer?: string
 }
 
+/**
+ * BGP Peer History range
+ */
+export type BGPPeerHistoryRange = 'day' | 'week' | 'month'
+
+/**
+ * BGP Peer state statistics over a range
+ * Matches PeerStats from backend, durations in seconds
+ */
+export interface BGPPeerStats {
+  from: string
+  to: string
+  observedSeconds: number
+  transitions: number
+  flapCount: number
+  timeInState: Record<string, number>
+  uptimePercent: number | null
+}
+
+/**
+ * BGP Peer state segment of the timeline
+ */
+export interface BGPPeerStateSegment {
+  state: string
+  start: string
+  end: string
+}
+
+/**
+ * BGP Peer state transition
+ * fromState is null for the first sighting of the peer
+ */
+export interface BGPPeerTransition {
+  id: string
+  peerId: string
+  fromState: string | null
+  toState: string
+  prefixCount: number | null
+  timestamp: string
+}
+
+/**
+ * Recorded BGP peer with its statistics
+ * Matches PeerSummary from backend
+ */
+export interface BGPPeer {
+  id: string
+  routerId: string
+  peerKey: string
+  remoteAddress: string | null
+  remoteAs: string | null
+  state: string
+  prefixCount: number | null
+  stateSince: string
+  lastPolledAt: string
+  isFlapping: boolean
+  stats: BGPPeerStats
+}
+
+/**
+ * BGP Peer timeline
+ * Matches PeerHistory from backend
+ */
+export interface BGPPeerHistory extends BGPPeer {
+  range: BGPPeerHistoryRange
+  segments: BGPPeerStateSegment[]
+  transitions: BGPPeerTransition[]
+}
+
 interface RouterOSRoutingState {
   connections: BGPConnection[]
   advertisements: BGPAdvertisement[]
@@ -104,7 +256,9 @@ interface RouterOSRoutingState {
   currentSession: BGPSession | null
   sessionStats: BGPSessionStats | null
   allBGPData: ALLBGPData | null
+  peerHistory: BGPPeerHistory | null
   isLoading: boolean
+  isHistoryLoading: boolean
   error: string | null
 }
 
@@ -117,7 +271,9 @@ export const useRouterOSRoutingStore = defineStore('routerosRouting', {
     currentSession: null,
     sessionStats: null,
     allBGPData: null,
+    peerHistory: null,
     isLoading: false,
+    isHistoryLoading: false,
     error: null,
   }),
 
@@ -376,6 +532,129 @@ export const useRouterOSRoutingStore = defineStore('routerosRouting', {
       }
     },
 
+    /**
+     * Create a BGP connection
+     */
+    async createBGPConnection(routerId: string, input: CreateBGPConnectionInput) {
+      this.isLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: BGPConnection
+          message: string
+        }>(`/routeros/${routerId}/bgp/connections`, {
+          method: 'POST',
+          body: input,
+        })
+
+        this.connections.push(response.data)
+
+        return { success: true, data: response.data, message: response.message }
+      }
+      catch (error: any) {
+        console.error('Create BGP connection error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to create BGP connection'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isLoading = false
+      }
+    },
+
+    /**
+     * Update a BGP connection
+     * Changes that drop the session must carry confirm: true
+     */
+    async updateBGPConnection(routerId: string, connectionId: string, input: UpdateBGPConnectionInput) {
+      this.isLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: BGPConnectionChangeResult
+          message: string
+        }>(`/routeros/${routerId}/bgp/connections/${connectionId}`, {
+          method: 'PUT',
+          body: input,
+        })
+
+        // Update local state
+        const index = this.connections.findIndex(c => c.id === connectionId)
+        if (index !== -1 && response.data.connection) {
+          this.connections[index] = response.data.connection
+        }
+
+        return {
+          success: true,
+          data: response.data.connection,
+          safetyBackupId: response.data.safetyBackupId,
+          message: response.message,
+        }
+      }
+      catch (error: any) {
+        console.error('Update BGP connection error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to update BGP connection'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isLoading = false
+      }
+    },
+
+    /**
+     * Delete a BGP connection
+     * Only call this after the user confirmed, the router backs up /routing bgp first
+     */
+    async deleteBGPConnection(routerId: string, connectionId: string) {
+      this.isLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{
+          status: string
+          data: BGPConnectionChangeResult
+          message: string
+        }>(`/routeros/${routerId}/bgp/connections/${connectionId}`, {
+          method: 'DELETE',
+          body: { confirm: true },
+        })
+
+        this.connections = this.connections.filter(c => c.id !== connectionId)
+
+        return {
+          success: true,
+          safetyBackupId: response.data.safetyBackupId,
+          message: response.message,
+        }
+      }
+      catch (error: any) {
+        console.error('Delete BGP connection error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to delete BGP connection'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isLoading = false
+      }
+    },
+
     /**
      * Fetch all BGP advertisements from a router
      */
@@ -582,6 +861,44 @@ export const useRouterOSRoutingStore = defineStore('routerosRouting', {
       }
     },
 
+    /**
+     * Fetch the state timeline of a BGP peer
+     * peerKey is the session name, or its remote address when unnamed
+     */
+    async fetchBGPPeerHistory(routerId: string, peerKey: string, range: BGPPeerHistoryRange = 'day') {
+      this.isHistoryLoading = true
+      this.error = null
+
+      try {
+        const { $apiFetch } = useApiFetch()
+
+        const response = await $apiFetch<{ status: string, data: BGPPeerHistory }>(
+          `/routeros/${routerId}/bgp/history/${encodeURIComponent(peerKey)}?range=${range}`,
+        )
+
+        this.peerHistory = response.data
+
+        return { success: true, data: this.peerHistory }
+      }
+      catch (error: any) {
+        this.peerHistory = null
+
+        // No poll has recorded this peer yet
+        if (error?.statusCode === 404)
+          return { success: true, data: null }
+
+        console.error('Fetch BGP peer history error:', error)
+        this.error = error?.data?.message || error?.message || 'Failed to fetch BGP peer history'
+        return {
+          success: false,
+          error: this.error,
+        }
+      }
+      finally {
+        this.isHistoryLoading = false
+      }
+    },
+
     /**
      * Refresh all BGP data for a router
      */
@@ -607,6 +924,7 @@ export const useRouterOSRoutingStore = defineStore('routerosRouting', {
       this.currentSession = null
       this.sessionStats = null
       this.allBGPData = null
+      this.peerHistory = null
       this.error = null
     },
   },
@@ -0,0 +1,172 @@
+import type {
+  CreateSshKeyRequest,
+  SshKey,
+  SshKeyReport,
+  SshKeyRotation,
+} from '~/types/sshkey'
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+
+/**
+ * RouterOS SSH Key Store
+ * Manages SSH keys and their deployment to routers
+ */
+export const useSshKeyStore = defineStore('routeros-ssh-key', () => {
+  // State
+  const keys = ref<SshKey[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Actions
+
+  /**
+   * Fetch SSH keys, optionally for one company
+   */
+  async function fetchKeys(companyId?: string) {
+    loading.value = true
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: SshKey[] }>(
+        `/routeros/ssh-keys${companyId ? `?companyId=${companyId}` : ''}`,
+      )
+
+      keys.value = result.data
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+    finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Generate a company or global SSH key
+   */
+  async function createKey(data: CreateSshKeyRequest) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, data: SshKey }>('/routeros/ssh-keys', {
+        method: 'POST',
+        body: data,
+      })
+
+      keys.value.unshift(result.data)
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Delete an SSH key no router uses anymore
+   */
+  async function deleteKey(keyId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      await $apiFetch(`/routeros/ssh-keys/${keyId}`, {
+        method: 'DELETE',
+      })
+
+      keys.value = keys.value.filter(key => key.id !== keyId)
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Install a key on routers (defaults to every router the key applies to)
+   */
+  async function deployKey(keyId: string, routerIds?: string[]) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, message: string, data: SshKeyReport }>(
+        `/routeros/ssh-keys/${keyId}/deploy`,
+        {
+          method: 'POST',
+          body: { routerIds },
+        },
+      )
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Replace a key with a new one on every router that has it
+   */
+  async function rotateKey(keyId: string) {
+    error.value = null
+
+    try {
+      const { $apiFetch } = useApiFetch()
+
+      const result = await $apiFetch<{ success: boolean, message: string, data: SshKeyRotation }>(
+        `/routeros/ssh-keys/${keyId}/rotate`,
+        {
+          method: 'POST',
+        },
+      )
+
+      return result.data
+    }
+    catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error'
+      throw err
+    }
+  }
+
+  /**
+   * Clear error
+   */
+  function clearError() {
+    error.value = null
+  }
+
+  /**
+   * Reset store
+   */
+  function $reset() {
+    keys.value = []
+    loading.value = false
+    error.value = null
+  }
+
+  return {
+    // State
+    keys,
+    loading,
+    error,
+
+    // Actions
+    fetchKeys,
+    createKey,
+    deleteKey,
+    deployKey,
+    rotateKey,
+    clearError,
+    $reset,
+  }
+})
@@ -0,0 +1,185 @@
+import type { CompanyInfo } from '~/stores/router'
+
+/**
+ * Alerting Types
+ */
+
+export type AlertRuleType = 'ROUTER_UNREACHABLE' | 'BGP_SESSION_DOWN' | 'BACKUP_FAILED' | 'RESOURCE_THRESHOLD'
+
+export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL'
+
+export type IncidentStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+
+export type ThresholdMetric = 'cpu' | 'memory' | 'temperature' | 'voltage'
+
+export type ThresholdOperator = 'gt' | 'lt'
+
+export type NotificationChannelType = 'EMAIL' | 'WEBHOOK' | 'TELEGRAM'
+
+export interface AlertRouterInfo {
+  id: string
+  name: string
+  ipAddress: string
+}
+
+export interface AlertRule {
+  id: string
+  companyId: string | null // Null with routerId null: every router
+  routerId: string | null
+  name: string
+  type: AlertRuleType
+  severity: AlertSeverity
+  metric: ThresholdMetric | null // RESOURCE_THRESHOLD only
+  operator: ThresholdOperator | null
+  threshold: number | null
+  isEnabled: boolean
+  createdAt: string
+  updatedAt: string
+  company?: CompanyInfo | null
+  router?: AlertRouterInfo | null
+  _count: {
+    incidents: number
+  }
+}
+
+export interface AlertRuleRequest {
+  companyId?: string | null
+  routerId?: string | null
+  name: string
+  type: AlertRuleType
+  severity?: AlertSeverity
+  metric?: ThresholdMetric | null
+  operator?: ThresholdOperator | null
+  threshold?: number | null
+  isEnabled?: boolean
+}
+
+export interface AlertIncident {
+  id: string
+  ruleId: string
+  routerId: string
+  dedupKey: string
+  subject: string
+  status: IncidentStatus
+  severity: AlertSeverity
+  title: string
+  message: string
+  occurrences: number
+  openedAt: string
+  lastSeenAt: string
+  acknowledgedAt: string | null
+  acknowledgedBy: string | null
+  resolvedAt: string | null
+  resolvedBy: string | null // Null when the condition cleared on its own
+  rule: {
+    id: string
+    name: string
+    type: AlertRuleType
+  }
+  router: AlertRouterInfo & {
+    company: { id: string, name: string } | null
+  }
+}
+
+export interface IncidentFilters {
+  status?: IncidentStatus
+  severity?: AlertSeverity
+  routerId?: string
+  companyId?: string
+  limit?: number
+  offset?: number
+}
+
+export interface IncidentList {
+  incidents: AlertIncident[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export interface IncidentSummary {
+  open: number
+  acknowledged: number
+  bySeverity: Record<AlertSeverity, number>
+}
+
+export interface EmailChannelSettings {
+  host: string
+  port: number
+  secure: boolean
+  username?: string
+  from: string
+}
+
+export interface WebhookChannelSettings {
+  url: string
+}
+
+export interface TelegramChannelSettings {
+  chatId?: string
+}
+
+export type NotificationChannelSettings = EmailChannelSettings | WebhookChannelSettings | TelegramChannelSettings
+
+export interface NotificationChannel {
+  id: string
+  companyId: string | null // Null for every company
+  name: string
+  type: NotificationChannelType
+  settings: NotificationChannelSettings
+  hasSecret: boolean // The secret itself is never returned
+  isEnabled: boolean
+  lastDeliveryAt: string | null
+  lastDeliveryError: string | null
+  createdAt: string
+  updatedAt: string
+  company?: CompanyInfo | null
+  _count: {
+    subscriptions: number
+  }
+}
+
+export interface NotificationChannelRequest {
+  companyId?: string | null
+  name: string
+  type: NotificationChannelType
+  settings: NotificationChannelSettings
+  secret?: string | null // Omit on update to keep the stored one
+  isEnabled?: boolean
+}
+
+export interface DeliveryResult {
+  channelId: string
+  success: boolean
+  recipients: number
+  error?: string
+}
+
+export interface NotificationSubscription {
+  id: string
+  channelId: string
+  userId: string
+  minSeverity: AlertSeverity
+  target: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// Channel as listed for subscribing, without settings
+export interface SubscribableChannel {
+  id: string
+  companyId: string | null
+  name: string
+  type: NotificationChannelType
+  isEnabled: boolean
+  lastDeliveryAt: string | null
+  createdAt: string
+  updatedAt: string
+  company: CompanyInfo | null
+  subscription: NotificationSubscription | null
+}
+
+export interface SubscribeRequest {
+  minSeverity?: AlertSeverity
+  target?: string | null
+}
@@ -1,3 +1,5 @@
+import type { RouterType } from '~/stores/router'
+
 /**
  * Backup Management Types
  */
@@ -21,12 +23,34 @@ export enum TriggerType {
   PRE_UPDATE = 'PRE_UPDATE',
 }
 
+export enum ScheduleRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+}
+
+export enum BackupJobStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+export enum BackupJobItemStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
 export enum RestoreStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
   ROLLED_BACK = 'ROLLED_BACK',
+  ROLLBACK_PENDING = 'ROLLBACK_PENDING',
 }
 
 export enum RestoreType {
@@ -35,6 +59,22 @@ export enum RestoreType {
   PARTIAL = 'PARTIAL',
 }
 
+// Menu paths offered for partial backups and restores
+export const BACKUP_SECTIONS = [
+  '/interface',
+  '/ip address',
+  '/ip firewall',
+  '/ip route',
+  '/ip dhcp-server',
+  '/ip pool',
+  '/queue',
+  '/routing bgp',
+  '/routing filter',
+  '/system scheduler',
+  '/system script',
+  '/user',
+] as const
+
 export interface ConfigSummary {
   interfaces?: number
   ipAddresses?: number
@@ -56,16 +96,24 @@ export interface RouterBackup {
   storageUrl: string | null
   fileSize: number
   checksum: string
+  encryptionAlgorithm: string | null
+  masterKeyId: string | null
+  containsSensitive: boolean
   routerVersion: string | null
   backupStatus: BackupStatus
   triggerType: TriggerType
   triggeredBy: string | null
   configSummary: ConfigSummary | null
+  configHash: string | null
+  previousBackupId: string | null
+  hasChanges: boolean | null
+  changeSummary: Partial<Record<keyof ConfigSummary, number>> | null
   isPinned: boolean
   pinnedBy: string | null
   pinnedAt: string | null
   pinnedReason: string | null
   isSafetyBackup: boolean
+  sections: string[]
   createdAt: string
   completedAt: string | null
   expiresAt: string | null
@@ -88,6 +136,7 @@ export interface BackupRestore {
   restoreStatus: RestoreStatus
   restoredBy: string
   restoreType: RestoreType
+  sections: string[]
   safetyBackupId: string | null
   errorMessage: string | null
   restoreLog: string | null
@@ -108,6 +157,7 @@ export interface BackupSchedule {
   isEnabled: boolean
   cronExpression: string
   timezone: string
+  showSensitive: boolean | null
   retentionDays: number
   retentionWeeks: number
   retentionMonths: number
@@ -123,6 +173,129 @@ export interface BackupSchedule {
     id: string
     name: string
   }
+  runs?: BackupScheduleRun[]
+}
+
+export interface BackupScheduleRun {
+  id: string
+  scheduleId: string
+  routerId: string | null
+  backupId: string | null
+  runStatus: ScheduleRunStatus
+  errorMessage: string | null
+  scheduledFor: string
+  startedAt: string
+  completedAt: string | null
+  router?: {
+    id: string
+    name: string
+    ipAddress: string
+  }
+}
+
+export interface BackupJobItem {
+  id: string
+  jobId: string
+  routerId: string
+  backupId: string | null
+  itemStatus: BackupJobItemStatus
+  errorMessage: string | null
+  startedAt: string | null
+  completedAt: string | null
+  router?: {
+    id: string
+    name: string
+    ipAddress: string
+  }
+}
+
+export interface BackupJob {
+  id: string
+  companyId: string | null
+  routerType: RouterType | null
+  backupType: BackupType
+  compact: boolean
+  jobStatus: BackupJobStatus
+  totalRouters: number
+  succeededCount: number
+  failedCount: number
+  errorMessage: string | null
+  triggeredBy: string | null
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+  progress?: number // 0-100, included when fetching a single job
+  items?: BackupJobItem[]
+}
+
+export type SectionDiffStatus = 'added' | 'removed' | 'modified'
+
+export interface ConfigLineChange {
+  before: string
+  after: string
+}
+
+export interface SectionDiff {
+  section: string
+  status: SectionDiffStatus
+  added: string[]
+  removed: string[]
+  changed: ConfigLineChange[]
+}
+
+export interface ComparedBackup {
+  id: string
+  routerId: string
+  routerName: string
+  routerVersion: string | null
+  createdAt: string
+}
+
+export interface BackupComparison {
+  base: ComparedBackup
+  target: ComparedBackup
+  sections: SectionDiff[]
+  summary: {
+    sectionsAdded: number
+    sectionsRemoved: number
+    sectionsModified: number
+    linesAdded: number
+    linesRemoved: number
+    linesChanged: number
+  }
+}
+
+export interface BackupChangeEvent {
+  id: string
+  createdAt: string
+  triggerType: TriggerType
+  triggeredBy: string | null
+  routerVersion: string | null
+  hasChanges: boolean | null
+  changeSummary: Partial<Record<keyof ConfigSummary, number>> | null
+  previousBackupId: string | null
+}
+
+export interface BackupChangeTimeline {
+  router: {
+    id: string
+    name: string
+  }
+  changes: BackupChangeEvent[]
+  unchangedCount: number
+}
+
+export interface RestoreWarning {
+  section: string
+  severity: 'warning' | 'danger'
+  message: string
+}
+
+export interface RestorePreview {
+  restore: BackupRestore
+  sections: SectionDiff[]
+  summary: BackupComparison['summary']
+  warnings: RestoreWarning[]
 }
 
 // API Request/Response Types
@@ -131,6 +304,10 @@ export interface TriggerBackupRequest {
   routerId: string
   compact?: boolean
   backupType?: BackupType
+  backupTypes?: BackupType[]
+  binaryPassword?: string
+  sections?: string[]
+  showSensitive?: boolean
 }
 
 export interface TriggerBackupResponse {
@@ -144,6 +321,7 @@ export interface ListBackupsQuery {
   companyId?: string
   status?: BackupStatus
   isPinned?: boolean
+  changedOnly?: boolean
   limit?: number
   offset?: number
 }
@@ -172,10 +350,14 @@ export interface GetDownloadUrlResponse {
   }
 }
 
+export type RestoreMethod = 'SSH' | 'API'
+
 export interface RestoreBackupRequest {
   routerId: string
   createSafetyBackup?: boolean
   restoreType?: RestoreType
+  method?: RestoreMethod
+  sections?: string[]
 }
 
 export interface RestoreBackupResponse {
@@ -204,6 +386,34 @@ export interface GetRestoreHistoryResponse {
   data: BackupRestore[]
 }
 
+export interface CreateScheduleRequest {
+  routerId?: string
+  companyId?: string
+  isEnabled?: boolean
+  cronExpression: string
+  timezone?: string
+  showSensitive?: boolean | null
+  retentionDays?: number
+  retentionWeeks?: number
+  retentionMonths?: number
+}
+
+export type UpdateScheduleRequest = Partial<CreateScheduleRequest>
+
+export interface CreateBackupJobRequest {
+  companyId?: string
+  routerType?: RouterType
+  backupType?: BackupType
+  compact?: boolean
+}
+
+// Manual schedule run, the backups continue in the background
+export interface ScheduleRunStarted {
+  scheduleId: string
+  scheduledFor: string
+  runIds: string[] // One run per target router, see the schedule's run history
+}
+
 // UI State Types
 
 export interface BackupFilters {
@@ -211,6 +421,7 @@ export interface BackupFilters {
   companyId?: string
   status?: BackupStatus | null
   isPinned?: boolean | null
+  changedOnly?: boolean
   searchQuery?: string
 }
 
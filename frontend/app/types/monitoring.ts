@@ -0,0 +1,50 @@
+/**
+ * Router Health Monitoring Types
+ */
+
+export type MetricRange = 'hour' | 'day' | 'week'
+
+export type MetricResolution = 'RAW' | 'FIVE_MINUTES' | 'ONE_HOUR'
+
+export interface InterfaceRate {
+  name: string
+  rxBps: number
+  txBps: number
+}
+
+export interface MetricPoint {
+  timestamp: string
+  cpuLoad: number | null // Percent
+  memoryUsed: number | null // Bytes
+  memoryTotal: number | null // Bytes
+  uptime: number | null // Seconds
+  temperature: number | null // Celsius
+  voltage: number | null // Volts
+  interfaces: InterfaceRate[]
+}
+
+export interface MetricHistory {
+  routerId: string
+  range: MetricRange
+  resolution: MetricResolution // RAW for an hour, 5 minute buckets for a day, hourly for a week
+  from: string
+  to: string
+  points: MetricPoint[]
+}
+
+export interface RouterHealth {
+  id: string
+  isReachable: boolean | null // Null until the first poll
+  lastSeen: string | null
+  lastPolledAt: string | null
+  lastPollError: string | null
+  metric: MetricPoint | null
+}
+
+export interface RouterPollResult {
+  routerId: string
+  reachable: boolean
+  polledAt: string
+  error?: string
+  metric?: MetricPoint
+}
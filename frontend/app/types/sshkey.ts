@@ -0,0 +1,52 @@
+import type { CompanyInfo } from '~/stores/router'
+
+/**
+ * SSH Key Management Types
+ */
+
+export type SshKeyAlgorithm = 'rsa' | 'ed25519'
+
+export interface SshKey {
+  id: string
+  companyId: string | null // Null for the global key
+  name: string
+  algorithm: SshKeyAlgorithm
+  publicKey: string
+  fingerprint: string
+  isActive: boolean // Rotated keys stay inactive until no router uses them
+  createdAt: string
+  updatedAt: string
+  company?: CompanyInfo | null
+  _count: {
+    routers: number
+  }
+}
+
+export interface CreateSshKeyRequest {
+  companyId?: string | null
+  name: string
+  algorithm?: SshKeyAlgorithm
+}
+
+export interface SshKeyRouterResult {
+  routerId: string
+  routerName: string
+  ipAddress: string
+  success: boolean
+  error?: string
+}
+
+export interface SshKeyReport {
+  keyId: string
+  total: number
+  succeeded: number
+  failed: number
+  results: SshKeyRouterResult[]
+}
+
+export interface SshKeyRotation {
+  key: SshKey
+  retiredKeyId: string
+  retiredKeyDeleted: boolean
+  report: SshKeyReport
+}